@@ -6,6 +6,36 @@ import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import { Endpoint, EndpointParameter } from '../../types';
 import { ParsedFile } from '../../types';
+import { parseBackendFile, parsePythonFile } from './parser';
+import { extractBodyParameters } from './request-body';
+import {
+  PythonModule,
+  PythonScope,
+  isPythonModule,
+  getClassBody,
+  getQualifiedName,
+  extractPythonStrings,
+  splitArguments,
+  parseCallArguments,
+  getCallArguments,
+} from './python-ast';
+import {
+  GoModule,
+  GoFunction,
+  isGoModule,
+  goLineAt,
+  findGoFunction,
+  findGoClosing,
+  getGoQualifiedName,
+  getGoCallArguments,
+  splitGoArguments,
+  readGoString,
+  parseGoStructFields,
+  getGoStructTag,
+  findGoVariableType,
+} from './go-ast';
+import * as fs from 'fs';
+import * as path from 'path';
 
 /**
  * Extract API endpoints from backend code
@@ -17,14 +47,26 @@ export function extractEndpoints(parsedFile: ParsedFile): Endpoint[] {
     return endpoints;
   }
 
+  if (isPythonModule(parsedFile.ast)) {
+    return extractPythonEndpoints(parsedFile.ast, parsedFile);
+  }
+
+  if (isGoModule(parsedFile.ast)) {
+    return extractGoEndpoints(parsedFile.ast, parsedFile);
+  }
+
   const ast = parsedFile.ast as t.File;
 
   // Detect framework type
   const hasExpress = checkFramework(parsedFile, 'express');
   const hasFastify = checkFramework(parsedFile, 'fastify');
   const hasKoa = checkFramework(parsedFile, 'koa');
+  const hasNest = checkFramework(parsedFile, '@nestjs');
 
-  if (hasExpress) {
+  // Nest controllers often import express types, so check Nest first
+  if (hasNest) {
+    endpoints.push(...extractNestRoutes(ast, parsedFile));
+  } else if (hasExpress) {
     endpoints.push(...extractExpressRoutes(ast, parsedFile));
   } else if (hasFastify) {
     endpoints.push(...extractFastifyRoutes(ast, parsedFile));
@@ -63,8 +105,8 @@ function extractExpressRoutes(ast: t.File, parsedFile: ParsedFile): Endpoint[] {
         const obj = callExpr.callee.object;
         const prop = callExpr.callee.property;
 
-        // Check if it's app or router
-        const isApp = (t.isIdentifier(obj) && (obj.name === 'app' || obj.name === 'router')) ||
+        // Check if it's app or a router (including routers bound to express.Router())
+        const isApp = isRouterReceiver(path, obj) ||
                      (t.isMemberExpression(obj) && t.isIdentifier(obj.property) && obj.property.name === 'app');
 
         if (isApp && t.isIdentifier(prop)) {
@@ -94,6 +136,30 @@ function extractExpressRoutes(ast: t.File, parsedFile: ParsedFile): Endpoint[] {
   return endpoints;
 }
 
+/**
+ * Check whether a call receiver is an app or router (app, router, or a variable bound to a router factory)
+ */
+function isRouterReceiver(callPath: NodePath, node: t.Node): boolean {
+  if (!t.isIdentifier(node)) {
+    return false;
+  }
+  if (node.name === 'app' || node.name === 'router') {
+    return true;
+  }
+  const binding = callPath.scope.getBinding(node.name);
+  return !!binding?.path.isVariableDeclarator() && isRouterFactory(binding.path.node.init);
+}
+
+/**
+ * Check whether an expression creates an Express/Koa app or router (express(), express.Router(), new Router())
+ */
+export function isRouterFactory(node: t.Node | null | undefined): boolean {
+  if (!t.isCallExpression(node) && !t.isNewExpression(node)) {
+    return false;
+  }
+  return /^(?:express|Koa|(?:\w+\.)?Router|\w+Router)$/.test(getExpressionName(node.callee) || '');
+}
+
 /**
  * Extract Express endpoint from app.method() call
  */
@@ -144,6 +210,13 @@ function extractExpressEndpoint(
     }
   }
 
+  // Body fields the handler reads (inline handlers and functions declared in this file)
+  const binding = t.isIdentifier(handlerArg) ? path.scope.getBinding(handlerArg.name) : undefined;
+  const handlerFunction = binding?.path.isFunctionDeclaration() ? binding.path.node : resolveConstant(path, handlerArg);
+  if (t.isFunction(handlerFunction)) {
+    parameters.push(...extractBodyParameters(handlerFunction));
+  }
+
   return {
     id,
     file: parsedFile.path,
@@ -204,12 +277,526 @@ function extractChainedRoutes(
   }
 }
 
+// Names commonly bound to a Fastify instance imported from another module
+const FASTIFY_INSTANCE_NAMES = ['fastify', 'app', 'server', 'instance'];
+
+// Route-level hooks that run before the handler
+const FASTIFY_HOOKS = ['onRequest', 'preParsing', 'preValidation', 'preHandler'];
+
+// Fastify schema sections and the parameter location they describe
+const FASTIFY_SCHEMA_SECTIONS: Record<string, EndpointParameter['type']> = {
+  params: 'path',
+  querystring: 'query',
+  query: 'query',
+  body: 'body',
+  headers: 'header',
+};
+
+interface FastifyRouteContext {
+  nextId: number;
+  visited: Set<string>;
+}
+
+interface FastifyScope {
+  prefix: string;
+  middleware: string[];
+}
+
+/**
+ * Extract Fastify routes (shorthand methods, fastify.route() and registered plugins)
+ */
+function extractFastifyRoutes(
+  ast: t.File,
+  parsedFile: ParsedFile,
+  base: FastifyScope = { prefix: '', middleware: [] },
+  context: FastifyRouteContext = { nextId: 0, visited: new Set() }
+): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  context.visited.add(path.resolve(parsedFile.path));
+
+  const calls: Array<NodePath<t.CallExpression>> = [];
+  const hooks = new Map<t.Node, string[]>();
+  const plugins = new Map<t.Node, { prefix: string; registration: NodePath<t.CallExpression> }>();
+
+  traverse(ast, {
+    CallExpression(callPath) {
+      const callee = callPath.node.callee;
+      if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property)) {
+        return;
+      }
+      const method = callee.property.name;
+      const args = callPath.node.arguments;
+
+      if (method === 'addHook' && t.isStringLiteral(args[0]) && FASTIFY_HOOKS.includes(args[0].value)) {
+        // Hooks apply to every route of the plugin they are added in
+        const owner = callPath.getFunctionParent()?.node || ast.program;
+        hooks.set(owner, [...(hooks.get(owner) || []), ...getHookNames(args[1])]);
+      } else if (method === 'register' && args.length > 0) {
+        const plugin = resolveFastifyPlugin(callPath, args[0]);
+        if (plugin) {
+          plugins.set(plugin, { prefix: readFastifyPrefix(args[1]), registration: callPath });
+        }
+        calls.push(callPath);
+      } else if (
+        t.isIdentifier(callee.object) &&
+        ['route', 'all', ...HTTP_METHODS.map((m) => m.toLowerCase())].includes(method) &&
+        isFastifyInstance(callPath, callee.object.name, parsedFile)
+      ) {
+        calls.push(callPath);
+      }
+    },
+  });
+
+  // Prefix and hooks in effect at a node: its plugin's registration, then hooks added in the plugin
+  const scopeOf = (nodePath: NodePath): FastifyScope => {
+    const fn = nodePath.getFunctionParent();
+    if (!fn) {
+      return {
+        prefix: base.prefix,
+        middleware: [...base.middleware, ...(hooks.get(ast.program) || [])],
+      };
+    }
+    const plugin = plugins.get(fn.node);
+    const parent = plugin ? scopeOf(plugin.registration) : scopeOf(fn);
+    return {
+      prefix: plugin ? joinRoutePaths(parent.prefix, plugin.prefix) : parent.prefix,
+      middleware: [...parent.middleware, ...(hooks.get(fn.node) || [])],
+    };
+  };
+
+  for (const callPath of calls) {
+    const callee = callPath.node.callee as t.MemberExpression;
+    const method = (callee.property as t.Identifier).name;
+    const args = callPath.node.arguments;
+    const scope = scopeOf(callPath);
+
+    if (method === 'register') {
+      // Plugins imported from another file are followed with the registered prefix
+      const source = getFastifyPluginSource(callPath, args[0]);
+      const target = source ? resolveModuleFile(parsedFile.path, source) : null;
+      if (target && !context.visited.has(target)) {
+        const pluginFile = parseBackendFile(target);
+        if (pluginFile?.ast) {
+          endpoints.push(
+            ...extractFastifyRoutes(
+              pluginFile.ast as t.File,
+              pluginFile,
+              { prefix: joinRoutePaths(scope.prefix, readFastifyPrefix(args[1])), middleware: scope.middleware },
+              context
+            )
+          );
+        }
+      }
+      continue;
+    }
+
+    // fastify.route({ method, url, handler }) or fastify.get(url, [options], handler)
+    let options: t.ObjectExpression | undefined;
+    let handlerNode: t.Node | undefined;
+    let methods: string[];
+    let routePath: string | undefined;
+
+    if (method === 'route') {
+      options = resolveObjectExpression(callPath, args[0]);
+      if (!options) {
+        continue;
+      }
+      const methodNode = getObjectProperty(options, 'method');
+      methods = (t.isArrayExpression(methodNode) ? methodNode.elements : [methodNode])
+        .filter((m): m is t.StringLiteral => t.isStringLiteral(m))
+        .map((m) => m.value.toUpperCase());
+      routePath = readRoutePath(getObjectProperty(options, 'url') || getObjectProperty(options, 'path'));
+      handlerNode = getObjectProperty(options, 'handler');
+    } else {
+      methods = method === 'all' ? [...HTTP_METHODS] : [method.toUpperCase()];
+      routePath = readRoutePath(args[0]);
+      options = resolveObjectExpression(callPath, args[1]);
+      handlerNode = args.length > 2 ? args[args.length - 1] : options ? getObjectProperty(options, 'handler') : args[1];
+    }
+
+    if (routePath === undefined || !handlerNode) {
+      continue;
+    }
+
+    const fullPath = joinRoutePaths(scope.prefix, routePath);
+    const schema = options && resolveObjectExpression(callPath, getObjectProperty(options, 'schema'));
+    const parameters = extractPathParameters(fullPath);
+    if (schema) {
+      for (const [section, type] of Object.entries(FASTIFY_SCHEMA_SECTIONS)) {
+        for (const parameter of readSchemaParameters(callPath, getObjectProperty(schema, section), type)) {
+          const existing = parameters.findIndex((p) => p.type === type && p.name === parameter.name);
+          if (existing >= 0) {
+            parameters[existing] = { ...parameter, required: parameters[existing].required || parameter.required };
+          } else {
+            parameters.push(parameter);
+          }
+        }
+      }
+    }
+
+    const routeHooks = options
+      ? FASTIFY_HOOKS.flatMap((hook) => getHookNames(getObjectProperty(options!, hook)))
+      : [];
+    const responseType = schema ? readResponseType(callPath, getObjectProperty(schema, 'response')) : undefined;
+
+    for (const httpMethod of methods) {
+      if (!HTTP_METHODS.includes(httpMethod)) {
+        continue;
+      }
+      endpoints.push({
+        id: `fastify-${++context.nextId}`,
+        file: parsedFile.path,
+        method: httpMethod as Endpoint['method'],
+        path: fullPath,
+        pathPattern: normalizePath(fullPath),
+        handler: getExpressionName(handlerNode) || 'anonymous',
+        line: callPath.node.loc?.start.line || 0,
+        parameters,
+        middleware: [...scope.middleware, ...routeHooks],
+        ...(responseType ? { responseType } : {}),
+      });
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Check whether an identifier refers to a Fastify instance
+ */
+function isFastifyInstance(callPath: NodePath, name: string, parsedFile: ParsedFile): boolean {
+  const binding = callPath.scope.getBinding(name);
+  if (!binding) {
+    return FASTIFY_INSTANCE_NAMES.includes(name);
+  }
+
+  // Plugins receive the instance as their first argument: async function routes(fastify, opts)
+  if (binding.kind === 'param') {
+    return binding.path.key === 0;
+  }
+
+  // const app = Fastify({ logger: true }) / require('fastify')()
+  if (binding.path.isVariableDeclarator()) {
+    const init = binding.path.node.init;
+    if (t.isCallExpression(init)) {
+      const callee = t.isCallExpression(init.callee) ? init.callee : init;
+      const factory = getExpressionName(callee.callee) || '';
+      const fastifyImport = parsedFile.imports.find((imp) => imp.from === 'fastify')?.default;
+      if (/fastify/i.test(factory) || factory === fastifyImport || (t.isStringLiteral(callee.arguments[0]) && callee.arguments[0].value === 'fastify')) {
+        return true;
+      }
+    }
+  }
+
+  return FASTIFY_INSTANCE_NAMES.includes(name);
+}
+
+/**
+ * Resolve a registered plugin argument to its function node in this file
+ */
+function resolveFastifyPlugin(callPath: NodePath, node: t.Node): t.Node | undefined {
+  // fp(async (fastify) => { ... }) wraps the plugin function
+  if (t.isCallExpression(node) && node.arguments.length > 0 && !isRequireOrImport(node)) {
+    return resolveFastifyPlugin(callPath, node.arguments[0]);
+  }
+  if (t.isFunction(node)) {
+    return node;
+  }
+  if (t.isIdentifier(node)) {
+    const binding = callPath.scope.getBinding(node.name);
+    if (binding?.path.isFunctionDeclaration()) {
+      return binding.path.node;
+    }
+    if (binding?.path.isVariableDeclarator() && binding.path.node.init) {
+      const init = binding.path.node.init;
+      return t.isCallExpression(init) && !isRequireOrImport(init)
+        ? resolveFastifyPlugin(callPath, init.arguments[0])
+        : t.isFunction(init)
+          ? init
+          : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the module specifier of a plugin registered from another file
+ */
+function getFastifyPluginSource(callPath: NodePath, node: t.Node): string | undefined {
+  if (t.isCallExpression(node) && isRequireOrImport(node) && t.isStringLiteral(node.arguments[0])) {
+    return node.arguments[0].value;
+  }
+  if (t.isIdentifier(node)) {
+    const binding = callPath.scope.getBinding(node.name);
+    if (binding?.kind === 'module' && t.isImportDeclaration(binding.path.parent)) {
+      return binding.path.parent.source.value;
+    }
+    const init = binding?.path.isVariableDeclarator() ? binding.path.node.init : undefined;
+    if (init && t.isCallExpression(init) && isRequireOrImport(init) && t.isStringLiteral(init.arguments[0])) {
+      return init.arguments[0].value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a relative module specifier to a source file on disk
+ */
+function resolveModuleFile(fromFile: string, source: string): string | null {
+  if (!source.startsWith('.')) {
+    return null;
+  }
+  const base = path.resolve(path.dirname(fromFile), source);
+  const candidates = ['', '.ts', '.js', '.mjs', '.cjs'].flatMap((ext) => [
+    base + ext,
+    path.join(base, `index${ext || '.ts'}`),
+  ]);
+  return candidates.find((file) => /\.[cm]?[jt]s$/.test(file) && fs.existsSync(file) && fs.statSync(file).isFile()) || null;
+}
+
+/**
+ * Check whether a call is require('x') or import('x')
+ */
+function isRequireOrImport(node: t.CallExpression): boolean {
+  return (t.isIdentifier(node.callee) && node.callee.name === 'require') || t.isImport(node.callee);
+}
+
+/**
+ * Read the prefix from register() options ({ prefix: '/v1' })
+ */
+function readFastifyPrefix(node: t.Node | undefined): string {
+  const prefix = t.isObjectExpression(node) ? getObjectProperty(node, 'prefix') : undefined;
+  return readRoutePath(prefix) || '';
+}
+
+/**
+ * Read a route path from a string or expression-free template literal
+ */
+function readRoutePath(node: t.Node | undefined): string | undefined {
+  if (t.isStringLiteral(node)) {
+    return node.value;
+  }
+  if (t.isTemplateLiteral(node)) {
+    return extractTemplateString(node);
+  }
+  return undefined;
+}
+
+/**
+ * Get an object literal's property value by key
+ */
+function getObjectProperty(node: t.ObjectExpression, key: string): t.Node | undefined {
+  for (const property of node.properties) {
+    if (!t.isObjectProperty(property) && !t.isObjectMethod(property)) {
+      continue;
+    }
+    const name = t.isIdentifier(property.key)
+      ? property.key.name
+      : t.isStringLiteral(property.key) || t.isNumericLiteral(property.key)
+        ? String(property.key.value)
+        : undefined;
+    if (name === key) {
+      return t.isObjectProperty(property) ? property.value : property;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a node to an object literal, following const references in scope
+ */
+function resolveObjectExpression(callPath: NodePath, node: t.Node | undefined): t.ObjectExpression | undefined {
+  const resolved = resolveConstant(callPath, node);
+  return t.isObjectExpression(resolved) ? resolved : undefined;
+}
+
+/**
+ * Follow an identifier to the value it was initialized with
+ */
+function resolveConstant(callPath: NodePath, node: t.Node | undefined): t.Node | undefined {
+  let current = node;
+  for (let depth = 0; depth < 5 && t.isIdentifier(current); depth++) {
+    const binding = callPath.scope.getBinding(current.name);
+    const init = binding?.path.isVariableDeclarator() ? binding.path.node.init : undefined;
+    if (!init) {
+      break;
+    }
+    current = t.isTSAsExpression(init) ? init.expression : init;
+  }
+  return current;
+}
+
+/**
+ * Turn a JSON schema (or TypeBox Type.Object) section into endpoint parameters
+ */
+function readSchemaParameters(
+  callPath: NodePath,
+  node: t.Node | undefined,
+  type: EndpointParameter['type']
+): EndpointParameter[] {
+  const schema = resolveConstant(callPath, node);
+  const parameters: EndpointParameter[] = [];
+
+  // Type.Object({ id: Type.String(), page: Type.Optional(Type.Number()) })
+  if (t.isCallExpression(schema) && getTypeBoxKind(schema) === 'object') {
+    const properties = resolveObjectExpression(callPath, schema.arguments[0]);
+    for (const property of properties?.properties || []) {
+      if (t.isObjectProperty(property) && (t.isIdentifier(property.key) || t.isStringLiteral(property.key))) {
+        const value = property.value;
+        const optional = t.isCallExpression(value) && getTypeBoxKind(value) === 'optional';
+        parameters.push({
+          name: t.isIdentifier(property.key) ? property.key.name : property.key.value,
+          type,
+          required: type === 'path' || !optional,
+          typeHint: readSchemaType(callPath, optional ? (value as t.CallExpression).arguments[0] : value),
+        });
+      }
+    }
+    return parameters;
+  }
+
+  if (!t.isObjectExpression(schema)) {
+    return parameters;
+  }
+
+  const properties = resolveObjectExpression(callPath, getObjectProperty(schema, 'properties'));
+  const requiredNode = resolveConstant(callPath, getObjectProperty(schema, 'required'));
+  const required = t.isArrayExpression(requiredNode)
+    ? requiredNode.elements.filter((e): e is t.StringLiteral => t.isStringLiteral(e)).map((e) => e.value)
+    : [];
+
+  for (const property of properties?.properties || []) {
+    if (t.isObjectProperty(property) && (t.isIdentifier(property.key) || t.isStringLiteral(property.key))) {
+      const name = t.isIdentifier(property.key) ? property.key.name : property.key.value;
+      parameters.push({
+        name,
+        type,
+        required: type === 'path' || required.includes(name),
+        typeHint: readSchemaType(callPath, property.value),
+      });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Describe a JSON schema / TypeBox node as a type name
+ */
+function readSchemaType(callPath: NodePath, node: t.Node | undefined): string | undefined {
+  const schema = resolveConstant(callPath, node);
+
+  if (t.isCallExpression(schema)) {
+    const kind = getTypeBoxKind(schema);
+    if (kind === 'array') {
+      const items = readSchemaType(callPath, schema.arguments[0]);
+      return items ? `${items}[]` : 'array';
+    }
+    if (kind === 'optional') {
+      return readSchemaType(callPath, schema.arguments[0]);
+    }
+    if (kind === 'ref') {
+      return readNamedSchemaType(callPath, schema.arguments[0]);
+    }
+    return kind;
+  }
+
+  if (!t.isObjectExpression(schema)) {
+    return undefined;
+  }
+
+  const ref = getObjectProperty(schema, '$ref');
+  if (t.isStringLiteral(ref)) {
+    return ref.value.replace(/#.*$/, '').split('/').pop() || ref.value;
+  }
+  const title = getObjectProperty(schema, 'title');
+  if (t.isStringLiteral(title)) {
+    return title.value;
+  }
+
+  const typeNode = getObjectProperty(schema, 'type');
+  const typeName = t.isStringLiteral(typeNode)
+    ? typeNode.value
+    : t.isArrayExpression(typeNode)
+      ? typeNode.elements.filter((e): e is t.StringLiteral => t.isStringLiteral(e)).map((e) => e.value).join(' | ')
+      : undefined;
+  if (typeName === 'array') {
+    const items = readSchemaType(callPath, getObjectProperty(schema, 'items'));
+    return items ? `${items}[]` : 'array';
+  }
+  return typeName;
+}
+
+/**
+ * Read the response type from a route's response schema (first 2xx entry)
+ */
+function readResponseType(callPath: NodePath, node: t.Node | undefined): string | undefined {
+  const response = resolveObjectExpression(callPath, node);
+  if (!response) {
+    return undefined;
+  }
+
+  const success = response.properties
+    .filter((p): p is t.ObjectProperty => t.isObjectProperty(p))
+    .find((p) => {
+      const key = t.isIdentifier(p.key) ? p.key.name : t.isStringLiteral(p.key) || t.isNumericLiteral(p.key) ? String(p.key.value) : '';
+      return /^2(?:\d\d|xx)$/.test(key);
+    });
+  if (!success) {
+    return undefined;
+  }
+
+  return readNamedSchemaType(callPath, success.value);
+}
+
+/**
+ * Describe a schema, preferring a constant's name over a bare "object" type
+ */
+function readNamedSchemaType(callPath: NodePath, node: t.Node | undefined): string | undefined {
+  const described = readSchemaType(callPath, node);
+  if (t.isIdentifier(node) && (!described || ['object', 'array'].includes(described))) {
+    return node.name;
+  }
+  return described;
+}
+
+/**
+ * Get the TypeBox builder kind of a call (Type.Object(...) -> object)
+ */
+function getTypeBoxKind(node: t.CallExpression): string | undefined {
+  const callee = node.callee;
+  if (t.isMemberExpression(callee) && t.isIdentifier(callee.object) && t.isIdentifier(callee.property)) {
+    return /^(?:Type|T|t)$/.test(callee.object.name) ? callee.property.name.toLowerCase() : undefined;
+  }
+  return undefined;
+}
+
 /**
- * Extract Fastify routes (simplified - similar to Express)
+ * Get the names of hook functions (a single hook or an array of hooks)
  */
-function extractFastifyRoutes(ast: t.File, parsedFile: ParsedFile): Endpoint[] {
-  // Fastify uses similar patterns to Express
-  return extractExpressRoutes(ast, parsedFile);
+function getHookNames(node: t.Node | undefined): string[] {
+  const hooks = t.isArrayExpression(node) ? node.elements : [node];
+  return hooks.map((hook) => (hook ? getExpressionName(hook) : undefined)).filter((name): name is string => !!name);
+}
+
+/**
+ * Get a dotted name for an identifier, member expression or call (app.auth, verify())
+ */
+export function getExpressionName(node: t.Node | null | undefined): string | undefined {
+  if (t.isIdentifier(node)) {
+    return node.name;
+  }
+  if (t.isThisExpression(node)) {
+    return 'this';
+  }
+  if (t.isMemberExpression(node) && t.isIdentifier(node.property) && !node.computed) {
+    const object = getExpressionName(node.object);
+    return object ? `${object}.${node.property.name}` : undefined;
+  }
+  if (t.isCallExpression(node)) {
+    return getExpressionName(node.callee);
+  }
+  return undefined;
 }
 
 /**
@@ -228,7 +815,7 @@ function extractKoaRoutes(ast: t.File, parsedFile: ParsedFile): Endpoint[] {
         const prop = callExpr.callee.property;
 
         if (
-          (t.isIdentifier(obj) && obj.name === 'router') &&
+          isRouterReceiver(path, obj) &&
           t.isIdentifier(prop) &&
           ['get', 'post', 'put', 'delete', 'patch', 'all'].includes(prop.name.toLowerCase())
         ) {
@@ -251,28 +838,1741 @@ function extractKoaRoutes(ast: t.File, parsedFile: ParsedFile): Endpoint[] {
   return endpoints;
 }
 
+/** Nest method decorators that declare routes */
+const NEST_ROUTE_DECORATORS = ['Get', 'Post', 'Put', 'Delete', 'Patch', 'All'];
+
+/** Nest parameter decorators and the request part they bind */
+const NEST_PARAMETER_DECORATORS: Record<string, EndpointParameter['type']> = {
+  Param: 'path',
+  Query: 'query',
+  Body: 'body',
+  Headers: 'header',
+};
+
+/** Nest class/method decorators that wrap handlers like middleware */
+const NEST_MIDDLEWARE_DECORATORS = ['UseGuards', 'UseInterceptors'];
+
+interface NestDtoField {
+  name: string;
+  required: boolean;
+  typeHint?: string;
+}
+
 /**
- * Normalize path pattern
+ * Extract NestJS routes from @Controller classes
+ */
+function extractNestRoutes(ast: t.File, parsedFile: ParsedFile): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  let endpointId = 0;
+
+  traverse(ast, {
+    ClassDeclaration(classPath) {
+      const controller = getDecoratorCall(classPath.node.decorators, 'Controller');
+      if (!controller || !classPath.node.id) {
+        return;
+      }
+      // @Controller('users') / @Controller({ path: 'users' })
+      const options = controller.arguments[0];
+      const prefix = readNestPath(t.isObjectExpression(options) ? getObjectProperty(options, 'path') : options);
+      const classMiddleware = getNestMiddleware(classPath.node.decorators);
+
+      for (const member of classPath.node.body.body) {
+        if (!t.isClassMethod(member) || !t.isIdentifier(member.key)) {
+          continue;
+        }
+        const handler = `${classPath.node.id.name}.${member.key.name}`;
+        const middleware = [...classMiddleware, ...getNestMiddleware(member.decorators)];
+        const decoratorParameters = readNestParameters(member, parsedFile);
+        const responseType = readTypeAnnotation(member.returnType);
+
+        for (const name of NEST_ROUTE_DECORATORS) {
+          const route = getDecoratorCall(member.decorators, name);
+          if (!route) {
+            continue;
+          }
+          const routePath = joinRoutePaths(prefix, readNestPath(route.arguments[0]));
+          // @Param('id') id: number adds the type to the path parameter
+          const pathParameters = extractPathParameters(routePath).map(
+            (p) => decoratorParameters.find((d) => d.type === 'path' && d.name === p.name) || p
+          );
+
+          for (const method of name === 'All' ? HTTP_METHODS : [name.toUpperCase()]) {
+            endpoints.push({
+              id: `nest-${++endpointId}`,
+              file: parsedFile.path,
+              method: method as Endpoint['method'],
+              path: routePath,
+              pathPattern: normalizePath(routePath),
+              handler,
+              line: member.loc?.start.line || 0,
+              parameters: dedupeParameters([...pathParameters, ...decoratorParameters]),
+              middleware,
+              ...(responseType ? { responseType } : {}),
+            });
+          }
+        }
+      }
+    },
+  });
+
+  return endpoints;
+}
+
+/**
+ * Find a decorator by name and return its call expression (@Get(':id'))
  */
-function normalizePath(path: string): string {
-  // Convert Express params :id to pattern
-  return path.replace(/:([a-zA-Z_][a-zA-Z0-9_]*)/g, '{param}');
+function getDecoratorCall(decorators: t.Decorator[] | null | undefined, name: string): t.CallExpression | undefined {
+  for (const decorator of decorators || []) {
+    const expression = decorator.expression;
+    if (t.isCallExpression(expression) && t.isIdentifier(expression.callee, { name })) {
+      return expression;
+    }
+  }
+  return undefined;
 }
 
 /**
- * Extract path parameters
+ * Read a Nest route path from a string or array of paths (first path wins)
+ */
+function readNestPath(node: t.Node | null | undefined): string {
+  const first = t.isArrayExpression(node) ? node.elements[0] : node;
+  return (first && readRoutePath(first)) || '';
+}
+
+/**
+ * Collect guard and interceptor names from @UseGuards/@UseInterceptors decorators
+ */
+function getNestMiddleware(decorators: t.Decorator[] | null | undefined): string[] {
+  const middleware: string[] = [];
+  for (const name of NEST_MIDDLEWARE_DECORATORS) {
+    for (const arg of getDecoratorCall(decorators, name)?.arguments || []) {
+      // @UseGuards(new RolesGuard()) / @UseGuards(AuthGuard('jwt'))
+      const guard = getExpressionName(t.isNewExpression(arg) ? arg.callee : arg);
+      if (guard) {
+        middleware.push(guard);
+      }
+    }
+  }
+  return middleware;
+}
+
+/**
+ * Turn @Param/@Query/@Body/@Headers handler arguments into endpoint parameters
  */
-function extractPathParameters(path: string): EndpointParameter[] {
+function readNestParameters(method: t.ClassMethod, parsedFile: ParsedFile): EndpointParameter[] {
   const parameters: EndpointParameter[] = [];
-  const paramRegex = /:([a-zA-Z_][a-zA-Z0-9_]*)/g;
-  let match;
 
-  while ((match = paramRegex.exec(path)) !== null) {
-    parameters.push({
-      name: match[1],
-      type: 'path',
-      required: true,
-    });
+  for (const param of method.params) {
+    const decorated = t.isTSParameterProperty(param) ? param.parameter : param;
+    const identifier = t.isAssignmentPattern(decorated) ? decorated.left : decorated;
+    if (!t.isIdentifier(identifier)) {
+      continue;
+    }
+    const decorators = (param as t.Identifier | t.AssignmentPattern | t.TSParameterProperty).decorators || identifier.decorators;
+    const source = Object.keys(NEST_PARAMETER_DECORATORS).find((name) => getDecoratorCall(decorators, name));
+    if (!source) {
+      continue;
+    }
+    const type = NEST_PARAMETER_DECORATORS[source];
+    const key = readRoutePath(getDecoratorCall(decorators, source)!.arguments[0]);
+    const typeHint = readTypeAnnotation(identifier.typeAnnotation);
+    const required = type === 'path' || (!identifier.optional && !t.isAssignmentPattern(decorated));
+
+    // @Query() filters: ListUsersDto expands to the DTO's properties
+    const fields = !key && typeHint ? resolveNestDto(parsedFile, typeHint) : null;
+    if (fields) {
+      parameters.push(
+        ...fields.map((field) => ({
+          name: field.name,
+          type,
+          required: type === 'path' || field.required,
+          ...(field.typeHint ? { typeHint: field.typeHint } : {}),
+        }))
+      );
+    } else {
+      parameters.push({ name: key || identifier.name, type, required, ...(typeHint ? { typeHint } : {}) });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Resolve a DTO class (in this file or a relative import) to its validated properties
+ */
+function resolveNestDto(parsedFile: ParsedFile, name: string, depth = 0): NestDtoField[] | null {
+  const ast = parsedFile.ast as t.File;
+  if (depth > 5 || !t.isFile(ast)) {
+    return null;
+  }
+
+  for (const statement of ast.program.body) {
+    const declaration =
+      t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement) ? statement.declaration : statement;
+    if (t.isClassDeclaration(declaration) && declaration.id?.name === name) {
+      return readNestDtoClass(declaration, parsedFile, depth);
+    }
+  }
+
+  // import { CreateUserDto } from './dto/create-user.dto'
+  for (const statement of ast.program.body) {
+    if (!t.isImportDeclaration(statement)) {
+      continue;
+    }
+    const specifier = statement.specifiers.find((s) => s.local.name === name);
+    const file = specifier && resolveModuleFile(parsedFile.path, statement.source.value);
+    const imported = file && parseBackendFile(file);
+    if (specifier && imported) {
+      const importedName =
+        t.isImportSpecifier(specifier) && t.isIdentifier(specifier.imported) ? specifier.imported.name : name;
+      return resolveNestDto(imported, importedName, depth + 1);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read DTO class properties, including PartialType/PickType/OmitType and plain base classes
+ */
+function readNestDtoClass(declaration: t.ClassDeclaration, parsedFile: ParsedFile, depth: number): NestDtoField[] {
+  const fields: NestDtoField[] = [];
+  const base = declaration.superClass;
+
+  if (t.isIdentifier(base)) {
+    fields.push(...(resolveNestDto(parsedFile, base.name, depth + 1) || []));
+  } else if (t.isCallExpression(base) && t.isIdentifier(base.callee) && t.isIdentifier(base.arguments[0])) {
+    const inherited = resolveNestDto(parsedFile, base.arguments[0].name, depth + 1) || [];
+    const keys = t.isArrayExpression(base.arguments[1])
+      ? base.arguments[1].elements.map((e) => (t.isStringLiteral(e) ? e.value : '')).filter((key) => key)
+      : [];
+    if (base.callee.name === 'PartialType') {
+      fields.push(...inherited.map((field) => ({ ...field, required: false })));
+    } else if (base.callee.name === 'PickType') {
+      fields.push(...inherited.filter((field) => keys.includes(field.name)));
+    } else if (base.callee.name === 'OmitType') {
+      fields.push(...inherited.filter((field) => !keys.includes(field.name)));
+    }
+  }
+
+  for (const member of declaration.body.body) {
+    if (!t.isClassProperty(member) || !t.isIdentifier(member.key) || member.static) {
+      continue;
+    }
+    const typeHint = readTypeAnnotation(member.typeAnnotation);
+    const field: NestDtoField = {
+      name: member.key.name,
+      required: !member.optional && !member.value && !getDecoratorCall(member.decorators, 'IsOptional'),
+      ...(typeHint ? { typeHint } : {}),
+    };
+    const index = fields.findIndex((f) => f.name === field.name);
+    if (index === -1) {
+      fields.push(field);
+    } else {
+      fields[index] = field;
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Render a TypeScript type annotation as a type hint, unwrapping Promise and Observable
+ */
+function readTypeAnnotation(node: t.Node | null | undefined): string | undefined {
+  if (t.isTSTypeAnnotation(node)) {
+    return readTypeAnnotation(node.typeAnnotation);
+  }
+  if (node && /^TS\w+Keyword$/.test(node.type)) {
+    return node.type.slice(2, -'Keyword'.length).toLowerCase();
+  }
+  if (t.isTSArrayType(node)) {
+    return readArrayType(node.elementType);
+  }
+  if (t.isTSUnionType(node)) {
+    const types = node.types
+      .filter((type) => !t.isTSNullKeyword(type) && !t.isTSUndefinedKeyword(type))
+      .map((type) => readTypeAnnotation(type));
+    return types.every((type) => type) ? types.join(' | ') : undefined;
+  }
+  if (t.isTSLiteralType(node) && (t.isStringLiteral(node.literal) || t.isNumericLiteral(node.literal))) {
+    return JSON.stringify(node.literal.value);
+  }
+  if (t.isTSTypeReference(node)) {
+    const name = t.isIdentifier(node.typeName) ? node.typeName.name : node.typeName.right.name;
+    const typeArgument = node.typeParameters?.params[0];
+    if (['Promise', 'Observable'].includes(name) && typeArgument) {
+      return readTypeAnnotation(typeArgument);
+    }
+    if (name === 'Array' && typeArgument) {
+      return readArrayType(typeArgument);
+    }
+    return name;
+  }
+  return undefined;
+}
+
+/**
+ * Render an array type hint, parenthesizing union element types
+ */
+function readArrayType(element: t.Node): string | undefined {
+  const type = readTypeAnnotation(element);
+  return type ? (type.includes(' | ') ? `(${type})[]` : `${type}[]`) : undefined;
+}
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+// Framework-injected handler arguments that are not request parameters
+const PYTHON_INJECTED_TYPES =
+  /^(?:Request|Response|BackgroundTasks|WebSocket|HTTPConnection|Session|AsyncSession)$/;
+
+// Django generic and DRF API views that implement handlers in their base class
+const DJANGO_GENERIC_VIEW_METHODS: Record<string, string[]> = {
+  View: ['GET'],
+  TemplateView: ['GET'],
+  ListView: ['GET'],
+  DetailView: ['GET'],
+  RedirectView: ['GET'],
+  CreateView: ['GET', 'POST'],
+  UpdateView: ['GET', 'POST'],
+  DeleteView: ['GET', 'POST'],
+  FormView: ['GET', 'POST'],
+  ListAPIView: ['GET'],
+  RetrieveAPIView: ['GET'],
+  CreateAPIView: ['POST'],
+  ListCreateAPIView: ['GET', 'POST'],
+  UpdateAPIView: ['PUT', 'PATCH'],
+  DestroyAPIView: ['DELETE'],
+  RetrieveUpdateAPIView: ['GET', 'PUT', 'PATCH'],
+  RetrieveDestroyAPIView: ['GET', 'DELETE'],
+  RetrieveUpdateDestroyAPIView: ['GET', 'PUT', 'PATCH', 'DELETE'],
+};
+
+// DRF viewset actions: [HTTP method, detail route]
+const DRF_VIEWSET_ACTIONS: Record<string, [string, boolean]> = {
+  list: ['GET', false],
+  create: ['POST', false],
+  retrieve: ['GET', true],
+  update: ['PUT', true],
+  partial_update: ['PATCH', true],
+  destroy: ['DELETE', true],
+};
+
+const DRF_VIEWSET_BASE_ACTIONS: Record<string, string[]> = {
+  ModelViewSet: ['list', 'create', 'retrieve', 'update', 'partial_update', 'destroy'],
+  ReadOnlyModelViewSet: ['list', 'retrieve'],
+  ListModelMixin: ['list'],
+  CreateModelMixin: ['create'],
+  RetrieveModelMixin: ['retrieve'],
+  UpdateModelMixin: ['update', 'partial_update'],
+  DestroyModelMixin: ['destroy'],
+};
+
+interface DjangoRouteContext {
+  nextId: number;
+  visited: Set<string>;
+  modules: Map<string, ParsedFile | null>;
+}
+
+interface PythonDefinition {
+  module: PythonModule;
+  parsedFile: ParsedFile;
+  scope: PythonScope;
+}
+
+/**
+ * Extract endpoints from a Python module (FastAPI, Flask, Django)
+ */
+function extractPythonEndpoints(module: PythonModule, parsedFile: ParsedFile): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+
+  const hasFastAPI = checkFramework(parsedFile, 'fastapi');
+  const hasFlask = checkFramework(parsedFile, 'flask');
+
+  if (hasFastAPI) {
+    endpoints.push(...extractDecoratedPythonRoutes(module, parsedFile, 'fastapi'));
+  } else if (hasFlask) {
+    endpoints.push(...extractDecoratedPythonRoutes(module, parsedFile, 'flask'));
+  }
+
+  if (module.statements.some((s) => /^urlpatterns\s*(?::[^=]+)?\+?=/.test(s.text))) {
+    endpoints.push(
+      ...extractDjangoRoutes(module, parsedFile, '', {
+        nextId: 0,
+        visited: new Set(),
+        modules: new Map(),
+      })
+    );
+  }
+
+  return endpoints;
+}
+
+/**
+ * Extract FastAPI/Flask routes declared with decorators (@app.get, @bp.route)
+ */
+function extractDecoratedPythonRoutes(
+  module: PythonModule,
+  parsedFile: ParsedFile,
+  framework: 'fastapi' | 'flask'
+): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  let endpointId = 0;
+
+  const prefixes = collectPythonRouterPrefixes(module);
+  const models = collectPydanticModels(module);
+
+  const addEndpoints = (
+    scope: PythonScope,
+    routePath: string,
+    methods: string[],
+    line: number,
+    middleware: string[],
+    options: Record<string, string> = {}
+  ) => {
+    const pathParameters = extractPathParameters(routePath);
+    let parameters: EndpointParameter[];
+    const routeMiddleware = [...middleware, ...extractDependencyNames(options.dependencies || '')];
+
+    if (framework === 'fastapi') {
+      const extracted = extractFastAPIParameters(module, scope, pathParameters, models);
+      parameters = extracted.parameters;
+      routeMiddleware.push(...extracted.dependencies);
+    } else {
+      parameters = [...pathParameters, ...extractRequestParameters(module, scope)];
+    }
+
+    for (const method of methods) {
+      if (!HTTP_METHODS.includes(method)) {
+        continue;
+      }
+      endpoints.push({
+        id: `${framework}-${++endpointId}`,
+        file: parsedFile.path,
+        method: method as Endpoint['method'],
+        path: routePath,
+        pathPattern: normalizePath(routePath),
+        handler: getQualifiedName(scope),
+        line,
+        parameters,
+        middleware: routeMiddleware,
+        responseType: options.response_model || readReturnAnnotation(module, scope),
+      });
+    }
+  };
+
+  for (const scope of module.scopes) {
+    if (scope.type !== 'def') {
+      continue;
+    }
+
+    const routes: Array<{ path: string; methods: string[]; options: Record<string, string> }> = [];
+    const middleware: string[] = [];
+
+    for (const decorator of scope.decorators) {
+      const match = decorator.match(/^([\w.]+)\.(get|post|put|delete|patch|route|api_route)\(/);
+      if (!match) {
+        middleware.push(decorator.replace(/\([\s\S]*$/, ''));
+        continue;
+      }
+
+      const { positional, keywords } = parseCallArguments(
+        getCallArguments(decorator, match[0].length - 1)
+      );
+      const routePath = readPythonString(positional[0] ?? keywords.path ?? keywords.rule);
+      if (routePath === undefined) {
+        continue;
+      }
+
+      const methods = ['route', 'api_route'].includes(match[2])
+        ? keywords.methods
+          ? extractPythonStrings(keywords.methods).map((m) => m.value.toUpperCase())
+          : ['GET']
+        : [match[2].toUpperCase()];
+      const receiver = match[1].split('.').pop()!;
+
+      routes.push({
+        path: joinRoutePaths(prefixes.get(receiver) || '', routePath),
+        methods,
+        options: keywords,
+      });
+    }
+
+    for (const route of routes) {
+      addEndpoints(scope, route.path, route.methods, scope.line, middleware, route.options);
+    }
+  }
+
+  // Flask: app.add_url_rule('/users', view_func=UserAPI.as_view('users'))
+  for (const statement of module.statements) {
+    const match = statement.text.match(/^([\w.]+)\.add_url_rule\(/);
+    if (!match) {
+      continue;
+    }
+
+    const { positional, keywords } = parseCallArguments(
+      getCallArguments(statement.text, match[0].length - 1)
+    );
+    const rule = readPythonString(positional[0] ?? keywords.rule);
+    const viewFunc = keywords.view_func ?? positional[2];
+    if (rule === undefined || !viewFunc) {
+      continue;
+    }
+
+    const routePath = joinRoutePaths(prefixes.get(match[1].split('.').pop()!) || '', rule);
+    const declaredMethods = keywords.methods
+      ? extractPythonStrings(keywords.methods).map((m) => m.value.toUpperCase())
+      : undefined;
+    const classView = viewFunc.match(/^(\w+)\.as_view\(/);
+
+    if (classView) {
+      const classScope = findTopLevelScope(module, classView[1], 'class');
+      for (const { method, scope } of classScope ? getClassViewHandlers(module, classScope) : []) {
+        if (!declaredMethods || declaredMethods.includes(method)) {
+          addEndpoints(scope, routePath, [method], statement.line, classScope!.decorators);
+        }
+      }
+    } else {
+      const scope = findTopLevelScope(module, viewFunc, 'def');
+      if (scope) {
+        addEndpoints(scope, routePath, declaredMethods || ['GET'], statement.line, []);
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Collect route prefixes for FastAPI routers and Flask blueprints in a module
+ */
+function collectPythonRouterPrefixes(module: PythonModule): Map<string, string> {
+  const prefixes = new Map<string, string>();
+
+  for (const statement of module.statements) {
+    const create = statement.text.match(
+      /^(\w+)\s*(?::[^=]+)?=\s*(?:\w+\.)?(FastAPI|APIRouter|Flask|Blueprint)\(/
+    );
+    if (create) {
+      const { keywords } = parseCallArguments(getCallArguments(statement.text, create[0].length - 1));
+      prefixes.set(create[1], readPythonString(keywords.prefix ?? keywords.url_prefix) || '');
+      continue;
+    }
+
+    // app.include_router(router, prefix='/api') / app.register_blueprint(bp, url_prefix='/api')
+    const include = statement.text.match(/^(\w+)\.(include_router|register_blueprint)\(/);
+    if (include) {
+      const { positional, keywords } = parseCallArguments(
+        getCallArguments(statement.text, include[0].length - 1)
+      );
+      const child = positional[0]?.split('.').pop();
+      if (child && prefixes.has(child)) {
+        const mountPath = readPythonString(keywords.prefix ?? keywords.url_prefix) || '';
+        prefixes.set(
+          child,
+          joinRoutePaths(joinRoutePaths(prefixes.get(include[1]) || '', mountPath), prefixes.get(child)!)
+        );
+      }
+    }
+  }
+
+  return prefixes;
+}
+
+/**
+ * Collect Pydantic model fields declared in a module
+ */
+function collectPydanticModels(module: PythonModule): Map<string, EndpointParameter[]> {
+  const models = new Map<string, EndpointParameter[]>();
+
+  for (const scope of module.scopes) {
+    if (scope.type !== 'class') {
+      continue;
+    }
+
+    const parents = scope.bases.filter((base) => models.has(base));
+    const isModel =
+      parents.length > 0 ||
+      scope.bases.some((base) => /(?:^|\.)(?:BaseModel|SQLModel)$/.test(base));
+    if (!isModel) {
+      continue;
+    }
+
+    const fields: EndpointParameter[] = parents.flatMap((base) => models.get(base)!);
+    for (const statement of getClassBody(module, scope)) {
+      const match = statement.text.match(/^(\w+)\s*:\s*([^=]+?)\s*(?:=\s*([\s\S]+))?$/);
+      if (!match || match[1].startsWith('_') || match[1] === 'model_config') {
+        continue;
+      }
+
+      const [, name, typeHint, defaultValue] = match;
+      const fieldDefault = defaultValue?.match(/^(?:\w+\.)?Field\(/)
+        ? parseCallArguments(getCallArguments(defaultValue, defaultValue.indexOf('('))).positional[0]
+        : defaultValue;
+
+      fields.push({
+        name,
+        type: 'body',
+        required: !isOptionalPythonType(typeHint) && (fieldDefault === undefined || fieldDefault === '...'),
+        typeHint,
+      });
+    }
+    models.set(scope.name, fields);
+  }
+
+  return models;
+}
+
+/**
+ * Extract FastAPI handler parameters and dependencies from its signature
+ */
+function extractFastAPIParameters(
+  module: PythonModule,
+  scope: PythonScope,
+  pathParameters: EndpointParameter[],
+  models: Map<string, EndpointParameter[]>
+): { parameters: EndpointParameter[]; dependencies: string[] } {
+  const parameters = pathParameters.map((p) => ({ ...p }));
+  const dependencies: string[] = [];
+  const enums = new Set(
+    module.scopes
+      .filter((s) => s.type === 'class' && s.bases.some((base) => /Enum$/.test(base)))
+      .map((s) => s.name)
+  );
+
+  for (const param of splitArguments(scope.params)) {
+    const match = param.match(/^(\w+)\s*(?::\s*([^=]+?))?\s*(?:=\s*([\s\S]+))?$/);
+    if (!match || match[1] === 'self' || match[1] === 'cls') {
+      continue;
+    }
+
+    const name = match[1];
+    let annotation = match[2]?.trim() || '';
+    let marker = match[3];
+
+    // Annotated[str, Query(max_length=50)]
+    const annotated = annotation.match(/^Annotated\[([\s\S]+)\]$/);
+    if (annotated) {
+      const parts = splitArguments(annotated[1]);
+      annotation = parts[0];
+      marker = parts.slice(1).find((part) => /^(?:\w+\.)?\w+\(/.test(part)) ?? marker;
+    }
+
+    const markerMatch = marker?.match(
+      /^(?:\w+\.)?(Query|Path|Body|Header|Cookie|Form|File|Depends|Security)\(/
+    );
+    const kind = markerMatch?.[1];
+    const markerArgs = markerMatch
+      ? parseCallArguments(getCallArguments(marker!, markerMatch[0].length - 1))
+      : undefined;
+
+    if (kind === 'Depends' || kind === 'Security') {
+      dependencies.push(markerArgs!.positional[0] || annotation || name);
+      continue;
+    }
+
+    const typeHint = annotation || undefined;
+    const baseType = stripOptionalPythonType(annotation);
+    const defaultValue = markerArgs ? markerArgs.positional[0] ?? markerArgs.keywords.default : marker;
+    const required =
+      !isOptionalPythonType(annotation) && (defaultValue === undefined || defaultValue === '...');
+
+    const pathParameter = parameters.find((p) => p.type === 'path' && p.name === name);
+    if (pathParameter) {
+      pathParameter.typeHint = typeHint ?? pathParameter.typeHint;
+      continue;
+    }
+
+    if (!kind && PYTHON_INJECTED_TYPES.test(baseType)) {
+      continue;
+    }
+
+    let type: EndpointParameter['type'];
+    if (kind === 'Header' || kind === 'Cookie') {
+      type = 'header';
+    } else if (kind === 'Body' || kind === 'Form' || kind === 'File') {
+      type = 'body';
+    } else if (kind === 'Query' || kind === 'Path') {
+      type = kind === 'Path' ? 'path' : 'query';
+    } else {
+      type = baseType && !isScalarPythonType(baseType) && !enums.has(baseType) ? 'body' : 'query';
+    }
+
+    // Request bodies typed with a local Pydantic model contribute its fields
+    if (type === 'body' && !kind && models.has(baseType)) {
+      parameters.push(...models.get(baseType)!.map((field) => ({ ...field })));
+      continue;
+    }
+
+    parameters.push({ name, type, required, typeHint });
+  }
+
+  return { parameters, dependencies };
+}
+
+/**
+ * Extract parameters read from the request object (Flask request.args, Django request.GET, ...)
+ */
+function extractRequestParameters(module: PythonModule, scope: PythonScope): EndpointParameter[] {
+  const parameters: EndpointParameter[] = [];
+  const sources: Array<[RegExp, EndpointParameter['type']]> = [
+    [/request\.(?:args|GET|query_params)(?:\.get(?:list)?\(\s*|\[\s*)(['"])([\w-]+)\1/g, 'query'],
+    [/request\.(?:json|form|files|POST|data|get_json\(\))(?:\.get\(\s*|\[\s*)(['"])([\w-]+)\1/g, 'body'],
+    [/request\.(?:headers|META)(?:\.get\(\s*|\[\s*)(['"])([\w-]+)\1/g, 'header'],
+  ];
+
+  for (const statement of module.statements) {
+    if (statement.line <= scope.line || statement.line > scope.endLine) {
+      continue;
+    }
+    for (const [pattern, type] of sources) {
+      pattern.lastIndex = 0;
+      let match;
+      while ((match = pattern.exec(statement.text)) !== null) {
+        const name = match[2];
+        if (!parameters.some((p) => p.name === name && p.type === type)) {
+          // Subscript access raises when the value is missing
+          parameters.push({ name, type, required: match[0].includes('[') });
+        }
+      }
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Extract dependency names from a FastAPI dependencies=[Depends(...)] list
+ */
+function extractDependencyNames(dependencies: string): string[] {
+  const names: string[] = [];
+  const pattern = /\b(?:Depends|Security)\(\s*([\w.]+)/g;
+  let match;
+  while ((match = pattern.exec(dependencies)) !== null) {
+    names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Extract Django urlpatterns (path/re_path/url, include() and DRF routers)
+ */
+function extractDjangoRoutes(
+  module: PythonModule,
+  parsedFile: ParsedFile,
+  prefix: string,
+  context: DjangoRouteContext
+): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  context.visited.add(parsedFile.path);
+
+  const routers = collectDjangoRouters(module);
+
+  const processPatterns = (elements: string[], basePath: string, line: number) => {
+    for (const element of elements) {
+      const call = element.match(/^(?:\w+\.)?(path|re_path|url)\(/);
+      if (!call) {
+        continue;
+      }
+
+      const { positional, keywords } = parseCallArguments(
+        getCallArguments(element, call[0].length - 1)
+      );
+      let route = readPythonString(positional[0] ?? keywords.route);
+      if (route === undefined) {
+        continue;
+      }
+      if (call[1] !== 'path') {
+        route = convertDjangoRegexRoute(route);
+      }
+
+      const view = (positional[1] ?? keywords.view ?? '').trim();
+      const fullPath = joinRoutePaths(basePath, route);
+      const include = view.match(/^(?:\w+\.)?include\(/);
+
+      if (!include) {
+        endpoints.push(...createDjangoViewEndpoints(view, fullPath, line, module, parsedFile, context));
+        continue;
+      }
+
+      const target = parseCallArguments(getCallArguments(view, include[0].length - 1)).positional[0] || '';
+      const routerUrls = target.match(/^(\w+)\.urls$/);
+      if (target.startsWith('[')) {
+        processPatterns(splitArguments(target.slice(1, -1)), fullPath, line);
+      } else if (routerUrls) {
+        endpoints.push(...createDRFRouterEndpoints(routers.get(routerUrls[1]) || [], fullPath, module, parsedFile, context));
+      } else {
+        // include('blog.urls') or include(('blog.urls', 'blog'), namespace='blog')
+        const moduleName = readPythonString(target.startsWith('(') ? splitArguments(target.slice(1, -1))[0] : target);
+        const included = moduleName ? loadPythonModule(parsedFile.path, moduleName, context) : null;
+        if (included && !context.visited.has(included.path)) {
+          endpoints.push(...extractDjangoRoutes(included.ast as PythonModule, included, fullPath, context));
+        }
+      }
+    }
+  };
+
+  for (const statement of module.statements) {
+    const match = statement.text.match(/^urlpatterns\s*(?::[^=]+)?\+?=\s*([\s\S]*)$/);
+    if (!match) {
+      continue;
+    }
+
+    // urlpatterns = [...] + router.urls
+    for (const part of splitArguments(match[1], '+')) {
+      const routerUrls = part.match(/^(\w+)\.urls$/);
+      if (part.startsWith('[') && part.endsWith(']')) {
+        processPatterns(splitArguments(part.slice(1, -1)), prefix, statement.line);
+      } else if (routerUrls) {
+        endpoints.push(...createDRFRouterEndpoints(routers.get(routerUrls[1]) || [], prefix, module, parsedFile, context));
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Create endpoints for a Django view referenced from urlpatterns
+ */
+function createDjangoViewEndpoints(
+  view: string,
+  routePath: string,
+  line: number,
+  module: PythonModule,
+  parsedFile: ParsedFile,
+  context: DjangoRouteContext
+): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  const middleware: string[] = [];
+  const pathParameters = extractPathParameters(routePath);
+
+  // login_required(views.dashboard) wraps the view in urls.py
+  let target = view;
+  let wrapper;
+  while (!/\.as_view\(/.test(target) && (wrapper = target.match(/^([\w.]+)\(([\s\S]*)\)$/))) {
+    middleware.push(wrapper[1].split('.').pop()!);
+    target = splitArguments(wrapper[2])[0] || '';
+  }
+
+  const addEndpoint = (method: string, handler: string, parameters: EndpointParameter[], extra: string[]) => {
+    endpoints.push({
+      id: `django-${++context.nextId}`,
+      file: parsedFile.path,
+      method: method as Endpoint['method'],
+      path: routePath,
+      pathPattern: normalizePath(routePath),
+      handler,
+      line,
+      parameters: [...pathParameters, ...parameters],
+      middleware: [...middleware, ...extra],
+    });
+  };
+
+  const classView = target.match(/^([\w.]+)\.as_view\(/);
+  if (classView) {
+    const className = classView[1].split('.').pop()!;
+    const definition = resolvePythonDefinition(classView[1], 'class', module, parsedFile, context);
+    const asViewArgs = getCallArguments(target, classView[0].length - 1).trim();
+
+    // DRF viewset.as_view({'get': 'list', 'post': 'create'})
+    if (asViewArgs.startsWith('{')) {
+      const pattern = /(['"])(\w+)\1\s*:\s*(['"])(\w+)\3/g;
+      let match;
+      while ((match = pattern.exec(asViewArgs)) !== null) {
+        addEndpoint(match[2].toUpperCase(), `${className}.${match[4]}`, [], definition ? getClassMiddleware(definition) : []);
+      }
+      return endpoints;
+    }
+
+    if (!definition) {
+      addEndpoint('GET', className, [], []);
+      return endpoints;
+    }
+
+    const classMiddleware = getClassMiddleware(definition);
+    const handlers = getClassViewHandlers(definition.module, definition.scope);
+    if (handlers.length > 0) {
+      for (const { method, scope } of handlers) {
+        addEndpoint(method, getQualifiedName(scope), extractRequestParameters(definition.module, scope), classMiddleware);
+      }
+    } else {
+      const base = definition.scope.bases.map((b) => b.split('.').pop()!).find((b) => DJANGO_GENERIC_VIEW_METHODS[b]);
+      for (const method of base ? DJANGO_GENERIC_VIEW_METHODS[base] : ['GET']) {
+        addEndpoint(method, `${className}.${method.toLowerCase()}`, [], classMiddleware);
+      }
+    }
+    return endpoints;
+  }
+
+  const functionName = target.split('.').pop();
+  if (!functionName || !/^\w+$/.test(functionName)) {
+    return endpoints;
+  }
+
+  const definition = resolvePythonDefinition(target, 'def', module, parsedFile, context);
+  if (!definition) {
+    addEndpoint('GET', functionName, [], []);
+    return endpoints;
+  }
+
+  const { methods, decorators } = getDjangoFunctionViewMethods(definition);
+  const parameters = extractRequestParameters(definition.module, definition.scope);
+  for (const method of methods) {
+    addEndpoint(method, functionName, parameters, decorators);
+  }
+
+  return endpoints;
+}
+
+/**
+ * Determine the HTTP methods a Django function view handles
+ */
+function getDjangoFunctionViewMethods(definition: PythonDefinition): { methods: string[]; decorators: string[] } {
+  const decorators: string[] = [];
+  let methods: string[] | undefined;
+
+  for (const decorator of definition.scope.decorators) {
+    const name = decorator.replace(/\([\s\S]*$/, '').split('.').pop()!;
+    if (name === 'require_http_methods' || name === 'api_view') {
+      const declared = extractPythonStrings(decorator).map((m) => m.value.toUpperCase());
+      methods = declared.length > 0 ? declared : ['GET'];
+    } else if (name === 'require_GET' || name === 'require_safe') {
+      methods = ['GET'];
+    } else if (name === 'require_POST') {
+      methods = ['POST'];
+    } else {
+      decorators.push(name);
+    }
+  }
+
+  if (!methods) {
+    // Function views branch on request.method; GET is always served
+    methods = ['GET'];
+    for (const statement of definition.module.statements) {
+      if (statement.line <= definition.scope.line || statement.line > definition.scope.endLine) {
+        continue;
+      }
+      const comparison = statement.text.match(/request\.method\s*(?:==|!=|in|not in)\s*([\s\S]+?):?$/);
+      for (const value of comparison ? extractPythonStrings(comparison[1]) : []) {
+        const method = value.value.toUpperCase();
+        if (HTTP_METHODS.includes(method) && !methods.includes(method)) {
+          methods.push(method);
+        }
+      }
+    }
+  }
+
+  return { methods, decorators };
+}
+
+/**
+ * Get HTTP method handlers defined directly on a class-based view
+ */
+function getClassViewHandlers(
+  module: PythonModule,
+  classScope: PythonScope
+): Array<{ method: string; scope: PythonScope }> {
+  return module.scopes
+    .filter(
+      (scope) =>
+        scope.type === 'def' &&
+        scope.parent === classScope &&
+        HTTP_METHODS.includes(scope.name.toUpperCase())
+    )
+    .map((scope) => ({ method: scope.name.toUpperCase(), scope }));
+}
+
+/**
+ * Get middleware applied to a class-based view (decorators, mixins, permission classes)
+ */
+function getClassMiddleware(definition: PythonDefinition): string[] {
+  const middleware: string[] = [];
+
+  for (const decorator of definition.scope.decorators) {
+    // @method_decorator(login_required, name='dispatch')
+    const wrapped = decorator.match(/^method_decorator\(\s*([\w.]+)/);
+    middleware.push((wrapped ? wrapped[1] : decorator.replace(/\([\s\S]*$/, '')).split('.').pop()!);
+  }
+
+  for (const base of definition.scope.bases) {
+    if (/Mixin$/.test(base) && !DRF_VIEWSET_BASE_ACTIONS[base]) {
+      middleware.push(base.split('.').pop()!);
+    }
+  }
+
+  for (const statement of getClassBody(definition.module, definition.scope)) {
+    const match = statement.text.match(/^(?:permission_classes|authentication_classes)\s*=\s*[[(]([\s\S]*)[\])]$/);
+    if (match) {
+      middleware.push(...splitArguments(match[1]).map((name) => name.split('.').pop()!));
+    }
+  }
+
+  return middleware;
+}
+
+/**
+ * Collect DRF router registrations (router.register('users', UserViewSet))
+ */
+function collectDjangoRouters(module: PythonModule): Map<string, Array<{ prefix: string; viewset: string; line: number }>> {
+  const routers = new Map<string, Array<{ prefix: string; viewset: string; line: number }>>();
+
+  for (const statement of module.statements) {
+    const create = statement.text.match(/^(\w+)\s*=\s*(?:\w+\.)?(?:DefaultRouter|SimpleRouter)\(/);
+    if (create) {
+      routers.set(create[1], []);
+      continue;
+    }
+
+    const register = statement.text.match(/^(\w+)\.register\(/);
+    if (register && routers.has(register[1])) {
+      const { positional, keywords } = parseCallArguments(
+        getCallArguments(statement.text, register[0].length - 1)
+      );
+      const prefix = readPythonString(positional[0] ?? keywords.prefix);
+      const viewset = positional[1] ?? keywords.viewset;
+      if (prefix !== undefined && viewset) {
+        routers.get(register[1])!.push({ prefix, viewset, line: statement.line });
+      }
+    }
+  }
+
+  return routers;
+}
+
+/**
+ * Create endpoints for viewsets registered on a DRF router
+ */
+function createDRFRouterEndpoints(
+  registrations: Array<{ prefix: string; viewset: string; line: number }>,
+  basePath: string,
+  module: PythonModule,
+  parsedFile: ParsedFile,
+  context: DjangoRouteContext
+): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+
+  for (const registration of registrations) {
+    const className = registration.viewset.split('.').pop()!;
+    const definition = resolvePythonDefinition(registration.viewset, 'class', module, parsedFile, context);
+    const listPath = joinRoutePaths(basePath, `${registration.prefix.replace(/^\^|\$$/g, '')}/`);
+    const detailPath = joinRoutePaths(listPath, '<pk>/');
+
+    const routes: Array<{ method: string; path: string; handler: string; scope?: PythonScope }> = [];
+    const actions = new Set<string>();
+
+    if (definition) {
+      for (const base of definition.scope.bases) {
+        for (const action of DRF_VIEWSET_BASE_ACTIONS[base.split('.').pop()!] || []) {
+          actions.add(action);
+        }
+      }
+      for (const scope of definition.module.scopes) {
+        if (scope.type !== 'def' || scope.parent !== definition.scope) {
+          continue;
+        }
+        if (DRF_VIEWSET_ACTIONS[scope.name]) {
+          actions.add(scope.name);
+        }
+
+        // @action(detail=True, methods=['post'], url_path='set-password')
+        const extra = scope.decorators.find((d) => /^action\(/.test(d));
+        if (extra) {
+          const { keywords } = parseCallArguments(getCallArguments(extra, extra.indexOf('(')));
+          const urlPath = readPythonString(keywords.url_path) || scope.name;
+          const methods = keywords.methods ? extractPythonStrings(keywords.methods).map((m) => m.value.toUpperCase()) : ['GET'];
+          for (const method of methods) {
+            routes.push({
+              method,
+              path: joinRoutePaths(keywords.detail === 'True' ? detailPath : listPath, `${urlPath}/`),
+              handler: getQualifiedName(scope),
+              scope,
+            });
+          }
+        }
+      }
+    } else {
+      DRF_VIEWSET_BASE_ACTIONS.ModelViewSet.forEach((action) => actions.add(action));
+    }
+
+    // Standard actions come before extra @action routes
+    const standardRoutes = DRF_VIEWSET_BASE_ACTIONS.ModelViewSet.filter((a) => actions.has(a)).map((action) => {
+      const [method, detail] = DRF_VIEWSET_ACTIONS[action];
+      const scope = definition?.module.scopes.find((s) => s.parent === definition.scope && s.name === action);
+      return { method, path: detail ? detailPath : listPath, handler: `${className}.${action}`, scope };
+    });
+    routes.unshift(...standardRoutes);
+
+    const middleware = definition ? getClassMiddleware(definition) : [];
+    for (const route of routes) {
+      endpoints.push({
+        id: `django-${++context.nextId}`,
+        file: parsedFile.path,
+        method: route.method as Endpoint['method'],
+        path: route.path,
+        pathPattern: normalizePath(route.path),
+        handler: route.handler,
+        line: registration.line,
+        parameters: [
+          ...extractPathParameters(route.path),
+          ...(route.scope && definition ? extractRequestParameters(definition.module, route.scope) : []),
+        ],
+        middleware,
+      });
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Resolve a view (function or class) referenced by name to its definition
+ */
+function resolvePythonDefinition(
+  reference: string,
+  type: PythonScope['type'],
+  module: PythonModule,
+  parsedFile: ParsedFile,
+  context: DjangoRouteContext
+): PythonDefinition | null {
+  const parts = reference.split('.');
+  const name = parts.pop()!;
+
+  if (parts.length === 0) {
+    const local = findTopLevelScope(module, name, type);
+    if (local) {
+      return { module, parsedFile, scope: local };
+    }
+  }
+
+  // views.post_list -> "from . import views"; post_list -> "from .views import post_list"
+  const imported = parts.length > 0 ? parts[parts.length - 1] : name;
+  for (const imp of parsedFile.imports) {
+    const alias = imp.named?.find((n) => n.split(/\s+as\s+/).pop() === imported);
+    if (!alias) {
+      continue;
+    }
+
+    const original = alias.split(/\s+as\s+/)[0];
+    const moduleName =
+      parts.length > 0 ? `${imp.from}${imp.from.endsWith('.') ? '' : '.'}${original}` : imp.from;
+    const target = loadPythonModule(parsedFile.path, moduleName, context);
+    const scope = target ? findTopLevelScope(target.ast as PythonModule, name, type) : undefined;
+    if (target && scope) {
+      return { module: target.ast as PythonModule, parsedFile: target, scope };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Load and parse a Python module by dotted name, relative to the importing file
+ */
+function loadPythonModule(
+  fromFile: string,
+  moduleName: string,
+  context: DjangoRouteContext
+): ParsedFile | null {
+  const relative = moduleName.match(/^(\.+)(.*)$/);
+  const segments = (relative ? relative[2] : moduleName).split('.').filter((s) => s);
+  const candidates: string[] = [];
+
+  if (relative) {
+    let base = path.dirname(fromFile);
+    for (let i = 1; i < relative[1].length; i++) {
+      base = path.dirname(base);
+    }
+    candidates.push(path.join(base, ...segments));
+  } else {
+    // Absolute imports resolve from the project root, somewhere above this file
+    let dir = path.dirname(fromFile);
+    for (let depth = 0; depth < 8; depth++) {
+      candidates.push(path.join(dir, ...segments));
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+  }
+
+  for (const candidate of candidates) {
+    for (const file of [`${candidate}.py`, path.join(candidate, '__init__.py')]) {
+      if (!context.modules.has(file)) {
+        context.modules.set(file, fs.existsSync(file) ? parsePythonFile(file) : null);
+      }
+      const parsed = context.modules.get(file);
+      if (parsed && isPythonModule(parsed.ast)) {
+        return parsed;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a module-level def or class by name
+ */
+function findTopLevelScope(
+  module: PythonModule,
+  name: string,
+  type: PythonScope['type']
+): PythonScope | undefined {
+  return module.scopes.find((scope) => !scope.parent && scope.type === type && scope.name === name);
+}
+
+/**
+ * Read a def's return annotation
+ */
+function readReturnAnnotation(module: PythonModule, scope: PythonScope): string | undefined {
+  const statement = module.statements.find((s) => s.line === scope.line);
+  const match = statement?.text.match(/\)\s*->\s*([\s\S]+?)\s*:\s*$/);
+  return match && match[1] !== 'None' ? match[1] : undefined;
+}
+
+/**
+ * Read a Python string literal expression
+ */
+function readPythonString(expression: string | undefined): string | undefined {
+  if (!expression || !/^[rRbBuUfF]{0,2}['"]/.test(expression.trim())) {
+    return undefined;
+  }
+  return extractPythonStrings(expression)[0]?.value;
+}
+
+/**
+ * Join a route prefix and path into a single absolute path
+ */
+export function joinRoutePaths(prefix: string, routePath: string): string {
+  const joined = [prefix, routePath]
+    .map((p) => p.replace(/^\/+|\/+$/g, ''))
+    .filter((p) => p)
+    .join('/');
+  const trailing = joined && routePath.length > 1 && routePath.endsWith('/') ? '/' : '';
+  return `/${joined}${trailing}`;
+}
+
+/**
+ * Convert a Django regex route (re_path/url) into a path with <name> parameters
+ */
+function convertDjangoRegexRoute(route: string): string {
+  let result = '';
+  let i = 0;
+  const source = route.replace(/^\^/, '').replace(/\$$/, '');
+
+  while (i < source.length) {
+    const named = source.slice(i).match(/^\(\?P<(\w+)>/);
+    if (named) {
+      // Skip the group's pattern up to its closing parenthesis
+      let depth = 1;
+      let j = i + named[0].length;
+      while (j < source.length && depth > 0) {
+        if (source[j] === '\\') {
+          j++;
+        } else if (source[j] === '(') {
+          depth++;
+        } else if (source[j] === ')') {
+          depth--;
+        }
+        j++;
+      }
+      result += `<${named[1]}>`;
+      i = j;
+      continue;
+    }
+    if (source[i] === '\\' && i + 1 < source.length) {
+      result += source[i + 1];
+      i += 2;
+      continue;
+    }
+    if (!'?*+'.includes(source[i])) {
+      result += source[i];
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a Python type annotation allows None
+ */
+function isOptionalPythonType(annotation: string): boolean {
+  return /^Optional\[|\|\s*None\b|\bNone\s*\|/.test(annotation);
+}
+
+/**
+ * Remove Optional[...] / "| None" from a Python type annotation
+ */
+function stripOptionalPythonType(annotation: string): string {
+  return annotation
+    .replace(/^Optional\[([\s\S]+)\]$/, '$1')
+    .replace(/\s*\|\s*None\b|\bNone\s*\|\s*/g, '')
+    .trim();
+}
+
+/**
+ * Check whether a Python type is a scalar (sent as a query parameter by FastAPI)
+ */
+function isScalarPythonType(type: string): boolean {
+  return /^(?:int|float|str|bool|bytes|(?:uuid\.)?UUID|date|datetime|time|Decimal|(?:List|list|Set|set|Sequence)\[[\s\S]*\])$/.test(
+    type
+  );
+}
+
+// Go router packages, checked in order: [import path prefix, endpoint id prefix]
+const GO_ROUTER_PACKAGES: Array<[string, string]> = [
+  ['github.com/gin-gonic/gin', 'gin'],
+  ['github.com/labstack/echo', 'echo'],
+  ['github.com/go-chi/chi', 'chi'],
+  ['github.com/gorilla/mux', 'mux'],
+  ['net/http', 'http'],
+];
+
+interface GoRouter {
+  prefix: string;
+  middleware: string[];
+}
+
+interface GoHandler {
+  name: string;
+  middleware: string[];
+  body: string; // Handler body source, used to read request parameters
+}
+
+/**
+ * Extract endpoints from a Go module (net/http, Gin, Echo, Chi, gorilla/mux)
+ */
+function extractGoEndpoints(module: GoModule, parsedFile: ParsedFile): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  const framework = GO_ROUTER_PACKAGES.find(([pkg]) =>
+    module.imports.some((imp) => imp.path.startsWith(pkg))
+  )?.[1];
+  if (!framework) {
+    return endpoints;
+  }
+
+  const source = module.source;
+  let endpointId = 0;
+  const routePattern =
+    /\b(\w+)((?:\.With\((?:[^()]|\([^()]*\))*\))*)\.(GET|POST|PUT|DELETE|PATCH|Any|Add|Get|Post|Put|Delete|Patch|Method|MethodFunc|Handle|HandleFunc)\(/g;
+  let match;
+
+  while ((match = routePattern.exec(source)) !== null) {
+    const [, receiver, chain, call] = match;
+    const openParen = match.index + match[0].length - 1;
+    const args = splitGoArguments(getGoCallArguments(source, openParen));
+
+    // Skip HTTP clients and helpers that share method names with routers
+    const isUpperCase = /^(?:[A-Z]+|Any|Add)$/.test(call);
+    if (
+      (isUpperCase && framework !== 'gin' && framework !== 'echo') ||
+      (/^(?:Get|Post|Put|Delete|Patch|Method|MethodFunc)$/.test(call) && framework !== 'chi')
+    ) {
+      continue;
+    }
+
+    let methods: string[] = [];
+    let pathIndex = 0;
+    if (['Add', 'Method', 'MethodFunc'].includes(call) || (call === 'Handle' && framework === 'gin')) {
+      methods = [readGoString(args[0])?.toUpperCase() || ''];
+      pathIndex = 1;
+    } else if (call === 'Any') {
+      methods = [...HTTP_METHODS];
+    } else if (!call.startsWith('Handle')) {
+      methods = [call.toUpperCase()];
+    }
+
+    let routePath = readGoString(args[pathIndex]);
+    if (routePath === undefined || args.length < pathIndex + 2) {
+      continue;
+    }
+
+    // Go 1.22 patterns: mux.HandleFunc("GET /users/{id}", ...)
+    const methodPattern = routePath.match(/^([A-Z]+)\s+(\S+)$/);
+    if (methodPattern) {
+      methods = [methodPattern[1]];
+      routePath = methodPattern[2];
+    }
+    if (!routePath.startsWith('/')) {
+      continue;
+    }
+
+    // Echo takes route middleware after the handler, the others before it
+    const handlerIndex = framework === 'echo' ? pathIndex + 1 : args.length - 1;
+    const routeMiddleware = args
+      .slice(pathIndex + 1)
+      .filter((_, i) => i + pathIndex + 1 !== handlerIndex)
+      .map(getGoMiddlewareName);
+    const handler = resolveGoHandler(module, args[handlerIndex], match.index);
+
+    if (methods.length === 0) {
+      // gorilla/mux: r.HandleFunc("/users", h).Methods("GET", "POST")
+      const close = findGoClosing(source, openParen);
+      const declared = source.slice(close + 1).match(/^\s*\.Methods\(([^)]*)\)/);
+      methods = declared
+        ? splitGoArguments(declared[1]).map((m) => (readGoString(m) || m.replace(/^http\.Method/, '')).toUpperCase())
+        : inferGoHandlerMethods(handler.body);
+    }
+
+    const router = resolveGoRouter(module, receiver, match.index);
+    const chainMiddleware = splitGoArguments(
+      (chain.match(/\.With\(((?:[^()]|\([^()]*\))*)\)/g) || [])
+        .map((w) => w.slice(6, -1))
+        .join(',')
+    ).map(getGoMiddlewareName);
+    const fullPath = joinRoutePaths(router.prefix, routePath);
+    const parameters = dedupeParameters([
+      ...extractPathParameters(fullPath),
+      ...extractGoRequestParameters(module, handler.body),
+    ]);
+
+    for (const method of methods) {
+      if (!HTTP_METHODS.includes(method)) {
+        continue;
+      }
+      endpoints.push({
+        id: `${framework}-${++endpointId}`,
+        file: parsedFile.path,
+        method: method as Endpoint['method'],
+        path: fullPath,
+        pathPattern: normalizePath(fullPath),
+        handler: handler.name,
+        line: goLineAt(module, match.index),
+        parameters,
+        middleware: [...router.middleware, ...chainMiddleware, ...routeMiddleware, ...handler.middleware],
+      });
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Resolve the prefix and middleware of a router variable at an offset
+ *
+ * Follows Group/PathPrefix/With assignments, chi Route/Group closures,
+ * Mount calls and routers passed into helper functions, then collects
+ * .Use() middleware registered on the router before the offset.
+ */
+function resolveGoRouter(module: GoModule, name: string, offset: number, depth = 0): GoRouter {
+  const router: GoRouter = { prefix: '', middleware: [] };
+  if (depth > 8) {
+    return router;
+  }
+
+  const source = module.source;
+  const fn = findGoFunction(module, offset);
+  const closure = findGoRouterClosure(module, name, offset);
+  const scopeStart = closure ? closure.bodyStart : fn ? fn.bodyStart : 0;
+  let baseOffset = scopeStart;
+
+  // Latest derived-router assignment in scope: v1 := r.Group("/v1", mw)
+  const assignment = new RegExp(`\\b${name}\\s*:?=\\s*(\\w+)\\.(Group|PathPrefix|With)\\(`, 'g');
+  let derived: RegExpExecArray | undefined;
+  let match;
+  while ((match = assignment.exec(source)) !== null && match.index < offset) {
+    if (match.index > scopeStart && findGoFunction(module, match.index) === fn) {
+      derived = match;
+    }
+  }
+
+  if (derived) {
+    const openParen = derived.index + derived[0].length - 1;
+    const args = splitGoArguments(getGoCallArguments(source, openParen));
+    const parent = resolveGoRouter(module, derived[1], derived.index, depth + 1);
+    const ownPrefix = derived[2] === 'With' ? '' : readGoString(args[0]) ?? '';
+    const ownMiddleware = derived[2] === 'With' ? args : derived[2] === 'Group' ? args.slice(1) : [];
+    router.prefix = joinRoutePaths(parent.prefix, ownPrefix);
+    router.middleware = [...parent.middleware, ...ownMiddleware.map(getGoMiddlewareName)];
+    baseOffset = derived.index;
+  } else if (closure) {
+    const parent = resolveGoRouter(module, closure.receiver, closure.callOffset, depth + 1);
+    router.prefix = joinRoutePaths(parent.prefix, closure.prefix);
+    router.middleware = [...parent.middleware];
+  } else if (fn && !fn.receiver) {
+    const parent = resolveGoRouterCallSite(module, fn, name, depth);
+    router.prefix = parent.prefix === '/' ? '' : parent.prefix;
+    router.middleware = parent.middleware;
+  }
+
+  // Middleware registered with r.Use(...) before the route
+  const use = new RegExp(`\\b${name}\\.Use\\(`, 'g');
+  use.lastIndex = baseOffset;
+  while ((match = use.exec(source)) !== null && match.index < offset) {
+    const useClosure = findGoRouterClosure(module, name, match.index);
+    if (findGoFunction(module, match.index) === fn && useClosure?.bodyStart === closure?.bodyStart) {
+      const args = splitGoArguments(getGoCallArguments(source, match.index + match[0].length - 1));
+      router.middleware.push(...args.map(getGoMiddlewareName));
+    }
+  }
+
+  return router;
+}
+
+/**
+ * Resolve the router a helper function receives or builds from its call site
+ *
+ * Handles registerRoutes(api.Group("/users")), registerRoutes(v1) and
+ * r.Mount("/users", userRoutes()).
+ */
+function resolveGoRouterCallSite(module: GoModule, fn: GoFunction, name: string, depth: number): GoRouter {
+  const source = module.source;
+  const paramIndex = fn.params
+    .split(',')
+    .findIndex((param) => param.trim().split(/\s+/)[0] === name);
+
+  const mount = new RegExp(`(\\w+)\\.(?:Mount|Route)\\(\\s*("[^"]*"|\`[^\`]*\`)\\s*,\\s*(?:\\w+\\.)?${fn.name}\\b`);
+  const mounted = source.match(mount);
+  if (mounted && mounted.index !== undefined) {
+    const parent = resolveGoRouter(module, mounted[1], mounted.index, depth + 1);
+    return {
+      prefix: joinRoutePaths(parent.prefix, readGoString(mounted[2]) ?? ''),
+      middleware: parent.middleware,
+    };
+  }
+
+  if (paramIndex < 0) {
+    return { prefix: '', middleware: [] };
+  }
+
+  const call = new RegExp(`(?<!func\\s+)\\b${fn.name}\\(`, 'g');
+  let match;
+  while ((match = call.exec(source)) !== null) {
+    const args = splitGoArguments(getGoCallArguments(source, match.index + match[0].length - 1));
+    const arg = args[paramIndex] || '';
+    const group = arg.match(/^(\w+)\.(?:Group|PathPrefix)\(([\s\S]*?)\)/);
+    if (/^\w+$/.test(arg)) {
+      return resolveGoRouter(module, arg, match.index, depth + 1);
+    }
+    if (group) {
+      const parent = resolveGoRouter(module, group[1], match.index, depth + 1);
+      const groupArgs = splitGoArguments(group[2]);
+      return {
+        prefix: joinRoutePaths(parent.prefix, readGoString(groupArgs[0]) ?? ''),
+        middleware: [...parent.middleware, ...groupArgs.slice(1).map(getGoMiddlewareName)],
+      };
+    }
+  }
+
+  return { prefix: '', middleware: [] };
+}
+
+/**
+ * Find the innermost chi Route/Group closure that binds a router name around an offset
+ */
+function findGoRouterClosure(
+  module: GoModule,
+  name: string,
+  offset: number
+): { receiver: string; prefix: string; callOffset: number; bodyStart: number } | undefined {
+  const source = module.source;
+  const pattern = /\b(\w+)\.(Route|Group)\(/g;
+  let found: { receiver: string; prefix: string; callOffset: number; bodyStart: number } | undefined;
+  let match;
+
+  while ((match = pattern.exec(source)) !== null && match.index < offset) {
+    const openParen = match.index + match[0].length - 1;
+    const close = findGoClosing(source, openParen);
+    const closure = /func\s*\(\s*(\w+)\s+[^)]*\)\s*\{/g;
+    closure.lastIndex = openParen;
+    const literal = closure.exec(source);
+    if (!literal || literal[1] !== name || (close >= 0 && literal.index > close)) {
+      continue;
+    }
+
+    const bodyStart = literal.index + literal[0].length - 1;
+    const bodyEnd = findGoClosing(source, bodyStart);
+    if (bodyStart < offset && offset < bodyEnd && (!found || bodyStart > found.bodyStart)) {
+      const args = splitGoArguments(getGoCallArguments(source, openParen));
+      found = {
+        receiver: match[1],
+        prefix: match[2] === 'Route' ? readGoString(args[0]) ?? '' : '',
+        callOffset: match.index,
+        bodyStart,
+      };
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Resolve a Go handler expression to its name, wrapping middleware and body
+ */
+function resolveGoHandler(module: GoModule, expression: string, offset: number, depth = 0): GoHandler {
+  const handler: GoHandler = { name: 'anonymous', middleware: [], body: '' };
+  const trimmed = expression.trim();
+
+  if (/^func\s*\(/.test(trimmed)) {
+    handler.body = trimmed;
+    return handler;
+  }
+
+  // http.HandlerFunc(h), auth(h) and handlers.GetUser(db) factories
+  const call = trimmed.match(/^([\w.]+)\(([\s\S]*)\)$/);
+  if (call && depth < 4) {
+    const args = splitGoArguments(call[2]);
+    const inner = args.length === 1 ? resolveGoHandler(module, args[0], offset, depth + 1) : undefined;
+    if (inner && (inner.body || /^func\s*\(/.test(args[0]))) {
+      if (!/^(?:http\.)?HandlerFunc$/.test(call[1])) {
+        inner.middleware.unshift(call[1]);
+      }
+      return inner;
+    }
+    handler.name = qualifyGoCallee(module, call[1], offset);
+    handler.body = getGoFunctionBody(module, handler.name);
+    return handler;
+  }
+
+  if (/^[\w.]+$/.test(trimmed)) {
+    handler.name = qualifyGoCallee(module, trimmed, offset);
+    handler.body = getGoFunctionBody(module, handler.name);
+  }
+
+  return handler;
+}
+
+/**
+ * Qualify a callee: h.Get becomes Handler.Get when h's type is known, pkg.Func becomes Func
+ */
+function qualifyGoCallee(module: GoModule, callee: string, offset: number): string {
+  const parts = callee.split('.');
+  if (parts.length !== 2) {
+    return callee;
+  }
+  if (module.imports.some((imp) => imp.name === parts[0])) {
+    return parts[1];
+  }
+  const type = findGoVariableType(module, parts[0], offset);
+  return type ? `${type}.${parts[1]}` : callee;
+}
+
+/**
+ * Get the body source of a func or method in the module by (qualified) name
+ */
+function getGoFunctionBody(module: GoModule, name: string): string {
+  const fn = module.functions.find((f) => getGoQualifiedName(f) === name);
+  return fn ? module.source.slice(fn.bodyStart, fn.end) : '';
+}
+
+/**
+ * Infer the methods a net/http handler accepts from its r.Method checks
+ */
+function inferGoHandlerMethods(body: string): string[] {
+  if (!/\.Method\b/.test(body)) {
+    return ['GET'];
+  }
+  const methods = new Set<string>();
+  const pattern = /\bhttp\.Method(Get|Post|Put|Delete|Patch)\b|"(GET|POST|PUT|DELETE|PATCH)"/g;
+  let match;
+  while ((match = pattern.exec(body)) !== null) {
+    methods.add((match[1] || match[2]).toUpperCase());
+  }
+  return methods.size > 0 ? [...methods] : ['GET'];
+}
+
+/**
+ * Extract query, form, header and bound body parameters from a Go handler body
+ */
+function extractGoRequestParameters(module: GoModule, body: string): EndpointParameter[] {
+  const parameters: EndpointParameter[] = [];
+  const accessors: Array<[RegExp, EndpointParameter['type']]> = [
+    [/\.(?:Query|DefaultQuery|GetQuery|QueryArray|QueryParam)\("([\w.\-[\]]+)"/g, 'query'],
+    [/\.Query\(\)\.Get\("([\w.\-[\]]+)"/g, 'query'],
+    [/\.(?:PostForm|DefaultPostForm|GetPostForm|FormValue|PostFormValue)\("([\w.\-[\]]+)"/g, 'body'],
+    [/\.(?:GetHeader|Header\.Get)\("([\w-]+)"/g, 'header'],
+  ];
+
+  for (const [pattern, type] of accessors) {
+    let match;
+    while ((match = pattern.exec(body)) !== null) {
+      parameters.push({ name: match[1], type, required: false });
+    }
+  }
+
+  // c.ShouldBindJSON(&req), c.Bind(&req), json.NewDecoder(r.Body).Decode(&req)
+  const binding = /\.(?:ShouldBindJSON|BindJSON|ShouldBind|Bind|Decode)\(\s*&(\w+)\s*\)/g;
+  let match;
+  while ((match = binding.exec(body)) !== null) {
+    const variable = match[1];
+    const typeName = body.match(
+      new RegExp(`\\bvar\\s+${variable}\\s+(?:\\w+\\.)?(\\w+)|\\b${variable}\\s*:=\\s*(?:&?(?:\\w+\\.)?(\\w+)\\s*\\{|new\\((?:\\w+\\.)?(\\w+)\\))`)
+    );
+    const struct = typeName && module.structs.find((s) => s.name === (typeName[1] || typeName[2] || typeName[3]));
+    if (!struct) {
+      continue;
+    }
+    for (const field of parseGoStructFields(module, struct)) {
+      const jsonName = (getGoStructTag(field.tag, 'json') || '').split(',')[0];
+      if (field.embedded || jsonName === '-' || !/^[A-Z]/.test(field.name)) {
+        continue;
+      }
+      parameters.push({
+        name: jsonName || field.name,
+        type: 'body',
+        required: /\brequired\b/.test(`${getGoStructTag(field.tag, 'binding') || ''} ${getGoStructTag(field.tag, 'validate') || ''}`),
+        typeHint: field.type,
+      });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Get a middleware name from an expression (gin.Logger() -> gin.Logger)
+ */
+function getGoMiddlewareName(expression: string): string {
+  return expression.trim().replace(/\([\s\S]*$/, '');
+}
+
+/**
+ * Drop repeated parameters, keeping the first occurrence
+ */
+function dedupeParameters(parameters: EndpointParameter[]): EndpointParameter[] {
+  const seen = new Set<string>();
+  return parameters.filter((p) => {
+    const key = `${p.type}:${p.name}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Normalize path pattern
+ */
+export function normalizePath(path: string): string {
+  // Convert Express/Gin params :id, FastAPI/Chi {id} or {id:[0-9]+} and Flask/Django <int:id> to pattern
+  return path
+    .replace(/\{[a-zA-Z_][a-zA-Z0-9_]*(?::[^{}/]+|\.\.\.)?\}|<(?:\w+:)?[a-zA-Z_][a-zA-Z0-9_]*>/g, '{param}')
+    .replace(/[:*]([a-zA-Z_][a-zA-Z0-9_]*)/g, '{param}');
+}
+
+/**
+ * Extract path parameters
+ */
+export function extractPathParameters(path: string): EndpointParameter[] {
+  const parameters: EndpointParameter[] = [];
+  const paramRegex =
+    /[:*]([a-zA-Z_][a-zA-Z0-9_]*)|\{([a-zA-Z_][a-zA-Z0-9_]*)(?::[^{}/]+|\.\.\.)?\}|<(?:(\w+):)?([a-zA-Z_][a-zA-Z0-9_]*)>/g;
+  let match;
+
+  while ((match = paramRegex.exec(path)) !== null) {
+    const parameter: EndpointParameter = {
+      name: match[1] || match[2] || match[4],
+      type: 'path',
+      required: true,
+    };
+    if (match[3]) {
+      parameter.typeHint = match[3]; // Flask/Django converter (int, uuid, slug, ...)
+    }
+    parameters.push(parameter);
   }
 
   return parameters;
@@ -0,0 +1,219 @@
+/**
+ * Endpoint extraction for file-system API routes
+ *
+ * Next.js pages/api handlers and app router route handlers, and Remix resource
+ * routes, get their path from the file location rather than a router call.
+ */
+
+import * as t from '@babel/types';
+import { Endpoint } from '../../types';
+import { EndpointParameter } from '../../types';
+import { RoutingInfo } from '../../types';
+import { parseBackendFile } from './parser';
+import { HTTP_METHODS, extractPathParameters, normalizePath } from './endpoint-extractor';
+import { extractBodyParameters } from './request-body';
+
+/** Remix route module exports and the method they serve by default */
+const REMIX_HANDLERS: Record<string, string> = { loader: 'GET', action: 'POST' };
+
+interface RouteHandler {
+  name: string;
+  methods: string[];
+  line: number;
+}
+
+/**
+ * Turn the API routes of a file-system router into endpoints
+ */
+export function extractFileRouteEndpoints(routing: RoutingInfo): Endpoint[] {
+  const endpoints: Endpoint[] = [];
+  const idPrefix = routing.framework === 'remix' ? 'remix' : 'next';
+  let endpointId = 0;
+
+  for (const route of routing.routes) {
+    if (route.type !== 'api') {
+      continue;
+    }
+    const parsedFile = parseBackendFile(route.file);
+    if (!parsedFile?.ast || !t.isFile(parsedFile.ast)) {
+      continue;
+    }
+
+    const pathParameters = extractPathParameters(route.path);
+    const parameters: EndpointParameter[] = [
+      ...pathParameters,
+      ...extractSearchParameters(parsedFile.ast).filter((q) => !pathParameters.some((p) => p.name === q.name)),
+      ...extractBodyParameters(parsedFile.ast),
+    ];
+
+    for (const handler of collectRouteHandlers(parsedFile.ast)) {
+      for (const method of handler.methods) {
+        endpoints.push({
+          id: `${idPrefix}-${++endpointId}`,
+          file: route.file,
+          method: method as Endpoint['method'],
+          path: route.path,
+          pathPattern: normalizePath(route.path),
+          handler: handler.name,
+          line: handler.line,
+          parameters,
+          middleware: [],
+        });
+      }
+    }
+  }
+
+  return endpoints;
+}
+
+/**
+ * Find the handlers a route module exports: GET/POST functions (app router),
+ * loader/action (Remix) or a default request handler (pages/api)
+ */
+function collectRouteHandlers(ast: t.File): RouteHandler[] {
+  const handlers: RouteHandler[] = [];
+  let defaultHandler: RouteHandler | undefined;
+
+  const addHandler = (exported: string, local: string, line: number) => {
+    if (HTTP_METHODS.includes(exported)) {
+      handlers.push({ name: local, methods: [exported], line });
+    } else if (REMIX_HANDLERS[exported]) {
+      // An action handling several verbs branches on request.method
+      const methods = inferRequestMethods(findTopLevelFunction(ast, local)).filter((m) => m !== 'GET');
+      handlers.push({ name: local, methods: methods.length > 0 ? methods : [REMIX_HANDLERS[exported]], line });
+    }
+  };
+
+  for (const statement of ast.program.body) {
+    const line = statement.loc?.start.line || 0;
+
+    if (t.isExportNamedDeclaration(statement)) {
+      const declaration = statement.declaration;
+      if (t.isFunctionDeclaration(declaration) && declaration.id) {
+        addHandler(declaration.id.name, declaration.id.name, line);
+      } else if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          if (t.isIdentifier(declarator.id)) {
+            addHandler(declarator.id.name, declarator.id.name, line);
+          }
+        }
+      }
+      // export { handler as GET, handler as POST }
+      for (const specifier of statement.specifiers) {
+        if (t.isExportSpecifier(specifier) && t.isIdentifier(specifier.exported)) {
+          addHandler(specifier.exported.name, specifier.local.name, line);
+        }
+      }
+    } else if (t.isExportDefaultDeclaration(statement)) {
+      // export default withAuth(handler) wraps the handler
+      let declaration: t.Node = statement.declaration;
+      while (t.isCallExpression(declaration) && declaration.arguments.length > 0) {
+        declaration = declaration.arguments[0];
+      }
+      const name = t.isIdentifier(declaration)
+        ? declaration.name
+        : t.isFunctionDeclaration(declaration) && declaration.id
+          ? declaration.id.name
+          : 'anonymous';
+      const fn = t.isIdentifier(declaration) ? findTopLevelFunction(ast, declaration.name) : declaration;
+      const methods = inferRequestMethods(fn);
+      defaultHandler = { name, methods: methods.length > 0 ? methods : [...HTTP_METHODS], line };
+    }
+  }
+
+  // Remix page routes and app router handlers never use the default export as an API handler
+  return handlers.length > 0 ? handlers : defaultHandler ? [defaultHandler] : [];
+}
+
+/**
+ * Find a top-level function declaration or function-valued const by name
+ */
+function findTopLevelFunction(ast: t.File, name: string): t.Node | undefined {
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+    if (t.isFunctionDeclaration(declaration) && declaration.id?.name === name) {
+      return declaration;
+    }
+    if (t.isVariableDeclaration(declaration)) {
+      const declarator = declaration.declarations.find((d) => t.isIdentifier(d.id, { name }));
+      if (declarator?.init) {
+        return declarator.init;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Infer the HTTP methods a handler serves from req.method comparisons and switch cases
+ */
+function inferRequestMethods(node: t.Node | undefined): string[] {
+  const methods = new Set<string>();
+  if (!node) {
+    return [];
+  }
+
+  const isMethodAccess = (expression: t.Node) =>
+    t.isMemberExpression(expression) && t.isIdentifier(expression.property, { name: 'method' });
+  const addMethod = (literal: t.Node | null | undefined) => {
+    if (t.isStringLiteral(literal) && HTTP_METHODS.includes(literal.value.toUpperCase())) {
+      methods.add(literal.value.toUpperCase());
+    }
+  };
+
+  t.traverseFast(node, (child) => {
+    if (t.isBinaryExpression(child) && ['===', '==', '!==', '!='].includes(child.operator)) {
+      if (isMethodAccess(child.left)) {
+        addMethod(child.right);
+      } else if (isMethodAccess(child.right)) {
+        addMethod(child.left);
+      }
+    } else if (t.isSwitchStatement(child) && isMethodAccess(child.discriminant)) {
+      child.cases.forEach((c) => addMethod(c.test));
+    }
+  });
+
+  return HTTP_METHODS.filter((method) => methods.has(method));
+}
+
+/**
+ * Collect query parameters read through req.query or URL searchParams
+ */
+function extractSearchParameters(ast: t.File): EndpointParameter[] {
+  const names = new Set<string>();
+  const isQueryObject = (node: t.Node | null | undefined) =>
+    t.isMemberExpression(node) && t.isIdentifier(node.property, { name: 'query' });
+
+  t.traverseFast(ast, (node) => {
+    // searchParams.get('page') / url.searchParams.get('page')
+    if (
+      t.isCallExpression(node) &&
+      t.isMemberExpression(node.callee) &&
+      t.isIdentifier(node.callee.property, { name: 'get' }) &&
+      /searchParams$/.test(
+        t.isIdentifier(node.callee.object)
+          ? node.callee.object.name
+          : t.isMemberExpression(node.callee.object) && t.isIdentifier(node.callee.object.property)
+            ? node.callee.object.property.name
+            : ''
+      ) &&
+      t.isStringLiteral(node.arguments[0])
+    ) {
+      names.add(node.arguments[0].value);
+    }
+    // req.query.page
+    if (t.isMemberExpression(node) && isQueryObject(node.object) && t.isIdentifier(node.property) && !node.computed) {
+      names.add(node.property.name);
+    }
+    // const { page, limit } = req.query
+    if (t.isVariableDeclarator(node) && t.isObjectPattern(node.id) && isQueryObject(node.init)) {
+      for (const property of node.id.properties) {
+        if (t.isObjectProperty(property) && t.isIdentifier(property.key)) {
+          names.add(property.key.name);
+        }
+      }
+    }
+  });
+
+  return [...names].map((name): EndpointParameter => ({ name, type: 'query', required: false }));
+}
@@ -0,0 +1,475 @@
+/**
+ * Lightweight structural parser for Go source
+ *
+ * Blanks out comments (keeping offsets and line numbers stable), reads the
+ * package clause and imports, and locates func and struct declarations.
+ */
+
+export interface GoImport {
+  path: string;
+  name: string; // Local package name (alias or last path element)
+  line: number;
+}
+
+export interface GoFunction {
+  name: string;
+  receiver?: string; // Receiver type for methods
+  params: string;
+  results: string;
+  line: number;
+  endLine: number;
+  bodyStart: number; // Offset of the opening brace
+  end: number; // Offset after the closing brace
+}
+
+export interface GoStruct {
+  name: string;
+  body: string;
+  line: number;
+  bodyStart: number;
+}
+
+export interface GoField {
+  name: string; // Field name, or the type name for embedded fields
+  type: string;
+  tag: string; // Raw struct tag without backquotes
+  embedded: boolean;
+  line: number;
+}
+
+export interface GoModule {
+  type: 'GoModule';
+  package: string;
+  source: string; // Source with comments blanked out
+  imports: GoImport[];
+  functions: GoFunction[];
+  structs: GoStruct[];
+  lineStarts: number[];
+}
+
+/**
+ * Parse Go source into imports, functions and structs
+ */
+export function parseGoModule(content: string): GoModule {
+  const source = stripGoComments(content);
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const module: GoModule = {
+    type: 'GoModule',
+    package: source.match(/^\s*package\s+(\w+)/m)?.[1] || '',
+    source,
+    imports: [],
+    functions: [],
+    structs: [],
+    lineStarts,
+  };
+
+  // import "fmt" / import alias "path" / import ( ... )
+  const importPattern = /^import\s*(?:\(([\s\S]*?)\)|((?:[\w.]+\s+)?"[^"]+"))/gm;
+  let match;
+  while ((match = importPattern.exec(source)) !== null) {
+    const block = match[1] ?? match[2];
+    const blockStart = match.index + match[0].indexOf(block);
+    const specPattern = /(?:([\w.]+)\s+)?"([^"]+)"/g;
+    let spec;
+    while ((spec = specPattern.exec(block)) !== null) {
+      const importPath = spec[2];
+      const segments = importPath.split('/');
+      // Major version suffixes (github.com/labstack/echo/v4) are not the package name
+      const last = /^v\d+$/.test(segments[segments.length - 1]) && segments.length > 1
+        ? segments[segments.length - 2]
+        : segments[segments.length - 1];
+      module.imports.push({
+        path: importPath,
+        name: spec[1] || last.replace(/^go-/, '').replace(/[^\w]/g, ''),
+        line: goLineAt(module, blockStart + spec.index),
+      });
+    }
+  }
+
+  // func Name(...) / func (r *Recv) Name(...)
+  const funcPattern =
+    /^func\s*(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)\s*(?:\[[^\]]*\])?\s*\(/gm;
+  while ((match = funcPattern.exec(source)) !== null) {
+    const paramsOpen = match.index + match[0].length - 1;
+    const paramsClose = findGoClosing(source, paramsOpen);
+    const bodyStart = paramsClose < 0 ? -1 : source.indexOf('{', paramsClose);
+    const results = bodyStart < 0 ? '' : source.slice(paramsClose + 1, bodyStart);
+    if (bodyStart < 0 || (results.includes('\n') && !results.trim().startsWith('('))) {
+      continue; // Declaration without a body
+    }
+    const bodyEnd = findGoClosing(source, bodyStart);
+    const end = bodyEnd < 0 ? source.length : bodyEnd + 1;
+
+    module.functions.push({
+      name: match[2],
+      receiver: match[1],
+      params: source.slice(paramsOpen + 1, paramsClose),
+      results: results.trim(),
+      line: goLineAt(module, match.index),
+      endLine: goLineAt(module, end - 1),
+      bodyStart,
+      end,
+    });
+  }
+
+  // type Name struct { ... }
+  const structPattern = /^(?:type\s+|\t| {4})(\w+)(?:\[[^\]]*\])?\s+struct\s*\{/gm;
+  while ((match = structPattern.exec(source)) !== null) {
+    if (!match[0].startsWith('type') && !isInsideGoTypeGroup(source, match.index)) {
+      continue;
+    }
+    const bodyStart = match.index + match[0].length - 1;
+    const bodyEnd = findGoClosing(source, bodyStart);
+    module.structs.push({
+      name: match[1],
+      body: source.slice(bodyStart + 1, bodyEnd < 0 ? source.length : bodyEnd),
+      line: goLineAt(module, match.index),
+      bodyStart,
+    });
+  }
+
+  return module;
+}
+
+/**
+ * Check whether a parsed AST is a Go module
+ */
+export function isGoModule(ast: unknown): ast is GoModule {
+  return !!ast && (ast as GoModule).type === 'GoModule';
+}
+
+/**
+ * Get the 1-based line number of a source offset
+ */
+export function goLineAt(module: GoModule, offset: number): number {
+  let low = 0;
+  let high = module.lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (module.lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Find the func declaration whose body contains an offset
+ */
+export function findGoFunction(module: GoModule, offset: number): GoFunction | undefined {
+  return module.functions.find((fn) => fn.bodyStart < offset && offset < fn.end);
+}
+
+/**
+ * Get a func's name qualified by its receiver type (e.g. UserHandler.Get)
+ */
+export function getGoQualifiedName(fn: GoFunction): string {
+  return fn.receiver ? `${fn.receiver}.${fn.name}` : fn.name;
+}
+
+/**
+ * Parse the fields of a struct declaration (one entry per name in "A, B int")
+ */
+export function parseGoStructFields(module: GoModule, struct: GoStruct): GoField[] {
+  const fields: GoField[] = [];
+  const firstLine = goLineAt(module, struct.bodyStart);
+
+  struct.body.split('\n').forEach((text, index) => {
+    const line = text.trim().replace(/;$/, '');
+    if (!line) {
+      return;
+    }
+    const tag = line.match(/`([^`]*)`\s*$/)?.[1] || '';
+    const declaration = line.replace(/`[^`]*`\s*$/, '').trim();
+
+    const named = declaration.match(/^(\w+(?:\s*,\s*\w+)*)\s+(\S.*)$/);
+    if (named && !/^\./.test(named[2])) {
+      for (const name of named[1].split(',')) {
+        fields.push({ name: name.trim(), type: named[2].trim(), tag, embedded: false, line: firstLine + index });
+      }
+    } else if (/^\*?[\w.]+$/.test(declaration)) {
+      const type = declaration.replace(/^\*/, '');
+      fields.push({ name: type.split('.').pop()!, type, tag, embedded: true, line: firstLine + index });
+    }
+  });
+
+  return fields;
+}
+
+/**
+ * Read a key from a struct tag (e.g. json:"name,omitempty")
+ */
+export function getGoStructTag(tag: string, key: string): string | undefined {
+  return tag.match(new RegExp(`(?:^|\\s)${key}:"([^"]*)"`))?.[1];
+}
+
+/**
+ * Find the type name of a variable from receivers, parameters and declarations
+ *
+ * Element types are returned for slices, so `var users []User` gives User.
+ */
+export function findGoVariableType(module: GoModule, name: string, offset: number): string | undefined {
+  const source = module.source;
+  const fn = findGoFunction(module, offset);
+  const type = '(?:\\[\\]|\\*)*(?:\\w+\\.)?(\\w+)';
+
+  if (fn) {
+    const declaration = source.slice(module.lineStarts[fn.line - 1], fn.bodyStart);
+    const receiver = declaration.match(/^func\s*\(\s*(\w+)\s+\*?\s*(\w+)/);
+    if (receiver && receiver[1] === name) {
+      return receiver[2];
+    }
+    const param = fn.params.match(new RegExp(`(?:^|,)\\s*${name}\\s+${type}`));
+    if (param) {
+      return param[1];
+    }
+  }
+
+  const patterns = [
+    new RegExp(`\\bvar\\s+${name}\\s+${type}`, 'g'),
+    new RegExp(`\\b${name}\\s*(?:,\\s*\\w+\\s*)*:?=\\s*&?${type}\\s*\\{`, 'g'),
+    new RegExp(`\\b${name}\\s*(?:,\\s*\\w+\\s*)*:?=\\s*(?:new|make)\\(\\s*${type}`, 'g'),
+    new RegExp(`\\b${name}\\s*(?:,\\s*\\w+\\s*)*:?=\\s*(?:\\w+\\.)?New(\\w+)\\(`, 'g'),
+  ];
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(source)) !== null) {
+      const scope = findGoFunction(module, match.index);
+      if (!scope || (scope === fn && match.index < offset)) {
+        return match[1];
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the offset of the bracket closing the one at the given offset
+ */
+export function findGoClosing(source: string, open: number): number {
+  const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+  const stack: string[] = [];
+
+  for (let i = open; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'") {
+      i = skipGoString(source, i);
+      continue;
+    }
+    if (ch === '`') {
+      const close = source.indexOf('`', i + 1);
+      i = close < 0 ? source.length : close;
+      continue;
+    }
+    if (pairs[ch]) {
+      stack.push(pairs[ch]);
+    } else if (ch === ')' || ch === ']' || ch === '}') {
+      if (stack.pop() !== ch) {
+        return -1;
+      }
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Get the argument text of the call that opens at the given offset
+ */
+export function getGoCallArguments(source: string, openParen: number): string {
+  const close = findGoClosing(source, openParen);
+  return source.slice(openParen + 1, close < 0 ? source.length : close);
+}
+
+/**
+ * Split Go arguments at top-level commas
+ */
+export function splitGoArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (ch === '"' || ch === "'") {
+      i = skipGoString(args, i);
+    } else if (ch === '`') {
+      const close = args.indexOf('`', i + 1);
+      i = close < 0 ? args.length : close;
+    } else if ('([{'.includes(ch)) {
+      depth++;
+    } else if (')]}'.includes(ch)) {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(args.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  const last = args.slice(start).trim();
+  if (last) {
+    parts.push(last);
+  }
+  return parts;
+}
+
+/**
+ * Read a Go string literal expression ("a" + `b`), or undefined if it is not constant
+ */
+export function readGoString(expression: string | undefined): string | undefined {
+  if (!expression) {
+    return undefined;
+  }
+
+  let value = '';
+  let rest = expression.trim();
+  while (rest) {
+    const raw = rest.match(/^`([^`]*)`/);
+    const interpreted = rest.match(/^"((?:[^"\\\n]|\\.)*)"/);
+    if (raw) {
+      value += raw[1];
+      rest = rest.slice(raw[0].length);
+    } else if (interpreted) {
+      value += interpreted[1].replace(/\\(.)/g, (_, ch) => (ch === 'n' ? '\n' : ch === 't' ? '\t' : ch));
+      rest = rest.slice(interpreted[0].length);
+    } else {
+      return undefined;
+    }
+
+    rest = rest.trim();
+    if (rest.startsWith('+')) {
+      rest = rest.slice(1).trim();
+    } else if (rest) {
+      return undefined;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Find the string constant or variable bound to a name before an offset
+ */
+export function findGoStringValue(module: GoModule, name: string, offset: number): string | undefined {
+  const pattern = new RegExp(`\\b${name}\\s*(?:string\\s*)?:?=\\s*`, 'g');
+  let value: string | undefined;
+  let match;
+
+  while ((match = pattern.exec(module.source)) !== null) {
+    const fn = findGoFunction(module, match.index);
+    // Package-level constants anywhere, locals only before use in the same func
+    if (fn && (match.index > offset || !(fn.bodyStart < offset && offset < fn.end))) {
+      continue;
+    }
+    const start = match.index + match[0].length;
+    const lineEnd = findGoExpressionEnd(module.source, start);
+    const candidate = readGoString(module.source.slice(start, lineEnd));
+    if (candidate !== undefined) {
+      value = candidate;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Find the end of an expression starting at an offset (end of line outside brackets/strings)
+ */
+function findGoExpressionEnd(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'") {
+      i = skipGoString(source, i);
+    } else if (ch === '`') {
+      const close = source.indexOf('`', i + 1);
+      i = close < 0 ? source.length : close;
+    } else if ('([{'.includes(ch)) {
+      depth++;
+    } else if (')]}'.includes(ch)) {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    } else if ((ch === '\n' || ch === ';') && depth === 0 && !/[+,]\s*$/.test(source.slice(start, i))) {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Skip an interpreted string or rune literal, returning the offset of its closing quote
+ */
+function skipGoString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote || source[i] === '\n') {
+      return i;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Check whether an offset lies inside a grouped type ( ... ) declaration
+ */
+function isInsideGoTypeGroup(source: string, offset: number): boolean {
+  const groupStart = source.lastIndexOf('\ntype (', offset);
+  if (groupStart < 0) {
+    return source.startsWith('type (') && findGoClosing(source, 5) > offset;
+  }
+  const close = findGoClosing(source, groupStart + 6);
+  return close < 0 || close > offset;
+}
+
+/**
+ * Replace comments with spaces, keeping newlines and string literals intact
+ */
+function stripGoComments(content: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '"' || ch === "'") {
+      const end = skipGoString(content, i);
+      result += content.slice(i, end + 1);
+      i = end + 1;
+    } else if (ch === '`') {
+      const close = content.indexOf('`', i + 1);
+      const end = close < 0 ? content.length : close + 1;
+      result += content.slice(i, end);
+      i = end;
+    } else if (content.startsWith('//', i)) {
+      const close = content.indexOf('\n', i);
+      const end = close < 0 ? content.length : close;
+      result += ' '.repeat(end - i);
+      i = end;
+    } else if (content.startsWith('/*', i)) {
+      const close = content.indexOf('*/', i + 2);
+      const end = close < 0 ? content.length : close + 2;
+      result += content.slice(i, end).replace(/[^\n]/g, ' ');
+      i = end;
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+
+  return result;
+}
@@ -93,6 +93,17 @@ export function buildBackendDependencyGraph(context: BackendGraphContext): Depen
 
     // Link service dependencies
     for (const dep of service.dependencies) {
+      // Injected providers (NestJS constructor injection) link service to service
+      if (context.services.some((s) => s.name === dep)) {
+        edges.push({
+          from: serviceNodeId,
+          to: `service:${dep}`,
+          type: 'uses',
+          metadata: { injected: true },
+        });
+        continue;
+      }
+
       // Try to find the dependency file
       const depFile = findFileByImport(dep, service.file, context.files);
       if (depFile) {
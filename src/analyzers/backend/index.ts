@@ -8,10 +8,16 @@ export * from './query-detector';
 export * from './service-detector';
 export * from './graph-builder';
 export * from './graphql-detector';
+export * from './route-mounts';
+export * from './file-routes';
 
-export { parseBackendFile, parsePythonFile } from './parser';
+export { parseBackendFile, parsePythonFile, parseGoFile } from './parser';
 export { extractEndpoints } from './endpoint-extractor';
-export { detectDatabaseQueries } from './query-detector';
+export { resolveRouteMounts } from './route-mounts';
+export { extractFileRouteEndpoints } from './file-routes';
+export { detectDatabaseQueries, resolveQueryTables, isRawSQLCall } from './query-detector';
+export { parsePythonModule } from './python-ast';
+export { parseGoModule } from './go-ast';
 export { detectServices } from './service-detector';
 export { buildBackendDependencyGraph, detectCircularDependencies } from './graph-builder';
 export { detectCircularDependencies as detectBackendCircularDependencies } from './graph-builder';
@@ -7,6 +7,8 @@ import traverse from '@babel/traverse';
 import * as t from '@babel/types';
 import * as fs from 'fs';
 import { ParsedFile, Import, Export, FunctionDefinition, ClassDefinition } from '../../types';
+import { parsePythonModule } from './python-ast';
+import { parseGoModule } from './go-ast';
 
 export interface BackendParseOptions {
   sourceType?: 'module' | 'script';
@@ -253,18 +255,6 @@ export function parsePythonFile(
             line: i + 1,
           });
         }
-      } else if (line.startsWith('from ')) {
-        const match = line.match(/^from\s+([^\s]+)\s+import\s+(.+)$/);
-        if (match) {
-          const module = match[1];
-          const imports_list = match[2].split(',').map((s) => s.trim());
-          imports.push({
-            from: module,
-            named: imports_list,
-            type: 'import',
-            line: i + 1,
-          });
-        }
       }
 
       // Function definitions
@@ -291,14 +281,41 @@ export function parsePythonFile(
         classes.push({
           name: classMatch[1],
           line: i + 1,
-          methods: [], // Would need full parsing to extract methods
+          methods: [],
+        });
+      }
+    }
+
+    // Structural model (statements and scopes) used by the Python detectors
+    const ast = parsePythonModule(fileContent);
+
+    // "from" imports may span lines in parentheses, so read them from statements
+    for (const statement of ast.statements) {
+      const match = statement.text.match(/^from\s+(\S+)\s+import\s+\(?([\s\S]+?)\)?$/);
+      if (match) {
+        imports.push({
+          from: match[1],
+          named: match[2].split(',').map((s) => s.trim()).filter((s) => s),
+          type: 'import',
+          line: statement.line,
         });
       }
     }
+    imports.sort((a, b) => a.line - b.line);
+    for (const cls of classes) {
+      const scope = ast.scopes.find((sc) => sc.type === 'class' && sc.line === cls.line);
+      if (scope) {
+        cls.methods = ast.scopes
+          .filter((sc) => sc.type === 'def' && sc.parent === scope)
+          .map((sc) => sc.name);
+        cls.extends = scope.bases[0];
+      }
+    }
 
     return {
       path: filePath,
       language: 'python',
+      ast,
       imports,
       exports,
       functions,
@@ -312,22 +329,81 @@ export function parsePythonFile(
   }
 }
 
+/**
+ * Parse Go file (structural parsing of imports, funcs and structs)
+ */
+export function parseGoFile(
+  filePath: string,
+  content?: string
+): ParsedFile | null {
+  try {
+    const fileContent = content || fs.readFileSync(filePath, 'utf-8');
+    const ast = parseGoModule(fileContent);
+
+    const imports: Import[] = ast.imports.map((imp) => ({
+      from: imp.path,
+      default: imp.name,
+      type: 'import' as const,
+      line: imp.line,
+    }));
+
+    const functions: FunctionDefinition[] = ast.functions.map((fn) => ({
+      name: fn.receiver ? `${fn.receiver}.${fn.name}` : fn.name,
+      line: fn.line,
+      parameters: fn.params
+        .split(',')
+        .map((p) => p.trim().split(/\s+/)[0])
+        .filter((p) => p),
+    }));
+
+    const classes: ClassDefinition[] = ast.structs.map((struct) => ({
+      name: struct.name,
+      line: struct.line,
+      methods: ast.functions.filter((fn) => fn.receiver === struct.name).map((fn) => fn.name),
+    }));
+
+    // Exported identifiers start with an upper-case letter
+    const exports: Export[] = [...ast.functions.filter((fn) => !fn.receiver), ...ast.structs]
+      .filter((decl) => /^[A-Z]/.test(decl.name))
+      .map((decl) => ({ name: decl.name, type: 'named' as const, line: decl.line }));
+
+    return {
+      path: filePath,
+      language: 'go',
+      ast,
+      imports,
+      exports,
+      functions,
+      classes,
+      linesOfCode: fileContent.split('\n').length,
+      complexity: 0,
+    };
+  } catch (error: any) {
+    console.error(`Failed to parse ${filePath}:`, error.message);
+    return null;
+  }
+}
+
 /**
  * Calculate cyclomatic complexity (simplified)
  */
 function calculateComplexity(ast: t.File): number {
   let complexity = 1;
+  // Visitors must not return a value, so increment in a block body
+  const increment = () => {
+    complexity++;
+  };
 
   traverse(ast, {
-    IfStatement: () => complexity++,
-    ForStatement: () => complexity++,
-    ForInStatement: () => complexity++,
-    ForOfStatement: () => complexity++,
-    WhileStatement: () => complexity++,
-    DoWhileStatement: () => complexity++,
-    SwitchCase: () => complexity++,
-    CatchClause: () => complexity++,
-    ConditionalExpression: () => complexity++,
+    IfStatement: increment,
+    ForStatement: increment,
+    ForInStatement: increment,
+    ForOfStatement: increment,
+    WhileStatement: increment,
+    DoWhileStatement: increment,
+    SwitchCase: increment,
+    CatchClause: increment,
+    ConditionalExpression: increment,
     LogicalExpression(path) {
       if (path.node.operator === '&&' || path.node.operator === '||') {
         complexity++;
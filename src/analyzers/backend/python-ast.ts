@@ -0,0 +1,386 @@
+/**
+ * Lightweight structural parser for Python source
+ *
+ * Splits a module into logical statements (joining bracketed and
+ * backslash-continued lines, keeping string literals intact and dropping
+ * comments) and derives def/class scopes from indentation.
+ */
+
+export interface PythonStatement {
+  text: string;
+  line: number;
+  endLine: number;
+  indent: number;
+  decorators: string[]; // Decorators applied to a def/class statement
+}
+
+export interface PythonScope {
+  type: 'def' | 'class';
+  name: string;
+  line: number;
+  endLine: number;
+  indent: number;
+  bases: string[]; // Base classes for classes
+  params: string; // Raw parameter list for defs
+  decorators: string[];
+  parent?: PythonScope;
+}
+
+export interface PythonModule {
+  type: 'PythonModule';
+  statements: PythonStatement[];
+  scopes: PythonScope[];
+}
+
+export interface PythonCallArguments {
+  positional: string[];
+  keywords: Record<string, string>;
+}
+
+export interface PythonString {
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse Python source into statements and scopes
+ */
+export function parsePythonModule(content: string): PythonModule {
+  const rawStatements = splitLogicalLines(content);
+
+  // Attach decorators to the def/class that follows them
+  const statements: PythonStatement[] = [];
+  let pendingDecorators: string[] = [];
+  for (const statement of rawStatements) {
+    if (statement.text.startsWith('@')) {
+      pendingDecorators.push(statement.text.slice(1).trim());
+      continue;
+    }
+    if (/^(?:async\s+def|def|class)\s/.test(statement.text)) {
+      statement.decorators = pendingDecorators;
+    }
+    pendingDecorators = [];
+    statements.push(statement);
+  }
+
+  const scopes: PythonScope[] = [];
+  const stack: PythonScope[] = [];
+
+  for (const statement of statements) {
+    while (stack.length > 0 && statement.indent <= stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+
+    for (const open of stack) {
+      open.endLine = Math.max(open.endLine, statement.endLine);
+    }
+
+    const defMatch = statement.text.match(/^(?:async\s+)?def\s+(\w+)\s*\(([\s\S]*)\)\s*(?:->[\s\S]*)?:/);
+    const classMatch = statement.text.match(/^class\s+(\w+)\s*(?:\(([\s\S]*?)\))?\s*:/);
+
+    if (defMatch || classMatch) {
+      const scope: PythonScope = {
+        type: defMatch ? 'def' : 'class',
+        name: defMatch ? defMatch[1] : classMatch![1],
+        line: statement.line,
+        endLine: statement.endLine,
+        indent: statement.indent,
+        bases: classMatch && classMatch[2] ? splitArguments(classMatch[2]) : [],
+        params: defMatch ? defMatch[2] : '',
+        decorators: statement.decorators,
+        parent: stack[stack.length - 1],
+      };
+      scopes.push(scope);
+      stack.push(scope);
+    }
+  }
+
+  return { type: 'PythonModule', statements, scopes };
+}
+
+/**
+ * Check whether a parsed AST is a Python module
+ */
+export function isPythonModule(ast: unknown): ast is PythonModule {
+  return !!ast && (ast as PythonModule).type === 'PythonModule';
+}
+
+/**
+ * Find the innermost scope containing a line
+ */
+export function findPythonScope(
+  module: PythonModule,
+  line: number,
+  type?: PythonScope['type']
+): PythonScope | undefined {
+  let found: PythonScope | undefined;
+  for (const scope of module.scopes) {
+    if (scope.line < line && line <= scope.endLine && (!type || scope.type === type)) {
+      if (!found || scope.line > found.line) {
+        found = scope;
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Get a def's name qualified by its class (e.g. UserView.get)
+ */
+export function getQualifiedName(scope: PythonScope): string {
+  return scope.parent?.type === 'class' ? `${scope.parent.name}.${scope.name}` : scope.name;
+}
+
+/**
+ * Get statements declared directly in a class body (not inside its methods)
+ */
+export function getClassBody(module: PythonModule, scope: PythonScope): PythonStatement[] {
+  return module.statements.filter(
+    (s) =>
+      s.line > scope.line &&
+      s.line <= scope.endLine &&
+      findPythonScope(module, s.line) === scope
+  );
+}
+
+/**
+ * Extract string literals (including implicit concatenation) from Python code
+ */
+export function extractPythonStrings(code: string): PythonString[] {
+  const strings: PythonString[] = [];
+  const pattern = /([rRbBuUfF]{0,2})('''|"""|'|")/g;
+  let match;
+
+  while ((match = pattern.exec(code)) !== null) {
+    const quote = match[2];
+    const bodyStart = match.index + match[0].length;
+    let i = bodyStart;
+    let value = '';
+    const raw = /r/i.test(match[1]);
+
+    while (i < code.length) {
+      if (!raw && code[i] === '\\' && i + 1 < code.length) {
+        value += code[i + 1] === 'n' ? '\n' : code[i + 1];
+        i += 2;
+        continue;
+      }
+      if (code.startsWith(quote, i)) {
+        break;
+      }
+      value += code[i];
+      i++;
+    }
+
+    const end = i + quote.length;
+    const previous = strings[strings.length - 1];
+    if (previous && /^\s*$/.test(code.slice(previous.end, match.index))) {
+      // Adjacent literals concatenate
+      previous.value += value;
+      previous.end = end;
+    } else {
+      strings.push({ value, start: match.index, end });
+    }
+    pattern.lastIndex = end;
+  }
+
+  return strings;
+}
+
+/**
+ * Split a call's argument list at top-level commas (or another separator)
+ */
+export function splitArguments(args: string, separator = ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const ch = args[i];
+    if (quote) {
+      current += ch;
+      if (ch === '\\') {
+        current += args[++i] ?? '';
+      } else if (ch === quote) {
+        quote = null;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if ('([{'.includes(ch)) {
+      depth++;
+    } else if (')]}'.includes(ch)) {
+      depth--;
+    } else if (ch === separator && depth === 0) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Split call arguments into positional and keyword arguments
+ */
+export function parseCallArguments(args: string): PythonCallArguments {
+  const result: PythonCallArguments = { positional: [], keywords: {} };
+  for (const arg of splitArguments(args)) {
+    const keyword = arg.match(/^(\w+)\s*=(?!=)\s*([\s\S]*)$/);
+    if (keyword) {
+      result.keywords[keyword[1]] = keyword[2].trim();
+    } else {
+      result.positional.push(arg);
+    }
+  }
+  return result;
+}
+
+/**
+ * Get the argument text of the call that opens at the given index
+ */
+export function getCallArguments(code: string, openParen: number): string {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = openParen; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (code.startsWith(quote, i)) {
+        i += quote.length - 1;
+        quote = null;
+      }
+      continue;
+    }
+    if (code.startsWith('"""', i) || code.startsWith("'''", i)) {
+      quote = code.slice(i, i + 3);
+      i += 2;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+      if (depth === 0) {
+        return code.slice(openParen + 1, i);
+      }
+    }
+  }
+
+  return code.slice(openParen + 1);
+}
+
+/**
+ * Split source into logical lines
+ */
+function splitLogicalLines(content: string): PythonStatement[] {
+  const statements: PythonStatement[] = [];
+  let text = '';
+  let startLine = 1;
+  let line = 1;
+  let depth = 0;
+  let quote: string | null = null;
+  let indent = 0;
+  let atLineStart = true;
+
+  const flush = () => {
+    const trimmed = text.trim();
+    if (trimmed) {
+      statements.push({ text: trimmed, line: startLine, endLine: line, indent, decorators: [] });
+    }
+    text = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+
+    if (atLineStart && !quote && depth === 0 && !text.trim()) {
+      // Measure indentation of a new logical line
+      let j = i;
+      let width = 0;
+      while (j < content.length && (content[j] === ' ' || content[j] === '\t')) {
+        width += content[j] === '\t' ? 8 - (width % 8) : 1;
+        j++;
+      }
+      indent = width;
+      startLine = line;
+      i = j - 1;
+      atLineStart = false;
+      continue;
+    }
+    atLineStart = false;
+
+    if (quote && ch === '\n' && quote.length === 1) {
+      quote = null; // Unterminated single-line string
+    }
+
+    if (quote) {
+      text += ch;
+      if (ch === '\\' && i + 1 < content.length) {
+        text += content[++i];
+        if (content[i] === '\n') line++;
+        continue;
+      }
+      if (ch === '\n') {
+        line++;
+      }
+      if (content.startsWith(quote, i)) {
+        text += quote.slice(1);
+        i += quote.length - 1;
+        quote = null;
+      }
+      continue;
+    }
+
+    if (content.startsWith('"""', i) || content.startsWith("'''", i)) {
+      quote = content.slice(i, i + 3);
+      text += quote;
+      i += 2;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      text += ch;
+      continue;
+    }
+
+    if (ch === '#') {
+      while (i + 1 < content.length && content[i + 1] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '\\' && content[i + 1] === '\n') {
+      text += ' ';
+      i++;
+      line++;
+      continue;
+    }
+
+    if ('([{'.includes(ch)) depth++;
+    if (')]}'.includes(ch)) depth = Math.max(0, depth - 1);
+
+    if (ch === '\n') {
+      if (depth > 0) {
+        text += ' ';
+        line++;
+        continue;
+      }
+      flush();
+      line++;
+      atLineStart = true;
+      continue;
+    }
+
+    text += ch;
+  }
+
+  flush();
+  return statements;
+}
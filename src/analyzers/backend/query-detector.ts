@@ -6,6 +6,52 @@ import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import { DatabaseQuery } from '../../types';
 import { ParsedFile } from '../../types';
+import { Table } from '../../types';
+import {
+  PythonModule,
+  PythonStatement,
+  isPythonModule,
+  findPythonScope,
+  getQualifiedName,
+  extractPythonStrings,
+  splitArguments,
+  getCallArguments,
+} from './python-ast';
+import {
+  GoModule,
+  isGoModule,
+  goLineAt,
+  findGoFunction,
+  getGoQualifiedName,
+  getGoCallArguments,
+  splitGoArguments,
+  readGoString,
+  findGoStringValue,
+  findGoVariableType,
+} from './go-ast';
+import { parseSQLAlchemyModels, parseDjangoModels, parseGORMModels } from '../database/orm-parser';
+import { getRequestBodyField } from './request-body';
+
+/** Option keys of ORM query methods, as opposed to the values passed to create/update */
+const ORM_OPTION_KEYS = [
+  'where',
+  'attributes',
+  'select',
+  'data',
+  'create',
+  'update',
+  'include',
+  'relations',
+  'order',
+  'orderBy',
+  'limit',
+  'offset',
+  'skip',
+  'take',
+];
+
+/** Methods taking SQL text as their first argument, lowercased */
+const RAW_SQL_METHODS = ['query', 'execute', 'raw', '$queryrawunsafe', '$executerawunsafe'];
 
 /**
  * Detect database queries in backend code
@@ -17,13 +63,20 @@ export function detectDatabaseQueries(parsedFile: ParsedFile): DatabaseQuery[] {
     return queries;
   }
 
+  if (isPythonModule(parsedFile.ast)) {
+    return detectPythonQueries(parsedFile.ast, parsedFile);
+  }
+
+  if (isGoModule(parsedFile.ast)) {
+    return detectGoQueries(parsedFile.ast, parsedFile);
+  }
+
   const ast = parsedFile.ast as t.File;
 
   // Detect ORM type
   const hasSequelize = checkORM(parsedFile, 'sequelize');
   const hasTypeORM = checkORM(parsedFile, 'typeorm');
   const hasPrisma = checkORM(parsedFile, 'prisma');
-  const hasSQLAlchemy = checkORM(parsedFile, 'sqlalchemy');
 
   if (hasSequelize) {
     queries.push(...detectSequelizeQueries(ast, parsedFile));
@@ -31,8 +84,6 @@ export function detectDatabaseQueries(parsedFile: ParsedFile): DatabaseQuery[] {
     queries.push(...detectTypeORMQueries(ast, parsedFile));
   } else if (hasPrisma) {
     queries.push(...detectPrismaQueries(ast, parsedFile));
-  } else if (hasSQLAlchemy) {
-    queries.push(...detectSQLAlchemyQueries(ast, parsedFile));
   }
 
   // Also detect raw SQL queries
@@ -81,13 +132,16 @@ function detectSequelizeQueries(ast: t.File, parsedFile: ParsedFile): DatabaseQu
         const prop = callExpr.callee.property;
 
         if (t.isIdentifier(prop) && sequelizeMethods.includes(prop.name)) {
+          // User.create(): models are conventionally PascalCase
+          const obj = callExpr.callee.object;
           const query = extractORMQuery(
             callExpr,
             prop.name,
             parsedFile,
             path,
             `sequelize-${++queryId}`,
-            'sequelize'
+            'sequelize',
+            t.isIdentifier(obj) && /^[A-Z]/.test(obj.name) ? obj.name : undefined
           );
           if (query) {
             queries.push(query);
@@ -233,12 +287,486 @@ function detectPrismaQueries(ast: t.File, parsedFile: ParsedFile): DatabaseQuery
 }
 
 /**
- * Detect SQLAlchemy queries (Python - basic pattern matching)
+ * Detect queries in a Python module (SQLAlchemy, Django ORM and raw SQL)
  */
-function detectSQLAlchemyQueries(ast: t.File, parsedFile: ParsedFile): DatabaseQuery[] {
-  // SQLAlchemy is Python, so we'd need Python AST parsing
-  // For now, return empty array
-  return [];
+function detectPythonQueries(module: PythonModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  // Models declared in the same file resolve to their table names directly
+  const localTables = new Map<string, string>();
+  for (const table of [...parseSQLAlchemyModels(parsedFile), ...parseDjangoModels(parsedFile)]) {
+    if (table.model) {
+      localTables.set(table.model, table.name);
+    }
+  }
+
+  const queries = [
+    ...detectSQLAlchemyQueries(module, parsedFile),
+    ...detectDjangoQueries(module, parsedFile),
+    ...detectPythonRawSQLQueries(module, parsedFile),
+  ];
+
+  for (const query of queries) {
+    if (query.table && localTables.has(query.table)) {
+      query.table = localTables.get(query.table);
+      query.tables = [query.table!];
+    }
+  }
+
+  return queries.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Detect SQLAlchemy queries
+ */
+function detectSQLAlchemyQueries(module: PythonModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  const queries: DatabaseQuery[] = [];
+  let queryId = 0;
+
+  const usesSQLAlchemy = checkORM(parsedFile, 'sqlalchemy') || checkORM(parsedFile, 'sqlmodel');
+
+  const patterns: Array<{
+    pattern: RegExp;
+    modelGroup: number;
+    method: string | number; // Fixed method name or capture group
+    requiresImport?: boolean;
+  }> = [
+    // session.query(User).filter(...), db.session.query(User.id)
+    { pattern: /\.query\(\s*([A-Z]\w*)/g, modelGroup: 1, method: 'query' },
+    // Flask-SQLAlchemy: User.query.filter_by(...)
+    { pattern: /\b([A-Z]\w*)\.query\.(\w+)/g, modelGroup: 1, method: 2 },
+    // session.add(User(...)), session.get(User, id)
+    { pattern: /\bsession\.(add|get|merge)\(\s*([A-Z]\w*)\b/g, modelGroup: 2, method: 1 },
+    // 2.0 style: select(User), insert(User).values(...), update(User), delete(User)
+    {
+      pattern: /(?<![\w.])(?:sa\.|sqlalchemy\.)?(select|insert|update|delete)\(\s*([A-Z]\w*)/g,
+      modelGroup: 2,
+      method: 1,
+      requiresImport: true,
+    },
+  ];
+
+  for (const statement of module.statements) {
+    const seen = new Set<string>();
+
+    for (const { pattern, modelGroup, method, requiresImport } of patterns) {
+      if (requiresImport && !usesSQLAlchemy) {
+        continue;
+      }
+      pattern.lastIndex = 0;
+      let match;
+      while ((match = pattern.exec(statement.text)) !== null) {
+        const model = match[modelGroup];
+        const call = typeof method === 'number' ? match[method] : method;
+        if (seen.has(model)) {
+          continue; // session.execute(select(User)) etc. is one query
+        }
+        seen.add(model);
+
+        const chainMethod = findChainedMethod(statement.text.slice(match.index), ['delete', 'update']);
+        const ormMethod = chainMethod || call;
+        queries.push(
+          createPythonQuery(module, parsedFile, statement, {
+            id: `sqlalchemy-${++queryId}`,
+            type: inferPythonORMQueryType(ormMethod),
+            table: model,
+            ormMethod,
+          })
+        );
+      }
+    }
+  }
+
+  return queries;
+}
+
+/**
+ * Detect Django ORM queries (Model.objects.<method>)
+ */
+function detectDjangoQueries(module: PythonModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  const queries: DatabaseQuery[] = [];
+  let queryId = 0;
+
+  for (const statement of module.statements) {
+    const pattern = /\b([A-Z]\w*)\.objects\.(\w+)\(/g;
+    let match;
+    while ((match = pattern.exec(statement.text)) !== null) {
+      const model = match[1];
+      const chain = statement.text.slice(match.index);
+      const ormMethod =
+        findChainedMethod(chain, ['delete', 'update', 'create', 'get_or_create', 'update_or_create']) ||
+        match[2];
+
+      let sql: string | undefined;
+      if (match[2] === 'raw') {
+        const args = splitArguments(getCallArguments(statement.text, match.index + match[0].length - 1));
+        sql = extractPythonStrings(args[0] || '')[0]?.value;
+      }
+
+      queries.push(
+        createPythonQuery(module, parsedFile, statement, {
+          id: `django-${++queryId}`,
+          type: sql ? inferQueryType(sql) : inferPythonORMQueryType(ormMethod),
+          table: model,
+          ormMethod,
+          sql,
+        })
+      );
+    }
+  }
+
+  return queries;
+}
+
+/**
+ * Detect raw SQL in Python (cursor.execute, connection.execute(text(...)), ...)
+ */
+function detectPythonRawSQLQueries(module: PythonModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  const queries: DatabaseQuery[] = [];
+  let queryId = 0;
+
+  for (const statement of module.statements) {
+    const pattern = /([\w.]*)\.(execute|executemany|executescript|raw)\(/g;
+    let match;
+    while ((match = pattern.exec(statement.text)) !== null) {
+      if (match[1].endsWith('.objects')) {
+        continue; // Model.objects.raw() is handled with Django queries
+      }
+
+      const args = splitArguments(getCallArguments(statement.text, match.index + match[0].length - 1));
+      let sqlArg = args[0] || '';
+      const textMatch = sqlArg.match(/^(?:\w+\.)?text\(/);
+      if (textMatch) {
+        sqlArg = getCallArguments(sqlArg, textMatch[0].length - 1);
+      }
+
+      const sql = /^[rRbBuUfF]{0,2}['"]/.test(sqlArg)
+        ? extractPythonStrings(sqlArg)[0]?.value
+        : /^\w+$/.test(sqlArg)
+          ? findAssignedString(module, statement, sqlArg)
+          : undefined;
+
+      if (!sql || !/^\s*(SELECT|INSERT|UPDATE|DELETE|WITH|REPLACE|MERGE)\b/i.test(sql)) {
+        continue;
+      }
+
+      const tables = extractTablesFromSQL(sql);
+      queries.push(
+        createPythonQuery(module, parsedFile, statement, {
+          id: `sql-${++queryId}`,
+          type: inferQueryType(sql),
+          sql,
+          tables: tables.length > 0 ? tables : undefined,
+          columns: extractColumnsFromSQL(sql),
+          confidence: 0.9,
+        })
+      );
+    }
+  }
+
+  return queries;
+}
+
+/**
+ * Build a query for a Python statement
+ */
+function createPythonQuery(
+  module: PythonModule,
+  parsedFile: ParsedFile,
+  statement: PythonStatement,
+  query: Pick<DatabaseQuery, 'id' | 'type'> & Partial<DatabaseQuery>
+): DatabaseQuery {
+  const scope = findPythonScope(module, statement.line, 'def');
+  return {
+    file: parsedFile.path,
+    function: scope ? getQualifiedName(scope) : undefined,
+    line: statement.line,
+    confidence: 0.85,
+    ...query,
+    tables: query.tables ?? (query.table ? [query.table] : undefined),
+  };
+}
+
+/**
+ * Find the last chained call among the given methods (e.g. .filter(...).delete())
+ */
+function findChainedMethod(chain: string, methods: string[]): string | undefined {
+  let found: string | undefined;
+  const pattern = new RegExp(`\\.(${methods.join('|')})\\(`, 'g');
+  let match;
+  while ((match = pattern.exec(chain)) !== null) {
+    found = match[1];
+  }
+  return found;
+}
+
+/**
+ * Find the string most recently assigned to a variable before a statement
+ */
+function findAssignedString(
+  module: PythonModule,
+  statement: PythonStatement,
+  variable: string
+): string | undefined {
+  const pattern = new RegExp(`^${variable}\\s*(?::[^=]+)?=\\s*([\\s\\S]+)$`);
+  let value: string | undefined;
+  for (const candidate of module.statements) {
+    if (candidate.line >= statement.line) {
+      break;
+    }
+    const match = candidate.text.match(pattern);
+    if (match && /^[rRbBuUfF]{0,2}['"(]/.test(match[1])) {
+      value = extractPythonStrings(match[1])[0]?.value;
+    }
+  }
+  return value;
+}
+
+/**
+ * Infer query type from a SQLAlchemy or Django ORM method
+ */
+function inferPythonORMQueryType(method: string): 'select' | 'insert' | 'update' | 'delete' {
+  const insertMethods = ['add', 'insert', 'create', 'bulk_create', 'get_or_create', 'update_or_create'];
+  const updateMethods = ['update', 'bulk_update', 'merge'];
+  const deleteMethods = ['delete'];
+
+  if (insertMethods.includes(method)) {
+    return 'insert';
+  } else if (updateMethods.includes(method)) {
+    return 'update';
+  } else if (deleteMethods.includes(method)) {
+    return 'delete';
+  }
+
+  return 'select';
+}
+
+// GORM finisher methods and the query type they run
+const GORM_FINISHERS: Record<string, DatabaseQuery['type']> = {
+  First: 'select',
+  Last: 'select',
+  Take: 'select',
+  Find: 'select',
+  Scan: 'select',
+  Count: 'select',
+  Pluck: 'select',
+  FirstOrInit: 'select',
+  Create: 'insert',
+  CreateInBatches: 'insert',
+  FirstOrCreate: 'insert',
+  Save: 'update',
+  Update: 'update',
+  Updates: 'update',
+  UpdateColumn: 'update',
+  UpdateColumns: 'update',
+  Delete: 'delete',
+};
+
+/**
+ * Detect queries in a Go module (database/sql, sqlx and GORM)
+ */
+function detectGoQueries(module: GoModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  const localTables = new Map<string, string>();
+  for (const table of parseGORMModels(parsedFile)) {
+    if (table.model) {
+      localTables.set(table.model, table.name);
+    }
+  }
+
+  const queries = [...detectGoRawSQLQueries(module, parsedFile)];
+  if (checkORM(parsedFile, 'gorm')) {
+    queries.push(...detectGORMQueries(module, parsedFile));
+  }
+
+  for (const query of queries) {
+    if (query.table && localTables.has(query.table)) {
+      query.table = localTables.get(query.table);
+      query.tables = [query.table!];
+    }
+  }
+
+  return queries.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Detect SQL strings passed to database/sql, sqlx and GORM Raw/Exec calls
+ */
+function detectGoRawSQLQueries(module: GoModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  const queries: DatabaseQuery[] = [];
+  let queryId = 0;
+  const pattern =
+    /\.\s*(Query|QueryRow|QueryContext|QueryRowContext|Exec|ExecContext|MustExec|Prepare|PrepareContext|Queryx|QueryRowx|Get|Select|GetContext|SelectContext|NamedExec|NamedQuery|Raw)\(/g;
+  let match;
+
+  while ((match = pattern.exec(module.source)) !== null) {
+    const args = splitGoArguments(getGoCallArguments(module.source, match.index + match[0].length - 1));
+
+    // The SQL follows ctx and/or dest arguments in the *Context and sqlx variants
+    let sql: string | undefined;
+    for (const arg of args.slice(0, 3)) {
+      const value = /^\w+$/.test(arg) ? findGoStringValue(module, arg, match.index) : readGoString(arg);
+      if (value !== undefined) {
+        sql = value;
+        break;
+      }
+    }
+    if (!sql || !/^\s*(SELECT|INSERT|UPDATE|DELETE|WITH|REPLACE|MERGE)\b/i.test(sql)) {
+      continue;
+    }
+
+    const tables = extractTablesFromSQL(sql);
+    queries.push(
+      createGoQuery(module, parsedFile, match.index, {
+        id: `sql-${++queryId}`,
+        type: inferQueryType(sql),
+        sql,
+        tables: tables.length > 0 ? tables : undefined,
+        columns: extractColumnsFromSQL(sql),
+        confidence: 0.9,
+      })
+    );
+  }
+
+  return queries;
+}
+
+/**
+ * Detect GORM method chains (db.Where(...).First(&user), db.Model(&User{}).Update(...))
+ */
+function detectGORMQueries(module: GoModule, parsedFile: ParsedFile): DatabaseQuery[] {
+  const queries: DatabaseQuery[] = [];
+  let queryId = 0;
+  const source = module.source;
+  const pattern = new RegExp(`\\.\\s*(${Object.keys(GORM_FINISHERS).join('|')})\\(`, 'g');
+  let match;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const chainStart = findGoChainStart(source, match.index);
+    const chain = source.slice(chainStart, match.index);
+    const root = chain.match(/^\w+/)?.[0];
+    if (!root || module.imports.some((imp) => imp.name === root) || /\.(?:Raw|Exec)\(/.test(chain)) {
+      continue; // Package functions, and raw SQL handled separately
+    }
+
+    // Model from .Table("users") / .Model(&User{}) in the chain, else the finisher's arguments
+    const args = splitGoArguments(getGoCallArguments(source, match.index + match[0].length - 1));
+    const tableCall = chain.match(/\.Table\(\s*("[^"]*"|`[^`]*`)/);
+    const modelCall = chain.match(/\.Model\(\s*([^)]*)\)/);
+    const table = tableCall
+      ? readGoString(tableCall[1])
+      : resolveGoModelArgument(module, modelCall ? modelCall[1] : args[0] || '', match.index);
+    if (!table) {
+      continue;
+    }
+
+    queries.push(
+      createGoQuery(module, parsedFile, match.index, {
+        id: `gorm-${++queryId}`,
+        type: GORM_FINISHERS[match[1]],
+        table,
+        ormMethod: match[1],
+      })
+    );
+  }
+
+  return queries;
+}
+
+/**
+ * Resolve a GORM model argument (&User{}, &users, user) to a model type name
+ */
+function resolveGoModelArgument(module: GoModule, argument: string, offset: number): string | undefined {
+  const expression = argument.trim();
+  const literal = expression.match(/^&?(?:\[\])?(?:\w+\.)?([A-Z]\w*)\s*\{/);
+  if (literal) {
+    return literal[1];
+  }
+  const variable = expression.match(/^&?(\w+)$/);
+  const type = variable ? findGoVariableType(module, variable[1], offset) : undefined;
+  return type && /^[A-Z]/.test(type) ? type : undefined;
+}
+
+/**
+ * Find where a method chain ending before the given dot starts (db.Where(...).Order(...))
+ */
+function findGoChainStart(source: string, dot: number): number {
+  let i = dot;
+  while (i > 0) {
+    let j = i - 1;
+    while (j >= 0 && /\s/.test(source[j])) {
+      j--;
+    }
+    if (source[j] === ')') {
+      // Walk back over the call's arguments
+      let depth = 0;
+      for (; j >= 0; j--) {
+        if (source[j] === ')') {
+          depth++;
+        } else if (source[j] === '(' && --depth === 0) {
+          break;
+        }
+      }
+      j--;
+    }
+    let start = j;
+    while (start >= 0 && /\w/.test(source[start])) {
+      start--;
+    }
+    if (start === j) {
+      return i;
+    }
+    let k = start;
+    while (k >= 0 && /\s/.test(source[k])) {
+      k--;
+    }
+    if (source[k] !== '.') {
+      return start + 1;
+    }
+    i = k;
+  }
+  return 0;
+}
+
+/**
+ * Build a query for a call at an offset in a Go module
+ */
+function createGoQuery(
+  module: GoModule,
+  parsedFile: ParsedFile,
+  offset: number,
+  query: Pick<DatabaseQuery, 'id' | 'type'> & Partial<DatabaseQuery>
+): DatabaseQuery {
+  const fn = findGoFunction(module, offset);
+  return {
+    file: parsedFile.path,
+    function: fn ? getGoQualifiedName(fn) : undefined,
+    line: goLineAt(module, offset),
+    confidence: 0.85,
+    ...query,
+    tables: query.tables ?? (query.table ? [query.table] : undefined),
+  };
+}
+
+/**
+ * Map queries that name ORM models to the tables those models declare
+ */
+export function resolveQueryTables(queries: DatabaseQuery[], tables: Table[]): DatabaseQuery[] {
+  // Prisma delegates lowercase the model name (prisma.user for model User)
+  const modelTables = new Map<string, string>();
+  for (const table of tables) {
+    if (table.model) {
+      modelTables.set(table.model.toLowerCase(), table.name);
+    }
+  }
+
+  for (const query of queries) {
+    if (query.table && modelTables.has(query.table.toLowerCase())) {
+      query.table = modelTables.get(query.table.toLowerCase());
+    }
+    if (query.tables) {
+      query.tables = query.tables.map((table) => modelTables.get(table.toLowerCase()) || table);
+    }
+  }
+
+  return queries;
 }
 
 /**
@@ -248,33 +776,29 @@ function detectRawSQLQueries(ast: t.File, parsedFile: ParsedFile): DatabaseQuery
   const queries: DatabaseQuery[] = [];
   let queryId = 0;
 
-  const sqlMethods = ['query', 'execute', 'raw'];
-
   traverse(ast, {
     CallExpression(path) {
       const callExpr = path.node;
-      if (t.isMemberExpression(callExpr.callee)) {
-        const prop = callExpr.callee.property;
+      if (isRawSQLCall(callExpr)) {
+        // Check for SQL string in arguments
+        if (callExpr.arguments.length > 0) {
+          const sqlArg = callExpr.arguments[0];
+          if (t.isStringLiteral(sqlArg)) {
+            const sql = sqlArg.value;
+            const tables = extractTablesFromSQL(sql);
 
-        if (t.isIdentifier(prop) && sqlMethods.includes(prop.name.toLowerCase())) {
-          // Check for SQL string in arguments
-          if (callExpr.arguments.length > 0) {
-            const sqlArg = callExpr.arguments[0];
-            if (t.isStringLiteral(sqlArg)) {
-              const sql = sqlArg.value;
-              const tables = extractTablesFromSQL(sql);
-
-              queries.push({
-                id: `sql-${++queryId}`,
-                file: parsedFile.path,
-                function: findContainingFunction(path),
-                type: inferQueryType(sql),
-                sql,
-                tables: tables.length > 0 ? tables : undefined,
-                line: callExpr.loc?.start.line || 0,
-                confidence: 0.9,
-              });
-            }
+            queries.push({
+              id: `sql-${++queryId}`,
+              file: parsedFile.path,
+              function: findContainingFunction(path),
+              type: inferQueryType(sql),
+              sql,
+              tables: tables.length > 0 ? tables : undefined,
+              columns: extractColumnsFromSQL(sql),
+              columnSources: extractSQLColumnSources(sql, path.get('arguments')[1]),
+              line: callExpr.loc?.start.line || 0,
+              confidence: 0.9,
+            });
           }
         }
       }
@@ -284,6 +808,18 @@ function detectRawSQLQueries(ast: t.File, parsedFile: ParsedFile): DatabaseQuery
   return queries;
 }
 
+/**
+ * Check whether a call passes SQL text to the database: db.query(), knex.raw(), prisma.$queryRawUnsafe()
+ */
+export function isRawSQLCall(callExpr: t.CallExpression): boolean {
+  const callee = callExpr.callee;
+  return (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.property) &&
+    RAW_SQL_METHODS.includes(callee.property.name.toLowerCase())
+  );
+}
+
 /**
  * Extract ORM query
  */
@@ -305,11 +841,124 @@ function extractORMQuery(
     type: queryType,
     table: modelName,
     ormMethod: method,
+    columns: extractORMColumns(node),
+    columnSources: queryType === 'insert' || queryType === 'update' ? extractORMColumnSources(path) : undefined,
     line: node.loc?.start.line || 0,
     confidence: 0.85,
   };
 }
 
+/**
+ * Extract the columns an ORM call selects, filters on or writes:
+ * findAll({ attributes, where }), findMany({ select, where }), create({ data }),
+ * create(values), update(values, { where })
+ */
+function extractORMColumns(node: t.CallExpression): string[] | undefined {
+  const columns = new Set<string>();
+  const addKeys = (value: t.Node) => {
+    if (t.isObjectExpression(value)) {
+      for (const key of getStaticKeys(value)) {
+        // Prisma combines conditions with AND/OR/NOT
+        if (!['AND', 'OR', 'NOT'].includes(key)) {
+          columns.add(key);
+        }
+      }
+    }
+  };
+
+  for (const arg of node.arguments) {
+    if (!t.isObjectExpression(arg)) {
+      continue;
+    }
+    const options = arg.properties.filter(
+      (p): p is t.ObjectProperty =>
+        t.isObjectProperty(p) && t.isIdentifier(p.key) && ORM_OPTION_KEYS.includes(p.key.name)
+    );
+    if (options.length === 0) {
+      addKeys(arg); // Values to insert or update
+      continue;
+    }
+
+    for (const option of options) {
+      const key = (option.key as t.Identifier).name;
+      if (['where', 'data', 'create', 'update'].includes(key)) {
+        addKeys(option.value);
+      } else if (key === 'attributes' || key === 'select') {
+        // attributes: ['id', 'email'] / select: { id: true, email: true }
+        if (t.isArrayExpression(option.value)) {
+          option.value.elements.forEach((element) => t.isStringLiteral(element) && columns.add(element.value));
+        } else if (t.isObjectExpression(option.value)) {
+          const selected = option.value.properties.filter(
+            (p) => !t.isObjectProperty(p) || !t.isBooleanLiteral(p.value, { value: false })
+          );
+          getStaticKeys(t.objectExpression(selected)).forEach((column) => columns.add(column));
+        }
+      }
+    }
+  }
+
+  return columns.size > 0 ? [...columns] : undefined;
+}
+
+/**
+ * Map the columns an ORM call writes to the request body fields their values
+ * come from: create({ email: req.body.email }), update({ data: { name } })
+ */
+function extractORMColumnSources(path: NodePath<t.CallExpression>): Record<string, string> | undefined {
+  const sources: Record<string, string> = {};
+  const addValues = (object: NodePath) => {
+    if (!object.isObjectExpression()) {
+      return;
+    }
+    for (const property of object.get('properties')) {
+      if (!property.isObjectProperty()) {
+        continue;
+      }
+      const { key, computed } = property.node;
+      const column = t.isIdentifier(key) && !computed ? key.name : t.isStringLiteral(key) ? key.value : '';
+      const field = column ? getRequestBodyField(property.get('value')) : undefined;
+      if (field) {
+        sources[column] = field;
+      }
+    }
+  };
+
+  for (const arg of path.get('arguments')) {
+    if (!arg.isObjectExpression()) {
+      continue;
+    }
+    const options = arg
+      .get('properties')
+      .filter((p): p is NodePath<t.ObjectProperty> => p.isObjectProperty() && t.isIdentifier(p.node.key))
+      .filter((p) => ORM_OPTION_KEYS.includes((p.node.key as t.Identifier).name));
+    if (options.length === 0) {
+      addValues(arg);
+    }
+    for (const option of options) {
+      if (['data', 'create', 'update'].includes((option.node.key as t.Identifier).name)) {
+        addValues(option.get('value'));
+      }
+    }
+  }
+
+  return Object.keys(sources).length > 0 ? sources : undefined;
+}
+
+/**
+ * Get the static property names of an object literal
+ */
+function getStaticKeys(object: t.ObjectExpression): string[] {
+  return object.properties.flatMap((p) => {
+    if (!t.isObjectProperty(p) && !t.isObjectMethod(p)) {
+      return [];
+    }
+    if (t.isIdentifier(p.key) && !p.computed) {
+      return [p.key.name];
+    }
+    return t.isStringLiteral(p.key) ? [p.key.value] : [];
+  });
+}
+
 /**
  * Infer query type from ORM method
  */
@@ -349,6 +998,81 @@ function inferQueryType(sql: string): 'select' | 'insert' | 'update' | 'delete'
   return 'select'; // Default to select for unknown SQL
 }
 
+/**
+ * Extract the columns a SQL statement selects, inserts, sets or filters on
+ */
+function extractColumnsFromSQL(sql: string): string[] | undefined {
+  const columns = new Set<string>();
+  const addList = (list: string) => {
+    for (const item of list.split(',')) {
+      // users.email AS address -> email; skip *, expressions and placeholders
+      const match = item.trim().match(/^(?:[`"]?\w+[`"]?\.)?[`"]?([a-zA-Z_]\w*)[`"]?(?:\s+(?:AS\s+)?\w+)?$/i);
+      if (match) {
+        columns.add(match[1].toLowerCase());
+      }
+    }
+  };
+
+  const select = sql.match(/^\s*SELECT\s+(?:DISTINCT\s+)?([\s\S]+?)\s+FROM\s/i);
+  if (select) {
+    addList(select[1]);
+  }
+  const insert = sql.match(/INSERT\s+INTO\s+\S+\s*\(([^)]+)\)/i);
+  if (insert) {
+    addList(insert[1]);
+  }
+  const update = sql.match(/\bSET\s+([\s\S]+?)(?:\s+WHERE\s|\s+RETURNING\s|$)/i);
+  if (update) {
+    addList(update[1].split(',').map((assignment) => assignment.split('=')[0]).join(','));
+  }
+  const conditions =
+    /\b(?:WHERE|AND|OR|ON)\s+(?:[`"]?\w+[`"]?\.)?[`"]?([a-zA-Z_]\w*)[`"]?\s*(?:[=<>!]|\b(?:LIKE|IN|IS)\b)/gi;
+  let match;
+  while ((match = conditions.exec(sql)) !== null) {
+    columns.add(match[1].toLowerCase());
+  }
+
+  return columns.size > 0 ? [...columns] : undefined;
+}
+
+/**
+ * Map the columns an INSERT or UPDATE writes to the request body fields bound
+ * to their placeholders: query('INSERT INTO users (email) VALUES ($1)', [req.body.email])
+ */
+function extractSQLColumnSources(sql: string, params: NodePath | undefined): Record<string, string> | undefined {
+  if (!params?.isArrayExpression()) {
+    return undefined;
+  }
+  const assignments: Array<[string, string]> = [];
+  const insert = sql.match(/INSERT\s+INTO\s+\S+\s*\(([^)]+)\)\s*VALUES\s*\(([^)]+)\)/i);
+  if (insert) {
+    const values = insert[2].split(',');
+    insert[1].split(',').forEach((column, i) => values[i] && assignments.push([column, values[i]]));
+  }
+  const update = sql.match(/\bSET\s+([\s\S]+?)(?:\s+WHERE\s|\s+RETURNING\s|$)/i);
+  for (const assignment of update ? update[1].split(',') : []) {
+    const [column, value] = assignment.split('=');
+    if (value) {
+      assignments.push([column, value]);
+    }
+  }
+
+  const sources: Record<string, string> = {};
+  const elements = params.get('elements');
+  let position = 0;
+  for (const [column, value] of assignments) {
+    // $1-style placeholders are numbered, ? placeholders are positional
+    const placeholder = value.trim().match(/^(?:\$(\d+)|\?)$/);
+    const element = placeholder ? elements[placeholder[1] ? Number(placeholder[1]) - 1 : position++] : undefined;
+    const field = element?.node ? getRequestBodyField(element as NodePath) : undefined;
+    if (field) {
+      sources[column.trim().replace(/[`"]/g, '').toLowerCase()] = field;
+    }
+  }
+
+  return Object.keys(sources).length > 0 ? sources : undefined;
+}
+
 /**
  * Extract table names from SQL
  */
@@ -0,0 +1,88 @@
+/**
+ * Request body field detection for JavaScript handlers
+ *
+ * Finds the fields handlers read from req.body (Express, Next.js) or
+ * ctx.request.body (Koa), and which body field a value written to the
+ * database came from.
+ */
+
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { EndpointParameter } from '../../types';
+import { getKeyName, getPropertyName } from '../../utils/ast-utils';
+
+/**
+ * Check whether a node is the request body: req.body, request.body or ctx.request.body
+ */
+export function isRequestBody(node: t.Node | null | undefined): boolean {
+  if (!t.isMemberExpression(node) || node.computed || !t.isIdentifier(node.property, { name: 'body' })) {
+    return false;
+  }
+  const object = node.object;
+  return (
+    (t.isIdentifier(object) && /^(req|request)$/.test(object.name)) ||
+    (t.isMemberExpression(object) && t.isIdentifier(object.property, { name: 'request' }))
+  );
+}
+
+/**
+ * Collect the body fields a handler reads: req.body.email, req.body['email'],
+ * const { email } = req.body
+ */
+export function extractBodyParameters(handler: t.Node): EndpointParameter[] {
+  const names = new Set<string>();
+
+  t.traverseFast(handler, (node) => {
+    if (t.isMemberExpression(node) && isRequestBody(node.object)) {
+      const name = getPropertyName(node);
+      if (name) {
+        names.add(name);
+      }
+    }
+    if (t.isVariableDeclarator(node) && t.isObjectPattern(node.id) && isRequestBody(node.init)) {
+      for (const property of node.id.properties) {
+        const name = t.isObjectProperty(property) ? getKeyName(property.key) : undefined;
+        if (name) {
+          names.add(name);
+        }
+      }
+    }
+  });
+
+  return [...names].map((name): EndpointParameter => ({ name, type: 'body', required: false }));
+}
+
+/**
+ * Get the body field a value comes from: req.body.email, or a variable
+ * initialized from it (const email = req.body.email, const { email } = req.body)
+ */
+export function getRequestBodyField(path: NodePath): string | undefined {
+  const node = path.node;
+  if (t.isMemberExpression(node) && isRequestBody(node.object)) {
+    return getPropertyName(node);
+  }
+  if (!t.isIdentifier(node)) {
+    return undefined;
+  }
+
+  const binding = path.scope.getBinding(node.name);
+  const declarator = binding?.path.node;
+  if (binding?.kind === 'param' || !t.isVariableDeclarator(declarator)) {
+    return undefined;
+  }
+  if (t.isIdentifier(declarator.id)) {
+    return t.isMemberExpression(declarator.init) && isRequestBody(declarator.init.object)
+      ? getPropertyName(declarator.init)
+      : undefined;
+  }
+  if (t.isObjectPattern(declarator.id) && isRequestBody(declarator.init)) {
+    const property = declarator.id.properties.find(
+      (p) =>
+        t.isObjectProperty(p) &&
+        (t.isIdentifier(p.value, { name: node.name }) ||
+          (t.isAssignmentPattern(p.value) && t.isIdentifier(p.value.left, { name: node.name })))
+    ) as t.ObjectProperty | undefined;
+    return property ? getKeyName(property.key) : undefined;
+  }
+  return undefined;
+}
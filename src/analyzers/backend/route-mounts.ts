@@ -0,0 +1,362 @@
+/**
+ * Cross-file router mount resolution for Express, Koa and NestJS
+ *
+ * Follows app.use('/prefix', router) / router.use('/prefix', child.routes())
+ * mounts through the backend dependency graph and qualifies endpoint paths
+ * with them. Middleware registered with app.use(auth) /
+ * router.use(auth) runs before the routes and mounts declared after it. Nest
+ * controllers get the app.setGlobalPrefix() prefix from the bootstrap file.
+ */
+
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { DependencyGraph } from '../../types';
+import { Endpoint } from '../../types';
+import { ParsedFile } from '../../types';
+import { buildBackendDependencyGraph } from './graph-builder';
+import { getExpressionName, isRouterFactory, joinRoutePaths, normalizePath } from './endpoint-extractor';
+
+interface RouterMount {
+  file: string; // File containing the use() call
+  line: number;
+  router: string; // Router the child is mounted on
+  prefix: string;
+  middleware: string[];
+  childFile: string;
+  childRouter?: string; // Local router name; undefined for the child file's exported router
+}
+
+/** Middleware registered on a router without mounting a child router: app.use(authenticate) */
+interface RouterMiddleware {
+  line: number;
+  router: string;
+  prefix: string;
+  middleware: string[];
+}
+
+interface RouterFile {
+  prefixes: Map<string, string>; // Router name -> own prefix (Koa new Router({ prefix }) / router.prefix())
+  exported?: string; // Router exported as default / module.exports
+  receivers: Map<number, string>; // Route line -> router it is registered on
+  mounts: RouterMount[];
+  middleware: RouterMiddleware[];
+  globalPrefix?: string; // Nest app.setGlobalPrefix('api')
+}
+
+/**
+ * Routers, route receivers and use() calls declared in one file. They are read
+ * from the file's AST alone and are plain JSON, so they can be cached with the
+ * file's other outputs; imported routers are resolved against the dependency
+ * graph afterwards.
+ */
+export interface RouterDeclarations {
+  prefixes: Record<string, string>;
+  exported?: string;
+  receivers: Record<number, string>;
+  uses: RouterUse[];
+  globalPrefix?: string;
+}
+
+/** A router.use() call and its arguments after the path prefix */
+interface RouterUse {
+  line: number;
+  router: string;
+  prefix: string;
+  args: RouterUseArgument[];
+}
+
+interface RouterUseArgument {
+  name?: string; // Middleware name when the argument is not a router
+  local?: string; // Router declared in this file
+  source?: string; // Import source of a possibly imported router
+  imported?: string; // Named import of that router
+}
+
+interface MountedPrefix {
+  prefix: string;
+  middleware: string[];
+}
+
+const ROUTE_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'all', 'del'];
+
+/**
+ * Qualify Express/Koa endpoint paths with the prefixes their routers are mounted under,
+ * one endpoint per mount, and Nest endpoint paths with the global prefix. Files
+ * without an AST use their declarations from routers.
+ */
+export function resolveRouteMounts(
+  endpoints: Endpoint[],
+  files: Map<string, ParsedFile>,
+  routers: Map<string, RouterDeclarations> = new Map()
+): Endpoint[] {
+  const graph = buildBackendDependencyGraph({ files, endpoints, services: [], queries: [] });
+  const routerFiles = new Map<string, RouterFile>();
+  for (const [filePath, parsedFile] of files) {
+    const declarations =
+      routers.get(filePath) || (parsedFile.ast && t.isFile(parsedFile.ast) ? describeRouters(parsedFile) : undefined);
+    if (declarations) {
+      routerFiles.set(filePath, resolveRouterFile(filePath, declarations, graph));
+    }
+  }
+
+  const mounts = [...routerFiles.values()].flatMap((file) => file.mounts);
+  const globalPrefix = [...routerFiles.values()].find((file) => file.globalPrefix)?.globalPrefix;
+
+  // routePath is the path relative to the router, line where the route or mount is declared.
+  // A router mounted in several places has one prefix per mount.
+  const resolvePrefixes = (
+    file: string,
+    router: string | undefined,
+    line: number,
+    routePath: string,
+    depth = 0
+  ): MountedPrefix[] => {
+    const info = routerFiles.get(file);
+    const own = (router && info?.prefixes.get(router)) || '';
+    const registered = (info?.middleware || [])
+      .filter((m) => m.router === router && m.line < line && hasPathPrefix(routePath, m.prefix))
+      .flatMap((m) => m.middleware);
+    // Mounts naming the router win over mounts of the file's exported router
+    const named = mounts.filter((m) => m.childFile === file && m.childRouter && m.childRouter === router);
+    const routerMounts =
+      depth >= 10
+        ? []
+        : named.length > 0
+          ? named
+          : mounts.filter((m) => m.childFile === file && !m.childRouter && (!info?.exported || info.exported === router));
+    if (routerMounts.length === 0) {
+      return [{ prefix: own, middleware: registered }];
+    }
+    return routerMounts.flatMap((mount) => {
+      const mountedPath = joinRoutePaths(mount.prefix, joinRoutePaths(own, routePath));
+      return resolvePrefixes(mount.file, mount.router, mount.line, mountedPath, depth + 1).map((parent) => ({
+        prefix: joinRoutePaths(joinRoutePaths(parent.prefix, mount.prefix), own),
+        middleware: [...parent.middleware, ...mount.middleware, ...registered],
+      }));
+    });
+  };
+
+  return endpoints.flatMap((endpoint) => {
+    if (globalPrefix && endpoint.id.startsWith('nest-')) {
+      const nestPath = joinRoutePaths(globalPrefix, endpoint.path);
+      return [{ ...endpoint, path: nestPath, pathPattern: normalizePath(nestPath) }];
+    }
+
+    const info = routerFiles.get(endpoint.file);
+    if (!info || !/^(?:express|koa)-/.test(endpoint.id)) {
+      return [endpoint];
+    }
+
+    const mounted = resolvePrefixes(endpoint.file, info.receivers.get(endpoint.line), endpoint.line, endpoint.path);
+    return mounted.map(({ prefix, middleware }) => {
+      const mountedPath = prefix && prefix !== '/' ? joinRoutePaths(prefix, endpoint.path) : endpoint.path;
+      return {
+        ...endpoint,
+        // Each mount of the router is a separate endpoint
+        id: mounted.length > 1 ? `${endpoint.id}:${prefix}` : endpoint.id,
+        path: mountedPath,
+        pathPattern: mountedPath === endpoint.path ? endpoint.pathPattern : normalizePath(mountedPath),
+        middleware: [...middleware, ...endpoint.middleware],
+      };
+    });
+  });
+}
+
+/**
+ * Collect the routers, route receivers and use() calls declared in a file
+ */
+export function describeRouters(parsedFile: ParsedFile): RouterDeclarations {
+  const declarations: RouterDeclarations = { prefixes: {}, receivers: {}, uses: [] };
+
+  traverse(parsedFile.ast as t.File, {
+    VariableDeclarator(declaratorPath) {
+      const { id, init } = declaratorPath.node;
+      if (t.isIdentifier(id) && isRouterFactory(init)) {
+        // Koa: new Router({ prefix: '/users' })
+        const options = (init as t.CallExpression | t.NewExpression).arguments[0];
+        declarations.prefixes[id.name] = readPrefixOption(options);
+      }
+    },
+
+    ExportDefaultDeclaration(exportPath) {
+      if (t.isIdentifier(exportPath.node.declaration)) {
+        declarations.exported = exportPath.node.declaration.name;
+      }
+    },
+
+    AssignmentExpression(assignmentPath) {
+      // module.exports = router
+      if (getExpressionName(assignmentPath.node.left) === 'module.exports' && t.isIdentifier(assignmentPath.node.right)) {
+        declarations.exported = assignmentPath.node.right.name;
+      }
+    },
+
+    CallExpression(callPath) {
+      const callee = callPath.node.callee;
+      if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property)) {
+        return;
+      }
+      const method = callee.property.name;
+      const args = callPath.node.arguments;
+
+      if (method === 'prefix' && t.isIdentifier(callee.object) && t.isStringLiteral(args[0])) {
+        declarations.prefixes[callee.object.name] = args[0].value;
+      } else if (method === 'setGlobalPrefix' && t.isStringLiteral(args[0])) {
+        declarations.globalPrefix = args[0].value;
+      } else if (method === 'use' && t.isIdentifier(callee.object)) {
+        declarations.uses.push(readUse(callPath, callee.object.name));
+      } else if (ROUTE_METHODS.includes(method)) {
+        // router.get(...) and router.route('/x').get(...) chains
+        let receiver: t.Node = callee.object;
+        while (t.isCallExpression(receiver) && t.isMemberExpression(receiver.callee)) {
+          receiver = receiver.callee.object;
+        }
+        if (t.isIdentifier(receiver)) {
+          declarations.receivers[callPath.node.loc?.start.line || 0] = receiver.name;
+        }
+      }
+    },
+  });
+
+  return declarations;
+}
+
+/**
+ * Read the path prefix and arguments of a use() call
+ */
+function readUse(callPath: NodePath<t.CallExpression>, router: string): RouterUse {
+  const args = [...callPath.node.arguments];
+  const prefix = t.isStringLiteral(args[0]) ? (args.shift() as t.StringLiteral).value : '';
+  const useArgs: RouterUseArgument[] = [];
+
+  for (const arg of args) {
+    // Koa: child.routes() mounts the router, child.allowedMethods() comes with it
+    const koaMethod =
+      t.isCallExpression(arg) && t.isMemberExpression(arg.callee) && t.isIdentifier(arg.callee.property)
+        ? arg.callee.property.name
+        : undefined;
+    if (koaMethod === 'allowedMethods') {
+      continue;
+    }
+    const node = koaMethod === 'routes' || koaMethod === 'middleware' ? ((arg as t.CallExpression).callee as t.MemberExpression).object : arg;
+    useArgs.push({ name: getExpressionName(node) || undefined, ...readRouterReference(callPath, node) });
+  }
+
+  return { line: callPath.node.loc?.start.line || 0, router, prefix, args: useArgs };
+}
+
+/**
+ * Read where a use() argument could be a router: declared in this file or
+ * imported from another module
+ */
+function readRouterReference(callPath: NodePath, node: t.Node): Pick<RouterUseArgument, 'local' | 'source' | 'imported'> {
+  // app.use('/api', require('./routes/api'))
+  if (t.isCallExpression(node) && t.isIdentifier(node.callee, { name: 'require' }) && t.isStringLiteral(node.arguments[0])) {
+    return { source: node.arguments[0].value };
+  }
+  if (!t.isIdentifier(node)) {
+    return {};
+  }
+
+  const binding = callPath.scope.getBinding(node.name);
+  if (!binding) {
+    return {};
+  }
+
+  // Router declared in this file
+  if (binding.path.isVariableDeclarator() && isRouterFactory(binding.path.node.init)) {
+    return { local: node.name };
+  }
+
+  // import usersRouter from './users' / import { usersRouter } from './users'
+  if (binding.kind === 'module' && t.isImportDeclaration(binding.path.parent)) {
+    const specifier = binding.path.node;
+    const imported =
+      t.isImportSpecifier(specifier) && t.isIdentifier(specifier.imported) ? specifier.imported.name : undefined;
+    return { source: binding.path.parent.source.value, imported };
+  }
+
+  // const usersRouter = require('./users')
+  const init = binding.path.isVariableDeclarator() ? binding.path.node.init : undefined;
+  if (t.isCallExpression(init) && t.isIdentifier(init.callee, { name: 'require' }) && t.isStringLiteral(init.arguments[0])) {
+    return { source: init.arguments[0].value };
+  }
+
+  return {};
+}
+
+/**
+ * Resolve a file's router declarations against the dependency graph, splitting
+ * the arguments of each use() call into the mounted router and middleware.
+ * Without a router the call registers middleware only.
+ */
+function resolveRouterFile(filePath: string, declarations: RouterDeclarations, graph: DependencyGraph): RouterFile {
+  const info: RouterFile = {
+    prefixes: new Map(Object.entries(declarations.prefixes)),
+    exported: declarations.exported,
+    receivers: new Map(Object.entries(declarations.receivers).map(([line, router]) => [Number(line), router])),
+    mounts: [],
+    middleware: [],
+    globalPrefix: declarations.globalPrefix,
+  };
+
+  for (const use of declarations.uses) {
+    const middleware: string[] = [];
+    let child: Pick<RouterMount, 'childFile' | 'childRouter'> | null = null;
+
+    for (const arg of use.args) {
+      let resolved: Pick<RouterMount, 'childFile' | 'childRouter'> | null = null;
+      if (!child && arg.local) {
+        resolved = { childFile: filePath, childRouter: arg.local };
+      } else if (!child && arg.source !== undefined) {
+        const childFile = resolveImportedFile(graph, filePath, arg.source);
+        resolved = childFile ? { childFile, childRouter: arg.imported } : null;
+      }
+      if (resolved) {
+        child = resolved;
+      } else if (arg.name) {
+        middleware.push(arg.name);
+      }
+    }
+
+    const { line, router, prefix } = use;
+    if (child) {
+      info.mounts.push({ file: filePath, line, router, prefix, middleware, ...child });
+    } else if (middleware.length > 0) {
+      info.middleware.push({ line, router, prefix, middleware });
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Follow an import edge in the dependency graph to the imported file
+ */
+function resolveImportedFile(graph: DependencyGraph, fromFile: string, importSource: string): string | undefined {
+  const edge = graph.edges.find(
+    (e) => e.type === 'import' && e.from === `file:${fromFile}` && e.metadata.importSource === importSource
+  );
+  return edge?.to.replace(/^file:/, '');
+}
+
+/**
+ * Check whether a route path is under a use() path prefix
+ */
+function hasPathPrefix(routePath: string, prefix: string): boolean {
+  const base = prefix.replace(/\/+$/, '');
+  return !base || routePath === base || routePath.startsWith(`${base}/`);
+}
+
+/**
+ * Read the prefix option of a Koa router ({ prefix: '/users' })
+ */
+function readPrefixOption(node: t.Node | undefined): string {
+  if (!t.isObjectExpression(node)) {
+    return '';
+  }
+  const prefix = node.properties.find(
+    (p): p is t.ObjectProperty => t.isObjectProperty(p) && t.isIdentifier(p.key, { name: 'prefix' })
+  );
+  return prefix && t.isStringLiteral(prefix.value) ? prefix.value.value : '';
+}
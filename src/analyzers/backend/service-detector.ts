@@ -2,9 +2,14 @@
  * Service layer detection
  */
 
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
 import { Service } from '../../types';
 import { ParsedFile } from '../../types';
 
+/** Nest class decorators that register a class with the DI container */
+const NEST_PROVIDER_DECORATORS = ['Injectable', 'Controller', 'Resolver'];
+
 /**
  * Detect service classes/functions
  */
@@ -12,12 +17,18 @@ export function detectServices(parsedFiles: ParsedFile[]): Service[] {
   const services: Service[] = [];
 
   for (const parsedFile of parsedFiles) {
+    const providers = detectNestProviders(parsedFile);
+    services.push(...providers);
+
     // Detect service by naming convention or patterns
     const fileName = parsedFile.path.split('/').pop() || '';
     const isServiceFile = fileName.includes('service') || fileName.includes('Service');
 
     if (isServiceFile) {
       for (const cls of parsedFile.classes || []) {
+        if (providers.some((p) => p.name === cls.name)) {
+          continue;
+        }
         services.push({
           name: cls.name,
           file: parsedFile.path,
@@ -60,3 +71,90 @@ function extractDependencies(parsedFile: ParsedFile): string[] {
   return dependencies;
 }
 
+
+/**
+ * Detect NestJS providers and the dependencies injected through their constructors
+ */
+function detectNestProviders(parsedFile: ParsedFile): Service[] {
+  const providers: Service[] = [];
+  if (!parsedFile.ast || !t.isFile(parsedFile.ast) || !parsedFile.imports.some((imp) => imp.from.startsWith('@nestjs/'))) {
+    return providers;
+  }
+
+  traverse(parsedFile.ast, {
+    ClassDeclaration(classPath) {
+      const { id, decorators, body } = classPath.node;
+      const isProvider = (decorators || []).some((decorator) =>
+        NEST_PROVIDER_DECORATORS.includes(getDecoratorName(decorator) || '')
+      );
+      if (!id || !isProvider) {
+        return;
+      }
+
+      const methods: string[] = [];
+      const dependencies: string[] = [];
+      for (const member of body.body) {
+        if (!t.isClassMethod(member) || !t.isIdentifier(member.key)) {
+          continue;
+        }
+        if (member.kind === 'constructor') {
+          dependencies.push(...member.params.map(getInjectedDependency).filter((dep): dep is string => !!dep));
+        } else {
+          methods.push(member.key.name);
+        }
+      }
+
+      providers.push({ name: id.name, file: parsedFile.path, methods, dependencies });
+    },
+  });
+
+  return providers;
+}
+
+/**
+ * Get the provider a constructor parameter injects: an @Inject() token or the parameter type
+ */
+function getInjectedDependency(param: t.Node): string | undefined {
+  const parameter = t.isTSParameterProperty(param) ? param.parameter : param;
+  const identifier = t.isAssignmentPattern(parameter) ? parameter.left : parameter;
+  if (!t.isIdentifier(identifier)) {
+    return undefined;
+  }
+
+  // @Inject('CONFIG') / @Inject(forwardRef(() => UsersService))
+  const decorators = (param as t.Identifier | t.TSParameterProperty).decorators || identifier.decorators || [];
+  const inject = decorators.find((decorator) => getDecoratorName(decorator) === 'Inject')?.expression;
+  let token: t.Node | undefined = t.isCallExpression(inject) ? inject.arguments[0] : undefined;
+  if (t.isCallExpression(token) && t.isIdentifier(token.callee, { name: 'forwardRef' })) {
+    const factory = token.arguments[0];
+    token = t.isArrowFunctionExpression(factory) ? factory.body : undefined;
+  }
+  if (t.isStringLiteral(token)) {
+    return token.value;
+  }
+  if (t.isIdentifier(token)) {
+    return token.name;
+  }
+
+  return t.isTSTypeAnnotation(identifier.typeAnnotation) ? getTypeName(identifier.typeAnnotation.typeAnnotation) : undefined;
+}
+
+/**
+ * Get the name of a decorator (@Injectable() or @Injectable)
+ */
+function getDecoratorName(decorator: t.Decorator): string | undefined {
+  const expression = t.isCallExpression(decorator.expression) ? decorator.expression.callee : decorator.expression;
+  return t.isIdentifier(expression) ? expression.name : undefined;
+}
+
+/**
+ * Render a type reference with its type arguments (Repository<User>)
+ */
+function getTypeName(node: t.Node): string | undefined {
+  if (!t.isTSTypeReference(node)) {
+    return undefined;
+  }
+  const name = t.isIdentifier(node.typeName) ? node.typeName.name : node.typeName.right.name;
+  const args = (node.typeParameters?.params || []).map(getTypeName);
+  return args.length > 0 && args.every((arg) => arg) ? `${name}<${args.join(', ')}>` : name;
+}
@@ -5,6 +5,9 @@
 export * from './schema-extractor';
 export * from './orm-detector';
 export * from './usage-mapper';
+export * from './schema-discovery';
 export { extractSchemaFromMigrations } from './schema-extractor';
 export { extractSchemaFromModels } from './orm-detector';
+export { parseSQLAlchemyModels, parseDjangoModels, parseGORMModels } from './orm-parser';
+export { discoverDatabaseSchema, discoverSchemaWithModels, mergeDatabaseSchemas } from './schema-discovery';
 export { mapDatabaseUsage, getTableAccessSummary } from './usage-mapper';
@@ -8,15 +8,41 @@ import traverse from '@babel/traverse';
 import * as t from '@babel/types';
 import { Table, Column, Relationship } from '../../types';
 import { ParsedFile } from '../../types';
+import {
+  PythonModule,
+  PythonScope,
+  isPythonModule,
+  getClassBody,
+  extractPythonStrings,
+  splitArguments,
+  getCallArguments,
+} from '../backend/python-ast';
+import { isGoModule, parseGoStructFields, getGoStructTag, readGoString } from '../backend/go-ast';
+
+/** TypeORM decorators declaring a column, and whether they make it the primary key */
+const TYPEORM_COLUMN_DECORATORS: Record<string, string[]> = {
+  Column: [],
+  PrimaryColumn: ['PRIMARY KEY'],
+  PrimaryGeneratedColumn: ['PRIMARY KEY', 'AUTO_INCREMENT'],
+  CreateDateColumn: [],
+  UpdateDateColumn: [],
+  DeleteDateColumn: [],
+  VersionColumn: [],
+};
+
+/** TypeORM relations whose owning side holds the foreign key column */
+const TYPEORM_OWNING_RELATIONS = ['ManyToOne', 'OneToOne'];
 
 /**
- * Parse Sequelize models
+ * Parse Sequelize models: sequelize.define('User', attributes, options) and
+ * class User extends Model with User.init(attributes, options)
  */
 export function parseSequelizeModel(parsedFile: ParsedFile): Table[] {
-  const tables: Table[] = [];
+  const tables = new Map<string, Table>();
+  const modelClasses: string[] = [];
 
   if (!parsedFile.ast) {
-    return tables;
+    return [];
   }
 
   const ast = parsedFile.ast as t.File;
@@ -24,18 +50,14 @@ export function parseSequelizeModel(parsedFile: ParsedFile): Table[] {
   traverse(ast, {
     CallExpression(path) {
       const node = path.node;
-      
+
       // sequelize.define() or Model.init()
-      if (t.isMemberExpression(node.callee)) {
-        const obj = node.callee.object;
-        const prop = node.callee.property;
-
-        if (t.isIdentifier(prop)) {
-          if (prop.name === 'define' || prop.name === 'init') {
-            const table = extractSequelizeTable(node, parsedFile);
-            if (table) {
-              tables.push(table);
-            }
+      if (t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property)) {
+        const method = node.callee.property.name;
+        if (method === 'define' || method === 'init') {
+          const table = extractSequelizeTable(node, method);
+          if (table) {
+            tables.set(table.model!, table);
           }
         }
       }
@@ -43,107 +65,143 @@ export function parseSequelizeModel(parsedFile: ParsedFile): Table[] {
 
     // Also check for class extends Model
     ClassDeclaration(path) {
-      if (
-        path.node.superClass &&
-        (t.isIdentifier(path.node.superClass) && path.node.superClass.name === 'Model') ||
-        (t.isMemberExpression(path.node.superClass) &&
-          t.isIdentifier(path.node.superClass.property) &&
-          path.node.superClass.property.name === 'Model')
-      ) {
-        const table = extractSequelizeClassModel(path.node, parsedFile);
-        if (table) {
-          tables.push(table);
-        }
+      const superClass = path.node.superClass;
+      const extendsModel =
+        (t.isIdentifier(superClass) && superClass.name === 'Model') ||
+        (t.isMemberExpression(superClass) && t.isIdentifier(superClass.property, { name: 'Model' }));
+      if (extendsModel && path.node.id) {
+        modelClasses.push(path.node.id.name);
       }
     },
   });
 
-  return tables;
+  // Model classes initialised elsewhere still declare a table
+  for (const model of modelClasses) {
+    if (!tables.has(model)) {
+      tables.set(model, { name: pluralize(model), columns: [], indexes: [], foreignKeys: [], model });
+    }
+  }
+
+  return [...tables.values()];
 }
 
 /**
  * Extract Sequelize table from define/init call
  */
-function extractSequelizeTable(node: t.CallExpression, parsedFile: ParsedFile): Table | null {
-  if (node.arguments.length < 2) {
+function extractSequelizeTable(node: t.CallExpression, method: 'define' | 'init'): Table | null {
+  const callee = node.callee as t.MemberExpression;
+  const [first, second, third] = node.arguments;
+
+  // define('User', attributes, options) / User.init(attributes, options)
+  let model: string | undefined;
+  let attributes: t.Node | undefined;
+  let options: t.Node | undefined;
+  if (method === 'define' && t.isStringLiteral(first)) {
+    [model, attributes, options] = [first.value, second, third];
+  } else if (method === 'init' && t.isIdentifier(callee.object)) {
+    [model, attributes, options] = [callee.object.name, first, second];
+  }
+  if (!model || !t.isObjectExpression(attributes)) {
     return null;
   }
 
-  const tableNameArg = node.arguments[0];
-  const attributesArg = node.arguments[1];
-
-  let tableName = '';
-  if (t.isStringLiteral(tableNameArg)) {
-    tableName = tableNameArg.value;
-  } else {
-    return null;
+  const option = (name: string) => getObjectOption(options, name);
+  const modelName = option('modelName');
+  if (t.isStringLiteral(modelName)) {
+    model = modelName.value;
   }
 
+  // Sequelize pluralizes the model name unless told otherwise
+  const tableName = option('tableName');
+  const frozen = t.isBooleanLiteral(option('freezeTableName'), { value: true });
   const table: Table = {
-    name: tableName,
+    name: t.isStringLiteral(tableName) ? tableName.value : frozen ? model : pluralize(model),
     columns: [],
     indexes: [],
     foreignKeys: [],
+    model,
   };
 
-  if (t.isObjectExpression(attributesArg)) {
-    table.columns = extractSequelizeColumns(attributesArg);
+  extractSequelizeColumns(attributes, table);
+  const primaryKey = table.columns.filter((c) => c.constraints?.includes('PRIMARY KEY')).map((c) => c.name);
+  if (primaryKey.length > 0) {
+    table.primaryKey = primaryKey;
   }
 
   return table;
 }
 
 /**
- * Extract columns from Sequelize attributes
+ * Extract columns and foreign keys from Sequelize attributes
  */
-function extractSequelizeColumns(attributes: t.ObjectExpression): Column[] {
-  const columns: Column[] = [];
-
+function extractSequelizeColumns(attributes: t.ObjectExpression, table: Table): void {
   for (const prop of attributes.properties) {
-    if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
-      const columnName = prop.key.name;
-      
-      if (t.isObjectExpression(prop.value)) {
-        const columnDef = prop.value;
-        const column: Column = {
-          name: columnName,
-          type: 'VARCHAR',
-          nullable: true,
-          defaultValue: undefined,
-        };
-
-        // Extract type
-        for (const colProp of columnDef.properties) {
-          if (t.isObjectProperty(colProp) && t.isIdentifier(colProp.key)) {
-            const key = colProp.key.name;
-
-            if (key === 'type') {
-              if (t.isMemberExpression(colProp.value)) {
-                const typeName = t.isIdentifier(colProp.value.property)
-                  ? colProp.value.property.name
-                  : 'VARCHAR';
-                column.type = mapSequelizeType(typeName);
-              }
-            } else if (key === 'allowNull') {
-              if (t.isBooleanLiteral(colProp.value)) {
-                column.nullable = colProp.value.value;
-              } else if (t.isIdentifier(colProp.value) && colProp.value.name === 'false') {
-                column.nullable = false;
-              }
-            } else if (key === 'defaultValue') {
-              if (t.isStringLiteral(colProp.value) || t.isNumericLiteral(colProp.value)) {
-                column.defaultValue = colProp.value.value;
-              }
-            }
-          }
+    if (!t.isObjectProperty(prop) || !t.isIdentifier(prop.key)) {
+      continue;
+    }
+
+    const column: Column = {
+      name: prop.key.name,
+      type: 'VARCHAR',
+      nullable: true,
+      defaultValue: undefined,
+    };
+
+    // email: DataTypes.STRING
+    if (t.isMemberExpression(prop.value) && t.isIdentifier(prop.value.property)) {
+      column.type = mapSequelizeType(prop.value.property.name);
+    }
+
+    if (t.isObjectExpression(prop.value)) {
+      const constraints: string[] = [];
+      for (const colProp of prop.value.properties) {
+        if (!t.isObjectProperty(colProp) || !t.isIdentifier(colProp.key)) {
+          continue;
         }
+        const key = colProp.key.name;
+        const value = colProp.value;
 
-        columns.push(column);
+        if (key === 'type') {
+          // DataTypes.STRING / DataTypes.STRING(64)
+          const type = t.isCallExpression(value) ? value.callee : value;
+          if (t.isMemberExpression(type) && t.isIdentifier(type.property)) {
+            column.type = mapSequelizeType(type.property.name);
+          }
+        } else if (key === 'allowNull' && t.isBooleanLiteral(value)) {
+          column.nullable = value.value;
+        } else if (key === 'defaultValue' && (t.isStringLiteral(value) || t.isNumericLiteral(value))) {
+          column.defaultValue = value.value;
+        } else if (key === 'field' && t.isStringLiteral(value)) {
+          column.name = value.value;
+        } else if (key === 'primaryKey' && t.isBooleanLiteral(value, { value: true })) {
+          constraints.push('PRIMARY KEY');
+        } else if (key === 'unique' && !t.isBooleanLiteral(value, { value: false })) {
+          constraints.push('UNIQUE');
+        } else if (key === 'autoIncrement' && t.isBooleanLiteral(value, { value: true })) {
+          constraints.push('AUTO_INCREMENT');
+        } else if (key === 'references' && t.isObjectExpression(value)) {
+          // references: { model: 'users', key: 'id' }
+          const reference = (name: string) => {
+            const ref = getObjectOption(value, name);
+            return t.isStringLiteral(ref) ? ref.value : t.isIdentifier(ref) ? ref.name : undefined;
+          };
+          const referencedTable = reference('model');
+          if (referencedTable) {
+            table.foreignKeys.push({
+              column: column.name,
+              referencedTable,
+              referencedColumn: reference('key') || 'id',
+            });
+          }
+        }
+      }
+      if (constraints.length > 0) {
+        column.constraints = constraints;
       }
     }
-  }
 
-  return columns;
+    table.columns.push(column);
+  }
 }
 
 /**
@@ -168,27 +226,6 @@ function mapSequelizeType(sequelizeType: string): string {
   return typeMap[sequelizeType.toUpperCase()] || sequelizeType;
 }
 
-/**
- * Extract Sequelize model from class
- */
-function extractSequelizeClassModel(node: t.ClassDeclaration, parsedFile: ParsedFile): Table | null {
-  if (!node.id) {
-    return null;
-  }
-
-  const table: Table = {
-    name: node.id.name.toLowerCase() + 's', // Pluralize (common Sequelize convention)
-    columns: [],
-    indexes: [],
-    foreignKeys: [],
-  };
-
-  // Extract from class properties/methods (simplified)
-  // In practice, would need to look for init() calls or decorators
-
-  return table;
-}
-
 /**
  * Parse TypeORM entities
  */
@@ -204,24 +241,16 @@ export function parseTypeORMEntity(parsedFile: ParsedFile): Table[] {
   traverse(ast, {
     ClassDeclaration(path) {
       const node = path.node;
-      
+
       // Check for @Entity decorator or extends BaseEntity
-      let isEntity = false;
-      
-      if (node.decorators) {
-        for (const decorator of node.decorators) {
-          if (t.isCallExpression(decorator.expression)) {
-            if (t.isIdentifier(decorator.expression.callee)) {
-              if (decorator.expression.callee.name === 'Entity') {
-                isEntity = true;
-              }
-            }
-          }
-        }
-      }
+      const entity = node.decorators?.find(
+        (decorator) =>
+          t.isCallExpression(decorator.expression) && t.isIdentifier(decorator.expression.callee, { name: 'Entity' })
+      );
+      const extendsBaseEntity = t.isIdentifier(node.superClass) && node.superClass.name === 'BaseEntity';
 
-      if (isEntity || (node.superClass && t.isIdentifier(node.superClass) && node.superClass.name === 'BaseEntity')) {
-        const table = extractTypeORMEntity(node, parsedFile);
+      if (entity || extendsBaseEntity) {
+        const table = extractTypeORMEntity(node, entity?.expression as t.CallExpression | undefined);
         if (table) {
           tables.push(table);
         }
@@ -235,179 +264,220 @@ export function parseTypeORMEntity(parsedFile: ParsedFile): Table[] {
 /**
  * Extract TypeORM entity table
  */
-function extractTypeORMEntity(node: t.ClassDeclaration, parsedFile: ParsedFile): Table | null {
+function extractTypeORMEntity(node: t.ClassDeclaration, entity: t.CallExpression | undefined): Table | null {
   if (!node.id) {
     return null;
   }
 
+  // @Entity('users') / @Entity({ name: 'users' }); the default naming strategy snake_cases the class
+  const [nameArg] = entity?.arguments || [];
+  const name = t.isStringLiteral(nameArg) ? nameArg : getObjectOption(nameArg, 'name');
   const table: Table = {
-    name: node.id.name.toLowerCase() + 's',
+    name: t.isStringLiteral(name) ? name.value : toSnakeCase(node.id.name),
     columns: [],
     indexes: [],
     foreignKeys: [],
+    model: node.id.name,
   };
 
   // Extract columns from class properties
   for (const member of node.body.body) {
     if (t.isClassProperty(member) && t.isIdentifier(member.key)) {
-      const column = extractTypeORMColumn(member);
-      if (column) {
+      const column = extractTypeORMColumn(member, table);
+      if (column && !table.columns.some((c) => c.name === column.name)) {
         table.columns.push(column);
       }
     }
   }
 
+  const primaryKey = table.columns.filter((c) => c.constraints?.includes('PRIMARY KEY')).map((c) => c.name);
+  if (primaryKey.length > 0) {
+    table.primaryKey = primaryKey;
+  }
+
   return table;
 }
 
 /**
- * Extract TypeORM column from property
+ * Extract a TypeORM column from a decorated property, or the foreign key
+ * column of a @ManyToOne/@OneToOne relation
  */
-function extractTypeORMColumn(prop: t.ClassProperty): Column | null {
+function extractTypeORMColumn(prop: t.ClassProperty, table: Table): Column | null {
   if (!t.isIdentifier(prop.key)) {
     return null;
   }
 
-      const column: Column = {
-        name: prop.key.name,
-        type: prop.typeAnnotation && t.isTSTypeAnnotation(prop.typeAnnotation)
-          ? inferTypeFromTypeAnnotation(prop.typeAnnotation)
-          : 'VARCHAR',
-        nullable: true,
-        defaultValue: undefined,
-      };
+  const decorators = (prop.decorators || [])
+    .map((decorator) => decorator.expression)
+    .filter((expression): expression is t.CallExpression & { callee: t.Identifier } =>
+      t.isCallExpression(expression) && t.isIdentifier(expression.callee)
+    );
 
-  // Check decorators for column metadata
-  if (prop.decorators) {
-    for (const decorator of prop.decorators) {
-      if (t.isCallExpression(decorator.expression)) {
-        if (t.isIdentifier(decorator.expression.callee)) {
-          const decoratorName = decorator.expression.callee.name;
-
-          if (decoratorName === 'Column') {
-            // Extract column options
-            if (decorator.expression.arguments.length > 0 && t.isObjectExpression(decorator.expression.arguments[0])) {
-              const options = decorator.expression.arguments[0];
-              for (const opt of options.properties) {
-                if (t.isObjectProperty(opt) && t.isIdentifier(opt.key)) {
-                  if (opt.key.name === 'type' && t.isStringLiteral(opt.value)) {
-                    column.type = opt.value.value;
-                  } else if (opt.key.name === 'nullable' && t.isBooleanLiteral(opt.value)) {
-                    column.nullable = opt.value.value;
-                  }
-                }
-              }
-            }
-          } else if (decoratorName === 'PrimaryGeneratedColumn') {
-            column.constraints = ['PRIMARY KEY', 'AUTO_INCREMENT'];
-          }
-        }
-      }
+  const columnDecorator = decorators.find((d) => TYPEORM_COLUMN_DECORATORS[d.callee.name]);
+  if (columnDecorator) {
+    // @Column('varchar', { length: 64 }) / @Column({ type: 'varchar', name: 'email_address', nullable: true })
+    const [first, second] = columnDecorator.arguments;
+    const options = t.isObjectExpression(first) ? first : second;
+    const type = t.isStringLiteral(first) ? first : getObjectOption(options, 'type');
+    const name = getObjectOption(options, 'name');
+    const nullable = getObjectOption(options, 'nullable');
+    const constraints = [...TYPEORM_COLUMN_DECORATORS[columnDecorator.callee.name]];
+    if (t.isBooleanLiteral(getObjectOption(options, 'unique'), { value: true })) {
+      constraints.push('UNIQUE');
     }
+
+    return {
+      name: t.isStringLiteral(name) ? name.value : prop.key.name,
+      type: t.isStringLiteral(type)
+        ? type.value
+        : inferTypeFromTypeAnnotation(prop.typeAnnotation as t.TSTypeAnnotation),
+      nullable: t.isBooleanLiteral(nullable) ? nullable.value : !!prop.optional,
+      defaultValue: undefined,
+      constraints: constraints.length > 0 ? constraints : undefined,
+    };
+  }
+
+  // @ManyToOne(() => User) @JoinColumn({ name: 'author_id' }) author: User
+  const relation = decorators.find((d) => TYPEORM_OWNING_RELATIONS.includes(d.callee.name));
+  const joinColumn = decorators.find((d) => d.callee.name === 'JoinColumn');
+  if (!relation || (relation.callee.name === 'OneToOne' && !joinColumn)) {
+    return null;
+  }
+  const target = relation.arguments[0];
+  const targetBody = t.isArrowFunctionExpression(target) ? target.body : target;
+  const targetModel = t.isIdentifier(targetBody)
+    ? targetBody.name
+    : t.isStringLiteral(targetBody)
+      ? targetBody.value
+      : undefined;
+  const joinName = getObjectOption(joinColumn?.arguments[0], 'name');
+  const referencedColumn = getObjectOption(joinColumn?.arguments[0], 'referencedColumnName');
+  const columnName = t.isStringLiteral(joinName) ? joinName.value : `${prop.key.name}Id`;
+  if (targetModel) {
+    table.foreignKeys.push({
+      column: columnName,
+      referencedTable: toSnakeCase(targetModel),
+      referencedColumn: t.isStringLiteral(referencedColumn) ? referencedColumn.value : 'id',
+    });
   }
 
-  return column;
+  return { name: columnName, type: 'INTEGER', nullable: true, defaultValue: undefined };
 }
 
 /**
  * Infer type from TypeScript type annotation
  */
 function inferTypeFromTypeAnnotation(annotation: t.TSTypeAnnotation | null | undefined): string {
-  if (!annotation) {
-    return 'VARCHAR';
-  }
-
-  if (!t.isTSTypeAnnotation(annotation)) {
+  if (!annotation || !t.isTSTypeAnnotation(annotation)) {
     return 'VARCHAR';
   }
 
   const type = annotation.typeAnnotation;
-  if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName)) {
-    const typeName = type.typeName.name;
-    const typeMap: Record<string, string> = {
-      string: 'VARCHAR',
-      number: 'INTEGER',
-      boolean: 'BOOLEAN',
-      Date: 'DATE',
-    };
-    return typeMap[typeName] || 'VARCHAR';
+  if (t.isTSNumberKeyword(type)) {
+    return 'INTEGER';
+  }
+  if (t.isTSBooleanKeyword(type)) {
+    return 'BOOLEAN';
+  }
+  if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName, { name: 'Date' })) {
+    return 'DATE';
   }
 
   return 'VARCHAR';
 }
 
+/**
+ * Read a property of an object literal argument
+ */
+function getObjectOption(node: t.Node | null | undefined, name: string): t.Node | undefined {
+  if (!t.isObjectExpression(node)) {
+    return undefined;
+  }
+  const property = node.properties.find(
+    (p): p is t.ObjectProperty => t.isObjectProperty(p) && t.isIdentifier(p.key, { name })
+  );
+  return property?.value;
+}
+
 /**
  * Parse Prisma schema
  */
 export function parsePrismaSchema(filePath: string): Table[] {
-  const tables: Table[] = [];
-
+  let content: string;
   try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split('\n');
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    // File doesn't exist or can't be read
+    return [];
+  }
 
-    let currentModel: Table | null = null;
+  // Relation fields name another model; @@map renames the table
+  const models = [...content.matchAll(/^\s*model\s+(\w+)\s*\{([\s\S]*?)^\s*\}/gm)];
+  const tableNames = new Map(
+    models.map(([, name, body]) => [name, body.match(/@@map\(\s*(?:name:\s*)?"([^"]+)"/)?.[1] || name])
+  );
 
-    for (const line of lines) {
-      const trimmed = line.trim();
+  return models.map(([, model, body]) => {
+    const table: Table = {
+      name: tableNames.get(model)!,
+      columns: [],
+      indexes: [],
+      foreignKeys: [],
+      model,
+    };
 
-      // Model definition
-      if (trimmed.startsWith('model ')) {
-        if (currentModel) {
-          tables.push(currentModel);
-        }
+    for (const line of body.split('\n')) {
+      const trimmed = line.trim();
 
-        const modelMatch = trimmed.match(/model\s+(\w+)/);
-        if (modelMatch) {
-          currentModel = {
-            name: modelMatch[1],
-            columns: [],
-            indexes: [],
-            foreignKeys: [],
-          };
-        }
-      } else if (trimmed === '}') {
-        if (currentModel) {
-          tables.push(currentModel);
-          currentModel = null;
+      // @@id([a, b]), @@unique([a, b]), @@index([a])
+      const blockAttribute = trimmed.match(/^@@(id|unique|index)\(\s*(?:fields:\s*)?\[([^\]]*)\]/);
+      if (blockAttribute) {
+        const fields = blockAttribute[2].split(',').map((field) => field.trim()).filter(Boolean);
+        if (blockAttribute[1] === 'id') {
+          table.primaryKey = fields;
+        } else {
+          const unique = blockAttribute[1] === 'unique';
+          table.indexes.push({ name: `${table.name}_${fields.join('_')}`, columns: fields, unique });
         }
-      } else if (currentModel && trimmed && !trimmed.startsWith('//')) {
-        // Column definition
-        const columnMatch = trimmed.match(/^(\w+)\s+(\w+(?:\[\])?)(?:\s+(.*))?$/);
-        if (columnMatch) {
-          const name = columnMatch[1];
-          const type = columnMatch[2];
-          const constraints = columnMatch[3] || '';
-
-          const column: Column = {
-            name,
-            type: mapPrismaType(type),
-            nullable: !constraints.includes('@id') && type.endsWith('?'),
-            defaultValue: extractPrismaDefault(constraints),
-            constraints: extractPrismaConstraints(constraints),
-          };
+        continue;
+      }
 
-          // Check for relations
-          if (constraints.includes('@relation')) {
-            const relationMatch = constraints.match(/@relation\(fields:\s*\[(\w+)\],\s*references:\s*\[(\w+)\]\)/);
-            if (relationMatch) {
-              currentModel.foreignKeys.push({
-                column: relationMatch[1],
-                referencedTable: extractRelationTableName(constraints),
-                referencedColumn: relationMatch[2],
-              });
-            }
-          }
+      // Column definition
+      const columnMatch = trimmed.match(/^(\w+)\s+(\w+)(\[\])?(\?)?(?:\s+(.*))?$/);
+      if (!columnMatch) {
+        continue;
+      }
+      const [, field, type, list, optional, constraints = ''] = columnMatch;
 
-          currentModel.columns.push(column);
+      // author User @relation(fields: [authorId], references: [id])
+      if (tableNames.has(type)) {
+        const relation = constraints.match(/@relation\([^)]*fields:\s*\[([^\]]+)\][^)]*references:\s*\[([^\]]+)\]/);
+        if (relation) {
+          const columns = relation[1].split(',').map((c) => c.trim());
+          const references = relation[2].split(',').map((c) => c.trim());
+          columns.forEach((column, i) => {
+            table.foreignKeys.push({ column, referencedTable: tableNames.get(type)!, referencedColumn: references[i] });
+          });
         }
+        continue;
+      }
+
+      const mapped = constraints.match(/@map\(\s*"([^"]+)"/);
+      const column: Column = {
+        name: mapped ? mapped[1] : field,
+        type: mapPrismaType(type) + (list ? '[]' : ''),
+        nullable: !!optional,
+        defaultValue: extractPrismaDefault(constraints),
+        constraints: extractPrismaConstraints(constraints),
+      };
+      if (constraints.includes('@id')) {
+        table.primaryKey = [column.name];
       }
+      table.columns.push(column);
     }
-  } catch (error) {
-    // File doesn't exist or can't be read
-  }
 
-  return tables;
+    return table;
+  });
 }
 
 /**
@@ -457,12 +527,670 @@ function extractPrismaConstraints(constraints: string): string[] {
   return extracted;
 }
 
+
+/**
+ * Parse SQLAlchemy declarative models and Core Table() definitions
+ */
+export function parseSQLAlchemyModels(parsedFile: ParsedFile): Table[] {
+  const tables: Table[] = [];
+
+  if (!isPythonModule(parsedFile.ast)) {
+    return tables;
+  }
+
+  const module = parsedFile.ast;
+  const usesSQLAlchemy = parsedFile.imports.some((imp) =>
+    /sqlalchemy|sqlmodel/i.test(imp.from)
+  );
+
+  for (const scope of module.scopes) {
+    if (scope.type === 'class') {
+      const table = extractSQLAlchemyClassModel(module, scope, usesSQLAlchemy);
+      if (table) {
+        tables.push(table);
+      }
+    }
+  }
+
+  // users = Table('users', metadata, Column('id', Integer, primary_key=True), ...)
+  for (const statement of module.statements) {
+    const match = statement.text.match(/^(\w+)\s*=\s*(?:\w+\.)?Table\(/);
+    if (!match || statement.indent > 0) {
+      continue;
+    }
+
+    const args = splitArguments(getCallArguments(statement.text, match[0].length - 1));
+    const name = extractPythonStrings(args[0] || '')[0]?.value;
+    if (!name) {
+      continue;
+    }
+
+    const table: Table = { name, columns: [], indexes: [], foreignKeys: [], model: match[1] };
+    for (const arg of args.slice(1)) {
+      const columnMatch = arg.match(/^(?:\w+\.)?Column\(/);
+      if (columnMatch) {
+        addSQLAlchemyColumn(table, undefined, undefined, getCallArguments(arg, columnMatch[0].length - 1));
+      }
+    }
+    tables.push(table);
+  }
+
+  return tables;
+}
+
+/**
+ * Extract a SQLAlchemy declarative (or Flask-SQLAlchemy / SQLModel) class model
+ */
+function extractSQLAlchemyClassModel(
+  module: PythonModule,
+  scope: PythonScope,
+  usesSQLAlchemy: boolean
+): Table | null {
+  const body = getClassBody(module, scope);
+  let tableName: string | undefined;
+
+  for (const statement of body) {
+    const nameMatch = statement.text.match(/^__tablename__\s*(?::[^=]+)?=\s*([\s\S]+)$/);
+    if (nameMatch) {
+      tableName = extractPythonStrings(nameMatch[1])[0]?.value;
+    }
+    if (/^__abstract__\s*=\s*True/.test(statement.text)) {
+      return null;
+    }
+  }
+
+  // Flask-SQLAlchemy derives the name from the class, SQLModel lowercases it
+  const isSQLModelTable = scope.bases.some((base) => /^table\s*=\s*True$/.test(base));
+  if (!tableName) {
+    if (isSQLModelTable) {
+      tableName = scope.name.toLowerCase();
+    } else if (scope.bases.includes('db.Model') || (usesSQLAlchemy && scope.bases.includes('Model'))) {
+      tableName = toSnakeCase(scope.name);
+    } else {
+      return null;
+    }
+  } else if (!usesSQLAlchemy && !scope.bases.some((base) => /(?:^|\.)Model$|Base$/.test(base))) {
+    return null;
+  }
+
+  const table: Table = {
+    name: tableName,
+    columns: [],
+    indexes: [],
+    foreignKeys: [],
+    model: scope.name,
+  };
+
+  for (const statement of body) {
+    const match = statement.text.match(
+      /^(\w+)\s*(?::\s*([^=]+?))?\s*(?:=\s*([\s\S]+))?$/
+    );
+    if (!match || match[1].startsWith('__')) {
+      continue;
+    }
+
+    const [, attribute, annotation, value] = match;
+    const callMatch = value?.match(/^(?:\w+\.)?(Column|mapped_column|Field)\(/);
+
+    if (callMatch) {
+      addSQLAlchemyColumn(
+        table,
+        attribute,
+        annotation,
+        getCallArguments(value!, callMatch[0].length - 1)
+      );
+    } else if (annotation && (/^Mapped\[/.test(annotation) || isSQLModelTable)) {
+      // Annotation-only columns (name: Mapped[str]), skipping relationship collections
+      const isRelationship =
+        /^(?:Mapped\[)?(?:Optional\[)?(?:List|list)\[/.test(annotation) ||
+        /relationship\(/i.test(value || '');
+      if (!isRelationship) {
+        addSQLAlchemyColumn(table, attribute, annotation, '');
+      }
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Add a column from Column()/mapped_column()/Field() arguments
+ */
+function addSQLAlchemyColumn(
+  table: Table,
+  attribute: string | undefined,
+  annotation: string | undefined,
+  argsText: string
+): void {
+  const args = splitArguments(argsText);
+  const positional = args.filter((arg) => !/^\w+\s*=(?!=)/.test(arg));
+  const keyword = (key: string): string | undefined => {
+    const arg = args.find((a) => new RegExp(`^${key}\\s*=(?!=)`).test(a));
+    return arg?.slice(arg.indexOf('=') + 1).trim();
+  };
+
+  let name = attribute;
+  let type: string | undefined;
+  positional.forEach((arg, index) => {
+    if (/^['"]/.test(arg)) {
+      // Column('email_address', String) names the column explicitly
+      if (index === 0) {
+        name = extractPythonStrings(arg)[0]?.value || name;
+      }
+    } else if (!type && !/^(?:\w+\.)?ForeignKey\(/.test(arg)) {
+      const typeMatch = arg.match(/^(?:\w+\.)*(\w+)/);
+      if (typeMatch) {
+        type = mapSQLAlchemyType(typeMatch[1]);
+      }
+    }
+  });
+
+  const nameArg = keyword('name');
+  if (nameArg && /^['"]/.test(nameArg)) {
+    name = extractPythonStrings(nameArg)[0]?.value || name;
+  }
+  if (!name) {
+    return;
+  }
+
+  const optional = !!annotation && /Optional\[|\|\s*None|None\s*\|/.test(annotation);
+  if (!type && annotation) {
+    const inner = annotation
+      .replace(/^Mapped\[|\]$/g, '')
+      .replace(/Optional\[|\]|\s*\|\s*None|None\s*\|\s*/g, '');
+    type = mapPythonType(inner.split('.').pop()!.trim());
+  }
+
+  const isPrimary = keyword('primary_key') === 'True';
+  const nullableArg = keyword('nullable');
+  const column: Column = {
+    name,
+    type: type || 'VARCHAR',
+    nullable: isPrimary ? false : nullableArg ? nullableArg === 'True' : annotation ? optional : true,
+    defaultValue: parsePythonDefault(keyword('default') ?? keyword('server_default')),
+    constraints: [],
+  };
+
+  if (isPrimary) {
+    column.constraints!.push('PRIMARY KEY');
+    table.primaryKey = [...(table.primaryKey || []), name];
+  }
+  if (keyword('unique') === 'True') {
+    column.constraints!.push('UNIQUE');
+  }
+
+  // ForeignKey('users.id') or ForeignKey(User.id), or Field(foreign_key='users.id')
+  const fkMatch = argsText.match(/ForeignKey\(\s*(?:(['"])([\w.]+)\1|([\w.]+))/);
+  const fkTarget = fkMatch ? fkMatch[2] || fkMatch[3] : keyword('foreign_key') && extractPythonStrings(keyword('foreign_key')!)[0]?.value;
+  if (fkTarget && fkTarget.includes('.')) {
+    const [referencedTable, referencedColumn] = fkTarget.split('.').slice(-2);
+    table.foreignKeys.push({ column: name, referencedTable, referencedColumn });
+  }
+
+  table.columns.push(column);
+}
+
+/**
+ * Map SQLAlchemy column types to SQL types
+ */
+function mapSQLAlchemyType(sqlalchemyType: string): string {
+  const typeMap: Record<string, string> = {
+    Integer: 'INTEGER',
+    BigInteger: 'BIGINT',
+    SmallInteger: 'SMALLINT',
+    String: 'VARCHAR',
+    Unicode: 'VARCHAR',
+    Text: 'TEXT',
+    UnicodeText: 'TEXT',
+    Boolean: 'BOOLEAN',
+    Float: 'FLOAT',
+    Numeric: 'DECIMAL',
+    Date: 'DATE',
+    DateTime: 'TIMESTAMP',
+    Time: 'TIME',
+    JSON: 'JSON',
+    JSONB: 'JSONB',
+    LargeBinary: 'BLOB',
+    Uuid: 'UUID',
+    UUID: 'UUID',
+    Enum: 'ENUM',
+  };
+
+  return typeMap[sqlalchemyType] || sqlalchemyType.toUpperCase();
+}
+
+/**
+ * Map Python annotation types to SQL types
+ */
+function mapPythonType(pythonType: string): string {
+  const typeMap: Record<string, string> = {
+    int: 'INTEGER',
+    str: 'VARCHAR',
+    bool: 'BOOLEAN',
+    float: 'FLOAT',
+    Decimal: 'DECIMAL',
+    datetime: 'TIMESTAMP',
+    date: 'DATE',
+    time: 'TIME',
+    dict: 'JSON',
+    bytes: 'BLOB',
+    UUID: 'UUID',
+  };
+
+  return typeMap[pythonType] || 'VARCHAR';
+}
+
+/**
+ * Parse a Python default value expression
+ */
+function parsePythonDefault(expression: string | undefined): any {
+  if (!expression) {
+    return undefined;
+  }
+  if (/^['"]/.test(expression)) {
+    return extractPythonStrings(expression)[0]?.value;
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(expression)) {
+    return Number(expression);
+  }
+  if (expression === 'True' || expression === 'False') {
+    return expression === 'True';
+  }
+  return expression;
+}
+
+/**
+ * Parse Django models (models.Model subclasses)
+ */
+export function parseDjangoModels(parsedFile: ParsedFile): Table[] {
+  const tables: Table[] = [];
+
+  if (!isPythonModule(parsedFile.ast) || !parsedFile.imports.some((imp) => imp.from.startsWith('django'))) {
+    return tables;
+  }
+
+  const module = parsedFile.ast;
+  const appLabel = inferDjangoAppLabel(parsedFile.path);
+
+  // Collect model classes first so fields can reference models declared later
+  const models = new Map<string, { scope: PythonScope; abstract: boolean; table: string }>();
+  for (const scope of module.scopes) {
+    if (scope.type !== 'class' || scope.parent) {
+      continue;
+    }
+    const isModel = scope.bases.some(
+      (base) => base === 'models.Model' || base === 'Model' || models.has(base)
+    );
+    if (!isModel) {
+      continue;
+    }
+
+    const meta = module.scopes.find((sc) => sc.type === 'class' && sc.name === 'Meta' && sc.parent === scope);
+    const metaOptions = meta ? readDjangoMeta(module, meta) : {};
+    models.set(scope.name, {
+      scope,
+      abstract: metaOptions.abstract === 'True',
+      table:
+        (metaOptions.db_table && extractPythonStrings(metaOptions.db_table)[0]?.value) ||
+        `${(metaOptions.app_label && extractPythonStrings(metaOptions.app_label)[0]?.value) || appLabel}_${scope.name.toLowerCase()}`,
+    });
+  }
+
+  const resolveModelTable = (reference: string, self: string): string => {
+    const target = extractPythonStrings(reference)[0]?.value ?? reference;
+    if (target === 'self') {
+      return self;
+    }
+    if (/AUTH_USER_MODEL|get_user_model/.test(target) || target === 'auth.User') {
+      return 'auth_user';
+    }
+    if (models.has(target)) {
+      return models.get(target)!.table;
+    }
+    const [app, model] = target.includes('.') ? target.split('.').slice(-2) : [appLabel, target];
+    return `${app.toLowerCase()}_${model.toLowerCase()}`;
+  };
+
+  for (const [name, model] of models) {
+    if (model.abstract) {
+      continue;
+    }
+
+    const table: Table = { name: model.table, columns: [], indexes: [], foreignKeys: [], model: name };
+
+    for (const base of model.scope.bases) {
+      const parent = models.get(base);
+      if (parent?.abstract) {
+        // Abstract base fields are copied into the child table
+        for (const statement of getClassBody(module, parent.scope)) {
+          addDjangoField(table, statement.text, resolveModelTable);
+        }
+      } else if (parent) {
+        // Multi-table inheritance links the child to its parent row
+        const column = `${base.toLowerCase()}_ptr_id`;
+        table.columns.push({ name: column, type: 'INTEGER', nullable: false, constraints: ['PRIMARY KEY'] });
+        table.foreignKeys.push({ column, referencedTable: parent.table, referencedColumn: 'id' });
+      }
+    }
+
+    for (const statement of getClassBody(module, model.scope)) {
+      addDjangoField(table, statement.text, resolveModelTable);
+    }
+
+    const primary = table.columns.filter((column) => column.constraints?.includes('PRIMARY KEY'));
+    if (primary.length === 0) {
+      table.columns.unshift({ name: 'id', type: 'INTEGER', nullable: false, constraints: ['PRIMARY KEY'] });
+      table.primaryKey = ['id'];
+    } else {
+      table.primaryKey = primary.map((column) => column.name);
+    }
+
+    tables.push(table);
+  }
+
+  return tables;
+}
+
+/**
+ * Read Django Meta options (db_table, abstract, app_label)
+ */
+function readDjangoMeta(module: PythonModule, meta: PythonScope): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const statement of getClassBody(module, meta)) {
+    const match = statement.text.match(/^(\w+)\s*=\s*([\s\S]+)$/);
+    if (match) {
+      options[match[1]] = match[2].trim();
+    }
+  }
+  return options;
+}
+
+/**
+ * Add a column for a Django field declaration
+ */
+function addDjangoField(
+  table: Table,
+  statement: string,
+  resolveModelTable: (reference: string, self: string) => string
+): void {
+  const match = statement.match(/^(\w+)\s*=\s*(?:models\.)?(\w*Field|ForeignKey|OneToOneField)\(/);
+  if (!match || match[2] === 'ManyToManyField') {
+    return; // Many-to-many fields live in a separate join table
+  }
+
+  const [, attribute, fieldType] = match;
+  const args = splitArguments(getCallArguments(statement, match[0].length - 1));
+  const keyword = (key: string): string | undefined => {
+    const arg = args.find((a) => new RegExp(`^${key}\\s*=(?!=)`).test(a));
+    return arg?.slice(arg.indexOf('=') + 1).trim();
+  };
+
+  const isRelation = fieldType === 'ForeignKey' || fieldType === 'OneToOneField';
+  const dbColumn = keyword('db_column');
+  const name =
+    (dbColumn && extractPythonStrings(dbColumn)[0]?.value) ||
+    (isRelation ? `${attribute}_id` : attribute);
+
+  const column: Column = {
+    name,
+    type: isRelation ? 'INTEGER' : mapDjangoType(fieldType),
+    nullable: keyword('null') === 'True',
+    defaultValue: parsePythonDefault(keyword('default')),
+    constraints: [],
+  };
+
+  if (keyword('primary_key') === 'True') {
+    column.constraints!.push('PRIMARY KEY');
+    column.nullable = false;
+  }
+  if (keyword('unique') === 'True' || fieldType === 'OneToOneField') {
+    column.constraints!.push('UNIQUE');
+  }
+
+  if (isRelation) {
+    const target = keyword('to') ?? args.find((arg) => !/^\w+\s*=(?!=)/.test(arg));
+    if (target) {
+      table.foreignKeys.push({
+        column: name,
+        referencedTable: resolveModelTable(target, table.name),
+        referencedColumn: 'id',
+      });
+    }
+  }
+
+  table.columns.push(column);
+}
+
+/**
+ * Map Django field classes to SQL types
+ */
+function mapDjangoType(fieldType: string): string {
+  const typeMap: Record<string, string> = {
+    AutoField: 'INTEGER',
+    BigAutoField: 'BIGINT',
+    CharField: 'VARCHAR',
+    TextField: 'TEXT',
+    EmailField: 'VARCHAR',
+    SlugField: 'VARCHAR',
+    URLField: 'VARCHAR',
+    UUIDField: 'UUID',
+    IntegerField: 'INTEGER',
+    BigIntegerField: 'BIGINT',
+    SmallIntegerField: 'SMALLINT',
+    PositiveIntegerField: 'INTEGER',
+    FloatField: 'FLOAT',
+    DecimalField: 'DECIMAL',
+    BooleanField: 'BOOLEAN',
+    DateField: 'DATE',
+    DateTimeField: 'TIMESTAMP',
+    TimeField: 'TIME',
+    JSONField: 'JSON',
+    BinaryField: 'BLOB',
+    FileField: 'VARCHAR',
+    ImageField: 'VARCHAR',
+  };
+
+  return typeMap[fieldType] || 'VARCHAR';
+}
+
+/**
+ * Infer the Django app label from a models module path
+ */
+function inferDjangoAppLabel(filePath: string): string {
+  const parts = filePath.replace(/\\/g, '/').split('/');
+  const modelsIndex = parts.lastIndexOf('models');
+  if (modelsIndex > 0) {
+    return parts[modelsIndex - 1]; // app/models/user.py
+  }
+  return parts.length > 1 ? parts[parts.length - 2] : 'app'; // app/models.py
+}
+
+/**
+ * Parse GORM models (structs embedding gorm.Model or carrying gorm tags)
+ */
+export function parseGORMModels(parsedFile: ParsedFile): Table[] {
+  const tables: Table[] = [];
+
+  if (!isGoModule(parsedFile.ast) || !parsedFile.imports.some((imp) => /gorm/.test(imp.from))) {
+    return tables;
+  }
+
+  const module = parsedFile.ast;
+  const structFields = new Map(module.structs.map((struct) => [struct.name, parseGoStructFields(module, struct)]));
+
+  // func (User) TableName() string { return "accounts" }
+  const tableNames = new Map<string, string>();
+  for (const fn of module.functions) {
+    if (fn.receiver && fn.name === 'TableName') {
+      const returned = module.source.slice(fn.bodyStart, fn.end).match(/\breturn\s+("[^"]*"|`[^`]*`)/);
+      const name = returned && readGoString(returned[1]);
+      if (name) {
+        tableNames.set(fn.receiver, name);
+      }
+    }
+  }
+  const resolveModelTable = (model: string): string =>
+    tableNames.get(model) || pluralize(toGoSnakeCase(model));
+
+  for (const [name, fields] of structFields) {
+    const isModel =
+      tableNames.has(name) ||
+      fields.some((field) => (field.embedded && field.type === 'gorm.Model') || getGoStructTag(field.tag, 'gorm'));
+    if (!isModel) {
+      continue;
+    }
+
+    const table: Table = { name: resolveModelTable(name), columns: [], indexes: [], foreignKeys: [], model: name };
+
+    for (const field of fields) {
+      const options = parseGORMTag(getGoStructTag(field.tag, 'gorm') || '');
+      if (options['-'] !== undefined || !/^[A-Z]/.test(field.name)) {
+        continue;
+      }
+
+      if (field.embedded) {
+        if (field.type === 'gorm.Model') {
+          table.columns.push(
+            { name: 'id', type: 'INTEGER', nullable: false, constraints: ['PRIMARY KEY'] },
+            { name: 'created_at', type: 'TIMESTAMP', nullable: true, constraints: [] },
+            { name: 'updated_at', type: 'TIMESTAMP', nullable: true, constraints: [] },
+            { name: 'deleted_at', type: 'TIMESTAMP', nullable: true, constraints: [] }
+          );
+        }
+        continue;
+      }
+
+      // Associations (User, *User, []Order) are not columns
+      const baseType = field.type.replace(/^(?:\[\]|\*)+/, '');
+      if (structFields.has(baseType) || (/^[A-Z]/.test(baseType) && !mapGoType(baseType))) {
+        continue;
+      }
+
+      const column: Column = {
+        name: options.column || toGoSnakeCase(field.name),
+        type: options.type ? options.type.toUpperCase() : mapGoType(baseType) || 'VARCHAR',
+        nullable:
+          options['not null'] === undefined &&
+          (field.type.startsWith('*') || /^(?:sql\.Null|gorm\.DeletedAt)/.test(baseType)),
+        defaultValue: options.default,
+        constraints: [],
+      };
+
+      if (options.primaryKey !== undefined || options.primary_key !== undefined) {
+        column.nullable = false;
+        column.constraints!.push('PRIMARY KEY');
+      }
+      if (options.unique !== undefined || options.uniqueIndex !== undefined) {
+        column.constraints!.push('UNIQUE');
+      }
+
+      // UserID refers to the table of the User association declared alongside it
+      const association = field.name.match(/^(\w+)ID$/);
+      const related = association && fields.find((f) => f.name === association[1] && !f.embedded);
+      if (related) {
+        table.foreignKeys.push({
+          column: column.name,
+          referencedTable: resolveModelTable(related.type.replace(/^(?:\[\]|\*)+(?:\w+\.)?/, '')),
+          referencedColumn: 'id',
+        });
+      }
+
+      table.columns.push(column);
+    }
+
+    const primary = table.columns.filter((column) => column.constraints?.includes('PRIMARY KEY'));
+    const id = table.columns.find((column) => column.name === 'id');
+    if (primary.length === 0 && id) {
+      // GORM uses the ID field as the primary key by convention
+      id.nullable = false;
+      id.constraints!.push('PRIMARY KEY');
+      primary.push(id);
+    }
+    table.primaryKey = primary.map((column) => column.name);
+
+    tables.push(table);
+  }
+
+  return tables;
+}
+
+/**
+ * Parse a gorm struct tag (column:name;type:varchar(100);not null) into options
+ */
+function parseGORMTag(tag: string): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const part of tag.split(';')) {
+    const separator = part.indexOf(':');
+    const key = (separator < 0 ? part : part.slice(0, separator)).trim();
+    if (key) {
+      options[key] = separator < 0 ? '' : part.slice(separator + 1).trim();
+    }
+  }
+  return options;
+}
+
 /**
- * Extract relation table name from Prisma relation
+ * Map Go field types to SQL types
  */
-function extractRelationTableName(constraints: string): string {
-  const relationMatch = constraints.match(/references:\s*\[(\w+)\]/);
-  // This is simplified - would need full parsing
-  return relationMatch ? relationMatch[1] : 'unknown';
+function mapGoType(goType: string): string | undefined {
+  const typeMap: Record<string, string> = {
+    int: 'INTEGER',
+    int8: 'SMALLINT',
+    int16: 'SMALLINT',
+    int32: 'INTEGER',
+    int64: 'BIGINT',
+    uint: 'INTEGER',
+    uint8: 'SMALLINT',
+    uint16: 'SMALLINT',
+    uint32: 'INTEGER',
+    uint64: 'BIGINT',
+    float32: 'FLOAT',
+    float64: 'FLOAT',
+    string: 'VARCHAR',
+    bool: 'BOOLEAN',
+    '[]byte': 'BLOB',
+    'time.Time': 'TIMESTAMP',
+    'gorm.DeletedAt': 'TIMESTAMP',
+    'sql.NullString': 'VARCHAR',
+    'sql.NullInt64': 'BIGINT',
+    'sql.NullInt32': 'INTEGER',
+    'sql.NullBool': 'BOOLEAN',
+    'sql.NullFloat64': 'FLOAT',
+    'sql.NullTime': 'TIMESTAMP',
+    'uuid.UUID': 'UUID',
+    'decimal.Decimal': 'DECIMAL',
+    'datatypes.JSON': 'JSON',
+  };
+
+  return typeMap[goType];
 }
 
+/**
+ * Convert a Go identifier to snake_case, keeping initialisms together (UserID -> user_id)
+ */
+function toGoSnakeCase(str: string): string {
+  return str
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Pluralize a table name the way GORM's default naming strategy does for regular nouns
+ */
+function pluralize(name: string): string {
+  if (/[^aeiou]y$/.test(name)) {
+    return name.replace(/y$/, 'ies');
+  }
+  if (/(?:s|x|z|ch|sh)$/.test(name)) {
+    return `${name}es`;
+  }
+  return `${name}s`;
+}
+
+/**
+ * Convert CamelCase to snake_case
+ */
+function toSnakeCase(str: string): string {
+  return str.replace(/([A-Z])/g, '_$1').toLowerCase().replace(/^_/, '');
+}
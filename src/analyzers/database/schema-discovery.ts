@@ -0,0 +1,101 @@
+/**
+ * Database schema discovery
+ *
+ * Finds the migrations, ORM models and Prisma schemas of a repository and
+ * merges the tables they declare into one schema.
+ */
+
+import { DatabaseSchema, Table, Relationship } from '../../types';
+import { FileTree, FileNode } from '../../types';
+import { ParsedFile } from '../../types';
+import { extractSchemaFromMigrations } from './schema-extractor';
+import { extractSchemaFromModels, getForeignKeyRelationships } from './orm-detector';
+import { parsePrismaSchema } from './orm-parser';
+
+/**
+ * Discover the database schema of a repository. Migrations come first as they
+ * describe the actual columns; models and Prisma schemas add the tables and
+ * columns migrations do not cover, and the model names queries refer to.
+ */
+export function discoverDatabaseSchema(fileTree: FileTree, parsedFiles: ParsedFile[]): DatabaseSchema {
+  return discoverSchemaWithModels(fileTree, extractSchemaFromModels(parsedFiles).tables);
+}
+
+/**
+ * Discover the database schema of a repository from tables already extracted
+ * from its ORM models
+ */
+export function discoverSchemaWithModels(fileTree: FileTree, modelTables: Table[]): DatabaseSchema {
+  const files = [...fileTree.files.values()].filter(
+    (file) => file.type === 'file' && !/(^|[\\/])node_modules[\\/]/.test(file.relativePath)
+  );
+
+  const migrations = extractSchemaFromMigrations(files.filter(isMigrationFile));
+  const prismaTables = files
+    .filter((file) => file.name.endsWith('.prisma'))
+    .flatMap((file) => parsePrismaSchema(file.path));
+  const prisma = { tables: prismaTables, relationships: getForeignKeyRelationships(prismaTables) };
+  const models = { tables: modelTables, relationships: getForeignKeyRelationships(modelTables) };
+
+  return mergeDatabaseSchemas([migrations, prisma, models]);
+}
+
+/**
+ * Merge schemas by table name (case-insensitive). Earlier schemas win for the
+ * table name and column definitions; later ones add missing columns, indexes,
+ * foreign keys and the declaring model.
+ */
+export function mergeDatabaseSchemas(schemas: DatabaseSchema[]): DatabaseSchema {
+  const tables = new Map<string, Table>();
+
+  for (const table of schemas.flatMap((schema) => schema.tables)) {
+    const key = table.name.toLowerCase();
+    const existing = tables.get(key);
+    if (!existing) {
+      tables.set(key, { ...table, columns: [], indexes: [], foreignKeys: [] });
+    }
+    const merged = tables.get(key)!;
+
+    merged.model = merged.model || table.model;
+    merged.primaryKey = merged.primaryKey || table.primaryKey;
+    for (const column of table.columns) {
+      if (!merged.columns.some((c) => c.name.toLowerCase() === column.name.toLowerCase())) {
+        merged.columns.push(column);
+      }
+    }
+    for (const index of table.indexes) {
+      if (!merged.indexes.some((i) => i.name === index.name)) {
+        merged.indexes.push(index);
+      }
+    }
+    for (const fk of table.foreignKeys) {
+      if (!merged.foreignKeys.some((f) => f.column.toLowerCase() === fk.column.toLowerCase())) {
+        merged.foreignKeys.push(fk);
+      }
+    }
+  }
+
+  const relationships = new Map<string, Relationship>();
+  for (const relationship of schemas.flatMap((schema) => schema.relationships)) {
+    const key = `${relationship.from}:${relationship.to}:${relationship.foreignKey || ''}`.toLowerCase();
+    if (!relationships.has(key)) {
+      relationships.set(key, relationship);
+    }
+  }
+
+  return {
+    tables: [...tables.values()],
+    relationships: [...relationships.values()],
+  };
+}
+
+/**
+ * Check whether a file is a schema migration or SQL schema dump
+ */
+function isMigrationFile(file: FileNode): boolean {
+  const normalized = file.relativePath.replace(/\\/g, '/');
+  return (
+    /(^|\/)(migrations?|migrate)\/.+\.(sql|js|ts)$/i.test(normalized) ||
+    /(^|\/)(schema|structure|init)\.sql$/i.test(normalized)
+  );
+}
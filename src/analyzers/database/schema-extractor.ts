@@ -176,6 +176,19 @@ function extractFromSQL(content: string): {
     }
   }
 
+  // ALTER TABLE users ADD COLUMN avatar TEXT; merged into the table by the caller
+  const addColumnPattern = new RegExp(
+    'ALTER\\s+TABLE\\s+(?:IF\\s+EXISTS\\s+)?[`"[]?([a-zA-Z_][a-zA-Z0-9_]*)[`"\\]]?' +
+      '\\s+ADD\\s+(?:COLUMN\\s+)?(?:IF\\s+NOT\\s+EXISTS\\s+)?([^;]+)',
+    'gi'
+  );
+  while ((match = addColumnPattern.exec(content)) !== null) {
+    const columns = extractSQLColumns(match[2]);
+    if (columns.length > 0) {
+      tables.push({ name: match[1].toLowerCase(), columns, indexes: [], foreignKeys: [] });
+    }
+  }
+
   return { tables, relationships };
 }
 
@@ -229,8 +242,10 @@ function extractSQLColumns(tableDef: string): Column[] {
   const lines = tableDef.split('\n');
 
   for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('--') || trimmed.startsWith('PRIMARY') || trimmed.startsWith('FOREIGN')) {
+    // The block starts at the opening parenthesis; identifiers may be quoted ("id", `id`)
+    const trimmed = line.trim().replace(/^\(\s*/, '').replace(/^[`"[]([a-zA-Z_][a-zA-Z0-9_]*)[`"\]]/, '$1');
+    const isConstraint = /^(PRIMARY|FOREIGN|CONSTRAINT|UNIQUE|CHECK|KEY|INDEX)\b/i.test(trimmed);
+    if (!trimmed || trimmed.startsWith('--') || isConstraint) {
       continue;
     }
 
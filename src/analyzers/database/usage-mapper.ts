@@ -17,7 +17,7 @@ export function mapDatabaseUsage(
 
   // Initialize usage map for all tables
   for (const table of schema.tables) {
-    usageMap[table.name] = {
+    usageMap[table.name.toLowerCase()] = {
       endpoints: [],
       queries: [],
       readOperations: 0,
@@ -0,0 +1,291 @@
+/**
+ * Angular component and injectable service detection
+ *
+ * Angular declares components and services with class decorators and wires them
+ * together through constructor injection or inject().
+ */
+
+import * as t from '@babel/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedFile } from '../../types';
+import { Service } from '../../types';
+import type { ComponentInfo } from './component-detector';
+
+/** Lifecycle hooks a component can implement */
+const LIFECYCLE_HOOKS = [
+  'ngOnChanges',
+  'ngOnInit',
+  'ngDoCheck',
+  'ngAfterContentInit',
+  'ngAfterContentChecked',
+  'ngAfterViewInit',
+  'ngAfterViewChecked',
+  'ngOnDestroy',
+];
+
+/** Signal functions declaring component inputs */
+const SIGNAL_INPUTS = ['input', 'model'];
+
+interface Injection {
+  member?: string; // Field holding the instance, if it is kept on `this`
+  token: string;
+}
+
+/**
+ * Check whether a file imports from the Angular framework
+ */
+export function isAngularFile(parsedFile: ParsedFile): boolean {
+  return parsedFile.imports.some((i) => i.from.startsWith('@angular/'));
+}
+
+/**
+ * Detect @Component classes with their selector, template, inputs and injected services
+ */
+export function detectAngularComponents(parsedFile: ParsedFile): ComponentInfo[] {
+  const components: ComponentInfo[] = [];
+
+  for (const classNode of findClasses(parsedFile.ast)) {
+    const decorator = getClassDecorator(classNode, 'Component');
+    if (!decorator || !classNode.id) {
+      continue;
+    }
+
+    const metadata = t.isObjectExpression(decorator.arguments[0]) ? decorator.arguments[0] : undefined;
+    const selector = readMetadataString(metadata, 'selector');
+    const templateUrl = readMetadataString(metadata, 'templateUrl');
+    let template = readMetadataString(metadata, 'template') || '';
+    if (templateUrl) {
+      const templateFile = path.resolve(path.dirname(parsedFile.path), templateUrl);
+      template = fs.existsSync(templateFile) ? fs.readFileSync(templateFile, 'utf-8') : '';
+    }
+
+    const props: string[] = [];
+    const state: string[] = [];
+    const hooks: string[] = [];
+    const injected = new Set(getInjections(classNode).map((i) => i.member));
+
+    for (const member of classNode.body.body) {
+      if (t.isClassMethod(member) && t.isIdentifier(member.key)) {
+        if (LIFECYCLE_HOOKS.includes(member.key.name)) {
+          hooks.push(member.key.name);
+        } else if (member.kind === 'set' && getMemberDecorator(member, 'Input')) {
+          props.push(readInputName(member, member.key.name));
+        }
+      } else if (t.isClassProperty(member) && t.isIdentifier(member.key) && !member.static) {
+        const name = member.key.name;
+        const signal = getSignalFunction(member.value);
+        if (getMemberDecorator(member, 'Input')) {
+          // @Input() user / @Input('alias') user / @Input({ alias: 'alias' }) user
+          props.push(readInputName(member, name));
+        } else if (signal && SIGNAL_INPUTS.includes(signal)) {
+          props.push(name);
+        } else if (!member.decorators?.length && !injected.has(name) && signal !== 'output') {
+          state.push(name);
+        }
+      }
+    }
+
+    components.push({
+      name: classNode.id.name,
+      file: parsedFile.path,
+      type: 'class',
+      props,
+      state,
+      hooks,
+      ...(selector ? { selector } : {}),
+      ...(templateUrl ? { templateUrl } : {}),
+      dependencies: getInjectedServices(classNode),
+      line: classNode.loc?.start.line || 0,
+      column: classNode.loc?.start.column || 0,
+      endLine: classNode.loc?.end.line,
+      children: extractTemplateSelectors(template),
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Detect @Injectable services and the services they inject
+ */
+export function detectAngularServices(parsedFile: ParsedFile): Service[] {
+  return findClasses(parsedFile.ast)
+    .filter((classNode) => classNode.id && getClassDecorator(classNode, 'Injectable'))
+    .map((classNode) => ({
+      name: classNode.id!.name,
+      file: parsedFile.path,
+      methods: classNode.body.body
+        .filter((m): m is t.ClassMethod => t.isClassMethod(m) && m.kind === 'method' && t.isIdentifier(m.key))
+        .map((m) => (m.key as t.Identifier).name),
+      dependencies: getInjectedServices(classNode),
+    }));
+}
+
+/**
+ * Get the services a class receives through its constructor or inject()
+ */
+export function getInjectedServices(classNode: t.Class): string[] {
+  return Array.from(new Set(getInjections(classNode).map((i) => i.token)));
+}
+
+/**
+ * Get the class fields holding an injected HttpClient
+ */
+export function getHttpClientMembers(classNode: t.Class): string[] {
+  return getInjections(classNode)
+    .filter((i) => i.token === 'HttpClient' && i.member)
+    .map((i) => i.member!);
+}
+
+/**
+ * Collect constructor parameter and inject() injections of a class
+ */
+function getInjections(classNode: t.Class): Injection[] {
+  const injections: Injection[] = [];
+
+  for (const member of classNode.body.body) {
+    if (t.isClassMethod(member) && member.kind === 'constructor') {
+      // constructor(private http: HttpClient, @Inject(API_URL) apiUrl: string)
+      for (const param of member.params) {
+        const parameter = t.isTSParameterProperty(param) ? param.parameter : param;
+        if (!t.isIdentifier(parameter)) {
+          continue;
+        }
+        const injectDecorator = (parameter.decorators || (param as t.TSParameterProperty).decorators || [])
+          .map((d) => d.expression)
+          .find((e): e is t.CallExpression => t.isCallExpression(e) && t.isIdentifier(e.callee, { name: 'Inject' }));
+        const token = injectDecorator
+          ? getTokenName(injectDecorator.arguments[0])
+          : getTypeName(parameter.typeAnnotation);
+        if (token) {
+          injections.push({ ...(t.isTSParameterProperty(param) ? { member: parameter.name } : {}), token });
+        }
+      }
+    } else if (t.isClassProperty(member) && t.isIdentifier(member.key)) {
+      // private http = inject(HttpClient)
+      const value = member.value;
+      if (t.isCallExpression(value) && t.isIdentifier(value.callee, { name: 'inject' })) {
+        const token = getTokenName(value.arguments[0]);
+        if (token) {
+          injections.push({ member: member.key.name, token });
+        }
+      }
+    }
+  }
+
+  return injections;
+}
+
+/**
+ * Find every class declaration in a file
+ */
+function findClasses(ast: t.File | undefined): t.ClassDeclaration[] {
+  const classes: t.ClassDeclaration[] = [];
+  if (ast && t.isFile(ast)) {
+    t.traverseFast(ast, (node) => {
+      if (t.isClassDeclaration(node)) {
+        classes.push(node);
+      }
+    });
+  }
+  return classes;
+}
+
+/**
+ * Get a @Name(...) class decorator call
+ */
+function getClassDecorator(classNode: t.Class, name: string): t.CallExpression | undefined {
+  return (classNode.decorators || [])
+    .map((d) => d.expression)
+    .find((e): e is t.CallExpression => t.isCallExpression(e) && t.isIdentifier(e.callee, { name }));
+}
+
+/**
+ * Get a @Name(...) decorator call on a class member
+ */
+function getMemberDecorator(member: t.ClassProperty | t.ClassMethod, name: string): t.CallExpression | undefined {
+  return (member.decorators || [])
+    .map((d) => d.expression)
+    .find((e): e is t.CallExpression => t.isCallExpression(e) && t.isIdentifier(e.callee, { name }));
+}
+
+/**
+ * Read the public name of an @Input, honouring aliases
+ */
+function readInputName(member: t.ClassProperty | t.ClassMethod, name: string): string {
+  const [arg] = getMemberDecorator(member, 'Input')?.arguments || [];
+  if (t.isStringLiteral(arg)) {
+    return arg.value;
+  }
+  return (t.isObjectExpression(arg) && readMetadataString(arg, 'alias')) || name;
+}
+
+/**
+ * Get the signal function a field is initialised with (input(), input.required(), output())
+ */
+function getSignalFunction(value: t.Node | null | undefined): string | undefined {
+  if (!t.isCallExpression(value)) {
+    return undefined;
+  }
+  const callee = t.isMemberExpression(value.callee) ? value.callee.object : value.callee;
+  return t.isIdentifier(callee) ? callee.name : undefined;
+}
+
+/**
+ * Read a string-valued property from decorator metadata
+ */
+function readMetadataString(metadata: t.ObjectExpression | undefined, key: string): string | undefined {
+  const property = metadata?.properties.find(
+    (p): p is t.ObjectProperty => t.isObjectProperty(p) && t.isIdentifier(p.key, { name: key })
+  );
+  if (t.isStringLiteral(property?.value)) {
+    return property.value.value;
+  }
+  if (t.isTemplateLiteral(property?.value)) {
+    return property.value.quasis.map((q) => q.value.cooked ?? q.value.raw).join('');
+  }
+  return undefined;
+}
+
+/**
+ * Get the class name an injection token or type annotation refers to
+ */
+function getTokenName(node: t.Node | null | undefined): string | undefined {
+  if (t.isIdentifier(node)) {
+    return node.name;
+  }
+  // inject(forwardRef(() => UserService))
+  if (t.isCallExpression(node) && t.isIdentifier(node.callee, { name: 'forwardRef' })) {
+    const fn = node.arguments[0];
+    return t.isArrowFunctionExpression(fn) ? getTokenName(fn.body) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get the type name of a parameter annotation
+ */
+function getTypeName(annotation: t.Identifier['typeAnnotation']): string | undefined {
+  const type = t.isTSTypeAnnotation(annotation) ? annotation.typeAnnotation : undefined;
+  if (t.isTSTypeReference(type)) {
+    return t.isIdentifier(type.typeName) ? type.typeName.name : type.typeName.right.name;
+  }
+  return undefined;
+}
+
+/**
+ * Extract the custom element selectors used in a component template
+ */
+function extractTemplateSelectors(template: string): string[] {
+  const selectors: string[] = [];
+  // <app-user-card>, <mat-table>; plain HTML elements never contain a dash
+  const tagRegex = /<([a-z][a-z0-9]*(?:-[a-z0-9]+)+)(?=[\s/>])/g;
+  let match;
+
+  while ((match = tagRegex.exec(template)) !== null) {
+    selectors.push(match[1]);
+  }
+
+  return Array.from(new Set(selectors));
+}
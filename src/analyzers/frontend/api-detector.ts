@@ -6,6 +6,14 @@ import traverse, { NodePath } from '@babel/traverse';
 import * as t from '@babel/types';
 import { APICall } from '../../types';
 import { ParsedFile } from '../../types';
+import { getHttpClientMembers } from './angular-detector';
+import { resolveDataHookCall } from './data-hooks';
+import { extractBodyFields, extractResponseFields } from './field-detector';
+import { resolveRequest, ResolvedRequest } from './http-clients';
+import { isStaticString, resolveStringValue } from './value-resolver';
+
+/** HttpClient shorthand methods */
+const HTTP_CLIENT_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
 
 /**
  * Detect API calls in frontend code
@@ -19,6 +27,10 @@ export function detectAPICalls(parsedFile: ParsedFile): APICall[] {
 
   const ast = parsedFile.ast as t.File;
   let callId = 0;
+  // Request nodes behind plain calls and behind data-fetching hooks, so a fetcher
+  // passed to a hook is reported once, at the hook
+  const requestNodes = new Map<APICall, t.Node>();
+  const hookRequestNodes = new Set<t.Node>();
 
   traverse(ast, {
     // Fetch API calls
@@ -26,19 +38,48 @@ export function detectAPICalls(parsedFile: ParsedFile): APICall[] {
       const callExpr = path.node;
 
       // fetch() calls
-      if (t.isIdentifier(callExpr.callee) && callExpr.callee.name === 'fetch') {
+      const isFetch = t.isIdentifier(callExpr.callee) && callExpr.callee.name === 'fetch';
+      if (isFetch) {
         const apiCall = extractFetchCall(callExpr, parsedFile, path, `fetch-${++callId}`);
         if (apiCall) {
+          apiCall.responseFields = extractResponseFields(path);
           apiCalls.push(apiCall);
+          requestNodes.set(apiCall, callExpr);
         }
       }
 
-      // axios.get(), axios.post(), etc.
-      if (t.isMemberExpression(callExpr.callee)) {
-        const apiCall = extractAxiosCall(callExpr, parsedFile, path, `axios-${++callId}`);
+      // axios/ky/ofetch/superagent clients and instances, and request wrappers in the repo
+      const isAngularCall = isHttpClientCall(callExpr, path);
+      const request = isFetch || isAngularCall ? undefined : resolveRequest(path, parsedFile);
+      if (request) {
+        const apiCall = createRequestCall(request, callExpr, parsedFile, path, `${request.library}-${++callId}`);
+        apiCall.responseFields = extractResponseFields(path);
+        apiCalls.push(apiCall);
+        requestNodes.set(apiCall, request.node ?? callExpr);
+      } else if (t.isMemberExpression(callExpr.callee)) {
+        // Angular HttpClient calls (this.http.get<User[]>(url)) and other .get()/.post() calls
+        const apiCall = isAngularCall
+          ? extractHttpClientCall(callExpr, parsedFile, path, `http-${++callId}`)
+          : extractAxiosCall(callExpr, parsedFile, path, `axios-${++callId}`);
         if (apiCall) {
+          apiCall.responseFields = extractResponseFields(path);
+          apiCalls.push(apiCall);
+          requestNodes.set(apiCall, callExpr);
+        }
+      }
+
+      // React Query, SWR and RTK Query hooks; Apollo's useQuery falls through to GraphQL
+      const hookRequest = request ? undefined : resolveDataHookCall(path, parsedFile);
+      if (hookRequest !== undefined) {
+        if (hookRequest) {
+          const apiCall = createRequestCall(hookRequest, callExpr, parsedFile, path, `${hookRequest.hook}-${++callId}`);
+          apiCall.responseFields = extractResponseFields(path);
           apiCalls.push(apiCall);
+          if (hookRequest.node) {
+            hookRequestNodes.add(hookRequest.node);
+          }
         }
+        return;
       }
 
       // GraphQL queries
@@ -49,7 +90,10 @@ export function detectAPICalls(parsedFile: ParsedFile): APICall[] {
     },
   });
 
-  return apiCalls;
+  return apiCalls.filter((call) => {
+    const requestNode = requestNodes.get(call);
+    return !requestNode || !hookRequestNodes.has(requestNode);
+  });
 }
 
 /**
@@ -65,24 +109,13 @@ function extractFetchCall(
     return null;
   }
 
-  const urlArg = node.arguments[0];
-  let url: string | null = null;
-  let urlPattern: string | undefined;
   let method = 'GET';
   const headers: Record<string, string> = {};
   let body: any = undefined;
+  let bodyNode: t.Node | undefined;
 
   // Extract URL
-  if (t.isStringLiteral(urlArg)) {
-    url = urlArg.value;
-  } else if (t.isTemplateLiteral(urlArg)) {
-    urlPattern = extractTemplateString(urlArg);
-    url = null; // Dynamic URL
-  } else if (t.isIdentifier(urlArg) || t.isMemberExpression(urlArg)) {
-    // Variable reference - dynamic URL
-    urlPattern = extractExpressionPattern(urlArg);
-    url = null;
-  }
+  const { url, urlPattern } = extractURL(path.get('arguments')[0], parsedFile);
 
   // Extract options (second argument)
   if (node.arguments.length > 1 && t.isObjectExpression(node.arguments[1])) {
@@ -97,6 +130,7 @@ function extractFetchCall(
           extractHeaders(prop.value, headers);
         } else if (key === 'body' && t.isExpression(prop.value)) {
           body = extractBody(prop.value);
+          bodyNode = prop.value;
         }
       }
     }
@@ -114,6 +148,7 @@ function extractFetchCall(
     urlPattern,
     headers: Object.keys(headers).length > 0 ? headers : undefined,
     body,
+    bodyFields: extractBodyFields(bodyNode, path),
     line: node.loc?.start.line || 0,
     column: node.loc?.start.column || 0,
     confidence: url ? 0.9 : 0.5, // Higher confidence for static URLs
@@ -153,25 +188,14 @@ function extractAxiosCall(
     return null;
   }
 
-  const urlArg = node.arguments[0];
-  let url: string | null = null;
-  let urlPattern: string | undefined;
   const headers: Record<string, string> = {};
   let body: any = undefined;
+  let bodyNode: t.Node | undefined;
 
   // Extract URL
-  if (t.isStringLiteral(urlArg)) {
-    url = urlArg.value;
-  } else if (t.isTemplateLiteral(urlArg)) {
-    urlPattern = extractTemplateString(urlArg);
-    url = null;
-  } else if (t.isExpression(urlArg)) {
-    urlPattern = extractExpressionPattern(urlArg);
-    url = null;
-  } else {
-    urlPattern = '[unknown]';
-    url = null;
-  }
+  const { url, urlPattern } = node.arguments.length > 0
+    ? extractURL(path.get('arguments')[0], parsedFile)
+    : { url: null, urlPattern: '[unknown]' };
 
   // Extract config (second argument for axios)
   if (node.arguments.length > 1 && t.isObjectExpression(node.arguments[1])) {
@@ -184,6 +208,7 @@ function extractAxiosCall(
           extractHeaders(prop.value, headers);
         } else if ((key === 'data' || key === 'body') && t.isExpression(prop.value)) {
           body = extractBody(prop.value);
+          bodyNode = prop.value;
         }
       }
     }
@@ -200,6 +225,143 @@ function extractAxiosCall(
     urlPattern,
     headers: Object.keys(headers).length > 0 ? headers : undefined,
     body,
+    bodyFields: extractBodyFields(bodyNode, path),
+    line: node.loc?.start.line || 0,
+    column: node.loc?.start.column || 0,
+    confidence: url ? 0.9 : 0.5,
+  };
+}
+
+/**
+ * Create an API call from a request resolved through a client library or wrapper
+ */
+function createRequestCall(
+  request: ResolvedRequest,
+  node: t.CallExpression,
+  parsedFile: ParsedFile,
+  path: NodePath<t.CallExpression>,
+  id: string
+): APICall {
+  const headers: Record<string, string> = {};
+  if (request.headers) {
+    extractHeaders(request.headers, headers);
+  }
+
+  let url: string | null = null;
+  let urlPattern: string | undefined;
+  if (request.url !== undefined && isStaticString(request.url)) {
+    url = request.url;
+  } else if (request.url !== undefined) {
+    urlPattern = request.url;
+  } else {
+    urlPattern = t.isExpression(request.urlExpression) ? extractExpressionPattern(request.urlExpression) : '[unknown]';
+  }
+
+  return {
+    id,
+    file: parsedFile.path,
+    function: findContainingFunction(path),
+    method: request.method as APICall['method'],
+    url,
+    urlPattern,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    body: t.isExpression(request.body) ? extractBody(request.body) : undefined,
+    bodyFields: extractBodyFields(request.body, path),
+    line: node.loc?.start.line || 0,
+    column: node.loc?.start.column || 0,
+    confidence: url ? 0.9 : 0.5,
+  };
+}
+
+/**
+ * Check whether a call goes through an HttpClient injected into the enclosing class
+ */
+function isHttpClientCall(node: t.CallExpression, path: NodePath<t.CallExpression>): boolean {
+  const callee = node.callee;
+  if (
+    !t.isMemberExpression(callee) ||
+    !t.isMemberExpression(callee.object) ||
+    !t.isThisExpression(callee.object.object) ||
+    !t.isIdentifier(callee.object.property)
+  ) {
+    return false;
+  }
+  const classPath = path.findParent((p) => p.isClass());
+  return !!classPath && getHttpClientMembers(classPath.node as t.Class).includes(callee.object.property.name);
+}
+
+/**
+ * Extract Angular HttpClient call
+ */
+function extractHttpClientCall(
+  node: t.CallExpression,
+  parsedFile: ParsedFile,
+  path: NodePath<t.CallExpression>,
+  id: string
+): APICall | null {
+  const callee = node.callee as t.MemberExpression;
+  if (!t.isIdentifier(callee.property)) {
+    return null;
+  }
+
+  let method = callee.property.name.toUpperCase();
+  let urlIndex = 0;
+  // this.http.request('DELETE', url, options)
+  if (method === 'REQUEST') {
+    const methodArg = node.arguments[0];
+    if (!t.isStringLiteral(methodArg)) {
+      return null;
+    }
+    method = methodArg.value.toUpperCase();
+    urlIndex = 1;
+  }
+
+  const urlArg = node.arguments[urlIndex];
+  if (!HTTP_CLIENT_METHODS.includes(method) || !t.isExpression(urlArg)) {
+    return null;
+  }
+
+  // URLs are usually built from environment.apiUrl or a base URL field
+  const { url, urlPattern } = extractURL(path.get('arguments')[urlIndex], parsedFile);
+
+  // post(url, body, options) / get(url, options) / request(method, url, options)
+  const hasBody = urlIndex === 0 && ['POST', 'PUT', 'PATCH'].includes(method);
+  const bodyArg = hasBody ? node.arguments[urlIndex + 1] : undefined;
+  const options = node.arguments[urlIndex + (hasBody ? 2 : 1)];
+  const headers: Record<string, string> = {};
+  let body: any = t.isExpression(bodyArg) ? extractBody(bodyArg) : undefined;
+  let bodyNode: t.Node | undefined = bodyArg;
+
+  if (t.isObjectExpression(options)) {
+    for (const prop of options.properties) {
+      if (t.isObjectProperty(prop)) {
+        const key = t.isIdentifier(prop.key) ? prop.key.name : null;
+
+        if (key === 'headers' && t.isObjectExpression(prop.value)) {
+          extractHeaders(prop.value, headers);
+        } else if (key === 'body' && t.isExpression(prop.value)) {
+          body = extractBody(prop.value);
+          bodyNode = prop.value;
+        }
+      }
+    }
+  }
+
+  // Service calls are attributed to Class.method so injected services can be traced
+  const className = (path.findParent((p) => p.isClass())?.node as t.Class).id?.name || 'anonymous';
+  const memberPath = path.findParent((p) => p.isClassMethod() || p.isClassProperty());
+  const memberKey = (memberPath?.node as t.ClassMethod | t.ClassProperty | undefined)?.key;
+
+  return {
+    id,
+    file: parsedFile.path,
+    function: t.isIdentifier(memberKey) ? `${className}.${memberKey.name}` : className,
+    method: method as any,
+    url,
+    urlPattern,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    body,
+    bodyFields: extractBodyFields(bodyNode, path),
     line: node.loc?.start.line || 0,
     column: node.loc?.start.column || 0,
     confidence: url ? 0.9 : 0.5,
@@ -269,17 +431,16 @@ function extractGraphQLCall(
 }
 
 /**
- * Extract template string pattern
+ * Extract the URL of a call, following constants, imported config and
+ * environment variables; unresolved parts become ${...}
  */
-function extractTemplateString(node: t.TemplateLiteral): string {
-  const parts: string[] = [];
-  for (let i = 0; i < node.quasis.length; i++) {
-    parts.push(node.quasis[i].value.raw);
-    if (i < node.expressions.length) {
-      parts.push('${...}'); // Placeholder for expression
-    }
+function extractURL(urlPath: NodePath, parsedFile: ParsedFile): { url: string | null; urlPattern?: string } {
+  const resolved = resolveStringValue(urlPath, parsedFile);
+  if (resolved !== undefined) {
+    return isStaticString(resolved) ? { url: resolved } : { url: null, urlPattern: resolved };
   }
-  return parts.join('');
+  // Variable reference - dynamic URL
+  return { url: null, urlPattern: t.isExpression(urlPath.node) ? extractExpressionPattern(urlPath.node) : '[unknown]' };
 }
 
 /**
@@ -302,7 +463,8 @@ function extractExpressionPattern(node: t.Expression): string {
 function extractHeaders(node: t.ObjectExpression, headers: Record<string, string>): void {
   for (const prop of node.properties) {
     if (t.isObjectProperty(prop)) {
-      const key = t.isIdentifier(prop.key) ? prop.key.name : null;
+      // Header names are usually quoted ('Content-Type')
+      const key = t.isIdentifier(prop.key) ? prop.key.name : t.isStringLiteral(prop.key) ? prop.key.value : null;
       if (key && t.isStringLiteral(prop.value)) {
         headers[key] = prop.value.value;
       }
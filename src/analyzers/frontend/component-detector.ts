@@ -1,11 +1,17 @@
 /**
- * React/Vue component structure detection
+ * React, Vue, Svelte and Angular component structure detection
  */
 
 import traverse from '@babel/traverse';
 import * as t from '@babel/types';
 import { Component } from '../../types';
 import { ParsedFile } from '../../types';
+import { SingleFileComponent } from '../../types';
+import * as path from 'path';
+import { isAngularFile, detectAngularComponents } from './angular-detector';
+
+/** Vue reactivity helpers whose results are component state */
+const VUE_STATE_FUNCTIONS = ['ref', 'reactive', 'shallowRef', 'shallowReactive'];
 
 export interface ComponentInfo extends Component {
   hooks: string[];
@@ -24,6 +30,16 @@ export function detectReactComponents(parsedFile: ParsedFile): ComponentInfo[] {
     return components;
   }
 
+  // A .vue/.svelte file is exactly one component
+  if (parsedFile.sfc) {
+    return [analyzeSingleFileComponent(parsedFile, parsedFile.sfc)];
+  }
+
+  // Angular components are decorated classes, never functions returning JSX
+  if (isAngularFile(parsedFile)) {
+    return detectAngularComponents(parsedFile);
+  }
+
   const ast = parsedFile.ast as t.File;
 
   traverse(ast, {
@@ -99,6 +115,7 @@ function analyzeFunctionComponent(
     hooks,
     line: node.loc?.start.line || 0,
     column: node.loc?.start.column || 0,
+    endLine: node.loc?.end.line,
     children,
   };
 }
@@ -131,6 +148,7 @@ function analyzeVariableComponent(
     hooks,
     line: node.loc?.start.line || 0,
     column: node.loc?.start.column || 0,
+    endLine: node.loc?.end.line,
     children,
   };
 }
@@ -193,6 +211,7 @@ function analyzeClassComponent(
           hooks,
           line: node.loc?.start.line || 0,
           column: node.loc?.start.column || 0,
+          endLine: node.loc?.end.line,
           children,
         };
       }
@@ -208,6 +227,7 @@ function analyzeClassComponent(
     hooks,
     line: node.loc?.start.line || 0,
     column: node.loc?.start.column || 0,
+    endLine: node.loc?.end.line,
     children: [],
   };
 }
@@ -222,6 +242,7 @@ function hasJSXReturn(body: t.BlockStatement | t.Expression): boolean {
 
   let hasJSX = false;
   traverse(body, {
+    noScope: true,
     ReturnStatement(path) {
       if (t.isJSXElement(path.node.argument) || t.isJSXFragment(path.node.argument)) {
         hasJSX = true;
@@ -303,6 +324,7 @@ function extractHooksAndState(body: t.BlockStatement | t.Expression): {
   }
 
   traverse(body, {
+    noScope: true,
     CallExpression(path) {
       if (t.isIdentifier(path.node.callee)) {
         const hookName = path.node.callee.name;
@@ -346,6 +368,7 @@ function extractChildComponents(body: t.BlockStatement | t.Expression): string[]
   }
 
   traverse(body, {
+    noScope: true,
     JSXElement(path) {
       extractFromJSX(path.node, children);
     },
@@ -383,3 +406,169 @@ function extractFromJSX(node: t.JSXElement | t.JSXFragment | t.Expression, child
   }
 }
 
+/**
+ * Analyze a Vue or Svelte single-file component
+ */
+function analyzeSingleFileComponent(parsedFile: ParsedFile, sfc: SingleFileComponent): ComponentInfo {
+  const ast = parsedFile.ast as t.File;
+  let name = path
+    .basename(parsedFile.path)
+    .replace(/\.(vue|svelte)$/, '')
+    .replace(/(^|[-_.])(\w)/g, (_, __, c: string) => c.toUpperCase());
+  const props: string[] = [];
+  const state: string[] = [];
+  const hooks: string[] = [];
+
+  const readOptions = (options: t.ObjectExpression) => {
+    for (const property of options.properties) {
+      const key = t.isObjectProperty(property) || t.isObjectMethod(property) ? getPropertyName(property.key) : undefined;
+      if (key === 'name' && t.isObjectProperty(property) && t.isStringLiteral(property.value)) {
+        name = property.value.value;
+      } else if (key === 'props' && t.isObjectProperty(property)) {
+        props.push(...readPropNames(property.value));
+      } else if (key === 'data') {
+        // data() { return { ... } } / data: () => ({ ... })
+        const fn = t.isObjectMethod(property) ? property : t.isObjectProperty(property) ? property.value : undefined;
+        if (fn) {
+          t.traverseFast(fn, (node) => {
+            const returned = t.isReturnStatement(node) ? node.argument : t.isArrowFunctionExpression(node) ? node.body : null;
+            if (t.isObjectExpression(returned)) {
+              state.push(...readPropNames(returned));
+            }
+          });
+        }
+      }
+    }
+  };
+
+  traverse(ast, {
+    CallExpression(callPath) {
+      const callee = callPath.node.callee;
+      if (!t.isIdentifier(callee)) {
+        return;
+      }
+      const [arg] = callPath.node.arguments;
+
+      if (callee.name === 'defineProps') {
+        // defineProps(['a']) / defineProps({ a: String }) / defineProps<{ a: string }>()
+        const typeArgument = callPath.node.typeParameters?.params[0];
+        props.push(...(typeArgument ? readTypeMembers(ast, typeArgument) : readPropNames(arg)));
+      } else if (callee.name === '$props' && t.isVariableDeclarator(callPath.parent)) {
+        // Svelte 5: let { a, b } = $props()
+        props.push(...readPropNames(callPath.parent.id));
+      } else if ((callee.name === 'defineOptions' || callee.name === 'defineComponent') && t.isObjectExpression(arg)) {
+        readOptions(arg);
+      } else if (VUE_STATE_FUNCTIONS.includes(callee.name) || callee.name === '$state') {
+        const declarator = callPath.parent;
+        if (t.isVariableDeclarator(declarator) && t.isIdentifier(declarator.id)) {
+          state.push(declarator.id.name);
+        }
+      } else if (/^(use|on)[A-Z]/.test(callee.name) && !hooks.includes(callee.name)) {
+        // Composables and lifecycle hooks (onMounted, onMount, onDestroy)
+        hooks.push(callee.name);
+      }
+    },
+
+    ExportDefaultDeclaration(exportPath) {
+      // Options API: export default { props: [...] }
+      if (t.isObjectExpression(exportPath.node.declaration)) {
+        readOptions(exportPath.node.declaration);
+      }
+    },
+
+    VariableDeclaration(declarationPath) {
+      // Svelte: export let title; plain top-level lets are component state
+      if (sfc.framework !== 'svelte' || declarationPath.node.kind !== 'let') {
+        return;
+      }
+      const exported = t.isExportNamedDeclaration(declarationPath.parent);
+      if (!exported && !t.isProgram(declarationPath.parent)) {
+        return;
+      }
+      for (const declarator of declarationPath.node.declarations) {
+        const init = declarator.init;
+        const isRune = t.isCallExpression(init) && t.isIdentifier(init.callee) && init.callee.name.startsWith('$');
+        if (t.isIdentifier(declarator.id) && !isRune) {
+          (exported ? props : state).push(declarator.id.name);
+        }
+      }
+    },
+  });
+
+  return {
+    name,
+    file: parsedFile.path,
+    type: 'functional',
+    props: Array.from(new Set(props)),
+    state: Array.from(new Set(state)),
+    hooks,
+    line: 1,
+    column: 0,
+    endLine: ast.loc?.end.line,
+    children: extractTemplateComponents(sfc.template),
+  };
+}
+
+/**
+ * Read prop names from an array of strings, an object literal or a destructuring pattern
+ */
+function readPropNames(node: t.Node | null | undefined): string[] {
+  if (t.isArrayExpression(node)) {
+    return node.elements.filter((e): e is t.StringLiteral => t.isStringLiteral(e)).map((e) => e.value);
+  }
+  if (t.isObjectExpression(node) || t.isObjectPattern(node)) {
+    return node.properties
+      .map((p) => (t.isObjectProperty(p) || t.isObjectMethod(p) ? getPropertyName(p.key) : undefined))
+      .filter((name): name is string => !!name);
+  }
+  return [];
+}
+
+/**
+ * Read member names from a props type literal or a same-file interface/type alias
+ */
+function readTypeMembers(ast: t.File, node: t.Node): string[] {
+  let members: t.Node[] | undefined;
+  if (t.isTSTypeLiteral(node)) {
+    members = node.members;
+  } else if (t.isTSTypeReference(node) && t.isIdentifier(node.typeName)) {
+    const typeName = node.typeName.name;
+    for (const statement of ast.program.body) {
+      const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+      if (t.isTSInterfaceDeclaration(declaration) && declaration.id.name === typeName) {
+        members = declaration.body.body;
+      } else if (t.isTSTypeAliasDeclaration(declaration) && declaration.id.name === typeName) {
+        return readTypeMembers(ast, declaration.typeAnnotation);
+      }
+    }
+  }
+  return (members || [])
+    .map((member) => (t.isTSPropertySignature(member) ? getPropertyName(member.key) : undefined))
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * Get an identifier or string key name
+ */
+function getPropertyName(key: t.Node): string | undefined {
+  return t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : undefined;
+}
+
+/**
+ * Extract child components used in Vue/Svelte template markup
+ */
+function extractTemplateComponents(template: string): string[] {
+  const children: string[] = [];
+  // <UserCard>, <Icons.Check> or custom kebab-case tags (<user-card>, <router-link>)
+  const tagRegex = /<([A-Z][\w.]*|[a-z][a-z0-9]*(?:-[a-z0-9]+)+)(?=[\s/>])/g;
+  let match;
+
+  while ((match = tagRegex.exec(template)) !== null) {
+    const name = match[1].includes('-')
+      ? match[1].replace(/(^|-)([a-z0-9])/g, (_, __, c: string) => c.toUpperCase())
+      : match[1];
+    children.push(name);
+  }
+
+  return Array.from(new Set(children));
+}
@@ -0,0 +1,320 @@
+/**
+ * Data-fetching hook resolution
+ *
+ * React Query, SWR and RTK Query hooks request through a fetcher or an endpoint
+ * definition rather than at the call site. The request is resolved from there
+ * and attributed to the component calling the hook.
+ */
+
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { ParsedFile } from '../../types';
+import { ResolvedRequest, bindArguments, joinUrl, resolveFunctionRequest } from './http-clients';
+import { DYNAMIC_PART, ValueReference, followValue, resolveStringValue } from './value-resolver';
+
+export type DataHookLibrary = 'react-query' | 'swr' | 'rtk-query';
+
+export interface DataHookRequest extends ResolvedRequest {
+  hook: DataHookLibrary;
+}
+
+interface RtkApi {
+  baseUrl?: string;
+  endpoints: ValueReference[]; // endpoints: (builder) => ({ ... }) of the api and injected endpoints
+}
+
+/** Packages exporting React Query hooks */
+const REACT_QUERY_PACKAGES = [
+  '@tanstack/react-query',
+  '@tanstack/vue-query',
+  '@tanstack/svelte-query',
+  '@tanstack/solid-query',
+  'react-query',
+];
+
+/** React Query hooks and the option holding their fetcher */
+const REACT_QUERY_HOOKS: Record<string, string> = {
+  useQuery: 'queryFn',
+  useSuspenseQuery: 'queryFn',
+  useInfiniteQuery: 'queryFn',
+  useSuspenseInfiniteQuery: 'queryFn',
+  useMutation: 'mutationFn',
+};
+
+/** Helpers that only type their options: useQuery(queryOptions({ ... })) */
+const OPTION_HELPERS = ['queryOptions', 'infiniteQueryOptions', 'mutationOptions'];
+
+/** SWR entry points; useSWRMutation requests with the fetcher's method */
+const SWR_HOOKS: Record<string, string[]> = {
+  swr: ['default', 'useSWR'],
+  'swr/immutable': ['default'],
+  'swr/mutation': ['default'],
+};
+
+const RTK_QUERY_PACKAGES = ['@reduxjs/toolkit/query', '@reduxjs/toolkit/query/react'];
+
+/** Generated RTK Query hooks: useGetUsersQuery, useLazyGetUsersQuery, useAddUserMutation */
+const RTK_HOOK_PATTERN = /^use(?:Lazy)?([A-Z]\w*?)(?:Query|Mutation|QueryState|InfiniteQuery)$/;
+
+/**
+ * Resolve the request behind a React Query, SWR or RTK Query hook call.
+ * Returns null for a recognised hook whose request cannot be resolved.
+ */
+export function resolveDataHookCall(
+  callPath: NodePath<t.CallExpression>,
+  parsedFile: ParsedFile
+): DataHookRequest | null | undefined {
+  const callee = followValue(callPath.get('callee'), parsedFile);
+  const args = callPath.get('arguments');
+
+  // RTK Query hooks are read off the api: const { useGetUsersQuery } = usersApi
+  if (callee.path.isCallExpression() && callee.keys.length > 0) {
+    return resolveRtkQueryHook(callee, args[0], parsedFile);
+  }
+
+  const specifier = callee.path;
+  if (callee.keys.length > 0 || !(specifier.isImportSpecifier() || specifier.isImportDefaultSpecifier())) {
+    return undefined;
+  }
+  const source = (specifier.parent as t.ImportDeclaration).source.value;
+  const imported = specifier.isImportSpecifier() ? getImportedName(specifier.node) : 'default';
+
+  if (REACT_QUERY_PACKAGES.includes(source) && REACT_QUERY_HOOKS[imported]) {
+    return resolveReactQueryHook(imported, args, parsedFile);
+  }
+  if (SWR_HOOKS[source]?.includes(imported)) {
+    return resolveSwrHook(args, parsedFile, source === 'swr/mutation');
+  }
+  return undefined;
+}
+
+/**
+ * Resolve useQuery({ queryFn }) / useMutation({ mutationFn }) and the v3
+ * positional forms useQuery(key, queryFn) / useMutation(mutationFn)
+ */
+function resolveReactQueryHook(hook: string, args: NodePath[], parsedFile: ParsedFile): DataHookRequest | null {
+  if (args.length === 0) {
+    return null;
+  }
+
+  let options = followValue(args[0], parsedFile);
+  const helper = options.path.isCallExpression() ? options.path.node.callee : undefined;
+  if (options.path.isCallExpression() && t.isIdentifier(helper) && OPTION_HELPERS.includes(helper.name)) {
+    options = followValue(options.path.get('arguments')[0] as NodePath, options.parsedFile);
+  }
+
+  let fetcher = followValue(options.path, options.parsedFile, [REACT_QUERY_HOOKS[hook]]);
+  if (fetcher.keys.length > 0) {
+    const positional = hook === 'useMutation' ? args[0] : args[1];
+    fetcher = positional ? followValue(positional, parsedFile) : fetcher;
+  }
+
+  const request = resolveFunctionRequest(fetcher, [], new Map(), 0, true);
+  return request ? { ...request, hook: 'react-query' } : null;
+}
+
+/**
+ * Resolve useSWR(key, fetcher): the fetcher is called with the key, and without
+ * a fetcher the global one from SWRConfig requests the key
+ */
+function resolveSwrHook(args: NodePath[], parsedFile: ParsedFile, mutation: boolean): DataHookRequest | null {
+  const key = args[0] ? readSwrKey(followValue(args[0], parsedFile)) : undefined;
+  if (!key) {
+    return null;
+  }
+
+  const fetcher = args[1] ? followValue(args[1], parsedFile) : undefined;
+  if (fetcher?.path.isFunction()) {
+    // SWR 1 spreads array keys over the fetcher's parameters, SWR 2 passes the array
+    const spread = key.path.isArrayExpression() && fetcher.path.node.params.length > 1;
+    const keyArgs = spread
+      ? (key.path as NodePath<t.ArrayExpression>)
+          .get('elements')
+          .map((element) => ({ path: element as NodePath, parsedFile: key.parsedFile, keys: [] }))
+      : [key];
+    const request = resolveFunctionRequest(fetcher, keyArgs, new Map(), 0, true);
+    if (request) {
+      return { ...request, hook: 'swr' };
+    }
+  }
+
+  const urlKey = key.path.isArrayExpression() ? followValue(key.path, key.parsedFile, ['0']) : key;
+  const url = urlKey.keys.length === 0 ? resolveStringValue(urlKey.path, urlKey.parsedFile) : undefined;
+  return url !== undefined ? { library: 'fetch', method: mutation ? 'POST' : 'GET', url, hook: 'swr' } : null;
+}
+
+/**
+ * Read the request key of an SWR hook, skipping conditional fetching
+ * (user ? `/api/users/${user.id}` : null, () => '/api/user')
+ */
+function readSwrKey(key: ValueReference): ValueReference | undefined {
+  const value = key.path;
+  if (value.isNullLiteral()) {
+    return undefined;
+  }
+  if (value.isConditionalExpression()) {
+    const branch = value.get('consequent').isNullLiteral() ? value.get('alternate') : value.get('consequent');
+    return readSwrKey(followValue(branch, key.parsedFile));
+  }
+  if (value.isLogicalExpression({ operator: '&&' })) {
+    return readSwrKey(followValue(value.get('right'), key.parsedFile));
+  }
+  if (value.isFunction()) {
+    const returned = getReturnedValue(value);
+    return returned ? readSwrKey(followValue(returned, key.parsedFile)) : undefined;
+  }
+  return key;
+}
+
+/**
+ * Resolve a generated RTK Query hook to the query of its endpoint definition
+ */
+function resolveRtkQueryHook(
+  hookRef: ValueReference,
+  hookArg: NodePath | undefined,
+  parsedFile: ParsedFile
+): DataHookRequest | null | undefined {
+  // useGetUsersQuery() or api.endpoints.getUsers.useQuery()
+  const keys = hookRef.keys;
+  const generated = keys.length === 1 ? RTK_HOOK_PATTERN.exec(keys[0]) : null;
+  const endpointName = generated
+    ? generated[1].charAt(0).toLowerCase() + generated[1].slice(1)
+    : keys.length === 3 && keys[0] === 'endpoints' && keys[2].startsWith('use')
+      ? keys[1]
+      : undefined;
+  const api = endpointName ? describeRtkApi(hookRef.path as NodePath<t.CallExpression>, hookRef.parsedFile) : undefined;
+  if (!api || !endpointName) {
+    return undefined;
+  }
+
+  const definition = api.endpoints
+    .map((endpoints) => {
+      const returned = endpoints.path.isFunction() ? getReturnedValue(endpoints.path) : undefined;
+      return returned ? followValue(returned, endpoints.parsedFile, [endpointName]) : undefined;
+    })
+    .find((ref) => ref && ref.keys.length === 0 && ref.path.isCallExpression());
+  if (!definition) {
+    return null;
+  }
+
+  // builder.query({ query: (id) => `/users/${id}` }) / builder.mutation({ query: (body) => ({ url, method, body }) })
+  const options = (definition.path as NodePath<t.CallExpression>).get('arguments')[0];
+  const hookArgs = hookArg ? [{ path: hookArg, parsedFile, keys: [] }] : [];
+  if (!options) {
+    return null;
+  }
+  const queryFn = followValue(options, definition.parsedFile, ['queryFn']);
+  if (queryFn.keys.length === 0) {
+    const request = resolveFunctionRequest(queryFn, hookArgs, new Map(), 0, true);
+    return request ? { ...request, hook: 'rtk-query' } : null;
+  }
+
+  const query = followValue(options, definition.parsedFile, ['query']);
+  const returned = query.keys.length === 0 && query.path.isFunction() ? getReturnedValue(query.path) : undefined;
+  if (!returned || !query.path.isFunction()) {
+    return null;
+  }
+  const bound = bindArguments(query.path, hookArgs, query.parsedFile);
+  const result = followValue(returned, query.parsedFile, [], bound);
+  const readString = (key: string) => {
+    const option = followValue(result.path, result.parsedFile, [key], bound);
+    return option.keys.length === 0 ? resolveStringValue(option.path, option.parsedFile, bound) : undefined;
+  };
+
+  const isConfig = result.path.isObjectExpression();
+  const path = isConfig ? readString('url') : resolveStringValue(returned, query.parsedFile, bound);
+  const body = isConfig ? followValue(result.path, result.parsedFile, ['body'], bound) : undefined;
+  const base = api.baseUrl;
+  const url = path !== undefined ? joinUrl(base, path) : base !== undefined ? joinUrl(base, DYNAMIC_PART) : undefined;
+
+  return {
+    library: 'fetch',
+    hook: 'rtk-query',
+    method: (isConfig && readString('method')?.toUpperCase()) || 'GET',
+    url,
+    urlExpression: returned.node,
+    body: body && body.keys.length === 0 ? body.path.node : undefined,
+  };
+}
+
+/**
+ * Describe an api created with createApi() or extended with injectEndpoints()
+ */
+function describeRtkApi(callPath: NodePath<t.CallExpression>, parsedFile: ParsedFile): RtkApi | undefined {
+  const calleePath = callPath.get('callee');
+  const options = callPath.get('arguments')[0];
+  if (!options) {
+    return undefined;
+  }
+  const endpoints = followValue(options, parsedFile, ['endpoints']);
+  const ownEndpoints = endpoints.keys.length === 0 ? [endpoints] : [];
+
+  // usersApi = api.injectEndpoints({ endpoints })
+  if (calleePath.isMemberExpression() && t.isIdentifier(calleePath.node.property, { name: 'injectEndpoints' })) {
+    const parent = followValue(calleePath.get('object'), parsedFile);
+    const parentApi = parent.path.isCallExpression() ? describeRtkApi(parent.path, parent.parsedFile) : undefined;
+    return parentApi ? { baseUrl: parentApi.baseUrl, endpoints: [...ownEndpoints, ...parentApi.endpoints] } : undefined;
+  }
+
+  // createApi({ baseQuery: fetchBaseQuery({ baseUrl: '/api' }), endpoints })
+  if (!isRtkImport(followValue(calleePath, parsedFile), 'createApi')) {
+    return undefined;
+  }
+  const baseQuery = followValue(options, parsedFile, ['baseQuery']);
+  let baseUrl: string | undefined;
+  if (
+    baseQuery.keys.length === 0 &&
+    baseQuery.path.isCallExpression() &&
+    isRtkImport(followValue(baseQuery.path.get('callee'), baseQuery.parsedFile), 'fetchBaseQuery')
+  ) {
+    const baseQueryOptions = baseQuery.path.get('arguments')[0];
+    const option = baseQueryOptions ? followValue(baseQueryOptions, baseQuery.parsedFile, ['baseUrl']) : undefined;
+    baseUrl = option && option.keys.length === 0 ? resolveStringValue(option.path, option.parsedFile) : undefined;
+  }
+  return { baseUrl, endpoints: ownEndpoints };
+}
+
+/**
+ * Check whether a value is a named import from RTK Query
+ */
+function isRtkImport(ref: ValueReference, name: string): boolean {
+  const specifier = ref.path;
+  return (
+    ref.keys.length === 0 &&
+    specifier.isImportSpecifier() &&
+    getImportedName(specifier.node) === name &&
+    RTK_QUERY_PACKAGES.includes((specifier.parent as t.ImportDeclaration).source.value)
+  );
+}
+
+/**
+ * Get the value a function returns: an expression body or its first return statement
+ */
+function getReturnedValue(fn: NodePath<t.Function>): NodePath | undefined {
+  const body = fn.get('body');
+  if (!body.isBlockStatement()) {
+    return body as NodePath;
+  }
+
+  let returned: NodePath | undefined;
+  body.traverse({
+    Function(innerPath) {
+      innerPath.skip();
+    },
+    ReturnStatement(returnPath) {
+      const argument = returnPath.get('argument');
+      if (argument.node) {
+        returned = argument as NodePath;
+        returnPath.stop();
+      }
+    },
+  });
+  return returned;
+}
+
+/**
+ * Get the exported name of an import specifier
+ */
+function getImportedName(specifier: t.ImportSpecifier): string {
+  return t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+}
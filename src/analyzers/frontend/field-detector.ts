@@ -0,0 +1,339 @@
+/**
+ * Request and response field detection for API calls
+ *
+ * Finds the keys a call sends in its request body and the response fields the
+ * calling code reads (res.data.total, const { data } = useQuery(...); data.email),
+ * so fields can be traced through endpoints to database columns.
+ */
+
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { getKeyName, getPropertyName } from '../../utils/ast-utils';
+
+/** Response, promise and hook result properties that are not response fields */
+const RESPONSE_PROPERTIES = [
+  'status',
+  'statusText',
+  'ok',
+  'headers',
+  'config',
+  'request',
+  'catch',
+  'finally',
+  'text',
+  'blob',
+  'error',
+  'isLoading',
+  'isFetching',
+  'isError',
+  'isSuccess',
+  'isPending',
+  'isValidating',
+  'refetch',
+  'mutate',
+  'mutateAsync',
+  'reset',
+];
+
+/** Array methods whose callback receives response items */
+const ELEMENT_METHODS = ['map', 'forEach', 'filter', 'find', 'findLast', 'some', 'every', 'flatMap', 'reduce'];
+
+/** Array methods returning items of the same shape */
+const SAME_SHAPE_METHODS = ['filter', 'find', 'findLast', 'slice', 'sort', 'reverse', 'at'];
+
+/** Array properties that are not response fields */
+const ARRAY_PROPERTIES = ['length', 'includes', 'indexOf', 'join', 'concat', 'push', 'keys', 'values', 'entries'];
+
+/** Maximum number of variables and callbacks followed from a call */
+const MAX_DEPTH = 8;
+
+/**
+ * Get the keys of a request body: an object literal, JSON.stringify(object),
+ * a variable or useState value holding one, or a FormData built with append()
+ */
+export function extractBodyFields(body: t.Node | undefined, callPath: NodePath): string[] | undefined {
+  if (!body) {
+    return undefined;
+  }
+  // Bodies resolved through wrappers live in other functions; only follow variables in the call's scope
+  let bodyPath: NodePath | undefined;
+  if (body === callPath.node) {
+    bodyPath = callPath;
+  } else {
+    callPath.traverse({
+      enter(p) {
+        if (p.node === body) {
+          bodyPath = p;
+          p.stop();
+        }
+      },
+    });
+  }
+
+  const fields = new Set<string>();
+  collectBodyFields(body, bodyPath, fields, 0);
+  return fields.size > 0 ? [...fields] : undefined;
+}
+
+/**
+ * Get the response fields the code around an API call reads
+ */
+export function extractResponseFields(callPath: NodePath<t.CallExpression>): string[] | undefined {
+  const fields = new Set<string>();
+  collectResponseFields(callPath, false, fields, new Set(), 0);
+  return fields.size > 0 ? [...fields] : undefined;
+}
+
+/**
+ * Collect the keys of a request body value
+ */
+function collectBodyFields(node: t.Node, path: NodePath | undefined, fields: Set<string>, depth: number): void {
+  if (depth > MAX_DEPTH) {
+    return;
+  }
+  if (t.isTSAsExpression(node) || t.isTSNonNullExpression(node)) {
+    collectBodyFields(node.expression, path?.get('expression') as NodePath, fields, depth + 1);
+    return;
+  }
+  // JSON.stringify(form)
+  if (
+    t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    t.isIdentifier(node.callee.object, { name: 'JSON' }) &&
+    t.isIdentifier(node.callee.property, { name: 'stringify' }) &&
+    node.arguments[0]
+  ) {
+    const argument = path?.get('arguments') as NodePath[] | undefined;
+    collectBodyFields(node.arguments[0], argument?.[0], fields, depth + 1);
+    return;
+  }
+
+  if (t.isObjectExpression(node)) {
+    node.properties.forEach((property, i) => {
+      const propertyPath = path?.get(`properties.${i}`) as NodePath | undefined;
+      if (t.isSpreadElement(property)) {
+        collectBodyFields(property.argument, propertyPath?.get('argument') as NodePath, fields, depth + 1);
+      } else if (!property.computed && t.isIdentifier(property.key)) {
+        fields.add(property.key.name);
+      } else if (t.isStringLiteral(property.key)) {
+        fields.add(property.key.value);
+      }
+    });
+    return;
+  }
+
+  if (!t.isIdentifier(node) || !path) {
+    return;
+  }
+  const binding = path.scope.getBinding(node.name);
+  const declarator = binding?.path;
+  if (!declarator?.isVariableDeclarator()) {
+    return;
+  }
+  const init = declarator.get('init');
+
+  // const [form, setForm] = useState({ email: '', name: '' })
+  if (t.isArrayPattern(declarator.node.id) && init.isCallExpression() && isUseState(init.node)) {
+    const initial = init.get('arguments')[0];
+    if (initial && t.isIdentifier(declarator.node.id.elements[0], { name: node.name })) {
+      collectBodyFields(initial.node, initial, fields, depth + 1);
+    }
+    return;
+  }
+  if (!t.isIdentifier(declarator.node.id)) {
+    return;
+  }
+
+  // const data = new FormData(); data.append('email', email)
+  if (init.isNewExpression() && t.isIdentifier(init.node.callee, { name: 'FormData' })) {
+    for (const reference of binding!.referencePaths) {
+      const member = reference.parentPath;
+      const call = member?.parentPath;
+      if (
+        member?.isMemberExpression() &&
+        t.isIdentifier(member.node.property) &&
+        ['append', 'set'].includes(member.node.property.name) &&
+        call?.isCallExpression() &&
+        t.isStringLiteral(call.node.arguments[0])
+      ) {
+        fields.add(call.node.arguments[0].value);
+      }
+    }
+    return;
+  }
+  if (init.node) {
+    collectBodyFields(init.node, init as NodePath, fields, depth + 1);
+  }
+}
+
+/**
+ * Collect the fields read from a value holding a response. Before the body is
+ * unwrapped (axios res.data, fetch res.json(), a hook's data) response and hook
+ * properties such as status or isLoading are skipped.
+ */
+function collectResponseFields(
+  path: NodePath,
+  unwrapped: boolean,
+  fields: Set<string>,
+  visited: Set<t.Node>,
+  depth: number
+): void {
+  if (depth > MAX_DEPTH || visited.has(path.node)) {
+    return;
+  }
+  visited.add(path.node);
+  const next = (nextPath: NodePath, nextUnwrapped = unwrapped) =>
+    collectResponseFields(nextPath, nextUnwrapped, fields, visited, depth + 1);
+
+  const parent = path.parentPath;
+  if (!parent) {
+    return;
+  }
+
+  // await request, (request as User[]), request!
+  if (parent.isAwaitExpression() || parent.isTSAsExpression() || parent.isTSNonNullExpression()) {
+    next(parent);
+    return;
+  }
+
+  // Values returned from a .then() callback flow into the promise it returns
+  if (parent.isArrowFunctionExpression() || parent.isReturnStatement()) {
+    const fn = parent.isReturnStatement() ? parent.getFunctionParent() : parent;
+    const thenCall = fn?.parentPath;
+    const isCallback = thenCall?.isCallExpression() && thenCall.node.arguments[0] === fn!.node;
+    if (isCallback && getMethodName(thenCall.node as t.CallExpression) === 'then') {
+      next(thenCall!);
+    }
+    return;
+  }
+
+  if (parent.isMemberExpression() && parent.node.object === path.node) {
+    const name = getPropertyName(parent.node);
+    if (!name) {
+      return;
+    }
+    const call = parent.parentPath;
+    const isCall = call?.isCallExpression() && call.node.callee === parent.node;
+
+    if (name === 'then' && isCall) {
+      followCallback(call as NodePath<t.CallExpression>, 0, unwrapped, fields, next);
+    } else if (!unwrapped && (name === 'data' || (name === 'json' && isCall))) {
+      next(isCall ? call! : parent, true);
+    } else if (!unwrapped && RESPONSE_PROPERTIES.includes(name)) {
+      return;
+    } else if (isCall && ELEMENT_METHODS.includes(name)) {
+      // orders.map((order) => order.total) / orders.reduce((sum, order) => sum + order.total, 0)
+      followCallback(call as NodePath<t.CallExpression>, name === 'reduce' ? 1 : 0, unwrapped, fields, next);
+      if (SAME_SHAPE_METHODS.includes(name)) {
+        next(call!);
+      }
+    } else if (isCall && SAME_SHAPE_METHODS.includes(name)) {
+      next(call!);
+    } else if (!ARRAY_PROPERTIES.includes(name)) {
+      fields.add(name);
+    }
+    return;
+  }
+
+  // const res = await fetch(url) / const { data } = useQuery(...)
+  if (parent.isVariableDeclarator() && parent.node.init === path.node) {
+    followPattern(parent.get('id') as NodePath, unwrapped, fields, next);
+    return;
+  }
+
+  // setUsers(data) stores the response in useState
+  if (parent.isCallExpression() && parent.node.arguments[0] === path.node) {
+    const state = getStateForSetter(parent.get('callee') as NodePath);
+    if (state) {
+      followPattern(state, unwrapped, fields, next);
+    }
+  }
+}
+
+/**
+ * Follow a variable, destructuring pattern or parameter bound to a response
+ */
+function followPattern(
+  pattern: NodePath,
+  unwrapped: boolean,
+  fields: Set<string>,
+  next: (path: NodePath, unwrapped?: boolean) => void
+): void {
+  if (pattern.isAssignmentPattern()) {
+    followPattern(pattern.get('left'), unwrapped, fields, next);
+  } else if (pattern.isIdentifier()) {
+    const binding = pattern.scope.getBinding(pattern.node.name);
+    binding?.referencePaths.forEach((reference) => next(reference));
+  } else if (pattern.isObjectPattern()) {
+    for (const property of pattern.get('properties')) {
+      if (property.isRestElement()) {
+        followPattern(property.get('argument') as NodePath, unwrapped, fields, next);
+        continue;
+      }
+      const name = property.isObjectProperty() ? getKeyName(property.node.key) : undefined;
+      if (!name) {
+        continue;
+      }
+      if (!unwrapped && name === 'data') {
+        followPattern((property as NodePath<t.ObjectProperty>).get('value') as NodePath, true, fields, next);
+      } else if (unwrapped || !RESPONSE_PROPERTIES.includes(name)) {
+        fields.add(name);
+      }
+    }
+  }
+}
+
+/**
+ * Follow the parameter of a callback passed to a call: a function, or a useState setter
+ */
+function followCallback(
+  call: NodePath<t.CallExpression>,
+  index: number,
+  unwrapped: boolean,
+  fields: Set<string>,
+  next: (path: NodePath, unwrapped?: boolean) => void
+): void {
+  const callback = call.get('arguments')[0];
+  const param = callback?.isFunction() ? callback.get('params')[index] : undefined;
+  const state = callback && !callback.isFunction() && index === 0 ? getStateForSetter(callback) : undefined;
+  if (param || state) {
+    followPattern((param || state) as NodePath, unwrapped, fields, next);
+  }
+}
+
+/**
+ * Get the state variable a useState setter updates
+ */
+function getStateForSetter(callee: NodePath): NodePath | undefined {
+  if (!callee.isIdentifier()) {
+    return undefined;
+  }
+  const declarator = callee.scope.getBinding(callee.node.name)?.path;
+  if (!declarator?.isVariableDeclarator() || !t.isArrayPattern(declarator.node.id)) {
+    return undefined;
+  }
+  const init = declarator.node.init;
+  const setter = declarator.node.id.elements[1];
+  if (!t.isCallExpression(init) || !isUseState(init) || !t.isIdentifier(setter, { name: callee.node.name })) {
+    return undefined;
+  }
+  const state = (declarator.get('id') as NodePath<t.ArrayPattern>).get('elements')[0];
+  return state?.node ? (state as NodePath) : undefined;
+}
+
+/**
+ * Check whether a call is useState() or React.useState()
+ */
+function isUseState(node: t.CallExpression): boolean {
+  return (
+    t.isIdentifier(node.callee, { name: 'useState' }) ||
+    (t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property, { name: 'useState' }))
+  );
+}
+
+/**
+ * Get the method name of a call on a member expression
+ */
+function getMethodName(node: t.CallExpression): string | undefined {
+  return t.isMemberExpression(node.callee) ? getPropertyName(node.callee) : undefined;
+}
@@ -0,0 +1,422 @@
+/**
+ * HTTP client library and request wrapper resolution
+ *
+ * Resolves calls made through axios (including axios.create instances), ky,
+ * ofetch and superagent, and calls to functions in the repository that wrap one
+ * of those or fetch, to the method and URL that is finally requested.
+ */
+
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { ParsedFile } from '../../types';
+import { DYNAMIC_PART, ParameterValues, ValueReference, followValue, resolveStringValue } from './value-resolver';
+
+export type HttpLibrary = 'fetch' | 'axios' | 'ky' | 'ofetch' | 'superagent';
+
+export interface ResolvedRequest {
+  library: HttpLibrary;
+  method: string;
+  url?: string; // undefined when neither the URL nor a base URL is known
+  urlExpression?: t.Node; // URL argument, for describing unresolved URLs
+  headers?: t.ObjectExpression;
+  body?: t.Node;
+  node?: t.Node; // Call expression making the request
+}
+
+interface ClientInstance {
+  library: HttpLibrary;
+  baseURL?: string;
+}
+
+interface RequestParts {
+  method?: string;
+  url?: NodePath;
+  body?: NodePath;
+  options?: NodePath;
+}
+
+/** Client libraries by package name */
+const CLIENT_PACKAGES: Record<string, HttpLibrary> = {
+  axios: 'axios',
+  ky: 'ky',
+  'ky-universal': 'ky',
+  ofetch: 'ofetch',
+  superagent: 'superagent',
+};
+
+/** ofetch has no default export; these named exports are the client */
+const OFETCH_EXPORTS = ['ofetch', '$fetch'];
+
+/** Shorthand request methods (superagent spells DELETE as del) */
+const SHORTHAND_METHODS: Record<string, string> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  del: 'DELETE',
+};
+
+const REQUEST_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Options holding the base URL of an instance or a single request */
+const BASE_URL_OPTIONS = ['baseURL', 'prefixUrl'];
+
+/** Options holding the request body (axios data, ky json, fetch/ofetch body) */
+const BODY_OPTIONS = ['data', 'json', 'body'];
+
+/** Maximum number of nested wrapper functions followed */
+const MAX_WRAPPER_DEPTH = 3;
+
+/**
+ * Resolve a call to an HTTP client or a request wrapper function
+ */
+export function resolveRequest(
+  callPath: NodePath<t.CallExpression>,
+  parsedFile: ParsedFile,
+  params: ParameterValues = new Map(),
+  depth = 0
+): ResolvedRequest | undefined {
+  const callee = callPath.get('callee');
+  const args = callPath.get('arguments');
+
+  // fetch(url, { method }) is only resolved here inside wrappers
+  if (callee.isIdentifier({ name: 'fetch' }) && !callee.scope.hasBinding('fetch')) {
+    return args.length > 0
+      ? buildRequest({ library: 'fetch' }, { url: args[0], options: args[1] }, callPath, parsedFile, params, depth)
+      : undefined;
+  }
+
+  // api.get(url), ky.post(url, { json }), superagent.del(url), api.request(config)
+  if (callee.isMemberExpression() && !callee.node.computed && t.isIdentifier(callee.node.property)) {
+    const name = callee.node.property.name;
+    if (SHORTHAND_METHODS[name] || name === 'request') {
+      const client = resolveClientInstance(callee.get('object'), parsedFile, params, depth);
+      if (client) {
+        if (name === 'request') {
+          return client.library === 'axios'
+            ? buildRequest(client, { options: args[0] }, callPath, parsedFile, params, depth)
+            : undefined;
+        }
+        // axios puts the body before the config: post(url, data, config)
+        const method = SHORTHAND_METHODS[name];
+        const hasBody = client.library === 'axios' && ['POST', 'PUT', 'PATCH'].includes(method);
+        const parts = { method, url: args[0], body: hasBody ? args[1] : undefined, options: args[hasBody ? 2 : 1] };
+        return args.length > 0 ? buildRequest(client, parts, callPath, parsedFile, params, depth) : undefined;
+      }
+    }
+  }
+
+  // Only calls handing over a path, a method or a request config are followed further
+  if (!args.some((arg) => isRequestArgument(arg, parsedFile, params, depth))) {
+    return undefined;
+  }
+
+  // axios(config), axios(url, config), ky(url, options), ofetch(url, options), superagent('GET', url)
+  const client = resolveClientInstance(callee, parsedFile, params, depth);
+  if (client) {
+    if (client.library === 'superagent') {
+      const method = resolveStringValue(args[0], parsedFile, params, depth + 1)?.toUpperCase();
+      return args.length > 1
+        ? buildRequest(client, { method, url: args[1] }, callPath, parsedFile, params, depth)
+        : undefined;
+    }
+    const configFirst =
+      client.library === 'axios' && followValue(args[0], parsedFile, [], params, depth).path.isObjectExpression();
+    const parts = configFirst ? { options: args[0] } : { url: args[0], options: args[1] };
+    return buildRequest(client, parts, callPath, parsedFile, params, depth);
+  }
+
+  return resolveWrapperCall(callPath, parsedFile, params, depth);
+}
+
+/**
+ * Resolve a value to an HTTP client: a package import, a known global or an
+ * instance created with create()/extend(), with its base URL
+ */
+function resolveClientInstance(
+  valuePath: NodePath,
+  parsedFile: ParsedFile,
+  params: ParameterValues,
+  depth: number
+): ClientInstance | undefined {
+  const ref = followValue(valuePath, parsedFile, [], params, depth);
+  const target = ref.path;
+  if (ref.keys.length > 0) {
+    return undefined;
+  }
+
+  // import axios from 'axios' / import { ofetch } from 'ofetch'
+  if (target.isImportDefaultSpecifier() || target.isImportNamespaceSpecifier() || target.isImportSpecifier()) {
+    const library = CLIENT_PACKAGES[(target.parent as t.ImportDeclaration).source.value];
+    if (library === 'ofetch') {
+      const imported = target.isImportSpecifier() ? target.node.imported : undefined;
+      return t.isIdentifier(imported) && OFETCH_EXPORTS.includes(imported.name) ? { library } : undefined;
+    }
+    return library && !target.isImportSpecifier() ? { library } : undefined;
+  }
+
+  // Globals: axios from a script tag, Nuxt's auto-imported $fetch
+  if (target.isIdentifier() && !target.scope.hasBinding(target.node.name)) {
+    const name = target.node.name;
+    return name === 'axios' ? { library: 'axios' } : name === '$fetch' ? { library: 'ofetch' } : undefined;
+  }
+
+  // axios.create({ baseURL }), ky.create({ prefixUrl }) / ky.extend(...), ofetch.create({ baseURL })
+  if (target.isCallExpression()) {
+    const callee = target.get('callee');
+    const property = callee.isMemberExpression() ? callee.node.property : undefined;
+    if (callee.isMemberExpression() && t.isIdentifier(property) && ['create', 'extend'].includes(property.name)) {
+      const parent = resolveClientInstance(callee.get('object'), ref.parsedFile, params, depth + 1);
+      const config = target.get('arguments')[0];
+      const baseURL = config ? readOptionString(config, BASE_URL_OPTIONS, ref.parsedFile, params, depth) : undefined;
+      // Options are merged, so a new base URL replaces the parent's
+      return parent ? { library: parent.library, baseURL: baseURL ?? parent.baseURL } : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe a request from its method, URL, body and options arguments
+ */
+function buildRequest(
+  client: ClientInstance,
+  parts: RequestParts,
+  callPath: NodePath<t.CallExpression>,
+  parsedFile: ParsedFile,
+  params: ParameterValues,
+  depth: number
+): ResolvedRequest | undefined {
+  const option = (keys: string[]): ValueReference | undefined =>
+    parts.options ? readOption(parts.options, keys, parsedFile, params, depth) : undefined;
+
+  const optionString = (keys: string[]): string | undefined =>
+    parts.options ? readOptionString(parts.options, keys, parsedFile, params, depth) : undefined;
+
+  const methodOption = optionString(['method']);
+  const method = (parts.method || methodOption || 'GET').toUpperCase();
+  if (!REQUEST_METHODS.includes(method)) {
+    return undefined;
+  }
+
+  const urlRef = parts.url ? { path: parts.url, parsedFile, keys: [] } : option(['url']);
+  const requestUrl = urlRef ? resolveStringValue(urlRef.path, urlRef.parsedFile, params, depth + 1) : undefined;
+  const base = optionString(BASE_URL_OPTIONS) ?? client.baseURL;
+
+  let url: string | undefined;
+  if (requestUrl !== undefined) {
+    url = joinUrl(base, requestUrl);
+  } else if (base !== undefined) {
+    url = joinUrl(base, DYNAMIC_PART);
+  }
+
+  const headers = option(['headers']);
+  let body = parts.body?.node || option(BODY_OPTIONS)?.path.node;
+  // superagent chains the body: request.post(url).send(body)
+  if (client.library === 'superagent') {
+    let chain: NodePath = callPath;
+    while (chain.parentPath?.isMemberExpression() && chain.parentPath.parentPath?.isCallExpression()) {
+      const member = chain.parentPath.node;
+      if (t.isIdentifier(member.property, { name: 'send' })) {
+        body = chain.parentPath.parentPath.node.arguments[0];
+      }
+      chain = chain.parentPath.parentPath;
+    }
+  }
+
+  return {
+    library: client.library,
+    method,
+    url,
+    node: callPath.node,
+    urlExpression: urlRef?.path.node,
+    headers: headers?.path.isObjectExpression() ? headers.path.node : undefined,
+    body,
+  };
+}
+
+/**
+ * Follow a call into a function defined in the repository that makes the
+ * request, binding the call's arguments to the function's parameters
+ */
+function resolveWrapperCall(
+  callPath: NodePath<t.CallExpression>,
+  parsedFile: ParsedFile,
+  params: ParameterValues,
+  depth: number
+): ResolvedRequest | undefined {
+  const fnRef = followValue(callPath.get('callee'), parsedFile, [], params, depth);
+  // Skip recursive calls from inside the wrapper itself
+  if (callPath.findParent((p) => p.node === fnRef.path.node)) {
+    return undefined;
+  }
+  return resolveFunctionRequest(fnRef, getArguments(callPath, parsedFile), params, depth);
+}
+
+/**
+ * Find the first request a function makes when called with the given
+ * arguments. With followCalls, calls into other repository functions are
+ * followed even when they are not handed a path or method (queryFn: () => fetchUsers()).
+ */
+export function resolveFunctionRequest(
+  fnRef: ValueReference,
+  args: Array<ValueReference | undefined>,
+  params: ParameterValues = new Map(),
+  depth = 0,
+  followCalls = false
+): ResolvedRequest | undefined {
+  const fn = fnRef.path;
+  if (depth >= MAX_WRAPPER_DEPTH || fnRef.keys.length > 0 || !fn.isFunction()) {
+    return undefined;
+  }
+
+  const bound = bindArguments(fn, args, fnRef.parsedFile, params);
+  let request: ResolvedRequest | undefined;
+  fn.traverse({
+    CallExpression(innerPath) {
+      request = resolveRequest(innerPath, fnRef.parsedFile, bound, depth + 1);
+      if (!request && followCalls) {
+        const callee = followValue(innerPath.get('callee'), fnRef.parsedFile, [], bound, depth + 1);
+        if (callee.path.node !== fn.node) {
+          const innerArgs = getArguments(innerPath, fnRef.parsedFile);
+          request = resolveFunctionRequest(callee, innerArgs, bound, depth + 1, true);
+        }
+      }
+      if (request) {
+        innerPath.stop();
+      }
+    },
+  });
+  return request;
+}
+
+/**
+ * Bind call arguments (or parameter defaults) to a function's parameters
+ */
+export function bindArguments(
+  fn: NodePath<t.Function>,
+  args: Array<ValueReference | undefined>,
+  fnFile: ParsedFile,
+  params: ParameterValues = new Map()
+): ParameterValues {
+  const bound: ParameterValues = new Map(params);
+  fn.get('params').forEach((param, i) => bindParameter(param, args[i], fnFile, bound));
+  return bound;
+}
+
+/**
+ * Get the arguments of a call as value references; spread arguments are unknown
+ */
+function getArguments(callPath: NodePath<t.CallExpression>, parsedFile: ParsedFile): Array<ValueReference | undefined> {
+  return callPath
+    .get('arguments')
+    .map((arg) => (arg.isSpreadElement() ? undefined : { path: arg as NodePath, parsedFile, keys: [] }));
+}
+
+/**
+ * Bind a call argument (or the parameter default) to a parameter, including
+ * destructured ({ method, url }) and ([url, token]) parameters
+ */
+function bindParameter(
+  param: NodePath,
+  argument: ValueReference | undefined,
+  fnFile: ParsedFile,
+  bound: ParameterValues
+): void {
+  let target = param;
+  let value = argument;
+  if (param.isAssignmentPattern()) {
+    target = param.get('left');
+    value = value || { path: param.get('right'), parsedFile: fnFile, keys: [] };
+  }
+  if (!value) {
+    return;
+  }
+
+  if (target.isIdentifier()) {
+    bound.set(target.node, value);
+  } else if (target.isArrayPattern()) {
+    // ([url, token]) => ... receives an array key
+    target.node.elements.forEach((element, i) => {
+      if (t.isIdentifier(element)) {
+        bound.set(element, { ...value!, keys: [...value!.keys, String(i)] });
+      }
+    });
+  } else if (target.isObjectPattern()) {
+    for (const property of target.node.properties) {
+      if (!t.isObjectProperty(property) || !t.isIdentifier(property.key) || property.computed) {
+        continue;
+      }
+      // { url } / { method = 'GET' }
+      const local = t.isAssignmentPattern(property.value) ? property.value.left : property.value;
+      if (t.isIdentifier(local)) {
+        bound.set(local, { ...value, keys: [...value.keys, property.key.name] });
+      }
+    }
+  }
+}
+
+/**
+ * Check whether an argument looks like part of a request: a path or URL, an
+ * HTTP method, or a config object with a url or method
+ */
+function isRequestArgument(arg: NodePath, parsedFile: ParsedFile, params: ParameterValues, depth: number): boolean {
+  const value = resolveStringValue(arg, parsedFile, params, depth + 1);
+  if (value !== undefined) {
+    // '/users', 'https://api.example.com/users', '${API_URL}/users' or 'POST'
+    return (
+      value.startsWith('/') ||
+      /^(https?:\/\/|\$\{[A-Za-z_]\w*(:-[^}]*)?\}(\/|$))/i.test(value) ||
+      REQUEST_METHODS.includes(value.toUpperCase())
+    );
+  }
+  return ['url', 'method'].some((key) => {
+    const option = followValue(arg, parsedFile, [key], params, depth + 1);
+    return option.keys.length === 0 && isRequestArgument(option.path, option.parsedFile, params, depth + 1);
+  });
+}
+
+/**
+ * Read the first of several option keys present on an options object
+ */
+function readOption(
+  options: NodePath,
+  keys: string[],
+  parsedFile: ParsedFile,
+  params: ParameterValues,
+  depth: number
+): ValueReference | undefined {
+  for (const key of keys) {
+    const option = followValue(options, parsedFile, [key], params, depth + 1);
+    if (option.keys.length === 0) {
+      return option;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the first of several option keys as a string
+ */
+function readOptionString(
+  options: NodePath,
+  keys: string[],
+  parsedFile: ParsedFile,
+  params: ParameterValues,
+  depth: number
+): string | undefined {
+  const option = readOption(options, keys, parsedFile, params, depth);
+  return option ? resolveStringValue(option.path, option.parsedFile, params, depth + 1) : undefined;
+}
+
+/**
+ * Join a base URL and a request path; absolute request URLs win
+ */
+export function joinUrl(base: string | undefined, url: string): string {
+  if (base === undefined || /^[a-z][a-z0-9+.-]*:\/\//i.test(url) || url.startsWith('//')) {
+    return url;
+  }
+  return `${base.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+}
@@ -5,9 +5,14 @@
 export * from './parser';
 export * from './component-detector';
 export * from './api-detector';
+export * from './routing-detector';
+export * from './angular-detector';
 export { parseFrontendFile } from './parser';
+export { splitSingleFileComponent } from './sfc';
 export { detectReactComponents } from './component-detector';
 export { detectAPICalls } from './api-detector';
+export { detectFileSystemRoutes } from './routing-detector';
+export { detectAngularComponents, detectAngularServices } from './angular-detector';
 export { buildFrontendDependencyGraph, detectCircularDependencies as detectFrontendCircularDependencies } from './graph-builder';
 export type { FrontendGraphContext } from './graph-builder';
 
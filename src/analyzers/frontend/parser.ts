@@ -7,6 +7,7 @@ import traverse from '@babel/traverse';
 import * as t from '@babel/types';
 import * as fs from 'fs';
 import { ParsedFile, Import, Export, FunctionDefinition, ClassDefinition } from '../../types';
+import { splitSingleFileComponent, SplitSingleFileComponent } from './sfc';
 
 export interface ParseOptions {
   sourceType?: 'module' | 'script';
@@ -24,6 +25,8 @@ export function parseFrontendFile(
   try {
     const fileContent = content || fs.readFileSync(filePath, 'utf-8');
     const ext = filePath.split('.').pop()?.toLowerCase();
+    // Vue/Svelte: parse the script blocks in place
+    const sfc = ext === 'vue' || ext === 'svelte' ? splitSingleFileComponent(fileContent, ext) : undefined;
 
     // Configure parser based on file extension
     const parserOptions: ParserOptions = {
@@ -46,7 +49,7 @@ export function parseFrontendFile(
       ],
     };
 
-    const ast = parse(fileContent, parserOptions);
+    const ast = sfc ? parseSingleFileComponent(sfc, parserOptions) : parse(fileContent, parserOptions);
 
     // Extract information from AST
     const imports: Import[] = [];
@@ -191,7 +194,7 @@ export function parseFrontendFile(
 
     return {
       path: filePath,
-      language: ext === 'tsx' || ext === 'ts' ? 'typescript' : 'javascript',
+      language: sfc ? sfc.component.framework : ext === 'tsx' || ext === 'ts' ? 'typescript' : 'javascript',
       ast: ast as any, // Store full AST for further analysis
       imports,
       exports,
@@ -199,6 +202,7 @@ export function parseFrontendFile(
       classes,
       linesOfCode,
       complexity: calculateComplexity(ast),
+      ...(sfc ? { sfc: sfc.component } : {}),
     };
   } catch (error: any) {
     console.error(`Failed to parse ${filePath}:`, error.message);
@@ -206,22 +210,58 @@ export function parseFrontendFile(
   }
 }
 
+/**
+ * Parse the script blocks of a Vue/Svelte component as one program. A name declared in
+ * both <script> and <script setup> cannot share a scope, so the blocks are then parsed
+ * separately and the later ones scoped in a block, as Vue compiles <script setup> into
+ * setup(); imports, exports and types stay at the top level.
+ */
+function parseSingleFileComponent(sfc: SplitSingleFileComponent, options: ParserOptions): t.File {
+  try {
+    return parse(sfc.script, options);
+  } catch (error) {
+    if (sfc.blocks.length < 2) {
+      throw error;
+    }
+  }
+
+  const [ast, ...rest] = sfc.blocks.map((block) => parse(block, options));
+  const isTopLevel = (statement: t.Statement) =>
+    t.isImportDeclaration(statement) ||
+    t.isExportDeclaration(statement) ||
+    t.isTSInterfaceDeclaration(statement) ||
+    t.isTSTypeAliasDeclaration(statement);
+
+  for (const block of rest) {
+    ast.program.body.push(
+      ...block.program.body.filter(isTopLevel),
+      t.blockStatement(block.program.body.filter((statement) => !isTopLevel(statement)))
+    );
+    ast.comments?.push(...(block.comments || []));
+  }
+  return ast;
+}
+
 /**
  * Calculate cyclomatic complexity (simplified)
  */
 function calculateComplexity(ast: t.File): number {
   let complexity = 1; // Base complexity
+  // Visitors must not return a value, so increment in a block body
+  const increment = () => {
+    complexity++;
+  };
 
   traverse(ast, {
-    IfStatement: () => complexity++,
-    ForStatement: () => complexity++,
-    ForInStatement: () => complexity++,
-    ForOfStatement: () => complexity++,
-    WhileStatement: () => complexity++,
-    DoWhileStatement: () => complexity++,
-    SwitchCase: () => complexity++,
-    CatchClause: () => complexity++,
-    ConditionalExpression: () => complexity++,
+    IfStatement: increment,
+    ForStatement: increment,
+    ForInStatement: increment,
+    ForOfStatement: increment,
+    WhileStatement: increment,
+    DoWhileStatement: increment,
+    SwitchCase: increment,
+    CatchClause: increment,
+    ConditionalExpression: increment,
     LogicalExpression(path) {
       if (path.node.operator === '&&' || path.node.operator === '||') {
         complexity++;
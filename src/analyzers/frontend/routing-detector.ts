@@ -0,0 +1,278 @@
+/**
+ * File-system routing detection for Next.js (pages/ and app/) and Remix
+ */
+
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import { RoutingInfo } from '../../types';
+import { Route } from '../../types';
+import { RouteLink } from '../../types';
+import { ParsedFile } from '../../types';
+import { parseFrontendFile } from './parser';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Source files that can define a route */
+const ROUTE_FILE = /\.(?:jsx?|tsx?)$/;
+
+/** JSX elements and the attribute holding their navigation target */
+const LINK_ATTRIBUTES: Record<string, string[]> = {
+  Link: ['href', 'to'],
+  NavLink: ['to'],
+  a: ['href'],
+  Navigate: ['to'],
+  Form: ['action'],
+};
+
+/** Calls that navigate: router.push('/x'), navigate('/x'), redirect('/x') */
+const NAVIGATION_METHODS = ['push', 'replace'];
+const NAVIGATION_FUNCTIONS = ['navigate', 'redirect', 'permanentRedirect'];
+
+interface RoutingApp {
+  framework: 'nextjs' | 'remix';
+  root: string; // Directory of the app's package.json, relative to the repository
+}
+
+/**
+ * Detect Next.js and Remix apps in a repository and map their route files to routes
+ */
+export function detectFileSystemRoutes(rootPath: string, relativePaths: string[]): RoutingInfo | null {
+  const files = relativePaths.map((p) => p.replace(/\\/g, '/')).filter((p) => !p.includes('node_modules/'));
+  const apps = detectRoutingApps(rootPath, files);
+  if (apps.length === 0) {
+    return null;
+  }
+
+  const routes: Route[] = [];
+  for (const app of apps) {
+    const prefix = app.root ? `${app.root}/` : '';
+    for (const file of files) {
+      if (!file.startsWith(prefix) || !ROUTE_FILE.test(file) || /\.(?:d|test|spec)\.[jt]sx?$/.test(file)) {
+        continue;
+      }
+      const appFile = file.slice(prefix.length);
+      const route = app.framework === 'nextjs' ? mapNextRoute(appFile) : mapRemixRoute(appFile);
+      if (route) {
+        routes.push(createRoute(path.join(rootPath, file), route.path, route.type, app.framework));
+      }
+    }
+  }
+
+  return { framework: apps[0].framework, routes };
+}
+
+/**
+ * Find app roots whose package.json depends on Next.js or Remix
+ */
+function detectRoutingApps(rootPath: string, files: string[]): RoutingApp[] {
+  const apps: RoutingApp[] = [];
+  for (const file of files) {
+    if (path.basename(file) !== 'package.json') {
+      continue;
+    }
+    let dependencies: Record<string, string> = {};
+    try {
+      const pkg = JSON.parse(fs.readFileSync(path.join(rootPath, file), 'utf-8'));
+      dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+    } catch {
+      continue;
+    }
+    const root = path.dirname(file) === '.' ? '' : path.dirname(file);
+    if (dependencies.next) {
+      apps.push({ framework: 'nextjs', root });
+    } else if (Object.keys(dependencies).some((name) => name.startsWith('@remix-run/'))) {
+      apps.push({ framework: 'remix', root });
+    }
+  }
+  return apps;
+}
+
+/**
+ * Map a file in a Next.js app to its route (pages/users/[id].tsx, app/users/[id]/page.tsx)
+ */
+function mapNextRoute(file: string): Pick<Route, 'path' | 'type'> | null {
+  const pages = file.match(/^(?:src\/)?pages\/(.+)\.[jt]sx?$/);
+  if (pages) {
+    const segments = pages[1].split('/');
+    // _app, _document and _error wrap pages rather than being routes
+    if (segments[segments.length - 1].startsWith('_')) {
+      return null;
+    }
+    if (segments[segments.length - 1] === 'index') {
+      segments.pop();
+    }
+    return { path: toRoutePath(segments.map(convertNextSegment)), type: segments[0] === 'api' ? 'api' : 'page' };
+  }
+
+  const app = file.match(/^(?:src\/)?app\/(?:(.*)\/)?(page|route)\.[jt]sx?$/);
+  if (app) {
+    const segments = app[1] ? app[1].split('/') : [];
+    // Private folders (_components) and intercepted routes ((.)photo) are not addressable
+    if (segments.some((s) => s.startsWith('_') || /^\(\.+\)/.test(s))) {
+      return null;
+    }
+    const routeSegments = segments.filter((s) => !/^\(.+\)$/.test(s) && !s.startsWith('@')).map(convertNextSegment);
+    return { path: toRoutePath(routeSegments), type: app[2] === 'route' ? 'api' : 'page' };
+  }
+
+  return null;
+}
+
+/**
+ * Convert a Next.js dynamic segment ([id], [...slug], [[...slug]]) to route syntax
+ */
+function convertNextSegment(segment: string): string {
+  const catchAll = segment.match(/^\[\[?\.\.\.(\w+)\]?\]$/);
+  if (catchAll) {
+    return `*${catchAll[1]}`;
+  }
+  const dynamic = segment.match(/^\[(\w+)\]$/);
+  return dynamic ? `:${dynamic[1]}` : segment;
+}
+
+/**
+ * Map a file under app/routes to its Remix route, for both flat (users.$id.tsx)
+ * and nested folder (users/$id.tsx) conventions
+ */
+function mapRemixRoute(file: string): Pick<Route, 'path' | 'type'> | null {
+  const match = file.match(/^app\/routes\/(.+)\.[jt]sx?$/);
+  if (!match) {
+    return null;
+  }
+  const parts = match[1].split('/');
+  // Flat routes folder: users.$id/route.tsx; other files in the folder are colocated modules
+  if (parts.length === 2 && parts[0].includes('.') && parts[1] !== 'route') {
+    return null;
+  }
+  if (parts[parts.length - 1] === 'route') {
+    parts.pop();
+  }
+
+  const segments: string[] = [];
+  for (const part of parts) {
+    // Split on dots that are not escaped with [.]
+    for (const raw of part.split(/\.(?![^[]*\])/)) {
+      const segment = raw.replace(/\[([^\]]*)\]/g, '$1');
+      if (raw === 'index' || raw === '_index' || raw.startsWith('_') || /^\(.*\)$/.test(raw)) {
+        continue; // Index routes, pathless layouts and optional segments add no path
+      }
+      if (raw === '$') {
+        segments.push('*splat');
+      } else if (segment.startsWith('$')) {
+        segments.push(`:${segment.slice(1).replace(/_$/, '')}`);
+      } else {
+        segments.push(segment.replace(/_$/, ''));
+      }
+    }
+  }
+
+  return { path: toRoutePath(segments), type: 'page' };
+}
+
+/**
+ * Join route segments into an absolute path
+ */
+function toRoutePath(segments: string[]): string {
+  return `/${segments.filter((s) => s).join('/')}`;
+}
+
+/**
+ * Build a route from its module: component name, navigation links and (for Remix) resource routes
+ */
+function createRoute(file: string, routePath: string, type: Route['type'], framework: RoutingApp['framework']): Route {
+  const parsed = type === 'page' ? parseFrontendFile(file) : null;
+  const defaultExport = parsed?.exports.find((e) => e.type === 'default');
+
+  // Remix routes without a default component are resource routes serving loader/action responses
+  if (parsed && framework === 'remix' && !defaultExport) {
+    return { path: routePath, component: path.basename(file).replace(/\.[jt]sx?$/, ''), file, type: 'api' };
+  }
+
+  return {
+    path: routePath,
+    component:
+      defaultExport && defaultExport.name !== 'default'
+        ? defaultExport.name
+        : path.basename(file).replace(/\.[jt]sx?$/, ''),
+    file,
+    type,
+    ...(parsed ? { links: extractRouteLinks(parsed) } : {}),
+  };
+}
+
+/**
+ * Collect the internal paths a route component links or navigates to
+ */
+export function extractRouteLinks(parsedFile: ParsedFile): RouteLink[] {
+  const links: RouteLink[] = [];
+  if (!parsedFile.ast) {
+    return links;
+  }
+
+  const addLink = (node: t.Node | null | undefined, line: number) => {
+    const target = readLinkTarget(node);
+    if (target && !links.some((l) => l.path === target && l.line === line)) {
+      links.push({ path: target, line });
+    }
+  };
+
+  traverse(parsedFile.ast as t.File, {
+    JSXOpeningElement(elementPath) {
+      const name = elementPath.node.name;
+      const attributes = t.isJSXIdentifier(name) ? LINK_ATTRIBUTES[name.name] : undefined;
+      for (const attribute of elementPath.node.attributes) {
+        if (
+          attributes &&
+          t.isJSXAttribute(attribute) &&
+          t.isJSXIdentifier(attribute.name) &&
+          attributes.includes(attribute.name.name)
+        ) {
+          const value = t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value;
+          addLink(value, attribute.loc?.start.line || 0);
+        }
+      }
+    },
+
+    CallExpression(callPath) {
+      const callee = callPath.node.callee;
+      const isNavigation =
+        (t.isMemberExpression(callee) &&
+          t.isIdentifier(callee.property) &&
+          NAVIGATION_METHODS.includes(callee.property.name) &&
+          /router$/i.test(t.isIdentifier(callee.object) ? callee.object.name : '')) ||
+        (t.isIdentifier(callee) && NAVIGATION_FUNCTIONS.includes(callee.name));
+      if (isNavigation) {
+        addLink(callPath.node.arguments[0], callPath.node.loc?.start.line || 0);
+      }
+    },
+  });
+
+  return links;
+}
+
+/**
+ * Read an internal navigation target, rendering template expressions as :param segments
+ */
+function readLinkTarget(node: t.Node | null | undefined): string | undefined {
+  let target: string | undefined;
+  if (t.isStringLiteral(node)) {
+    target = node.value;
+  } else if (t.isTemplateLiteral(node)) {
+    target = node.quasis.map((q, i) => (q.value.cooked ?? q.value.raw) + (i < node.expressions.length ? ':param' : '')).join('');
+  } else if (t.isObjectExpression(node)) {
+    // <Link href={{ pathname: '/users/[id]', query: { id } }}>
+    const pathname = node.properties.find(
+      (p): p is t.ObjectProperty => t.isObjectProperty(p) && t.isIdentifier(p.key, { name: 'pathname' })
+    );
+    return pathname ? readLinkTarget(pathname.value) : undefined;
+  }
+
+  if (!target || !target.startsWith('/') || target.startsWith('//')) {
+    return undefined;
+  }
+  return target
+    .split(/[?#]/)[0]
+    .split('/')
+    .map((segment) => segment.replace(/^\[(?:\.\.\.)?(\w+)\]$/, ':$1'))
+    .join('/');
+}
@@ -0,0 +1,55 @@
+/**
+ * Vue and Svelte single-file component splitting
+ *
+ * Script blocks are kept at their original line and column so Babel locations
+ * map straight back to the .vue/.svelte file; everything else is blanked out.
+ */
+
+import { SingleFileComponent } from '../../types';
+
+export interface SplitSingleFileComponent {
+  script: string; // All script blocks
+  blocks: string[]; // Each script block on its own
+  component: SingleFileComponent;
+}
+
+const SCRIPT_BLOCK = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+const STYLE_BLOCK = /<style\b[^>]*>[\s\S]*?<\/style\s*>/gi;
+
+/**
+ * Split a single-file component into its script source and template markup
+ */
+export function splitSingleFileComponent(content: string, framework: 'vue' | 'svelte'): SplitSingleFileComponent {
+  let script = blank(content);
+  const blocks: string[] = [];
+  let template = content;
+  let scriptSetup = false;
+  let lang: string | undefined;
+
+  for (const match of content.matchAll(SCRIPT_BLOCK)) {
+    const attributes = match[1];
+    const bodyStart = (match.index || 0) + match[0].indexOf('>') + 1;
+    const body = match[2];
+
+    script = script.slice(0, bodyStart) + body + script.slice(bodyStart + body.length);
+    blocks.push(blank(content.slice(0, bodyStart)) + body + blank(content.slice(bodyStart + body.length)));
+    template = template.slice(0, match.index) + blank(match[0]) + template.slice((match.index || 0) + match[0].length);
+    scriptSetup = scriptSetup || /\bsetup\b/.test(attributes);
+    lang = lang || attributes.match(/\blang\s*=\s*["']?(\w+)/)?.[1];
+  }
+
+  template = template.replace(STYLE_BLOCK, (style) => blank(style));
+
+  return {
+    script,
+    blocks,
+    component: { framework, scriptSetup, ...(lang ? { lang } : {}), template },
+  };
+}
+
+/**
+ * Replace everything but line breaks with spaces
+ */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
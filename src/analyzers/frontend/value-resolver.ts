@@ -0,0 +1,396 @@
+/**
+ * Static value resolution for frontend code
+ *
+ * Follows const bindings, object properties, class fields and relative imports
+ * to the expression that defines a value, so request URLs and HTTP client
+ * instances can be resolved across files.
+ */
+
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ParsedFile } from '../../types';
+import { parseFrontendFile } from './parser';
+
+/** Placeholder for string parts that cannot be resolved statically */
+export const DYNAMIC_PART = '${...}';
+
+/** Dynamic parts and environment variable references (${API_URL}, ${API_URL:-/api}) */
+const PLACEHOLDER_PATTERN = /\$\{[^}]*\}/;
+
+/** Maximum number of bindings followed for one value */
+const MAX_DEPTH = 12;
+
+/** Extensions tried when resolving a relative import */
+const MODULE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+/**
+ * An expression, the file it lives in and the property keys still to be read
+ * from it (environment.apiUrl followed to the environment object leaves ['apiUrl'])
+ */
+export interface ValueReference {
+  path: NodePath;
+  parsedFile: ParsedFile;
+  keys: string[];
+}
+
+/** Values bound to function parameters while following a call into a wrapper */
+export type ParameterValues = Map<t.Node, ValueReference>;
+
+interface LoadedModule {
+  parsedFile: ParsedFile;
+  program: NodePath<t.Program>;
+}
+
+/** Imported modules by path, reparsed when the file changes */
+const moduleCache = new Map<string, { mtimeMs: number; module: LoadedModule | undefined }>();
+
+/**
+ * Follow a value to the expression defining it. Stops at anything that is not
+ * a const, import, parameter with a bound value, object property or class field,
+ * such as a call, a function or a package import specifier.
+ */
+export function followValue(
+  valuePath: NodePath,
+  parsedFile: ParsedFile,
+  keys: string[] = [],
+  params: ParameterValues = new Map(),
+  depth = 0
+): ValueReference {
+  const here: ValueReference = { path: valuePath, parsedFile, keys };
+  if (depth > MAX_DEPTH) {
+    return here;
+  }
+  const next = (nextPath: NodePath, nextKeys = keys, file = parsedFile) =>
+    followValue(nextPath, file, nextKeys, params, depth + 1);
+
+  // config as const / config! / (config)
+  if (
+    valuePath.isTSAsExpression() ||
+    valuePath.isTSSatisfiesExpression() ||
+    valuePath.isTSNonNullExpression() ||
+    valuePath.isParenthesizedExpression()
+  ) {
+    return next(valuePath.get('expression') as NodePath);
+  }
+
+  if (keys.length > 0 && valuePath.isObjectExpression()) {
+    // Later properties and spreads override earlier ones
+    const properties = valuePath.get('properties');
+    for (let i = properties.length - 1; i >= 0; i--) {
+      const property = properties[i];
+      if (property.isSpreadElement()) {
+        const spread = next(property.get('argument'));
+        if (spread.keys.length < keys.length) {
+          return spread;
+        }
+      } else if (property.isObjectProperty() && getKeyName(property.node.key, property.node.computed) === keys[0]) {
+        return next(property.get('value') as NodePath, keys.slice(1));
+      } else if (property.isObjectMethod() && getKeyName(property.node.key, property.node.computed) === keys[0]) {
+        return { path: property, parsedFile, keys: keys.slice(1) };
+      }
+    }
+    return here;
+  }
+
+  // const [url] = key / ['/api/users', id][0]
+  if (keys.length > 0 && valuePath.isArrayExpression() && /^\d+$/.test(keys[0])) {
+    const element = valuePath.get('elements')[Number(keys[0])];
+    return element && !element.isSpreadElement() ? next(element as NodePath, keys.slice(1)) : here;
+  }
+
+  // environment.apiUrl / config['baseUrl'] / this.baseUrl
+  if (valuePath.isMemberExpression() || valuePath.isOptionalMemberExpression()) {
+    const property = valuePath.node.property;
+    const key = t.isNumericLiteral(property) ? String(property.value) : getKeyName(property, valuePath.node.computed);
+    return key === undefined ? here : next(valuePath.get('object') as NodePath, [key, ...keys]);
+  }
+
+  if (valuePath.isThisExpression() && keys.length > 0) {
+    const classPath = valuePath.findParent((p) => p.isClass()) as NodePath<t.Class> | null;
+    return classPath ? followClassMember(classPath, parsedFile, keys, next) || here : here;
+  }
+
+  // export const api = new ApiClient(); api.request(...)
+  if (valuePath.isNewExpression() && keys.length > 0) {
+    const classRef = next(valuePath.get('callee'), []);
+    if (classRef.keys.length === 0 && classRef.path.isClass()) {
+      return followClassMember(classRef.path, classRef.parsedFile, keys, next) || here;
+    }
+    return here;
+  }
+
+  if (valuePath.isIdentifier()) {
+    const binding = valuePath.scope.getBinding(valuePath.node.name);
+    if (!binding) {
+      return here;
+    }
+
+    const argument = params.get(binding.identifier);
+    if (argument) {
+      return followValue(argument.path, argument.parsedFile, [...argument.keys, ...keys], params, depth + 1);
+    }
+
+    const declarator = binding.path;
+    if (binding.kind === 'const' && declarator.isVariableDeclarator() && declarator.node.init) {
+      const id = declarator.node.id;
+      if (t.isIdentifier(id)) {
+        return next(declarator.get('init') as NodePath);
+      }
+      // const { apiUrl } = environment
+      if (t.isObjectPattern(id)) {
+        const property = id.properties.find(
+          (p): p is t.ObjectProperty => t.isObjectProperty(p) && t.isIdentifier(p.value, { name: valuePath.node.name })
+        );
+        const key = property ? getKeyName(property.key, property.computed) : undefined;
+        return key === undefined ? here : next(declarator.get('init') as NodePath, [key, ...keys]);
+      }
+    }
+
+    if (binding.kind === 'module') {
+      const source = (declarator.parent as t.ImportDeclaration).source.value;
+      const file = resolveModulePath(parsedFile.path, source);
+      if (!file) {
+        // Package imports stop at the specifier so callers can check the package
+        return { path: declarator, parsedFile, keys };
+      }
+      let exportName: string | undefined;
+      let remainingKeys = keys;
+      if (declarator.isImportSpecifier()) {
+        exportName = getKeyName(declarator.node.imported, false);
+      } else if (declarator.isImportDefaultSpecifier()) {
+        exportName = 'default';
+      } else {
+        // import * as api from './api'; api.client
+        [exportName, ...remainingKeys] = keys;
+      }
+      const exported = exportName ? findExport(file, exportName, depth + 1) : undefined;
+      return exported ? next(exported.path, [...exported.keys, ...remainingKeys], exported.parsedFile) : here;
+    }
+
+    if (declarator.isFunctionDeclaration() || declarator.isClassDeclaration()) {
+      return { path: declarator, parsedFile, keys };
+    }
+  }
+
+  return here;
+}
+
+/**
+ * Resolve a value to a string. Template and concatenation parts that cannot be
+ * resolved become ${...}; returns undefined when nothing is static.
+ */
+export function resolveStringValue(
+  valuePath: NodePath,
+  parsedFile: ParsedFile,
+  params: ParameterValues = new Map(),
+  depth = 0
+): string | undefined {
+  const ref = followValue(valuePath, parsedFile, [], params, depth);
+  const envVar = getEnvVarName(ref);
+  if (envVar) {
+    return `\${${envVar}}`;
+  }
+  if (ref.keys.length > 0 || depth > MAX_DEPTH) {
+    return undefined;
+  }
+  const resolved = ref.path;
+  const resolvePart = (part: NodePath) => resolveStringValue(part, ref.parsedFile, params, depth + 1);
+
+  if (resolved.isStringLiteral()) {
+    return resolved.node.value;
+  }
+  if (resolved.isNumericLiteral()) {
+    return String(resolved.node.value);
+  }
+  if (resolved.isTemplateLiteral()) {
+    const expressions = resolved.get('expressions');
+    return resolved.node.quasis
+      .map((quasi, i) => {
+        const expression = i < expressions.length ? resolvePart(expressions[i]) ?? DYNAMIC_PART : '';
+        return (quasi.value.cooked ?? quasi.value.raw) + expression;
+      })
+      .join('');
+  }
+  if (resolved.isBinaryExpression({ operator: '+' })) {
+    const left = resolvePart(resolved.get('left'));
+    const right = resolvePart(resolved.get('right'));
+    return left === undefined && right === undefined ? undefined : (left ?? DYNAMIC_PART) + (right ?? DYNAMIC_PART);
+  }
+  // process.env.API_URL || 'http://localhost:3000' keeps the fallback for when the variable is not set
+  if (resolved.isLogicalExpression() && resolved.node.operator !== '&&') {
+    const left = resolvePart(resolved.get('left'));
+    const right = resolvePart(resolved.get('right'));
+    const envVar = left?.match(/^\$\{([A-Za-z_]\w*)\}$/);
+    if (envVar && right !== undefined && !right.includes('}')) {
+      return `\${${envVar[1]}:-${right}}`;
+    }
+    return left ?? right;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a resolved string has no dynamic parts or environment variable references
+ */
+export function isStaticString(value: string): boolean {
+  return !PLACEHOLDER_PATTERN.test(value);
+}
+
+/**
+ * Get the variable name of process.env.API_URL / import.meta.env.VITE_API_URL,
+ * including through const { API_URL } = process.env
+ */
+function getEnvVarName(ref: ValueReference): string | undefined {
+  const [env, name, ...rest] = ref.keys;
+  if (env !== 'env' || !name || rest.length > 0) {
+    return undefined;
+  }
+  const source = ref.path;
+  const isProcess = source.isIdentifier({ name: 'process' }) && !source.scope.hasBinding('process');
+  const isImportMeta =
+    source.isMetaProperty() && source.node.meta.name === 'import' && source.node.property.name === 'meta';
+  return isProcess || isImportMeta ? name : undefined;
+}
+
+/**
+ * Follow a class field or method by name
+ */
+function followClassMember(
+  classPath: NodePath<t.Class>,
+  parsedFile: ParsedFile,
+  keys: string[],
+  next: (nextPath: NodePath, nextKeys: string[]) => ValueReference
+): ValueReference | undefined {
+  const member = classPath
+    .get('body')
+    .get('body')
+    .find((m) => {
+      const node = m.node as t.ClassProperty | t.ClassMethod;
+      const isMember = m.isClassProperty() || (m.isClassMethod() && m.node.kind !== 'constructor');
+      return isMember && getKeyName(node.key, !!node.computed) === keys[0];
+    });
+  if (member?.isClassProperty()) {
+    return member.node.value ? next(member.get('value') as NodePath, keys.slice(1)) : undefined;
+  }
+  return member ? { path: member, parsedFile, keys: keys.slice(1) } : undefined;
+}
+
+/**
+ * Find the value a module exports under a name, following re-exports
+ */
+function findExport(file: string, name: string, depth: number): ValueReference | undefined {
+  const loaded = depth <= MAX_DEPTH ? loadModule(file) : undefined;
+  if (!loaded) {
+    return undefined;
+  }
+  const { parsedFile, program } = loaded;
+  const reExport = (source: string, exportName: string) => {
+    const target = resolveModulePath(file, source);
+    return target ? findExport(target, exportName, depth + 1) : undefined;
+  };
+
+  for (const statement of program.get('body')) {
+    if (name === 'default' && statement.isExportDefaultDeclaration()) {
+      return { path: statement.get('declaration'), parsedFile, keys: [] };
+    }
+
+    if (statement.isExportNamedDeclaration()) {
+      const declaration = statement.get('declaration');
+      if (declaration.isVariableDeclaration()) {
+        for (const declarator of declaration.get('declarations')) {
+          const id = declarator.node.id;
+          if (!declarator.node.init) {
+            continue;
+          }
+          if (t.isIdentifier(id, { name })) {
+            return { path: declarator.get('init') as NodePath, parsedFile, keys: [] };
+          }
+          // export const { useGetUsersQuery } = usersApi
+          const property = t.isObjectPattern(id)
+            ? id.properties.find(
+                (p): p is t.ObjectProperty => t.isObjectProperty(p) && t.isIdentifier(p.value, { name })
+              )
+            : undefined;
+          const key = property ? getKeyName(property.key, property.computed) : undefined;
+          if (key !== undefined) {
+            return { path: declarator.get('init') as NodePath, parsedFile, keys: [key] };
+          }
+        }
+      } else if (declaration.isFunctionDeclaration() || declaration.isClassDeclaration()) {
+        if (declaration.node.id?.name === name) {
+          return { path: declaration, parsedFile, keys: [] };
+        }
+      }
+
+      for (const specifier of statement.get('specifiers')) {
+        if (specifier.isExportSpecifier() && getKeyName(specifier.node.exported, false) === name) {
+          // export { api as default } / export { api } from './client'
+          return statement.node.source
+            ? reExport(statement.node.source.value, specifier.node.local.name)
+            : { path: specifier.get('local'), parsedFile, keys: [] };
+        }
+      }
+    }
+
+    if (statement.isExportAllDeclaration() && name !== 'default') {
+      const found = reExport(statement.node.source.value, name);
+      if (found) {
+        return found;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve a relative import to a file on disk
+ */
+function resolveModulePath(fromFile: string, source: string): string | undefined {
+  if (!source.startsWith('.')) {
+    return undefined;
+  }
+  const base = path.resolve(path.dirname(fromFile), source);
+  return MODULE_EXTENSIONS.map((ext) => base + ext).find(
+    (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+  );
+}
+
+/**
+ * Parse an imported module, reusing the previous parse while the file is unchanged
+ */
+function loadModule(file: string): LoadedModule | undefined {
+  const mtimeMs = fs.statSync(file).mtimeMs;
+  const cached = moduleCache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.module;
+  }
+
+  const parsedFile = parseFrontendFile(file);
+  let program: NodePath<t.Program> | undefined;
+  if (parsedFile?.ast) {
+    traverse(parsedFile.ast as t.File, {
+      Program(programPath) {
+        program = programPath;
+        programPath.stop();
+      },
+    });
+  }
+
+  const module = parsedFile && program ? { parsedFile, program } : undefined;
+  moduleCache.set(file, { mtimeMs, module });
+  return module;
+}
+
+/**
+ * Get a static property key name
+ */
+function getKeyName(key: t.Node, computed: boolean): string | undefined {
+  if (t.isIdentifier(key) && !computed) {
+    return key.name;
+  }
+  return t.isStringLiteral(key) ? key.value : undefined;
+}
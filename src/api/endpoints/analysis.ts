@@ -3,11 +3,9 @@
  */
 
 import { Request, Response } from 'express';
-import { GitHubService } from '../../github/service';
-import { TechStackDetector } from '../../detection';
-import { runAssessment } from '../../assessment/engine';
-import { buildLineageGraph } from '../../lineage/graph-builder';
-import { saveAnalysisResult } from '../../services/persistence';
+import { runPipeline } from '../../services/pipeline';
+import { resolveRequestedSource } from '../../github/source';
+import { loadConfig } from '../../config';
 import { logger } from '../../utils/logger';
 import { formatError } from '../../utils/errors';
 
@@ -28,71 +26,30 @@ export async function analyzeRepositoryEndpoint(
       return;
     }
 
-    logger.info('Starting repository analysis', { repository });
+    // Directories and archives on the server are only analyzed when explicitly allowed
+    const sourceType = resolveRequestedSource(repository, options.source, loadConfig().server.allowLocalSources);
 
-    // Clone and analyze
-    const githubService = new GitHubService();
-    const analysis = await githubService.cloneAndAnalyzeRepository(repository);
+    logger.info('Starting repository analysis', { repository, sourceType });
 
-    // Detect tech stack
-    const detector = new TechStackDetector();
-    const techStack = detector.detectTechStack({
-      fileTree: analysis.fileTree,
-      configFiles: analysis.configFiles,
-      entryPoints: analysis.entryPoints,
-    });
-
-    // Run assessment
-    const assessmentContext = {
-      repoPath: analysis.localPath,
-      fileTree: analysis.fileTree,
-      parsedFiles: [],
-      dependencyGraph: undefined,
-      lineageGraph: undefined,
-    };
-
-    const assessment = await runAssessment(assessmentContext, {
+    // Clone, parse, build the lineage graph and assess, then save to the database if enabled
+    const result = await runPipeline(repository, {
+      sourceType,
+      lineage: options.buildLineage !== false,
       useExternalScanners: options.includeSecurity !== false,
+      persist: true,
     });
-
-    // Build lineage graph (if requested)
-    let lineageGraph;
-    if (options.buildLineage !== false) {
-      const graphContext = {
-        components: [],
-        apiCalls: [],
-        endpoints: [],
-        queries: [],
-        tables: [],
-      };
-      lineageGraph = buildLineageGraph(graphContext);
+    const { techStack, assessment, lineageGraph } = result;
+    const analysisId = result.analysisId;
+    if (analysisId) {
+      logger.info('Analysis result saved to database', { analysisId, repository });
     }
 
     const durationMs = Date.now() - startTime;
 
-    // Save to database
-    let analysisId: number | null = null;
-    try {
-      analysisId = await saveAnalysisResult({
-        repository,
-        repositoryUrl: `https://github.com/${repository}`,
-        techStack,
-        assessmentResult: assessment,
-        lineageGraph,
-      });
-      logger.info('Analysis result saved to database', { analysisId, repository });
-    } catch (dbError: any) {
-      logger.warn('Failed to save analysis to database', {
-        error: dbError.message,
-        repository,
-      });
-      // Continue without database save
-    }
-
     res.json({
       success: true,
       id: analysisId?.toString(),
-      repository,
+      repository: result.repository,
       techStack,
       assessment,
       lineage: lineageGraph
@@ -101,6 +58,8 @@ export async function analyzeRepositoryEndpoint(
             edges: lineageGraph.edges.length,
           }
         : undefined,
+      stages: result.stages,
+      errors: result.errors.length > 0 ? result.errors.map(({ stage, message }) => ({ stage, message })) : undefined,
       duration: durationMs,
     });
   } catch (error: any) {
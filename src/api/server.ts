@@ -7,15 +7,16 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { GitHubService } from '../github/service';
-import { TechStackDetector } from '../detection';
 import { parseChangeRequest } from '../impact/change-parser';
 import { exportToJSON, exportToGraphML, exportToCytoscape } from '../visualization';
 import { loadConfig } from '../config';
 import { logger } from '../utils/logger';
-import { formatError } from '../utils/errors';
+import { formatError, NotFoundError } from '../utils/errors';
 import { initializeDatabase, testConnection, runMigrations } from '../database';
-import { saveAnalysisResult, saveAnalysisError } from '../services/persistence';
+import { saveAnalysisError, loadAnalysisResult } from '../services/persistence';
+import { runPipeline } from '../services/pipeline';
+import { runImpactAnalysis, createDiffChangeRequest } from '../services/impact';
+import { createRepositorySource, resolveRequestedSource } from '../github/source';
 
 export interface ServerOptions {
   port?: number;
@@ -111,77 +112,45 @@ export function createServer(options: ServerOptions = {}): Express {
   // Analyze repository endpoint
   app.post('/api/analyze', async (req, res) => {
     try {
-      const { repo, token } = req.body;
+      const { repo, token, source } = req.body;
 
       if (!repo) {
-        return res.status(400).json({ error: 'Repository URL or owner/repo required' });
+        return res.status(400).json({ error: 'Repository URL, owner/repo or archive URL required' });
       }
 
-      const githubService = new GitHubService(token || options.githubToken);
-      const [owner, repoName] = parseRepo(repo);
+      const sourceType = resolveRequestedSource(repo, source, config.server.allowLocalSources);
 
-      // Clone and analyze repository
-      const analysis = await githubService.cloneAndAnalyzeRepository(`${owner}/${repoName}`);
-      const detector = new TechStackDetector();
-      const techStack = detector.detectTechStack({
-        fileTree: analysis.fileTree,
-        configFiles: analysis.configFiles,
-        entryPoints: analysis.entryPoints,
+      // Clone, parse, build the lineage graph and assess, then save to the database if enabled
+      const analysis = await runPipeline(repo, {
+        token: token || options.githubToken,
+        sourceType,
+        persist: true,
       });
 
-      // Run assessment
-      const { runAssessment } = await import('../assessment/engine');
-      const assessmentContext = {
-        repoPath: analysis.localPath,
-        fileTree: analysis.fileTree,
-        parsedFiles: [],
-        dependencyGraph: undefined,
-        lineageGraph: undefined,
-      };
-      const assessment = await runAssessment(assessmentContext);
-
-      // Build lineage graph
-      const { buildLineageGraph } = await import('../lineage/graph-builder');
-      const graphContext = {
-        components: [],
-        apiCalls: [],
-        endpoints: [],
-        queries: [],
-        tables: [],
-      };
-      const graph = buildLineageGraph(graphContext);
-
       const result = {
         success: true,
-        repository: `${owner}/${repoName}`,
-        techStack: techStack,
-        assessment: assessment,
+        repository: analysis.repository,
+        techStack: analysis.techStack,
+        assessment: analysis.assessment,
         lineage: {
-          nodes: graph.nodes.length,
-          edges: graph.edges.length,
+          nodes: analysis.lineageGraph?.nodes.length || 0,
+          edges: analysis.lineageGraph?.edges.length || 0,
         },
+        stages: analysis.stages,
       };
 
-      // Save to database if enabled
-      await saveAnalysisResult({
-        repository: `${owner}/${repoName}`,
-        repositoryUrl: `https://github.com/${owner}/${repoName}`,
-        techStack,
-        assessmentResult: assessment,
-        lineageGraph: graph,
-      });
-
       res.json(result);
     } catch (error: any) {
       logger.error('Analysis failed', { error: error.message, stack: error.stack });
       
       // Save error to database
       if (req.body.repo) {
-        await saveAnalysisError(
-          req.body.repo,
-          error.message,
-          `https://github.com/${req.body.repo}`
-        );
+        try {
+          const source = createRepositorySource(req.body.repo, { type: req.body.source });
+          await saveAnalysisError(source.id, error.message, source.url);
+        } catch {
+          // Unrecognized locations have nothing to record against
+        }
       }
       
       const formattedError = formatError(error);
@@ -195,31 +164,59 @@ export function createServer(options: ServerOptions = {}): Express {
   // Impact analysis endpoint
   app.post('/api/impact', async (req, res) => {
     try {
-      const { repository, changeRequest } = req.body;
+      const { analysisId, repository, source, changeRequest, diff, baseRef, headRef, token } = req.body;
 
-      if (!repository || !changeRequest) {
-        return res.status(400).json({ error: 'Repository and changeRequest required' });
+      if ((analysisId === undefined && !repository) || (!changeRequest && !diff && !baseRef)) {
+        return res.status(400).json({
+          error: 'analysisId or repository, and changeRequest, diff or baseRef required',
+        });
       }
 
-      const parsedChange = parseChangeRequest(changeRequest.description || changeRequest);
-      const { analyzeChangeImpact } = await import('../impact/analyzer');
-      
-      // Would need lineage graph here - simplified for now
-      const impactContext = {
-        changeRequest: parsedChange,
-        lineageGraph: { nodes: [], edges: [], layers: { frontend: [], backend: [], database: [] }, metadata: {} as any },
-        endpoints: [],
-        queries: [],
-        components: [],
-      };
+      const id = analysisId !== undefined ? Number(analysisId) : undefined;
+      if (id !== undefined && (!Number.isInteger(id) || id <= 0)) {
+        return res.status(400).json({ error: 'analysisId must be a positive integer' });
+      }
 
-      const impact = analyzeChangeImpact(impactContext);
+      const githubToken = token || options.githubToken;
+      const sourceType = repository ? resolveRequestedSource(repository, source, config.server.allowLocalSources) : undefined;
+      let repoId: string | undefined = repository;
+
+      // Diff mode: derive the change request from the actual code change
+      let parsedChange;
+      if (changeRequest) {
+        parsedChange = parseChangeRequest(changeRequest);
+      } else {
+        if (!repoId) {
+          const stored = await loadAnalysisResult({ analysisId: id });
+          if (!stored) {
+            throw new NotFoundError(`Analysis ${analysisId} not found`, { analysisId });
+          }
+          repoId = stored.repository_url || stored.repository;
+        }
+        parsedChange = await createDiffChangeRequest(
+          repoId,
+          { diff, baseRef, headRef },
+          githubToken,
+          sourceType
+        );
+      }
+
+      const result = await runImpactAnalysis({
+        analysisId: id,
+        repository: repoId,
+        sourceType,
+        changeRequest: parsedChange,
+        token: githubToken,
+      });
 
       res.json({
         success: true,
-        repository,
+        analysisId: result.analysisId,
+        impactId: result.impactId,
+        repository: result.repository,
+        source: result.source,
         changeRequest: parsedChange,
-        impact,
+        impact: result.impact,
       });
     } catch (error: any) {
       logger.error('Impact analysis failed', { error: error.message, stack: error.stack });
@@ -346,21 +343,3 @@ export function startServer(options: ServerOptions = {}): void {
     logger.info(`Code Assessment API server running on ${host}:${port}`);
   });
 }
-
-/**
- * Parse repository string
- */
-function parseRepo(repo: string): [string, string] {
-  // Handle both formats: "owner/repo" or "https://github.com/owner/repo"
-  const githubMatch = repo.match(/github\.com[/:]([^/]+)\/([^/]+)/);
-  if (githubMatch) {
-    return [githubMatch[1], githubMatch[2].replace(/\.git$/, '')];
-  }
-
-  const parts = repo.split('/');
-  if (parts.length !== 2) {
-    throw new Error('Invalid repository format. Use "owner/repo" or full GitHub URL');
-  }
-
-  return [parts[0], parts[1].replace(/\.git$/, '')];
-}
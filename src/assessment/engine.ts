@@ -7,6 +7,7 @@ import { SecurityAssessment } from '../types';
 import { QualityAssessment } from '../types';
 import { ArchitectureAssessment } from '../types';
 import { FileTree, DependencyGraph, LineageGraph } from '../types';
+import { Middleware } from '../types';
 import { ParsedFile } from '../types';
 import { runSecurityScan } from './security/scanner';
 import { runQualityChecks } from './quality/linter';
@@ -19,6 +20,7 @@ export interface AssessmentContext {
   parsedFiles: ParsedFile[];
   dependencyGraph?: DependencyGraph;
   lineageGraph?: LineageGraph;
+  middleware?: Middleware[];
 }
 
 /**
@@ -26,13 +28,20 @@ export interface AssessmentContext {
  */
 export async function runAssessment(
   context: AssessmentContext,
-  options?: { useExternalScanners?: boolean }
+  options?: { useExternalScanners?: boolean; scanGitHistory?: boolean }
 ): Promise<AssessmentResult> {
   // Run security scan
   const security = await runSecurityScan(
     context.repoPath,
     context.fileTree,
-    { useExternalScanners: options?.useExternalScanners }
+    {
+      useExternalScanners: options?.useExternalScanners,
+      scanGitHistory: options?.scanGitHistory,
+      parsedFiles: context.parsedFiles,
+      dependencyGraph: context.dependencyGraph,
+      lineageGraph: context.lineageGraph,
+      middleware: context.middleware,
+    }
   );
 
   // Run quality checks
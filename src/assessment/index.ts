@@ -3,11 +3,22 @@
  */
 
 export * from './security/scanner';
+export * from './security/dependency-audit';
+export * from './security/lockfiles';
+export * from './security/taint';
+export * from './security/auth-coverage';
+export * from './security/secrets';
 export * from './quality/linter';
+export * from './quality/clones';
 export * from './architecture/patterns';
 export * from './engine';
 export { runSecurityScan } from './security/scanner';
+export { auditDependencies, importAdvisories } from './security/dependency-audit';
+export { analyzeTaintFlows } from './security/taint';
+export { auditAuthCoverage } from './security/auth-coverage';
+export { scanForSecrets } from './security/secrets';
 export { runQualityChecks } from './quality/linter';
+export { detectClones } from './quality/clones';
 export { detectArchitecturePatterns } from './architecture/patterns';
 export { runAssessment } from './engine';
 export type { AssessmentContext } from './engine';
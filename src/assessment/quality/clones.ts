@@ -0,0 +1,406 @@
+/**
+ * Token-based clone detection
+ *
+ * Each parsed JavaScript/TypeScript AST is flattened into a pre-order stream of
+ * node types, with every identifier and literal abstracted to one token.
+ * Matching windows of the streams are found by rolling hash and extended to
+ * maximal clone pairs: Type-1 when the original names and values match too,
+ * Type-2 when only the abstracted stream does. Pairs separated by a small gap
+ * in both fragments (an inserted, removed or changed statement) are merged
+ * into Type-3 clones. Overlapping fragments are grouped into clone classes.
+ */
+
+import * as t from '@babel/types';
+import * as path from 'path';
+import { CloneClass, CloneLocation } from '../../types';
+import { ParsedFile } from '../../types';
+import { getFileAst } from '../../services/file-cache';
+import { loadConfig } from '../../config';
+
+export interface CloneDetectionOptions {
+  minTokens?: number; // Smallest clone reported (default: CLONE_MIN_TOKENS)
+  maxGap?: number; // Largest gap, in tokens, bridged in a Type-3 clone (default: minTokens / 5)
+}
+
+export interface CloneDetectionResult {
+  classes: CloneClass[];
+  duplicatedLines: number; // Distinct source lines spanned by any clone
+  tokenizedLines: number; // Lines of code in the files that were tokenized
+}
+
+interface CloneToken {
+  kind: number; // Normalized node type
+  value: string; // Node type plus identifier name or literal value
+  line: number;
+}
+
+interface ClonePair {
+  a: number; // File index
+  startA: number; // Token range [start, end)
+  endA: number;
+  b: number;
+  startB: number;
+  endB: number;
+  matched: number; // Tokens matched, excluding gaps
+  type: 1 | 2 | 3;
+}
+
+interface CloneFragment {
+  file: number;
+  start: number;
+  end: number;
+}
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte'];
+const HASH_BASE = 1000003;
+const MAX_BUCKET_SIZE = 50; // Windows repeated more often (import lists, fixtures) are not compared pairwise
+const MIN_SIMILARITY = 0.7; // Share of a Type-3 clone's tokens that must match
+
+/**
+ * Detect Type-1, Type-2 and Type-3 clones across the parsed files
+ */
+export function detectClones(parsedFiles: ParsedFile[], options: CloneDetectionOptions = {}): CloneDetectionResult {
+  const minTokens = options.minTokens ?? loadConfig().analysis.cloneMinTokens;
+  const maxGap = options.maxGap ?? Math.floor(minTokens / 5);
+  // Seeds shorter than the threshold let a Type-3 clone be found from the pieces around its gap
+  const seedTokens = Math.max(10, Math.ceil(minTokens / 2));
+
+  const kinds = new Map<string, number>();
+  const files: Array<{ path: string; tokens: CloneToken[] }> = [];
+  let tokenizedLines = 0;
+  for (const file of parsedFiles) {
+    const tokens = tokenizeFile(file, kinds);
+    if (tokens.length > 0) {
+      tokenizedLines += file.linesOfCode;
+    }
+    if (tokens.length >= seedTokens) {
+      files.push({ path: file.path, tokens });
+    }
+  }
+
+  const pairs = mergeGappedPairs(findClonePairs(files, seedTokens), maxGap).filter(
+    (pair) => pair.matched >= minTokens
+  );
+  return { ...groupCloneClasses(files, pairs), tokenizedLines };
+}
+
+/**
+ * Flatten a file's AST into normalized tokens
+ */
+function tokenizeFile(file: ParsedFile, kinds: Map<string, number>): CloneToken[] {
+  if (!SCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase())) {
+    return [];
+  }
+  const ast = getFileAst(file);
+  if (!ast) {
+    return [];
+  }
+
+  const tokens: CloneToken[] = [];
+  const visit = (node: t.Node | null | undefined): void => {
+    if (!node || typeof node.type !== 'string' || isTypeOnly(node)) {
+      return;
+    }
+    const kind = normalizeKind(node);
+    if (!kinds.has(kind)) {
+      kinds.set(kind, kinds.size + 1);
+    }
+    tokens.push({
+      kind: kinds.get(kind)!,
+      value: `${node.type}:${getTokenValue(node)}`,
+      line: node.loc?.start.line || 0,
+    });
+
+    for (const key of t.VISITOR_KEYS[node.type] || []) {
+      const child = node[key as keyof typeof node] as unknown as t.Node | t.Node[] | null | undefined;
+      if (Array.isArray(child)) {
+        child.forEach(visit);
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(ast.program);
+
+  return tokens;
+}
+
+/**
+ * Abstract identifiers and literals; keep operators, which change behavior
+ */
+function normalizeKind(node: t.Node): string {
+  if (t.isIdentifier(node) || t.isJSXIdentifier(node) || t.isPrivateName(node)) {
+    return 'Identifier';
+  }
+  if (t.isLiteral(node) || t.isJSXText(node) || t.isTemplateElement(node)) {
+    return 'Literal';
+  }
+  if (t.isBinaryExpression(node) || t.isLogicalExpression(node) || t.isAssignmentExpression(node)) {
+    return `${node.type}${node.operator}`;
+  }
+  if (t.isUnaryExpression(node) || t.isUpdateExpression(node)) {
+    return `${node.type}${node.operator}`;
+  }
+  return node.type;
+}
+
+/**
+ * Original text of identifiers and literals, compared to tell Type-1 from Type-2 clones
+ */
+function getTokenValue(node: t.Node): string {
+  if (t.isIdentifier(node) || t.isJSXIdentifier(node)) {
+    return node.name;
+  }
+  if (t.isPrivateName(node)) {
+    return node.id.name;
+  }
+  if (t.isStringLiteral(node) || t.isNumericLiteral(node) || t.isBooleanLiteral(node) || t.isJSXText(node)) {
+    return String(node.value);
+  }
+  if (t.isRegExpLiteral(node)) {
+    return `/${node.pattern}/${node.flags}`;
+  }
+  if (t.isTemplateElement(node)) {
+    return node.value.raw;
+  }
+  return '';
+}
+
+/**
+ * TypeScript type annotations and declarations do not execute; skip them
+ */
+function isTypeOnly(node: t.Node): boolean {
+  return (
+    (node.type.startsWith('TS') && !t.isTSAsExpression(node) && !t.isTSNonNullExpression(node)) ||
+    t.isTypeAnnotation(node) ||
+    t.isTypeParameterDeclaration(node)
+  );
+}
+
+/**
+ * Find maximal clone pairs that start with a matching window of seedTokens tokens
+ */
+function findClonePairs(files: Array<{ tokens: CloneToken[] }>, seedTokens: number): ClonePair[] {
+  const buckets = new Map<number, Array<{ file: number; start: number }>>();
+  let power = 1;
+  for (let i = 1; i < seedTokens; i++) {
+    power = Math.imul(power, HASH_BASE);
+  }
+
+  files.forEach(({ tokens }, file) => {
+    let hash = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      if (i >= seedTokens) {
+        hash = (hash - Math.imul(tokens[i - seedTokens].kind, power)) | 0;
+      }
+      hash = (Math.imul(hash, HASH_BASE) + tokens[i].kind) | 0;
+      if (i >= seedTokens - 1) {
+        const bucket = buckets.get(hash) || [];
+        bucket.push({ file, start: i - seedTokens + 1 });
+        buckets.set(hash, bucket);
+      }
+    }
+  });
+
+  const pairs: ClonePair[] = [];
+  for (const bucket of buckets.values()) {
+    if (bucket.length < 2 || bucket.length > MAX_BUCKET_SIZE) {
+      continue;
+    }
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const pair = extendPair(files, bucket[i], bucket[j], seedTokens);
+        if (pair) {
+          pairs.push(pair);
+        }
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Extend two matching windows to a maximal clone pair; null when the pair is
+ * part of a longer one starting earlier, or overlaps itself
+ */
+function extendPair(
+  files: Array<{ tokens: CloneToken[] }>,
+  first: { file: number; start: number },
+  second: { file: number; start: number },
+  seedTokens: number
+): ClonePair | null {
+  const a = files[first.file].tokens;
+  const b = files[second.file].tokens;
+  if (first.start > 0 && second.start > 0 && a[first.start - 1].kind === b[second.start - 1].kind) {
+    return null;
+  }
+
+  const sameFile = first.file === second.file;
+  const limit = sameFile ? second.start - first.start : Infinity;
+  let length = 0;
+  while (
+    length < limit &&
+    first.start + length < a.length &&
+    second.start + length < b.length &&
+    a[first.start + length].kind === b[second.start + length].kind
+  ) {
+    length++;
+  }
+  if (length < seedTokens) {
+    return null; // Hash collision, or a fragment overlapping its own copy
+  }
+
+  let exact = true;
+  for (let i = 0; i < length && exact; i++) {
+    exact = a[first.start + i].value === b[second.start + i].value;
+  }
+
+  return {
+    a: first.file,
+    startA: first.start,
+    endA: first.start + length,
+    b: second.file,
+    startB: second.start,
+    endB: second.start + length,
+    matched: length,
+    type: exact ? 1 : 2,
+  };
+}
+
+/**
+ * Chain clone pairs between the same two files separated by at most maxGap tokens on both sides
+ */
+function mergeGappedPairs(pairs: ClonePair[], maxGap: number): ClonePair[] {
+  const sorted = [...pairs].sort((x, y) => x.a - y.a || x.b - y.b || x.startA - y.startA || x.startB - y.startB);
+  const merged: ClonePair[] = [];
+  const consumed = new Set<ClonePair>();
+
+  for (let i = 0; i < sorted.length; i++) {
+    if (consumed.has(sorted[i])) {
+      continue;
+    }
+    const chain = { ...sorted[i] };
+    for (let j = i + 1; j < sorted.length; j++) {
+      const next = sorted[j];
+      // Sorted by start, so no later pair is closer
+      if (next.a !== chain.a || next.b !== chain.b || next.startA - chain.endA > maxGap) {
+        break;
+      }
+      // A negative gap is an overlap: the previous pair already matched the first tokens after the gap
+      const gapA = next.startA - chain.endA;
+      const gapB = next.startB - chain.endB;
+      if (consumed.has(next) || gapB > maxGap || next.endA <= chain.endA || next.endB <= chain.endB) {
+        continue;
+      }
+      if ((gapA === gapB && gapA <= 0) || (chain.a === chain.b && next.endA > chain.startB)) {
+        continue; // Same alignment, or a fragment running into its own copy
+      }
+      const matched = chain.matched + next.matched - Math.max(0, -gapA, -gapB);
+      if (matched < MIN_SIMILARITY * Math.max(next.endA - chain.startA, next.endB - chain.startB)) {
+        continue;
+      }
+      chain.endA = next.endA;
+      chain.endB = next.endB;
+      chain.matched = matched;
+      chain.type = 3;
+      consumed.add(next);
+    }
+    merged.push(chain);
+  }
+
+  return merged;
+}
+
+/**
+ * Group clone pairs whose fragments overlap into classes and count the duplicated lines
+ */
+function groupCloneClasses(
+  files: Array<{ path: string; tokens: CloneToken[] }>,
+  pairs: ClonePair[]
+): Omit<CloneDetectionResult, 'tokenizedLines'> {
+  const fragments: CloneFragment[] = [];
+  const parent: number[] = [];
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (i: number, j: number): void => {
+    parent[find(i)] = find(j);
+  };
+
+  for (const pair of pairs) {
+    const index = fragments.length;
+    fragments.push({ file: pair.a, start: pair.startA, end: pair.endA });
+    fragments.push({ file: pair.b, start: pair.startB, end: pair.endB });
+    parent.push(index, index + 1);
+    union(index, index + 1);
+  }
+  // Fragments overlapping in the same file are copies of the same code
+  const byFile = fragments
+    .map((_, i) => i)
+    .sort((x, y) => fragments[x].file - fragments[y].file || fragments[x].start - fragments[y].start);
+  for (let i = 0; i < byFile.length; i++) {
+    const current = fragments[byFile[i]];
+    for (let j = i + 1; j < byFile.length; j++) {
+      const next = fragments[byFile[j]];
+      if (next.file !== current.file || next.start >= current.end) {
+        break;
+      }
+      union(byFile[i], byFile[j]);
+    }
+  }
+
+  const groups = new Map<number, { fragments: CloneFragment[]; pairs: ClonePair[] }>();
+  pairs.forEach((pair, index) => {
+    const root = find(index * 2);
+    const group = groups.get(root) || { fragments: [], pairs: [] };
+    group.fragments.push(fragments[index * 2], fragments[index * 2 + 1]);
+    group.pairs.push(pair);
+    groups.set(root, group);
+  });
+
+  const classes: CloneClass[] = [];
+  const duplicated = new Set<string>();
+  for (const group of groups.values()) {
+    const merged = mergeFragments(group.fragments);
+    if (merged.length < 2) {
+      continue; // Repeated entries of one table or list, overlapping each other
+    }
+    const locations: CloneLocation[] = [];
+    for (const fragment of merged) {
+      const tokens = files[fragment.file].tokens.slice(fragment.start, fragment.end);
+      const startLine = Math.min(...tokens.map((token) => token.line));
+      const endLine = Math.max(...tokens.map((token) => token.line));
+      for (let line = startLine; line <= endLine; line++) {
+        duplicated.add(`${fragment.file}:${line}`);
+      }
+      locations.push({ file: files[fragment.file].path, startLine, endLine });
+    }
+    classes.push({
+      id: `clone-${locations[0].file}:${locations[0].startLine}`,
+      type: Math.max(...group.pairs.map((pair) => pair.type)) as CloneClass['type'],
+      tokens: Math.max(...group.pairs.map((pair) => pair.matched)),
+      locations,
+    });
+  }
+
+  return {
+    classes: classes.sort((x, y) => y.tokens - x.tokens),
+    duplicatedLines: duplicated.size,
+  };
+}
+
+/**
+ * Merge overlapping fragments of the same file into one location
+ */
+function mergeFragments(fragments: CloneFragment[]): CloneFragment[] {
+  const sorted = [...fragments].sort((x, y) => x.file - y.file || x.start - y.start);
+  const merged: CloneFragment[] = [];
+  for (const fragment of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.file === fragment.file && fragment.start < last.end) {
+      last.end = Math.max(last.end, fragment.end);
+    } else {
+      merged.push({ ...fragment });
+    }
+  }
+  return merged;
+}
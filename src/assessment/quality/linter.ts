@@ -5,13 +5,16 @@
 import { QualityIssue, CodeMetrics, QualityAssessment } from '../../types';
 import { ParsedFile } from '../../types';
 import { DependencyGraph } from '../../types';
+import { CloneClass } from '../../types';
+import { detectClones, CloneDetectionOptions, CloneDetectionResult } from './clones';
 
 /**
  * Run quality checks on code
  */
 export function runQualityChecks(
   parsedFiles: ParsedFile[],
-  dependencyGraph?: DependencyGraph
+  dependencyGraph?: DependencyGraph,
+  cloneOptions?: CloneDetectionOptions
 ): QualityAssessment {
   const issues: QualityIssue[] = [];
 
@@ -22,7 +25,8 @@ export function runQualityChecks(
   issues.push(...checkComplexity(parsedFiles));
 
   // Check duplication
-  issues.push(...checkDuplication(parsedFiles));
+  const clones = detectClones(parsedFiles, cloneOptions);
+  issues.push(...checkDuplication(clones.classes));
 
   // Check performance issues
   issues.push(...checkPerformance(parsedFiles));
@@ -31,7 +35,7 @@ export function runQualityChecks(
   issues.push(...checkBestPractices(parsedFiles));
 
   // Calculate metrics
-  const metrics = calculateMetrics(parsedFiles);
+  const metrics = calculateMetrics(parsedFiles, clones);
 
   // Calculate quality score
   const score = calculateQualityScore(issues, metrics);
@@ -40,6 +44,7 @@ export function runQualityChecks(
     issues,
     metrics,
     score,
+    clones: clones.classes,
   };
 }
 
@@ -119,50 +124,26 @@ function checkComplexity(parsedFiles: ParsedFile[]): QualityIssue[] {
 }
 
 /**
- * Check code duplication (simplified)
+ * Report each clone class once, with all its locations
  */
-function checkDuplication(parsedFiles: ParsedFile[]): QualityIssue[] {
-  const issues: QualityIssue[] = [];
-  const codeBlocks = new Map<string, { file: string; line: number }[]>();
-
-  // Simple duplication detection (exact line matching)
-  for (const file of parsedFiles) {
-    const content = fs.readFileSync(file.path, 'utf-8');
-    const lines = content.split('\n');
-
-    for (let i = 0; i < lines.length - 3; i++) {
-      // Check 3-line blocks
-      const block = lines.slice(i, i + 3).join('\n');
-      const normalized = block.trim();
-
-      if (normalized.length > 20) {
-        // Only check meaningful blocks
-        if (!codeBlocks.has(normalized)) {
-          codeBlocks.set(normalized, []);
-        }
-        codeBlocks.get(normalized)!.push({ file: file.path, line: i + 1 });
-      }
-    }
-  }
-
-  // Report duplicates
-  for (const [block, locations] of codeBlocks.entries()) {
-    if (locations.length > 1) {
-      issues.push({
-        id: `duplication-${locations[0].file}`,
-        type: 'duplication',
-        severity: 'info',
-        title: 'Potential Code Duplication',
-        description: `Similar code found in ${locations.length} locations`,
-        file: locations[0].file,
-        line: locations[0].line,
-        rule: 'no-duplication',
-        recommendation: 'Extract common code into reusable functions',
-      });
-    }
-  }
-
-  return issues;
+function checkDuplication(clones: CloneClass[]): QualityIssue[] {
+  return clones.map((clone) => {
+    const [first] = clone.locations;
+    const locations = clone.locations.map((location) => `${location.file}:${location.startLine}-${location.endLine}`);
+    return {
+      id: `duplication-${first.file}-${first.startLine}`,
+      type: 'duplication',
+      severity: 'info',
+      title: 'Code Clone',
+      description:
+        `Type-${clone.type} clone of ${clone.tokens} tokens in ${clone.locations.length} locations: ` +
+        locations.join(', '),
+      file: first.file,
+      line: first.startLine,
+      rule: 'no-duplication',
+      recommendation: 'Extract common code into reusable functions',
+    };
+  });
 }
 
 /**
@@ -266,11 +247,10 @@ function checkBestPractices(parsedFiles: ParsedFile[]): QualityIssue[] {
 /**
  * Calculate code metrics
  */
-function calculateMetrics(parsedFiles: ParsedFile[]): CodeMetrics {
+function calculateMetrics(parsedFiles: ParsedFile[], clones: CloneDetectionResult): CodeMetrics {
   let totalLOC = 0;
   let totalComplexity = 0;
   let totalDebt = 0;
-  let duplicateLines = 0;
 
   for (const file of parsedFiles) {
     totalLOC += file.linesOfCode;
@@ -297,7 +277,9 @@ function calculateMetrics(parsedFiles: ParsedFile[]): CodeMetrics {
     cyclomaticComplexity: avgComplexity,
     maintainabilityIndex,
     technicalDebt: totalDebt,
-    codeDuplication: duplicateLines,
+    // Only the files clone detection could tokenize count towards the percentage
+    codeDuplication:
+      clones.tokenizedLines > 0 ? Math.min(100, (clones.duplicatedLines / clones.tokenizedLines) * 100) : 0,
   };
 }
 
@@ -0,0 +1,177 @@
+/**
+ * Endpoint authentication and CSRF coverage audit
+ *
+ * Classifies each endpoint's middleware chain, including app-level middleware
+ * applied to it, and follows database-query lineage edges to the tables it
+ * writes and the columns it touches. Unauthenticated endpoints writing data
+ * or touching sensitive columns are reported as authentication issues.
+ */
+
+import * as path from 'path';
+import { SecurityIssue, EndpointSecurity } from '../../types';
+import { LineageGraph, LineageNode } from '../../types';
+import { Middleware } from '../../types';
+
+export interface AuthCoverageResult {
+  issues: SecurityIssue[];
+  endpoints: EndpointSecurity[];
+}
+
+/** Middleware that authenticates or authorizes the caller: passport, requireAuth, JwtAuthGuard, login_required */
+const AUTH_MIDDLEWARE = new RegExp(
+  'auth|jwt|passport|login|logged_?in|protect|verify_?token|current_?user|' +
+    'permission|role|admin|acl|polic(y|ies)|(?<!Throttler)Guard$',
+  'i'
+);
+const CSRF_MIDDLEWARE = /csrf|xsrf/i;
+const SENSITIVE_COLUMN =
+  /pass(word|wd)|secret|token|api_?key|ssn|social_?security|credit_?card|card_?number|cvv|iban|salary|birth|dob$/i;
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const WRITE_QUERIES = ['insert', 'update', 'delete'];
+
+/**
+ * Build the per-endpoint security matrix and report unauthenticated data access
+ */
+export function auditAuthCoverage(
+  repoPath: string,
+  lineageGraph: LineageGraph,
+  middleware: Middleware[] = []
+): AuthCoverageResult {
+  const nodes = new Map(lineageGraph.nodes.map((node) => [node.id, node]));
+  const issues: SecurityIssue[] = [];
+  const endpoints: EndpointSecurity[] = [];
+
+  for (const node of lineageGraph.nodes) {
+    if (node.type !== 'endpoint') {
+      continue;
+    }
+
+    const id = node.id.replace(/^endpoint:/, '');
+    const method = String(node.data.httpMethod || '');
+    const endpointPath = String(node.data.path || '');
+    const chain = getMiddlewareChain(id, endpointPath, node.data.middleware || [], middleware);
+    const authMiddleware = chain.filter((name) => AUTH_MIDDLEWARE.test(name) && !CSRF_MIDDLEWARE.test(name));
+    const { writes, sensitiveColumns } = getDataAccess(node, lineageGraph, nodes);
+
+    const security: EndpointSecurity = {
+      endpoint: id,
+      method,
+      path: endpointPath,
+      file: path.isAbsolute(node.file) ? path.relative(repoPath, node.file) : node.file,
+      line: node.line,
+      middleware: chain,
+      authMiddleware,
+      authenticated: authMiddleware.length > 0,
+      mutating: MUTATING_METHODS.includes(method),
+      csrfProtected: chain.some((name) => CSRF_MIDDLEWARE.test(name) && !/exempt/i.test(name)),
+      writes,
+      sensitiveColumns,
+    };
+    endpoints.push(security);
+
+    if (!security.authenticated && (writes.length > 0 || sensitiveColumns.length > 0)) {
+      issues.push(createAuthenticationIssue(security));
+    }
+  }
+
+  return { issues, endpoints };
+}
+
+/**
+ * Combine app-level middleware applied to an endpoint with its own chain
+ */
+function getMiddlewareChain(
+  id: string,
+  endpointPath: string,
+  own: string[],
+  middleware: Middleware[]
+): string[] {
+  const applied = middleware
+    .filter((entry) => entry.appliedTo.some((target) => target === id || matchesPathPattern(endpointPath, target)))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((entry) => entry.name);
+  return [...new Set([...applied, ...own])];
+}
+
+/**
+ * Check whether a path matches an appliedTo pattern: '*', '/admin' or '/admin/*'
+ */
+function matchesPathPattern(endpointPath: string, pattern: string): boolean {
+  if (pattern === '*') {
+    return true;
+  }
+  if (!pattern.startsWith('/')) {
+    return false;
+  }
+  const base = pattern.replace(/\/?\*$/, '').replace(/\/+$/, '');
+  return !base || endpointPath === base || endpointPath.startsWith(`${base}/`);
+}
+
+/**
+ * Follow database-query edges from an endpoint to the tables it writes and the sensitive columns it touches
+ */
+function getDataAccess(
+  endpoint: LineageNode,
+  lineageGraph: LineageGraph,
+  nodes: Map<string, LineageNode>
+): { writes: string[]; sensitiveColumns: string[] } {
+  const writes = new Set<string>();
+  const sensitiveColumns = new Set<string>();
+
+  for (const queryEdge of lineageGraph.edges) {
+    if (queryEdge.type !== 'database-query' || queryEdge.from !== endpoint.id) {
+      continue;
+    }
+    const query = nodes.get(queryEdge.to);
+    const queryType = String(queryEdge.data.queryType || query?.data.queryType || '');
+    const tableEdges = lineageGraph.edges.filter(
+      (edge) => edge.type === 'database-query' && edge.from === queryEdge.to && nodes.get(edge.to)?.type === 'table'
+    );
+
+    if (tableEdges.length === 0 && WRITE_QUERIES.includes(queryType) && queryEdge.data.table) {
+      writes.add(queryEdge.data.table);
+    }
+    for (const tableEdge of tableEdges) {
+      const table = nodes.get(tableEdge.to)!;
+      const tableName = table.data.tableName || table.label;
+      if (WRITE_QUERIES.includes(queryType)) {
+        writes.add(tableName);
+      }
+      // Reads without a column list (SELECT *, findAll) return every column
+      const columns: string[] = tableEdge.data.columns || (queryType === 'select' ? table.data.columns || [] : []);
+      for (const column of columns) {
+        if (SENSITIVE_COLUMN.test(column)) {
+          sensitiveColumns.add(`${tableName}.${column}`);
+        }
+      }
+    }
+  }
+
+  return { writes: [...writes], sensitiveColumns: [...sensitiveColumns] };
+}
+
+/**
+ * Describe an unauthenticated endpoint reaching data
+ */
+function createAuthenticationIssue(security: EndpointSecurity): SecurityIssue {
+  const access: string[] = [];
+  if (security.writes.length > 0) {
+    access.push(`writes to ${security.writes.join(', ')}`);
+  }
+  if (security.sensitiveColumns.length > 0) {
+    access.push(`touches sensitive columns ${security.sensitiveColumns.join(', ')}`);
+  }
+
+  return {
+    id: `authentication-${security.endpoint}`,
+    type: 'authentication',
+    severity: security.sensitiveColumns.length > 0 ? 'critical' : 'high',
+    title: 'Unauthenticated Data Access',
+    description: `${security.method} ${security.path} has no authentication middleware but ${access.join(' and ')}`,
+    file: security.file,
+    line: security.line || 0,
+    rule: 'endpoint-authentication',
+    recommendation: 'Require authentication on the route, or on the router or app it is mounted on',
+  };
+}
@@ -0,0 +1,401 @@
+/**
+ * Offline dependency auditing - matches the exact versions resolved in
+ * lockfiles against a local advisory database in OSV format
+ *
+ * The database is a directory of OSV JSON records, as published per ecosystem
+ * at https://osv-vulnerabilities.storage.googleapis.com/<ecosystem>/all.zip.
+ * Exports are imported with importAdvisories; no network access is needed to audit.
+ */
+
+import { Vulnerability, DependencySecurity } from '../../types';
+import { FileTree } from '../../types';
+import { readLockedDependencies, normalizePythonName, LockedDependency, DependencyEcosystem } from './lockfiles';
+import { loadConfig } from '../../config';
+import { logger } from '../../utils/logger';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export interface OsvAdvisory {
+  id: string;
+  summary?: string;
+  details?: string;
+  aliases?: string[];
+  withdrawn?: string;
+  affected?: Array<{
+    package?: { ecosystem: string; name: string };
+    ranges?: Array<{ type: 'SEMVER' | 'ECOSYSTEM' | 'GIT'; events: Array<Record<string, string>> }>;
+    versions?: string[];
+    ecosystem_specific?: { severity?: string };
+    database_specific?: { severity?: string };
+  }>;
+  database_specific?: { severity?: string };
+}
+
+export interface AdvisoryDatabase {
+  advisories: Map<string, OsvAdvisory[]>; // Keyed by ecosystem and package name
+  size: number;
+}
+
+export interface DependencyAuditResult {
+  vulnerabilities: Vulnerability[];
+  dependencies: DependencySecurity[];
+}
+
+const databases = new Map<string, AdvisoryDatabase>();
+
+/**
+ * Audit the locked dependencies of a repository
+ */
+export function auditDependencies(
+  repoPath: string,
+  fileTree: FileTree,
+  database: AdvisoryDatabase = loadAdvisoryDatabase()
+): DependencyAuditResult {
+  const locked = mergeLockedDependencies(readLockedDependencies(repoPath, fileTree));
+  const vulnerabilities: Vulnerability[] = [];
+  const dependencies: DependencySecurity[] = [];
+
+  for (const { dependency, lockfiles } of locked) {
+    const matches = findAdvisories(database, dependency);
+    const found = matches.map(({ advisory, fixed }) => ({
+      id: `${advisory.id}:${dependency.name}@${dependency.version}`,
+      cve: [advisory.id, ...(advisory.aliases || [])].find((id) => id.startsWith('CVE-')),
+      title: advisory.summary || `${advisory.id} in ${dependency.name}`,
+      description: advisory.details || advisory.summary || '',
+      severity: getAdvisorySeverity(advisory, dependency),
+      affectedFiles: lockfiles,
+      fixAvailable: !!fixed,
+      fixVersion: fixed,
+      package: dependency.name,
+      version: dependency.version,
+      dependencyPath: dependency.path,
+    }));
+    vulnerabilities.push(...found);
+
+    // Offline, the newest known version is the highest version fixing one of the advisories
+    if (dependency.direct || found.length > 0) {
+      const latestVersion = found
+        .map((vulnerability) => vulnerability.fixVersion)
+        .reduce<string>(
+          (latest, version) => (version && compareVersions(version, latest) > 0 ? version : latest),
+          dependency.version
+        );
+      dependencies.push({
+        name: dependency.name,
+        version: dependency.version,
+        vulnerabilities: found,
+        latestVersion,
+        outdated: latestVersion !== dependency.version,
+      });
+    }
+  }
+
+  logger.debug('Dependency audit complete', {
+    dependencies: locked.length,
+    advisories: database.size,
+    vulnerabilities: vulnerabilities.length,
+  });
+
+  return { vulnerabilities, dependencies };
+}
+
+/**
+ * Load the advisory database from a directory of OSV records
+ */
+export function loadAdvisoryDatabase(directory: string = loadConfig().analysis.advisoryDatabase): AdvisoryDatabase {
+  const cached = databases.get(directory);
+  if (cached) {
+    return cached;
+  }
+
+  const database: AdvisoryDatabase = { advisories: new Map(), size: 0 };
+  for (const file of findJsonFiles(directory)) {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      for (const advisory of (Array.isArray(parsed) ? parsed : [parsed]) as OsvAdvisory[]) {
+        if (advisory.id && !advisory.withdrawn) {
+          addAdvisory(database, advisory);
+        }
+      }
+    } catch {
+      // Skip files that are not OSV records
+    }
+  }
+
+  if (database.size === 0) {
+    logger.debug('Advisory database is empty, dependencies are not audited', { directory });
+  }
+  databases.set(directory, database);
+  return database;
+}
+
+/**
+ * Import an OSV export (a .zip archive, a JSON file or a directory of JSON files)
+ * into the advisory database, returning the number of files imported
+ */
+export async function importAdvisories(
+  source: string,
+  directory: string = loadConfig().analysis.advisoryDatabase
+): Promise<number> {
+  const destination = path.join(directory, path.basename(source).replace(/\.(zip|json)$/i, ''));
+  fs.mkdirSync(destination, { recursive: true });
+
+  if (/\.zip$/i.test(source)) {
+    try {
+      await execFileAsync('unzip', ['-q', '-o', source, '-d', destination], { maxBuffer: 10 * 1024 * 1024 });
+    } catch (error: any) {
+      throw new Error(`Failed to extract advisories: ${error.message}`);
+    }
+  } else if (fs.statSync(source).isDirectory()) {
+    fs.cpSync(source, destination, { recursive: true });
+  } else {
+    fs.copyFileSync(source, path.join(destination, path.basename(source)));
+  }
+
+  databases.delete(directory);
+  return findJsonFiles(destination).length;
+}
+
+/**
+ * Compare two versions (SemVer, Go module or PEP 440 style)
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+
+  for (let i = 0; i < Math.max(left.release.length, right.release.length); i++) {
+    const difference = (left.release[i] || 0) - (right.release[i] || 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  if (left.rank !== right.rank) {
+    return Math.sign(left.rank - right.rank);
+  }
+
+  for (let i = 0; i < Math.max(left.suffix.length, right.suffix.length); i++) {
+    const [x, y] = [left.suffix[i], right.suffix[i]];
+    if (x === undefined || y === undefined) {
+      return x === undefined ? -1 : 1;
+    }
+    if (x !== y) {
+      if (typeof x === 'number' && typeof y === 'number') {
+        return Math.sign(x - y);
+      }
+      // Numeric identifiers sort before alphanumeric ones
+      return typeof x === 'number' ? -1 : typeof y === 'number' ? 1 : x < y ? -1 : 1;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Find the advisories affecting a dependency, with the version fixing each
+ */
+function findAdvisories(
+  database: AdvisoryDatabase,
+  dependency: LockedDependency
+): Array<{ advisory: OsvAdvisory; fixed?: string }> {
+  const matches: Array<{ advisory: OsvAdvisory; fixed?: string }> = [];
+  const seen = new Set<string>();
+
+  for (const advisory of database.advisories.get(getPackageKey(dependency.ecosystem, dependency.name)) || []) {
+    // The same vulnerability is often published under several ids
+    if ([advisory.id, ...(advisory.aliases || [])].some((id) => seen.has(id))) {
+      continue;
+    }
+
+    for (const affected of advisory.affected || []) {
+      if (!affected.package || !isSamePackage(affected.package, dependency)) {
+        continue;
+      }
+      const match = matchAffectedVersion(dependency.version, affected);
+      if (match) {
+        matches.push({ advisory, fixed: match.fixed });
+        [advisory.id, ...(advisory.aliases || [])].forEach((id) => seen.add(id));
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Check whether a version falls in an affected entry's versions or ranges
+ */
+function matchAffectedVersion(
+  version: string,
+  affected: NonNullable<OsvAdvisory['affected']>[number]
+): { fixed?: string } | null {
+  const ranges = (affected.ranges || []).filter((range) => range.type !== 'GIT');
+  const fixedAfter = (events: Array<Record<string, string>>) =>
+    events
+      .map((event) => event.fixed)
+      .filter((fixed) => fixed && compareVersions(fixed, version) > 0)
+      .sort(compareVersions)[0];
+  const listed = (affected.versions || []).some((listedVersion) => compareVersions(listedVersion, version) === 0);
+
+  for (const range of ranges) {
+    // Events apply in version order; the last one at or below the version decides
+    const events = [...range.events].sort((a, b) => compareEventVersions(eventVersion(a), eventVersion(b)));
+    let inRange = false;
+    for (const event of events) {
+      if (event.introduced !== undefined && compareEventVersions(version, event.introduced) >= 0) {
+        inRange = true;
+      } else if (event.fixed !== undefined && compareVersions(version, event.fixed) >= 0) {
+        inRange = false;
+      } else if (event.last_affected !== undefined && compareVersions(version, event.last_affected) > 0) {
+        inRange = false;
+      }
+    }
+    if (inRange || listed) {
+      return { fixed: fixedAfter(range.events) };
+    }
+  }
+
+  return listed ? {} : null;
+}
+
+/**
+ * Get the severity of an advisory from its GitHub or ecosystem severity
+ */
+function getAdvisorySeverity(advisory: OsvAdvisory, dependency: LockedDependency): Vulnerability['severity'] {
+  const affected = advisory.affected?.find((entry) => entry.package && isSamePackage(entry.package, dependency));
+  const severity = (
+    affected?.ecosystem_specific?.severity ||
+    affected?.database_specific?.severity ||
+    advisory.database_specific?.severity ||
+    ''
+  ).toLowerCase();
+
+  switch (severity) {
+    case 'critical':
+      return 'critical';
+    case 'high':
+      return 'high';
+    case 'low':
+      return 'low';
+    default:
+      return 'medium'; // Includes GitHub's "moderate" and advisories without a severity
+  }
+}
+
+/**
+ * Merge dependencies resolved by several lockfiles, keeping the shortest dependency path
+ */
+function mergeLockedDependencies(
+  locked: LockedDependency[]
+): Array<{ dependency: LockedDependency; lockfiles: string[] }> {
+  const merged = new Map<string, { dependency: LockedDependency; lockfiles: string[] }>();
+
+  for (const dependency of locked) {
+    const key = `${getPackageKey(dependency.ecosystem, dependency.name)}@${dependency.version}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { dependency, lockfiles: [dependency.lockfile] });
+      continue;
+    }
+    if (!existing.lockfiles.includes(dependency.lockfile)) {
+      existing.lockfiles.push(dependency.lockfile);
+    }
+    if (dependency.direct || dependency.path.length < existing.dependency.path.length) {
+      existing.dependency = { ...dependency, direct: dependency.direct || existing.dependency.direct };
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Index an advisory under each package it affects
+ */
+function addAdvisory(database: AdvisoryDatabase, advisory: OsvAdvisory): void {
+  const keys = new Set(
+    (advisory.affected || [])
+      .filter((affected) => affected.package)
+      .map((affected) => getPackageKey(affected.package!.ecosystem, affected.package!.name))
+  );
+  for (const key of keys) {
+    database.advisories.set(key, [...(database.advisories.get(key) || []), advisory]);
+  }
+  database.size++;
+}
+
+/**
+ * Check whether an OSV package is the dependency's package
+ */
+function isSamePackage(osvPackage: { ecosystem: string; name: string }, dependency: LockedDependency): boolean {
+  return getPackageKey(osvPackage.ecosystem, osvPackage.name) === getPackageKey(dependency.ecosystem, dependency.name);
+}
+
+/**
+ * Get the index key of a package; PyPI names are normalized
+ */
+function getPackageKey(ecosystem: DependencyEcosystem | string, name: string): string {
+  // OSV ecosystems may carry a suffix, e.g. "Debian:11"
+  const base = ecosystem.split(':')[0];
+  return `${base}:${base === 'PyPI' ? normalizePythonName(name) : name}`;
+}
+
+/**
+ * Find the JSON files under a directory
+ */
+function findJsonFiles(directory: string): string[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+  return fs
+    .readdirSync(directory, { withFileTypes: true })
+    .flatMap((entry) => {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return findJsonFiles(entryPath);
+      }
+      return entry.name.endsWith('.json') ? [entryPath] : [];
+    });
+}
+
+/**
+ * Get the version of a range event
+ */
+function eventVersion(event: Record<string, string>): string {
+  return event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+}
+
+/**
+ * Compare range event versions, where "0" introduces every version
+ */
+function compareEventVersions(a: string, b: string): number {
+  if (a === '0' || b === '0') {
+    return a === b ? 0 : a === '0' ? -1 : 1;
+  }
+  return compareVersions(a, b);
+}
+
+/**
+ * Split a version into its release numbers, a rank (development, pre-release,
+ * release or post-release) and the identifiers of its suffix
+ */
+function parseVersion(version: string): { release: number[]; rank: number; suffix: Array<string | number> } {
+  const [main] = version.trim().replace(/^v/, '').split('+');
+  const match = main.match(/^(?:\d+!)?(\d+(?:\.\d+)*)[.-]?(.*)$/);
+  if (!match) {
+    return { release: [], rank: -1, suffix: [main] };
+  }
+
+  const release = match[1].split('.').map(Number);
+  const rest = match[2].toLowerCase();
+  const suffix = rest
+    .split(/[.-]|(?<=\d)(?=[a-z])|(?<=[a-z])(?=\d)/)
+    .filter(Boolean)
+    .map((part) => (/^\d+$/.test(part) ? Number(part) : part));
+  const rank = !rest ? 0 : /^(post|rev|r)(\d|$)/.test(rest) ? 1 : /^dev/.test(rest) ? -2 : -1;
+
+  return { release, rank, suffix };
+}
@@ -0,0 +1,500 @@
+/**
+ * Lockfile parsing - exact resolved dependency versions and the dependency
+ * chains that pull them in, from npm, Yarn, pnpm, pip, Pipenv and Go lockfiles
+ */
+
+import { FileTree } from '../../types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type DependencyEcosystem = 'npm' | 'PyPI' | 'Go';
+
+export interface LockedDependency {
+  name: string;
+  version: string;
+  ecosystem: DependencyEcosystem;
+  lockfile: string; // Relative path of the lockfile
+  path: string[]; // Dependency chain from a direct dependency to this package
+  direct: boolean;
+}
+
+/** Resolved packages keyed by a lockfile-specific id, and the ids the project depends on directly */
+interface LockGraph {
+  packages: Map<string, { name: string; version: string; dependencies: string[] }>;
+  roots: string[];
+}
+
+type LockfileParser = (content: string, directory: string) => LockGraph | LockedDependencyList;
+
+/** Lockfiles without a dependency graph list their packages directly */
+interface LockedDependencyList {
+  dependencies: Array<{ name: string; version: string; direct: boolean }>;
+}
+
+/** A package-lock.json package entry, or a package.json manifest */
+interface PackageEntry {
+  name?: string;
+  version?: string;
+  link?: boolean;
+  resolved?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/** A version 1 package-lock.json dependency tree node */
+interface PackageLockV1Entry {
+  version: string;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, PackageLockV1Entry>;
+}
+
+interface YamlMap {
+  [key: string]: string | YamlMap;
+}
+
+const LOCKFILE_PARSERS: Array<{ pattern: RegExp; ecosystem: DependencyEcosystem; parse: LockfileParser }> = [
+  { pattern: /^package-lock\.json$/, ecosystem: 'npm', parse: parsePackageLock },
+  { pattern: /^yarn\.lock$/, ecosystem: 'npm', parse: parseYarnLock },
+  { pattern: /^pnpm-lock\.yaml$/, ecosystem: 'npm', parse: parsePnpmLock },
+  { pattern: /^requirements.*\.txt$/, ecosystem: 'PyPI', parse: parseRequirements },
+  { pattern: /^Pipfile\.lock$/, ecosystem: 'PyPI', parse: parsePipfileLock },
+  { pattern: /^go\.sum$/, ecosystem: 'Go', parse: parseGoSum },
+];
+
+/**
+ * Find the lockfiles of a repository and read their resolved dependencies.
+ * Lockfiles are read from disk as the file tree skips them.
+ */
+export function readLockedDependencies(repoPath: string, fileTree: FileTree): LockedDependency[] {
+  const directories = new Set<string>(['']);
+  for (const [relativePath, fileNode] of fileTree.files) {
+    directories.add(fileNode.type === 'directory' ? relativePath : path.dirname(relativePath).replace(/^\.$/, ''));
+  }
+
+  const dependencies: LockedDependency[] = [];
+  for (const directory of directories) {
+    const absolute = path.join(repoPath, directory);
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(absolute);
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      const parser = LOCKFILE_PARSERS.find(({ pattern }) => pattern.test(entry));
+      if (!parser) {
+        continue;
+      }
+      const lockfile = path.join(directory, entry);
+      try {
+        const content = fs.readFileSync(path.join(absolute, entry), 'utf-8');
+        dependencies.push(...toLockedDependencies(parser.parse(content, absolute), parser.ecosystem, lockfile));
+      } catch {
+        // Skip unreadable or malformed lockfiles
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse package-lock.json (lockfile versions 1 to 3)
+ */
+export function parsePackageLock(content: string, directory: string): LockGraph {
+  const lock = JSON.parse(content);
+  const packages: Record<string, PackageEntry> = lock.packages || flattenLockV1(lock.dependencies || {}, '', {});
+  if (!lock.packages) {
+    packages[''] = readPackageJson(directory);
+  }
+
+  const graph: LockGraph = { packages: new Map(), roots: [] };
+  const resolve = (name: string, from: string): string | undefined => {
+    let base = from;
+    for (;;) {
+      const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+      const entry = packages[candidate];
+      if (entry) {
+        return entry.link && entry.resolved ? entry.resolved : candidate;
+      }
+      if (!base) {
+        return undefined;
+      }
+      const index = base.lastIndexOf('/node_modules/');
+      base = index === -1 ? '' : base.slice(0, index);
+    }
+  };
+
+  for (const [key, entry] of Object.entries(packages)) {
+    const isProject = !key.includes('node_modules/');
+    const names = Object.keys({
+      ...entry.dependencies,
+      ...entry.optionalDependencies,
+      ...entry.peerDependencies,
+      ...(isProject ? entry.devDependencies : {}),
+    });
+    // Links to workspace packages are projects, not dependencies
+    const dependencies = names
+      .map((name) => resolve(name, key))
+      .filter((id): id is string => !!id && id.includes('node_modules/') && !!packages[id]?.version);
+
+    if (isProject) {
+      graph.roots.push(...dependencies);
+    } else if (entry.version && !entry.link) {
+      const name = entry.name || key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length);
+      graph.packages.set(key, { name, version: entry.version, dependencies });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Parse yarn.lock (classic and Berry formats)
+ */
+export function parseYarnLock(content: string, directory: string): LockGraph {
+  const graph: LockGraph = { packages: new Map(), roots: [] };
+  const descriptors = new Map<string, string>(); // Descriptor -> package id
+  const pending: Array<{ id: string; ranges: Array<[string, string]> }> = [];
+  const workspaces: string[] = [];
+  let current: { id: string; name: string; version: string; ranges: Array<[string, string]> } | null = null;
+  let inDependencies = false;
+
+  const flush = () => {
+    if (current && current.version) {
+      graph.packages.set(current.id, { name: current.name, version: current.version, dependencies: [] });
+      pending.push({ id: current.id, ranges: current.ranges });
+    }
+  };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    if (!line.startsWith(' ')) {
+      flush();
+      current = null;
+      const header = line.replace(/:\s*$/, '');
+      if (header === '__metadata') {
+        continue;
+      }
+      const specs = header.split(/,\s*/).map((spec) => spec.replace(/^"|"$/g, ''));
+      const name = specs[0].slice(0, specs[0].indexOf('@', 1));
+      if (specs.some((spec) => spec.includes('@workspace:'))) {
+        workspaces.push(header);
+      }
+      current = { id: header, name, version: '', ranges: [] };
+      specs.forEach((spec) => descriptors.set(spec, header));
+      inDependencies = false;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    const [, key, value] = line.trim().match(/^"?([^"\s:]+)"?:?\s*"?([^"]*)"?$/) || [];
+    if (indent <= 2) {
+      inDependencies = /^(dependencies|optionalDependencies)$/.test(key || '');
+      if (key === 'version') {
+        current.version = value;
+      }
+    } else if (inDependencies && key) {
+      current.ranges.push([key, value]);
+    }
+  }
+  flush();
+
+  for (const { id, ranges } of pending) {
+    graph.packages.get(id)!.dependencies = ranges
+      .map(([name, range]) => descriptors.get(`${name}@${range}`))
+      .filter((target): target is string => !!target);
+  }
+
+  // Berry lists workspaces as packages; classic lockfiles need the package.json
+  for (const workspace of workspaces) {
+    graph.roots.push(...(graph.packages.get(workspace)?.dependencies || []));
+    graph.packages.delete(workspace);
+  }
+  if (workspaces.length === 0) {
+    const manifest = readPackageJson(directory);
+    for (const [name, range] of Object.entries<string>({ ...manifest.dependencies, ...manifest.devDependencies })) {
+      const id = descriptors.get(`${name}@${range}`) || descriptors.get(`${name}@npm:${range}`);
+      if (id) {
+        graph.roots.push(id);
+      }
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Parse pnpm-lock.yaml (lockfile versions 5 to 9)
+ */
+export function parsePnpmLock(content: string): LockGraph {
+  const lock = parseSimpleYaml(content);
+  const graph: LockGraph = { packages: new Map(), roots: [] };
+  const sections = ['dependencies', 'devDependencies', 'optionalDependencies'];
+  const toId = (name: string, value: string | YamlMap): string | undefined => {
+    const version = typeof value === 'string' ? value : (value.version as string | undefined);
+    if (!version || /^(link|file|workspace):/.test(version)) {
+      return undefined;
+    }
+    return `${name}@${stripPeerSuffix(version)}`;
+  };
+  const isVersion5 = /^lockfileVersion: ['"]?5/m.test(content);
+
+  // Version 9 keeps the dependency edges in snapshots
+  const entries = { ...asMap(lock.packages), ...asMap(lock.snapshots) };
+  for (const [key, value] of Object.entries(entries)) {
+    const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+    const separator = isVersion5 ? id.lastIndexOf('/') : id.lastIndexOf('@');
+    if (separator <= 0) {
+      continue;
+    }
+    const name = id.slice(0, separator);
+    const version = stripPeerSuffix(id.slice(separator + 1));
+    const { dependencies: required, optionalDependencies: optional } = asMap(value);
+    const dependencies = Object.entries({ ...asMap(required), ...asMap(optional) })
+      .map(([dependency, range]) => toId(dependency, range))
+      .filter((target): target is string => !!target);
+    const existing = graph.packages.get(`${name}@${version}`);
+    graph.packages.set(`${name}@${version}`, {
+      name,
+      version,
+      dependencies: [...(existing?.dependencies || []), ...dependencies],
+    });
+  }
+
+  const importers = lock.importers ? Object.values(asMap(lock.importers)).map(asMap) : [lock];
+  for (const importer of importers) {
+    for (const section of sections) {
+      for (const [name, value] of Object.entries(asMap(importer[section]))) {
+        const id = toId(name, value);
+        if (id && graph.packages.has(id)) {
+          graph.roots.push(id);
+        }
+      }
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Parse pinned requirements (name==version)
+ */
+export function parseRequirements(content: string): LockedDependencyList {
+  const dependencies: LockedDependencyList['dependencies'] = [];
+
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*===?\s*([^\s;#]+)/);
+    if (match) {
+      dependencies.push({ name: match[1], version: match[2], direct: true });
+    }
+  }
+
+  return { dependencies };
+}
+
+/**
+ * Parse Pipfile.lock, reading direct dependencies from the Pipfile next to it
+ */
+export function parsePipfileLock(content: string, directory: string): LockedDependencyList {
+  const lock = JSON.parse(content);
+  const direct = new Set<string>();
+  try {
+    const pipfile = fs.readFileSync(path.join(directory, 'Pipfile'), 'utf-8');
+    let inPackages = false;
+    for (const line of pipfile.split('\n')) {
+      if (line.startsWith('[')) {
+        inPackages = /^\[(dev-)?packages\]/.test(line);
+      } else if (inPackages) {
+        const match = line.match(/^"?([A-Za-z0-9][A-Za-z0-9._-]*)"?\s*=/);
+        if (match) {
+          direct.add(normalizePythonName(match[1]));
+        }
+      }
+    }
+  } catch {
+    // Without a Pipfile every locked package is treated as transitive
+  }
+
+  const dependencies: LockedDependencyList['dependencies'] = [];
+  for (const section of ['default', 'develop']) {
+    for (const [name, entry] of Object.entries<{ version?: string }>(lock[section] || {})) {
+      if (typeof entry.version === 'string') {
+        dependencies.push({
+          name,
+          version: entry.version.replace(/^==/, ''),
+          direct: direct.has(normalizePythonName(name)),
+        });
+      }
+    }
+  }
+
+  return { dependencies };
+}
+
+/**
+ * Parse go.sum, reading direct requirements from the go.mod next to it
+ */
+export function parseGoSum(content: string, directory: string): LockedDependencyList {
+  const indirect = new Set<string>();
+  try {
+    const goMod = fs.readFileSync(path.join(directory, 'go.mod'), 'utf-8');
+    for (const match of goMod.matchAll(/^\s*(?:require\s+)?(\S+)\s+v\S+\s*\/\/\s*indirect/gm)) {
+      indirect.add(match[1]);
+    }
+  } catch {
+    // Without a go.mod every module is treated as direct
+  }
+
+  const seen = new Set<string>();
+  const dependencies: LockedDependencyList['dependencies'] = [];
+  for (const line of content.split('\n')) {
+    const [module, version] = line.trim().split(/\s+/);
+    // Versions only listed for their go.mod were not downloaded for the build
+    if (!module || !version || version.endsWith('/go.mod') || seen.has(`${module}@${version}`)) {
+      continue;
+    }
+    seen.add(`${module}@${version}`);
+    dependencies.push({ name: module, version: version.replace(/\+incompatible$/, ''), direct: !indirect.has(module) });
+  }
+
+  return { dependencies };
+}
+
+/**
+ * Normalize a Python package name (PEP 503)
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Flatten a lockfile graph into dependencies with the shortest chain from a direct dependency
+ */
+function toLockedDependencies(
+  parsed: LockGraph | LockedDependencyList,
+  ecosystem: DependencyEcosystem,
+  lockfile: string
+): LockedDependency[] {
+  if ('dependencies' in parsed) {
+    return parsed.dependencies.map(({ name, version, direct }) => ({
+      name,
+      version,
+      ecosystem,
+      lockfile,
+      path: [name],
+      direct,
+    }));
+  }
+
+  const paths = new Map<string, string[]>();
+  const roots = new Set(parsed.roots.filter((id) => parsed.packages.has(id)));
+  const queue = [...roots];
+  for (const id of queue) {
+    paths.set(id, [parsed.packages.get(id)!.name]);
+  }
+  for (let index = 0; index < queue.length; index++) {
+    const chain = paths.get(queue[index])!;
+    for (const dependency of parsed.packages.get(queue[index])!.dependencies) {
+      if (!paths.has(dependency) && parsed.packages.has(dependency)) {
+        paths.set(dependency, [...chain, parsed.packages.get(dependency)!.name]);
+        queue.push(dependency);
+      }
+    }
+  }
+
+  return [...parsed.packages].map(([id, { name, version }]) => ({
+    name,
+    version,
+    ecosystem,
+    lockfile,
+    path: paths.get(id) || [name],
+    direct: roots.has(id),
+  }));
+}
+
+/**
+ * Convert a version 1 package-lock dependency tree to version 2 package entries
+ */
+function flattenLockV1(
+  dependencies: Record<string, PackageLockV1Entry>,
+  prefix: string,
+  packages: Record<string, PackageEntry>
+): Record<string, PackageEntry> {
+  for (const [name, entry] of Object.entries(dependencies)) {
+    const key = `${prefix}node_modules/${name}`;
+    packages[key] = { version: entry.version, dependencies: entry.requires };
+    flattenLockV1(entry.dependencies || {}, `${key}/`, packages);
+  }
+  return packages;
+}
+
+/**
+ * Read the package.json of a lockfile's directory
+ */
+function readPackageJson(directory: string): PackageEntry {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(directory, 'package.json'), 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Strip the peer dependency suffix of a pnpm version, "1.0.0(react@18.2.0)" or "1.0.0_react@18.2.0"
+ */
+function stripPeerSuffix(version: string): string {
+  return version.replace(/[(_].*$/, '');
+}
+
+/**
+ * Parse the block mappings of a YAML document. Lists and flow collections are
+ * kept as strings, which is all pnpm lockfiles need.
+ */
+function parseSimpleYaml(content: string): YamlMap {
+  const root: YamlMap = {};
+  const stack: Array<{ indent: number; map: YamlMap }> = [{ indent: -1, map: root }];
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('- ')) {
+      continue;
+    }
+    const match = trimmed.match(/^('[^']*'|"[^"]*"|[^:]+?):(?:\s+(.*))?$/);
+    if (!match) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    while (stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const key = match[1].replace(/^['"]|['"]$/g, '');
+    const parent = stack[stack.length - 1].map;
+    if (match[2] === undefined || match[2] === '') {
+      const map: YamlMap = {};
+      parent[key] = map;
+      stack.push({ indent, map });
+    } else {
+      parent[key] = match[2].replace(/^['"]|['"]$/g, '');
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Treat a parsed YAML value as a mapping
+ */
+function asMap(value: string | YamlMap | undefined): YamlMap {
+  return value && typeof value === 'object' ? value : {};
+}
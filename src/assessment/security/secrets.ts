@@ -0,0 +1,421 @@
+/**
+ * Secret detection - provider-specific formats (AWS, GitHub, Stripe, JWTs,
+ * private keys, database URLs) and high-entropy values assigned to secret-like
+ * names, in the working tree and optionally in the git history
+ *
+ * Findings are allowlisted by the `secrets` section of the repository's
+ * .code-assessment.json:
+ *
+ *   { "secrets": { "paths": ["test/fixtures/**"], "values": ["^sk_test_"], "detectors": ["jwt"] } }
+ */
+
+import { SecurityIssue } from '../../types';
+import { FileTree } from '../../types';
+import { logger } from '../../utils/logger';
+import { readFileContent } from '../../utils/file-utils';
+import simpleGit from 'simple-git';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+
+export const SECRETS_CONFIG_FILE = '.code-assessment.json';
+
+export interface SecretDetector {
+  id: string;
+  description: string;
+  severity: SecurityIssue['severity'];
+  pattern: RegExp; // Global; the secret is the first capture group
+  minEntropy?: number; // Shannon entropy (bits per character) the secret must reach
+}
+
+export interface SecretAllowlist {
+  paths: RegExp[]; // Files not to scan, from path globs
+  values: RegExp[]; // Accepted secret values
+  detectors: string[]; // Detector ids to disable
+}
+
+export interface SecretScanOptions {
+  gitHistory?: boolean; // Also report secrets committed and later deleted
+  maxCommits?: number; // History depth (default: 1000)
+}
+
+interface SecretMatch {
+  detector: SecretDetector;
+  value: string;
+  line: number;
+  code: string;
+}
+
+export const SECRET_DETECTORS: SecretDetector[] = [
+  {
+    id: 'private-key',
+    description: 'Private key',
+    severity: 'critical',
+    pattern: /-----BEGIN ((?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?)-----/g,
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    severity: 'critical',
+    pattern: /\b((?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16})\b/g,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    severity: 'critical',
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["'`]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    minEntropy: 4,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    severity: 'critical',
+    pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/g,
+  },
+  {
+    id: 'stripe-live-key',
+    description: 'Stripe live secret key',
+    severity: 'critical',
+    pattern: /\b((?:sk|rk)_live_[0-9a-zA-Z]{24,99})\b/g,
+  },
+  {
+    id: 'stripe-test-key',
+    description: 'Stripe test secret key',
+    severity: 'low',
+    pattern: /\b((?:sk|rk)_test_[0-9a-zA-Z]{24,99})\b/g,
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    severity: 'high',
+    pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g,
+  },
+  {
+    id: 'database-url',
+    description: 'Database URL with password',
+    severity: 'critical',
+    pattern: new RegExp(
+      '\\b(?:postgres(?:ql)?|mysql|mariadb|mssql|mongodb(?:\\+srv)?|rediss?|amqps?)' +
+        ':\\/\\/[^\\s:@/\'"`]*:([^\\s@/\'"`]+)@',
+      'gi'
+    ),
+  },
+  {
+    id: 'generic-secret',
+    description: 'Hardcoded secret',
+    severity: 'high',
+    pattern: new RegExp(
+      '(?:password|passwd|pwd|secret|api[_-]?key|access[_-]?key|auth[_-]?token|access[_-]?token|private[_-]?key)' +
+        '\\w*["\']?\\s*(?::|=|:=|=>)\\s*["\'`]([^"\'`\\s]{8,})["\'`]',
+      'gi'
+    ),
+    minEntropy: 3,
+  },
+];
+
+/** Values that stand in for a secret: templates, environment lookups, examples */
+const PLACEHOLDER = new RegExp(
+  '^(?:x+|\\*+|pass(?:word)?|secret|\\.+|<[^>]*>|\\$\\{.*\\}|\\{\\{.*\\}\\}|%[^%]*%|\\$[A-Z_]+)$|' +
+    'example|changeme|change_me|placeholder|dummy|redacted|your[_-]|process\\.env|os\\.environ',
+  'i'
+);
+
+const SKIPPED_FILES =
+  /(^|\/)(node_modules|dist|build|vendor)\/|\.min\.js$|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$/;
+
+/**
+ * Scan the working tree, and optionally the git history, for secrets
+ */
+export async function scanForSecrets(
+  repoPath: string,
+  fileTree: FileTree,
+  options: SecretScanOptions = {}
+): Promise<SecurityIssue[]> {
+  const allowlist = loadSecretAllowlist(repoPath);
+  const detectors = SECRET_DETECTORS.filter((detector) => !allowlist.detectors.includes(detector.id));
+  const issues: SecurityIssue[] = [];
+  const present = new Set<string>();
+
+  for (const [relativePath, fileNode] of fileTree.files) {
+    if (fileNode.type !== 'file' || relativePath === SECRETS_CONFIG_FILE) {
+      continue;
+    }
+    if (SKIPPED_FILES.test(relativePath) || isAllowedPath(relativePath, allowlist)) {
+      continue;
+    }
+    const content = fileNode.content ?? readFileContent(fileNode.path || path.join(repoPath, relativePath));
+    if (!content || content.includes('\0')) {
+      continue; // Too large or binary
+    }
+
+    content.split('\n').forEach((code, index) => {
+      for (const match of findSecrets(code, index + 1, detectors, allowlist)) {
+        present.add(getSecretKey(relativePath, match));
+        issues.push(createSecretIssue(relativePath, match));
+      }
+    });
+  }
+
+  if (options.gitHistory) {
+    try {
+      issues.push(...(await scanGitHistory(repoPath, detectors, allowlist, present, options.maxCommits)));
+    } catch (error: any) {
+      logger.warn('Git history secret scan failed', { repoPath, error: error.message });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read the secrets allowlist from the repository config file. Invalid value
+ * patterns are logged and skipped rather than failing the scan.
+ */
+export function loadSecretAllowlist(repoPath: string): SecretAllowlist {
+  const allowlist: SecretAllowlist = { paths: [], values: [], detectors: [] };
+  const configPath = path.join(repoPath, SECRETS_CONFIG_FILE);
+  if (!fs.existsSync(configPath)) {
+    return allowlist;
+  }
+
+  let config: { paths?: unknown; values?: unknown; detectors?: unknown };
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8')).secrets || {};
+  } catch (error: any) {
+    logger.warn('Invalid repository config file', { file: configPath, error: error.message });
+    return allowlist;
+  }
+
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  allowlist.paths = strings(config.paths).map(globToRegExp);
+  allowlist.detectors = strings(config.detectors);
+  for (const pattern of strings(config.values)) {
+    try {
+      allowlist.values.push(new RegExp(pattern));
+    } catch (error: any) {
+      logger.warn('Invalid secret allowlist pattern', { file: configPath, pattern, error: error.message });
+    }
+  }
+
+  return allowlist;
+}
+
+/**
+ * Calculate the Shannon entropy of a string in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Mask all but the first characters of a secret
+ */
+export function redactSecret(value: string): string {
+  const visible = value.length > 12 ? 4 : 0;
+  return value.slice(0, visible) + '*'.repeat(Math.min(value.length - visible, 16));
+}
+
+/**
+ * Find the secrets on one line, one finding per value
+ */
+function findSecrets(
+  code: string,
+  line: number,
+  detectors: SecretDetector[],
+  allowlist: SecretAllowlist
+): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+
+  for (const detector of detectors) {
+    for (const match of code.matchAll(detector.pattern)) {
+      const value = match[1];
+      if (!value || matches.some((found) => found.value.includes(value) || value.includes(found.value))) {
+        continue;
+      }
+      if (detector.minEntropy !== undefined && shannonEntropy(value) < detector.minEntropy) {
+        continue;
+      }
+      if (PLACEHOLDER.test(value) || allowlist.values.some((pattern) => pattern.test(value))) {
+        continue;
+      }
+      matches.push({ detector, value, line, code });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Report secrets added in past commits that are no longer in the working tree
+ */
+async function scanGitHistory(
+  repoPath: string,
+  detectors: SecretDetector[],
+  allowlist: SecretAllowlist,
+  present: Set<string>,
+  maxCommits = 1000
+): Promise<SecurityIssue[]> {
+  const git = simpleGit(repoPath);
+  if (!(await git.checkIsRepo())) {
+    return [];
+  }
+
+  // Newest first, only added lines (-U0), one NUL-prefixed header per commit.
+  // Streamed line by line, as the patches of a long history do not fit in memory.
+  const log = spawn(
+    'git',
+    [
+      'log',
+      '--all',
+      '--no-merges',
+      '--no-color',
+      '--no-ext-diff',
+      '-p',
+      '-U0',
+      `--max-count=${maxCommits}`,
+      '--format=%x00%H%x09%an <%ae>%x09%aI',
+    ],
+    { cwd: repoPath, stdio: ['ignore', 'pipe', 'pipe'] }
+  );
+  let stderr = '';
+  log.stderr.on('data', (chunk) => {
+    stderr = (stderr + chunk).slice(-1000);
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    log.on('error', reject);
+    log.on('close', resolve);
+  });
+  // Observe a spawn failure while the output is read; it is rethrown when awaited below
+  exited.catch(() => undefined);
+
+  // Keep the oldest commit that added each secret
+  const introduced = new Map<string, SecurityIssue>();
+  let commit = { sha: '', author: '', date: '' };
+  let file: string | null = null;
+  let line = 0;
+
+  try {
+    for await (const code of readline.createInterface({ input: log.stdout, crlfDelay: Infinity })) {
+      if (code.startsWith('\0')) {
+        const [sha, author, date] = code.slice(1).split('\t');
+        commit = { sha, author, date };
+        file = null;
+      } else if (code.startsWith('+++ ')) {
+        file = code === '+++ /dev/null' ? null : code.slice(4).replace(/^b\//, '');
+      } else if (code.startsWith('@@')) {
+        line = parseInt(/\+(\d+)/.exec(code)?.[1] || '0', 10);
+      } else if (code.startsWith('+') && file) {
+        if (!SKIPPED_FILES.test(file) && !isAllowedPath(file, allowlist) && file !== SECRETS_CONFIG_FILE) {
+          for (const match of findSecrets(code.slice(1), line, detectors, allowlist)) {
+            if (!present.has(getSecretKey(file, match))) {
+              introduced.set(getSecretKey(file, match), createSecretIssue(file, match, commit));
+            }
+          }
+        }
+        line++;
+      }
+    }
+  } catch (error) {
+    // Stop git rather than leave it blocked on a full pipe
+    if (log.exitCode === null) {
+      log.kill();
+    }
+    throw error;
+  }
+
+  const exitCode = await exited;
+  if (exitCode !== 0) {
+    throw new Error(`git log exited with ${exitCode}: ${stderr.trim()}`);
+  }
+
+  return [...introduced.values()];
+}
+
+/**
+ * Identify a secret across files and commits; private keys only by file, their header being all that is matched
+ */
+function getSecretKey(file: string, match: SecretMatch): string {
+  return match.detector.id === 'private-key' ? `${file}:${match.value}` : match.value;
+}
+
+/**
+ * Describe a secret finding with a redacted snippet
+ */
+function createSecretIssue(
+  file: string,
+  match: SecretMatch,
+  commit?: { sha: string; author: string; date: string }
+): SecurityIssue {
+  const codeSnippet = match.code.split(match.value).join(redactSecret(match.value)).trim().substring(0, 100);
+
+  if (commit) {
+    return {
+      id: `secret-${match.detector.id}-${commit.sha.slice(0, 7)}-${file}-${match.line}`,
+      type: 'sensitive-data',
+      severity: match.detector.severity,
+      title: 'Secret in Git History',
+      description:
+        `${match.detector.description} committed in ${commit.sha.slice(0, 7)} by ${commit.author} ` +
+        `on ${commit.date.slice(0, 10)} and since removed from the working tree`,
+      file,
+      line: match.line,
+      rule: `secret-${match.detector.id}`,
+      recommendation: 'Revoke and rotate the secret; deleting it does not remove it from the git history',
+      codeSnippet,
+      commit: commit.sha,
+      author: commit.author,
+    };
+  }
+
+  return {
+    id: `secret-${match.detector.id}-${file}-${match.line}`,
+    type: 'sensitive-data',
+    severity: match.detector.severity,
+    title: 'Hardcoded Secret',
+    description: match.detector.description,
+    file,
+    line: match.line,
+    rule: `secret-${match.detector.id}`,
+    recommendation: 'Move the secret to environment variables or a secret manager and rotate it',
+    codeSnippet,
+  };
+}
+
+/**
+ * Check a file against the allowlisted paths
+ */
+function isAllowedPath(file: string, allowlist: SecretAllowlist): boolean {
+  return allowlist.paths.some((pattern) => pattern.test(file));
+}
+
+/**
+ * Convert a path glob (*, **, ?) to a regular expression, one token at a time
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/\*\*\/|\*\*|\*|\?|[.+^${}()|[\]\\]/g, (token) => {
+    switch (token) {
+      case '**/':
+        return '(?:.*/)?';
+      case '**':
+        return '.*';
+      case '*':
+        return '[^/]*';
+      case '?':
+        return '[^/]';
+      default:
+        return `\\${token}`;
+    }
+  });
+  return new RegExp(`^${source}$`);
+}
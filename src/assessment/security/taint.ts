@@ -0,0 +1,1059 @@
+/**
+ * AST taint analysis for injection vulnerabilities
+ *
+ * Follows request input (req.body, req.query, req.params, ctx.request) and the
+ * browser location through assignments, expressions and calls into raw SQL
+ * queries, dangerouslySetInnerHTML, eval, child_process commands and fs paths.
+ * Each function is summarized by which of its parameters reach a sink or its
+ * return value, so flows are followed through calls to functions in the same
+ * file and, via the import edges of the dependency graph, in other files.
+ */
+
+import * as t from '@babel/types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SecurityIssue, SecurityTraceStep } from '../../types';
+import { DependencyGraph, FileTree, ParsedFile } from '../../types';
+import { parseFrontendFile } from '../../analyzers/frontend/parser';
+import { parseBackendFile } from '../../analyzers/backend/parser';
+import { buildBackendDependencyGraph } from '../../analyzers/backend/graph-builder';
+import { isRawSQLCall } from '../../analyzers/backend/query-detector';
+import { getFileAst } from '../../services/file-cache';
+
+export interface TaintAnalysisOptions {
+  parsedFiles?: ParsedFile[]; // Parsed files of the repository; script files are parsed when omitted
+  dependencyGraph?: DependencyGraph; // Resolves imported functions; built from the files when omitted
+}
+
+type SinkKind = 'sql-injection' | 'xss' | 'command-injection' | 'code-injection' | 'path-traversal';
+
+/** Untrusted data: request input, or a parameter of the function being summarized */
+interface Taint {
+  param?: number;
+  trace: SecurityTraceStep[];
+}
+
+type Env = Map<string, Taint[]>;
+
+interface SinkFlow {
+  kind: SinkKind;
+  sink: SecurityTraceStep;
+  taint: Taint; // Parameter taint reaching the sink
+}
+
+interface FunctionSummary {
+  returns: Taint[];
+  sinks: SinkFlow[];
+}
+
+interface ImportBinding {
+  source: string;
+  imported: string; // Exported name, 'default', or '*' for namespace imports and require()
+}
+
+interface TaintModule {
+  filePath: string;
+  relativePath: string;
+  content: string;
+  ast: t.File;
+  functions: Map<string, t.Function>; // Module-level functions by local name
+  exports: Map<string, t.Function>;
+  imports: Map<string, ImportBinding>;
+}
+
+interface TaintContext {
+  modules: Map<string, TaintModule>;
+  importEdges: Map<string, Map<string, string>>; // File -> import source -> imported file
+  summaries: Map<t.Function, FunctionSummary>;
+  findings: Map<string, SecurityIssue>;
+}
+
+interface Scope {
+  context: TaintContext;
+  module: TaintModule;
+  env: Env;
+  returns: Taint[];
+  sinks: SinkFlow[];
+  analyzed: Set<t.Node>; // Nested functions already analyzed in this scope
+}
+
+const SINK_RULES: Record<
+  SinkKind,
+  { severity: SecurityIssue['severity']; title: string; reaches: string; recommendation: string }
+> = {
+  'sql-injection': {
+    severity: 'critical',
+    title: 'SQL Injection',
+    reaches: 'reaches a raw SQL query',
+    recommendation: 'Use parameterized queries or prepared statements',
+  },
+  xss: {
+    severity: 'high',
+    title: 'Cross-Site Scripting (XSS)',
+    reaches: 'is rendered as HTML',
+    recommendation: 'Sanitize user input before rendering (e.g. DOMPurify) or render it as text',
+  },
+  'command-injection': {
+    severity: 'critical',
+    title: 'Command Injection',
+    reaches: 'reaches a shell command',
+    recommendation: 'Pass arguments as an array to execFile/spawn and validate them against an allowlist',
+  },
+  'code-injection': {
+    severity: 'critical',
+    title: 'Code Injection',
+    reaches: 'is evaluated as code',
+    recommendation: 'Never evaluate user input; parse it as data (e.g. JSON.parse) instead',
+  },
+  'path-traversal': {
+    severity: 'high',
+    title: 'Path Traversal',
+    reaches: 'is used as a file system path',
+    recommendation: 'Resolve the path against a base directory and reject paths that escape it',
+  },
+};
+
+/** Request properties carrying client input, by request object name */
+const REQUEST_SOURCES: Record<string, string[]> = {
+  req: ['body', 'query', 'params'],
+  request: ['body', 'query', 'params'],
+  ctx: ['request', 'query', 'params'], // Koa
+};
+
+const COMMAND_METHODS = ['exec', 'execFile', 'spawn', 'fork'];
+const FILE_METHODS = [
+  'readFile',
+  'writeFile',
+  'appendFile',
+  'createReadStream',
+  'createWriteStream',
+  'unlink',
+  'rm',
+  'readdir',
+  'copyFile',
+  'rename',
+  'open',
+];
+
+/** Calls whose result no longer carries the input: conversions, sanitizers and predicates */
+const SANITIZER_PATTERN = new RegExp(
+  '^(parseInt|parseFloat|Number|Boolean|isNaN|basename|includes|startsWith|endsWith|test|has|some|every|indexOf)$' +
+    '|^(escape|sanitiz)|Escape|Sanitiz'
+);
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.vue', '.svelte'];
+
+/**
+ * Find untrusted input flowing into injection sinks
+ */
+export function analyzeTaintFlows(
+  repoPath: string,
+  fileTree: FileTree,
+  options: TaintAnalysisOptions = {}
+): SecurityIssue[] {
+  const files = options.parsedFiles || parseScriptFiles(repoPath, fileTree);
+  const modules = new Map<string, TaintModule>();
+
+  for (const file of files) {
+    const module = loadModule(repoPath, file);
+    if (module) {
+      modules.set(module.filePath, module);
+    }
+  }
+
+  const graph =
+    options.dependencyGraph ||
+    buildBackendDependencyGraph({
+      files: new Map(files.map((file) => [file.path, file])),
+      endpoints: [],
+      services: [],
+      queries: [],
+    });
+  const context: TaintContext = {
+    modules,
+    importEdges: indexImportEdges(graph),
+    summaries: new Map(),
+    findings: new Map(),
+  };
+
+  for (const module of modules.values()) {
+    const scope = createScope(context, module, new Map());
+    for (const statement of module.ast.program.body) {
+      executeStatement(statement, scope);
+    }
+  }
+
+  return [...context.findings.values()];
+}
+
+/**
+ * Parse the JavaScript, TypeScript, Vue and Svelte files of the file tree
+ */
+function parseScriptFiles(repoPath: string, fileTree: FileTree): ParsedFile[] {
+  const files: ParsedFile[] = [];
+
+  for (const [relativePath, fileNode] of fileTree.files) {
+    const ext = path.extname(relativePath).toLowerCase();
+    if (
+      fileNode.type !== 'file' ||
+      !SCRIPT_EXTENSIONS.includes(ext) ||
+      /node_modules|\.(test|spec)\.|\.d\.ts$/.test(relativePath)
+    ) {
+      continue;
+    }
+    const file = parseScript(fileNode.path || path.join(repoPath, relativePath), fileNode.content);
+    if (file) {
+      files.push(file);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Parse a script file with the frontend parser for JSX and components, the backend parser otherwise
+ */
+function parseScript(filePath: string, content?: string): ParsedFile | null {
+  const ext = path.extname(filePath).toLowerCase();
+  return ['.jsx', '.tsx', '.vue', '.svelte'].includes(ext)
+    ? parseFrontendFile(filePath, content)
+    : parseBackendFile(filePath, content);
+}
+
+/**
+ * Index a parsed file's functions, exports and imports
+ */
+function loadModule(repoPath: string, file: ParsedFile): TaintModule | null {
+  if (!SCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase())) {
+    return null;
+  }
+
+  let content: string;
+  try {
+    content = fs.readFileSync(file.path, 'utf-8');
+  } catch {
+    return null;
+  }
+  const ast = getFileAst(file, content);
+  if (!ast) {
+    return null;
+  }
+
+  const module: TaintModule = {
+    filePath: file.path,
+    relativePath: path.isAbsolute(file.path) ? path.relative(repoPath, file.path) : file.path,
+    content,
+    ast,
+    functions: new Map(),
+    exports: new Map(),
+    imports: new Map(),
+  };
+
+  const body = ast.program.body;
+  for (const statement of body) {
+    collectDeclarations(t.isExportNamedDeclaration(statement) ? statement.declaration : statement, module);
+  }
+  for (const statement of body) {
+    collectExports(statement, module);
+  }
+
+  return module;
+}
+
+/**
+ * Record module-level functions and imported bindings
+ */
+function collectDeclarations(statement: t.Node | null | undefined, module: TaintModule): void {
+  if (t.isFunctionDeclaration(statement) && statement.id) {
+    module.functions.set(statement.id.name, statement);
+  } else if (t.isImportDeclaration(statement)) {
+    for (const specifier of statement.specifiers) {
+      let imported = '*';
+      if (t.isImportDefaultSpecifier(specifier)) {
+        imported = 'default';
+      } else if (t.isImportSpecifier(specifier)) {
+        imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+      }
+      module.imports.set(specifier.local.name, { source: statement.source.value, imported });
+    }
+  } else if (t.isVariableDeclaration(statement)) {
+    for (const declarator of statement.declarations) {
+      const init = declarator.init;
+      const source = getRequireSource(init);
+      if (t.isIdentifier(declarator.id) && (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))) {
+        module.functions.set(declarator.id.name, init);
+      } else if (source && t.isIdentifier(declarator.id)) {
+        module.imports.set(declarator.id.name, { source, imported: '*' });
+      } else if (source && t.isObjectPattern(declarator.id)) {
+        // const { exec } = require('child_process')
+        for (const property of declarator.id.properties) {
+          if (t.isObjectProperty(property) && t.isIdentifier(property.key) && t.isIdentifier(property.value)) {
+            module.imports.set(property.value.name, { source, imported: property.key.name });
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Record exported functions: ES exports, module.exports and exports.name assignments
+ */
+function collectExports(statement: t.Statement, module: TaintModule): void {
+  const exportValue = (name: string, value: t.Node | null | undefined): void => {
+    const fn = t.isIdentifier(value) ? module.functions.get(value.name) : value;
+    if (fn && t.isFunction(fn)) {
+      module.exports.set(name, fn);
+    } else if (t.isObjectExpression(value) && name === 'default') {
+      // module.exports = { findUser, deleteUser }
+      for (const property of value.properties) {
+        if ((t.isObjectProperty(property) || t.isObjectMethod(property)) && t.isIdentifier(property.key)) {
+          exportValue(property.key.name, t.isObjectMethod(property) ? property : property.value);
+        }
+      }
+    }
+  };
+
+  if (t.isExportNamedDeclaration(statement)) {
+    const declaration = statement.declaration;
+    if (t.isFunctionDeclaration(declaration) && declaration.id) {
+      exportValue(declaration.id.name, declaration);
+    } else if (t.isVariableDeclaration(declaration)) {
+      for (const declarator of declaration.declarations) {
+        if (t.isIdentifier(declarator.id)) {
+          exportValue(declarator.id.name, declarator.init);
+        }
+      }
+    }
+    for (const specifier of statement.specifiers) {
+      if (t.isExportSpecifier(specifier)) {
+        const exported = t.isIdentifier(specifier.exported) ? specifier.exported.name : specifier.exported.value;
+        exportValue(exported, specifier.local);
+      }
+    }
+  } else if (t.isExportDefaultDeclaration(statement)) {
+    exportValue('default', statement.declaration);
+  } else if (t.isExpressionStatement(statement) && t.isAssignmentExpression(statement.expression)) {
+    const target = getMemberPath(statement.expression.left);
+    if (target === 'module.exports') {
+      exportValue('default', statement.expression.right);
+    } else if (target && /^(module\.)?exports\.\w+$/.test(target)) {
+      exportValue(target.split('.').pop()!, statement.expression.right);
+    }
+  }
+}
+
+/**
+ * Map each file to the files its import sources resolve to in the dependency graph
+ */
+function indexImportEdges(graph: DependencyGraph): Map<string, Map<string, string>> {
+  const nodeFiles = new Map(graph.nodes.filter((node) => node.file).map((node) => [node.id, node.file!]));
+  const edges = new Map<string, Map<string, string>>();
+
+  for (const edge of graph.edges) {
+    const from = nodeFiles.get(edge.from);
+    const to = nodeFiles.get(edge.to);
+    if (edge.type !== 'import' || !from || !to || typeof edge.metadata.importSource !== 'string') {
+      continue;
+    }
+    if (!edges.has(from)) {
+      edges.set(from, new Map());
+    }
+    edges.get(from)!.set(edge.metadata.importSource, to);
+  }
+
+  return edges;
+}
+
+/**
+ * Create the analysis scope of a function or module body
+ */
+function createScope(context: TaintContext, module: TaintModule, env: Env): Scope {
+  return { context, module, env, returns: [], sinks: [], analyzed: new Set() };
+}
+
+/**
+ * Propagate taint through a statement
+ */
+function executeStatement(statement: t.Node | null | undefined, scope: Scope): void {
+  if (!statement) {
+    return;
+  }
+
+  if (t.isVariableDeclaration(statement)) {
+    for (const declarator of statement.declarations) {
+      assign(declarator.id, evaluate(declarator.init, scope), declarator, scope);
+    }
+  } else if (t.isExpressionStatement(statement)) {
+    evaluate(statement.expression, scope);
+  } else if (t.isReturnStatement(statement)) {
+    const taints = evaluate(statement.argument, scope);
+    scope.returns = union(scope.returns, addStep(taints, createStep('return', statement, scope.module)));
+  } else if (t.isThrowStatement(statement)) {
+    evaluate(statement.argument, scope);
+  } else if (t.isBlockStatement(statement)) {
+    statement.body.forEach((child) => executeStatement(child, scope));
+  } else if (t.isIfStatement(statement)) {
+    evaluate(statement.test, scope);
+    executeBranches([statement.consequent, statement.alternate], scope);
+  } else if (t.isSwitchStatement(statement)) {
+    evaluate(statement.discriminant, scope);
+    const cases = statement.cases.map((switchCase) => t.blockStatement(switchCase.consequent));
+    // Without a default case no branch may run
+    const fallthrough = statement.cases.some((switchCase) => !switchCase.test) ? [] : [null];
+    executeBranches([...cases, ...fallthrough], scope);
+  } else if (t.isTryStatement(statement)) {
+    executeStatement(statement.block, scope);
+    if (statement.handler) {
+      if (statement.handler.param) {
+        bindPattern(statement.handler.param, [], scope.env);
+      }
+      executeStatement(statement.handler.body, scope);
+    }
+    executeStatement(statement.finalizer, scope);
+  } else if (t.isLoop(statement)) {
+    executeLoop(statement, scope);
+  } else if (t.isLabeledStatement(statement)) {
+    executeStatement(statement.body, scope);
+  } else if (t.isFunctionDeclaration(statement)) {
+    analyzeNestedFunction(statement, scope);
+  } else if (t.isClassDeclaration(statement)) {
+    analyzeClass(statement, scope);
+  } else if (t.isExportNamedDeclaration(statement)) {
+    executeStatement(statement.declaration, scope);
+  } else if (t.isExportDefaultDeclaration(statement)) {
+    const declaration = statement.declaration;
+    if (t.isExpression(declaration)) {
+      evaluate(declaration, scope);
+    } else {
+      executeStatement(declaration, scope);
+    }
+  }
+}
+
+/**
+ * Run alternative branches from the same state and merge their results. A
+ * missing branch (no else) keeps the state from before.
+ */
+function executeBranches(branches: Array<t.Statement | null | undefined>, scope: Scope): void {
+  const before = scope.env;
+  const results: Env[] = [];
+
+  for (const branch of branches) {
+    scope.env = new Map(before);
+    executeStatement(branch, scope);
+    results.push(scope.env);
+  }
+
+  scope.env = new Map();
+  for (const result of results) {
+    for (const [name, taints] of result) {
+      scope.env.set(name, union(scope.env.get(name) || [], taints));
+    }
+  }
+}
+
+/**
+ * Run a loop body twice so values assigned late in one iteration reach the next
+ */
+function executeLoop(loop: t.Loop, scope: Scope): void {
+  if (t.isForStatement(loop)) {
+    if (t.isVariableDeclaration(loop.init)) {
+      executeStatement(loop.init, scope);
+    } else {
+      evaluate(loop.init, scope);
+    }
+  }
+
+  for (let iteration = 0; iteration < 2; iteration++) {
+    if (t.isForOfStatement(loop) || t.isForInStatement(loop)) {
+      // Elements of a tainted collection are tainted; for...in keys are not
+      const taints = evaluate(loop.right, scope);
+      const left = t.isVariableDeclaration(loop.left) ? loop.left.declarations[0].id : loop.left;
+      assign(left, t.isForOfStatement(loop) ? taints : [], loop.left, scope);
+    } else if (t.isForStatement(loop)) {
+      evaluate(loop.test, scope);
+      evaluate(loop.update, scope);
+    } else {
+      evaluate(loop.test, scope);
+    }
+    executeStatement(loop.body, scope);
+  }
+}
+
+/**
+ * Compute the taint of an expression, reporting the sinks it reaches
+ */
+function evaluate(node: t.Node | null | undefined, scope: Scope): Taint[] {
+  if (!node) {
+    return [];
+  }
+
+  const source = getSource(node, scope);
+  if (source) {
+    return [{ trace: [createStep('source', source, scope.module)] }];
+  }
+
+  if (t.isIdentifier(node)) {
+    return scope.env.get(node.name) || [];
+  }
+  if (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) {
+    if (node.computed) {
+      evaluate(node.property, scope);
+    }
+    return evaluate(node.object, scope);
+  }
+  if (t.isCallExpression(node) || t.isOptionalCallExpression(node)) {
+    return evaluateCall(node, scope);
+  }
+  if (t.isNewExpression(node)) {
+    const args = node.arguments.map((arg) => evaluate(arg, scope));
+    if (t.isIdentifier(node.callee, { name: 'Function' })) {
+      reportSink('code-injection', node, args.flat(), scope);
+    }
+    return union(...args);
+  }
+  if (t.isAssignmentExpression(node)) {
+    return evaluateAssignment(node, scope);
+  }
+  if (t.isTemplateLiteral(node)) {
+    return union(...node.expressions.map((expression) => evaluate(expression, scope)));
+  }
+  if (t.isBinaryExpression(node)) {
+    const left = evaluate(node.left, scope);
+    const right = evaluate(node.right, scope);
+    // Only concatenation carries the operands into the result
+    return node.operator === '+' ? union(left, right) : [];
+  }
+  if (t.isLogicalExpression(node)) {
+    return union(evaluate(node.left, scope), evaluate(node.right, scope));
+  }
+  if (t.isConditionalExpression(node)) {
+    evaluate(node.test, scope);
+    return union(evaluate(node.consequent, scope), evaluate(node.alternate, scope));
+  }
+  if (t.isSequenceExpression(node)) {
+    const results = node.expressions.map((expression) => evaluate(expression, scope));
+    return results[results.length - 1];
+  }
+  if (
+    t.isAwaitExpression(node) ||
+    t.isSpreadElement(node) ||
+    t.isUnaryExpression(node) ||
+    t.isUpdateExpression(node) ||
+    t.isYieldExpression(node)
+  ) {
+    const taints = evaluate(node.argument, scope);
+    return t.isUnaryExpression(node) || t.isUpdateExpression(node) ? [] : taints;
+  }
+  if (
+    t.isTSAsExpression(node) ||
+    t.isTSSatisfiesExpression(node) ||
+    t.isTSNonNullExpression(node) ||
+    t.isTSTypeAssertion(node) ||
+    t.isParenthesizedExpression(node)
+  ) {
+    return evaluate(node.expression, scope);
+  }
+  if (t.isObjectExpression(node)) {
+    return union(
+      ...node.properties.map((property) => {
+        if (t.isObjectMethod(property)) {
+          analyzeNestedFunction(property, scope);
+          return [];
+        }
+        return evaluate(t.isObjectProperty(property) ? property.value : property, scope);
+      })
+    );
+  }
+  if (t.isArrayExpression(node)) {
+    return union(...node.elements.map((element) => evaluate(element, scope)));
+  }
+  if (t.isTaggedTemplateExpression(node)) {
+    // sql`...` and similar tags escape their interpolations
+    node.quasi.expressions.forEach((expression) => evaluate(expression, scope));
+    return [];
+  }
+  if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) {
+    analyzeNestedFunction(node, scope);
+    return [];
+  }
+  if (t.isClassExpression(node)) {
+    analyzeClass(node, scope);
+    return [];
+  }
+  if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+    evaluateJSX(node, scope);
+    return [];
+  }
+
+  return [];
+}
+
+/**
+ * Find the request or location input read by an expression, if any
+ */
+function getSource(node: t.Node, scope: Scope): t.Node | null {
+  let current: t.Node = node;
+
+  while (t.isMemberExpression(current) || t.isOptionalMemberExpression(current)) {
+    const object: t.Node = current.object;
+    const property = getPropertyName(current);
+    if (t.isIdentifier(object) && property) {
+      if (REQUEST_SOURCES[object.name]?.includes(property)) {
+        return node;
+      }
+      if ((object.name === 'window' || object.name === 'document') && property === 'location') {
+        return node;
+      }
+    }
+    current = object;
+  }
+
+  // The global location, unless shadowed by a local binding
+  return t.isIdentifier(current, { name: 'location' }) && !scope.env.has('location') ? node : null;
+}
+
+/**
+ * Propagate taint through a call: sinks, summarized functions and other calls
+ */
+function evaluateCall(node: t.CallExpression | t.OptionalCallExpression, scope: Scope): Taint[] {
+  const callee = node.callee;
+  const receiver = t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)
+    ? evaluate(callee.object, scope)
+    : [];
+  const args = node.arguments.map((arg) => evaluate(arg, scope));
+  const first = args[0] || [];
+
+  if (t.isCallExpression(node) && isRawSQLCall(node)) {
+    reportSink('sql-injection', node, first, scope);
+  }
+  if (t.isIdentifier(callee, { name: 'eval' }) && !scope.env.has('eval')) {
+    reportSink('code-injection', node, first, scope);
+  }
+  if (getMemberPath(callee)?.match(/^document\.(write|writeln)$/)) {
+    reportSink('xss', node, union(...args), scope);
+  }
+
+  const builtin = resolveBuiltin(callee, scope.module);
+  if (builtin) {
+    const method = builtin.method.replace(/Sync$/, '');
+    if (builtin.module === 'child_process' && COMMAND_METHODS.includes(method)) {
+      reportSink('command-injection', node, first, scope);
+    } else if (builtin.module === 'fs' && FILE_METHODS.includes(method)) {
+      reportSink('path-traversal', node, first, scope);
+    }
+  }
+
+  const target = resolveFunction(callee, scope.module, scope.context);
+  if (target) {
+    return applySummary(node, summarizeFunction(target.fn, target.module, scope.context), args, scope);
+  }
+
+  const name = t.isIdentifier(callee) ? callee.name : getPropertyName(callee);
+  if (name && SANITIZER_PATTERN.test(name)) {
+    return [];
+  }
+  return union(receiver, ...args);
+}
+
+/**
+ * Map a summarized function's parameter flows onto the arguments of a call
+ */
+function applySummary(
+  node: t.CallExpression | t.OptionalCallExpression,
+  summary: FunctionSummary,
+  args: Taint[][],
+  scope: Scope
+): Taint[] {
+  const call = createStep('call', node, scope.module);
+  const through = (taint: Taint, callee: Taint): Taint => ({
+    param: taint.param,
+    trace: [...taint.trace, call, ...callee.trace],
+  });
+
+  for (const flow of summary.sinks) {
+    const taints = (args[flow.taint.param!] || []).map((taint) => through(taint, flow.taint));
+    dispatchSink(flow.kind, flow.sink, taints, scope);
+  }
+
+  const returns: Taint[] = [];
+  for (const taint of summary.returns) {
+    if (taint.param === undefined) {
+      returns.push(taint);
+    } else {
+      returns.push(...(args[taint.param] || []).map((arg) => through(arg, taint)));
+    }
+  }
+  return union(returns);
+}
+
+/**
+ * Propagate taint through an assignment, reporting innerHTML sinks
+ */
+function evaluateAssignment(node: t.AssignmentExpression, scope: Scope): Taint[] {
+  const taints = evaluate(node.right, scope);
+  const left = node.left;
+
+  if (t.isMemberExpression(left)) {
+    const property = getPropertyName(left);
+    if (property === 'innerHTML' || property === 'outerHTML') {
+      reportSink('xss', node, taints, scope);
+    }
+    // Storing into an object taints the object
+    const root = getRootIdentifier(left);
+    if (root && taints.length > 0) {
+      const stored = addStep(taints, createStep('assignment', node, scope.module));
+      scope.env.set(root.name, union(scope.env.get(root.name) || [], stored));
+    }
+    return taints;
+  }
+
+  if (node.operator === '=') {
+    assign(left, taints, node, scope);
+    return taints;
+  }
+  // x += input: the previous value stays part of the result
+  const combined = union(evaluate(left, scope), taints);
+  assign(left, combined, node, scope);
+  return combined;
+}
+
+/**
+ * Bind assigned taint to a pattern, recording the assignment in the trace
+ */
+function assign(target: t.Node, taints: Taint[], node: t.Node, scope: Scope): void {
+  const stored = taints.length > 0 ? addStep(taints, createStep('assignment', node, scope.module)) : taints;
+  bindPattern(target, stored, scope.env);
+}
+
+/**
+ * Bind taint to every identifier of a declaration or assignment pattern
+ */
+function bindPattern(pattern: t.Node, taints: Taint[], env: Env): void {
+  if (t.isIdentifier(pattern)) {
+    env.set(pattern.name, taints);
+  } else if (t.isObjectPattern(pattern)) {
+    for (const property of pattern.properties) {
+      bindPattern(t.isRestElement(property) ? property.argument : property.value, taints, env);
+    }
+  } else if (t.isArrayPattern(pattern)) {
+    pattern.elements.forEach((element) => element && bindPattern(element, taints, env));
+  } else if (t.isAssignmentPattern(pattern)) {
+    bindPattern(pattern.left, taints, env);
+  } else if (t.isRestElement(pattern)) {
+    bindPattern(pattern.argument, taints, env);
+  } else if (t.isTSParameterProperty(pattern)) {
+    bindPattern(pattern.parameter, taints, env);
+  }
+}
+
+/**
+ * Visit JSX attributes and children, reporting dangerouslySetInnerHTML sinks
+ */
+function evaluateJSX(node: t.JSXElement | t.JSXFragment, scope: Scope): void {
+  if (t.isJSXElement(node)) {
+    for (const attribute of node.openingElement.attributes) {
+      if (t.isJSXSpreadAttribute(attribute)) {
+        evaluate(attribute.argument, scope);
+        continue;
+      }
+      const value = attribute.value;
+      const taints = t.isJSXExpressionContainer(value) ? evaluate(value.expression, scope) : [];
+      if (t.isJSXIdentifier(attribute.name, { name: 'dangerouslySetInnerHTML' })) {
+        reportSink('xss', attribute, taints, scope);
+      }
+    }
+  }
+
+  for (const child of node.children) {
+    if (t.isJSXExpressionContainer(child)) {
+      evaluate(child.expression, scope);
+    } else if (t.isJSXElement(child) || t.isJSXFragment(child)) {
+      evaluateJSX(child, scope);
+    }
+  }
+}
+
+/**
+ * Analyze a function defined inside the current scope; it sees the enclosing variables
+ */
+function analyzeNestedFunction(fn: t.Function, scope: Scope): void {
+  if (scope.analyzed.has(fn)) {
+    return;
+  }
+  scope.analyzed.add(fn);
+  analyzeFunction(fn, scope.module, scope.context, scope.env, false);
+}
+
+/**
+ * Analyze the methods of a class
+ */
+function analyzeClass(node: t.Class, scope: Scope): void {
+  for (const member of node.body.body) {
+    if (t.isClassMethod(member) || t.isClassPrivateMethod(member)) {
+      analyzeNestedFunction(member, scope);
+    } else if ((t.isClassProperty(member) || t.isClassPrivateProperty(member)) && member.value) {
+      evaluate(member.value, scope);
+    }
+  }
+}
+
+/**
+ * Summarize which parameters of a module-level function reach sinks or its return value
+ */
+function summarizeFunction(fn: t.Function, module: TaintModule, context: TaintContext): FunctionSummary {
+  const cached = context.summaries.get(fn);
+  if (cached) {
+    return cached;
+  }
+
+  // Recursive calls see an empty summary while the function is analyzed
+  context.summaries.set(fn, { returns: [], sinks: [] });
+  const summary = analyzeFunction(fn, module, context, new Map(), true);
+  context.summaries.set(fn, summary);
+  return summary;
+}
+
+/**
+ * Analyze a function body, optionally tracking its parameters as taint
+ */
+function analyzeFunction(
+  fn: t.Function,
+  module: TaintModule,
+  context: TaintContext,
+  closure: Env,
+  trackParameters: boolean
+): FunctionSummary {
+  const scope = createScope(context, module, new Map(closure));
+
+  fn.params.forEach((param, index) => {
+    bindPattern(param, trackParameters ? [{ param: index, trace: [] }] : [], scope.env);
+  });
+
+  if (t.isBlockStatement(fn.body)) {
+    executeStatement(fn.body, scope);
+  } else {
+    // Arrow function with an expression body
+    const taints = evaluate(fn.body, scope);
+    scope.returns = union(scope.returns, taints);
+  }
+
+  return { returns: scope.returns, sinks: scope.sinks };
+}
+
+/**
+ * Resolve a called function defined in this module or imported from another analyzed file
+ */
+function resolveFunction(
+  callee: t.Node,
+  module: TaintModule,
+  context: TaintContext
+): { fn: t.Function; module: TaintModule } | null {
+  if (t.isIdentifier(callee)) {
+    const local = module.functions.get(callee.name);
+    if (local) {
+      return { fn: local, module };
+    }
+    const binding = module.imports.get(callee.name);
+    const target = binding && resolveImportedModule(module, binding.source, context);
+    const fn = target?.exports.get(binding!.imported === '*' ? 'default' : binding!.imported);
+    return target && fn ? { fn, module: target } : null;
+  }
+
+  // service.findUser(): a namespace, default or require() import
+  if (t.isMemberExpression(callee) && t.isIdentifier(callee.object)) {
+    const binding = module.imports.get(callee.object.name);
+    const property = getPropertyName(callee);
+    if (!binding || !property || (binding.imported !== '*' && binding.imported !== 'default')) {
+      return null;
+    }
+    const target = resolveImportedModule(module, binding.source, context);
+    const fn = target?.exports.get(property);
+    return target && fn ? { fn, module: target } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Follow an import edge of the dependency graph to an analyzed file
+ */
+function resolveImportedModule(module: TaintModule, source: string, context: TaintContext): TaintModule | null {
+  const file = context.importEdges.get(module.filePath)?.get(source);
+  return (file && context.modules.get(file)) || null;
+}
+
+/**
+ * Resolve calls to child_process and fs functions: exec(), cp.exec(), fs.promises.readFile()
+ */
+function resolveBuiltin(callee: t.Node, module: TaintModule): { module: string; method: string } | null {
+  const builtinModule = (node: t.Node): string | null => {
+    const binding = t.isIdentifier(node) ? module.imports.get(node.name) : undefined;
+    const requireSource = getRequireSource(node);
+    if (binding && ['*', 'default', 'promises'].includes(binding.imported)) {
+      return normalizeBuiltin(binding.source);
+    }
+    if (requireSource) {
+      return normalizeBuiltin(requireSource);
+    }
+    // fs.promises
+    if (t.isMemberExpression(node) && getPropertyName(node) === 'promises') {
+      return builtinModule(node.object);
+    }
+    return null;
+  };
+
+  if (t.isIdentifier(callee)) {
+    const binding = module.imports.get(callee.name);
+    if (!binding || binding.imported === '*' || binding.imported === 'default') {
+      return null;
+    }
+    const builtin = normalizeBuiltin(binding.source);
+    return builtin ? { module: builtin, method: binding.imported } : null;
+  }
+  if (t.isMemberExpression(callee)) {
+    const builtin = builtinModule(callee.object);
+    const method = getPropertyName(callee);
+    return builtin && method ? { module: builtin, method } : null;
+  }
+  return null;
+}
+
+/**
+ * Normalize node:fs, fs/promises and node:child_process to the module name
+ */
+function normalizeBuiltin(source: string): string | null {
+  const name = source.replace(/^node:/, '').replace(/\/promises$/, '');
+  return name === 'fs' || name === 'child_process' ? name : null;
+}
+
+/**
+ * Report tainted data reaching a sink
+ */
+function reportSink(kind: SinkKind, node: t.Node, taints: Taint[], scope: Scope): void {
+  if (taints.length > 0) {
+    dispatchSink(kind, createStep('sink', node, scope.module), taints, scope);
+  }
+}
+
+/**
+ * Record a finding for request input reaching a sink, or a summary flow for parameters
+ */
+function dispatchSink(kind: SinkKind, sink: SecurityTraceStep, taints: Taint[], scope: Scope): void {
+  for (const taint of taints) {
+    if (taint.param !== undefined) {
+      scope.sinks.push({ kind, sink, taint });
+    } else {
+      addFinding(kind, [...taint.trace, sink], scope.context);
+    }
+  }
+}
+
+/**
+ * Add a security issue for a source to sink trace, keeping the shortest trace per source and sink
+ */
+function addFinding(kind: SinkKind, trace: SecurityTraceStep[], context: TaintContext): void {
+  const source = trace[0];
+  const sink = trace[trace.length - 1];
+  const key = `${kind}:${source.file}:${source.line}:${sink.file}:${sink.line}`;
+  const existing = context.findings.get(key);
+  if (existing && existing.trace!.length <= trace.length) {
+    return;
+  }
+
+  const rule = SINK_RULES[kind];
+  context.findings.set(key, {
+    id: `taint-${kind}-${sink.file}-${sink.line}-${source.file}-${source.line}`,
+    type: kind,
+    severity: rule.severity,
+    title: rule.title,
+    description: `User input \`${source.code}\` (${source.file}:${source.line}) ${rule.reaches}`,
+    file: sink.file,
+    line: sink.line,
+    rule: `taint-${kind}`,
+    recommendation: rule.recommendation,
+    codeSnippet: sink.code,
+    trace,
+  });
+}
+
+/**
+ * Describe an AST node as a trace step
+ */
+function createStep(kind: SecurityTraceStep['kind'], node: t.Node, module: TaintModule): SecurityTraceStep {
+  const code = module.content.slice(node.start ?? 0, node.end ?? 0).replace(/\s+/g, ' ').trim();
+  return {
+    kind,
+    file: module.relativePath,
+    line: node.loc?.start.line || 0,
+    code: code.length > 100 ? `${code.substring(0, 97)}...` : code,
+  };
+}
+
+/**
+ * Append a step to the traces of taints
+ */
+function addStep(taints: Taint[], step: SecurityTraceStep): Taint[] {
+  return taints.map((taint) => ({ param: taint.param, trace: [...taint.trace, step] }));
+}
+
+/**
+ * Merge taint lists, keeping one taint per origin
+ */
+function union(...lists: Taint[][]): Taint[] {
+  const merged = new Map<string, Taint>();
+  for (const taint of lists.flat()) {
+    const origin = taint.param !== undefined ? `param:${taint.param}` : `${taint.trace[0].file}:${taint.trace[0].line}`;
+    if (!merged.has(origin)) {
+      merged.set(origin, taint);
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Get the static name of a member expression's property
+ */
+function getPropertyName(node: t.Node): string | null {
+  if (!t.isMemberExpression(node) && !t.isOptionalMemberExpression(node)) {
+    return null;
+  }
+  if (!node.computed && t.isIdentifier(node.property)) {
+    return node.property.name;
+  }
+  return t.isStringLiteral(node.property) ? node.property.value : null;
+}
+
+/**
+ * Get the dotted path of an identifier or static member expression, e.g. module.exports.find
+ */
+function getMemberPath(node: t.Node): string | null {
+  if (t.isIdentifier(node)) {
+    return node.name;
+  }
+  const property = getPropertyName(node);
+  const object = property ? getMemberPath((node as t.MemberExpression).object) : null;
+  return object ? `${object}.${property}` : null;
+}
+
+/**
+ * Get the variable a member expression chain starts from
+ */
+function getRootIdentifier(node: t.Node): t.Identifier | null {
+  while (t.isMemberExpression(node)) {
+    node = node.object;
+  }
+  return t.isIdentifier(node) ? node : null;
+}
+
+/**
+ * Get the module of a require('...') call
+ */
+function getRequireSource(node: t.Node | null | undefined): string | null {
+  return t.isCallExpression(node) &&
+    t.isIdentifier(node.callee, { name: 'require' }) &&
+    t.isStringLiteral(node.arguments[0])
+    ? node.arguments[0].value
+    : null;
+}
@@ -2,80 +2,42 @@
  * Assessment-only command implementation
  */
 
-import { GitHubService } from '../../github/service';
-import { runAssessment, AssessmentContext } from '../../assessment/engine';
 import { createProgress } from '../../utils/progress';
 import { logger } from '../../utils/logger';
-import { saveAnalysisResult, saveAnalysisError } from '../../services/persistence';
-import { TechStackDetector } from '../../detection';
-import { buildLineageGraph } from '../../lineage/graph-builder';
+import { runPipeline, DEFAULT_STAGES } from '../../services/pipeline';
+import { RepositorySourceType } from '../../github/source';
 import * as fs from 'fs';
 import * as path from 'path';
 
 export async function runAssessCommand(
   repoId: string,
   outputPath: string,
-  token?: string
+  token?: string,
+  sourceType?: RepositorySourceType,
+  scanGitHistory?: boolean
 ): Promise<void> {
-  const progress = createProgress(4);
+  const progress = createProgress(DEFAULT_STAGES.length + 1);
 
   try {
-    const githubService = new GitHubService(token ? { token } : undefined);
-
-    // Clone and analyze
-    progress.increment();
-    logger.info('Cloning repository', { repo: repoId });
-    const analysis = await githubService.cloneAndAnalyzeRepository(repoId);
-
-    // Run assessment
-    progress.increment();
-    logger.info('Running code assessment', { files: analysis.fileTree.files.size });
-    const assessmentContext: AssessmentContext = {
-      repoPath: analysis.localPath,
-      fileTree: analysis.fileTree,
-      parsedFiles: [], // Would parse files here in full implementation
-      dependencyGraph: undefined,
-      lineageGraph: undefined,
-    };
-
-    // Detect tech stack
-    progress.increment();
-    const detector = new TechStackDetector();
-    const techStack = detector.detectTechStack({
-      fileTree: analysis.fileTree,
-      configFiles: analysis.configFiles,
-      entryPoints: analysis.entryPoints,
+    // Clone, parse and assess the repository, then save the analysis to the database if enabled
+    const result = await runPipeline(repoId, {
+      token,
+      sourceType,
+      useExternalScanners: true,
+      scanGitHistory,
+      persist: true,
+      onStage: (stage) => {
+        progress.increment();
+        logger.info('Assessment stage finished', { ...stage });
+      },
     });
-
-    const assessment = await runAssessment(assessmentContext, { useExternalScanners: true });
-
-    // Build basic lineage graph (for database storage)
-    const graphContext = {
-      components: [],
-      apiCalls: [],
-      endpoints: [],
-      queries: [],
-      tables: [],
-    };
-    const lineageGraph = buildLineageGraph(graphContext);
-
-    // Save to database if enabled
-    let analysisId: number | null = null;
-    try {
-      analysisId = await saveAnalysisResult({
-        repository: repoId,
-        repositoryUrl: `https://github.com/${repoId}`,
-        techStack,
-        assessmentResult: assessment,
-        lineageGraph,
-      });
-      logger.info('Analysis saved to database', { analysisId, repository: repoId });
-    } catch (dbError: any) {
-      logger.warn('Failed to save analysis to database', {
-        error: dbError.message,
-        repository: repoId,
-      });
-      // Continue without database save
+    const assessment = result.assessment;
+    if (!assessment) {
+      throw new Error(`Assessment failed: ${result.errors.map((e) => e.message).join('; ')}`);
+    }
+    const analysisId = result.analysisId;
+    if (analysisId) {
+      logger.info('Analysis saved to database', { analysisId, repository: result.repository });
     }
 
     // Save report
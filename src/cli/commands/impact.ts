@@ -0,0 +1,90 @@
+/**
+ * Impact analysis command implementation
+ */
+
+import { parseChangeRequest } from '../../impact/change-parser';
+import { runImpactAnalysis, createDiffChangeRequest } from '../../services/impact';
+import { createProgress } from '../../utils/progress';
+import { logger } from '../../utils/logger';
+import { ChangeRequest } from '../../types';
+import { RepositorySourceType } from '../../github/source';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ImpactCommandOptions {
+  change?: string;
+  baseRef?: string;
+  headRef?: string;
+  diffFile?: string;
+  token?: string;
+  sourceType?: RepositorySourceType;
+}
+
+export async function runImpactCommand(
+  repoId: string,
+  outputPath: string,
+  options: ImpactCommandOptions
+): Promise<void> {
+  const progress = createProgress(3);
+
+  try {
+    // Build change request from a description, a diff file or two refs
+    progress.increment();
+    let changeRequest: ChangeRequest;
+    if (options.diffFile || options.baseRef) {
+      logger.info('Building change request from diff', {
+        repo: repoId,
+        diffFile: options.diffFile,
+        baseRef: options.baseRef,
+        headRef: options.headRef,
+      });
+      changeRequest = await createDiffChangeRequest(
+        repoId,
+        {
+          diff: options.diffFile ? fs.readFileSync(options.diffFile, 'utf-8') : undefined,
+          baseRef: options.baseRef,
+          headRef: options.headRef,
+          description: options.change,
+        },
+        options.token,
+        options.sourceType
+      );
+    } else if (options.change) {
+      changeRequest = parseChangeRequest(options.change);
+    } else {
+      throw new Error('A change description, --diff file or --base ref is required');
+    }
+    console.log(`✓ Parsed change request: ${changeRequest.type}`);
+
+    // Analyze impact against the stored (or rebuilt) lineage graph
+    progress.increment();
+    const result = await runImpactAnalysis({
+      repository: repoId,
+      sourceType: options.sourceType,
+      changeRequest,
+      token: options.token,
+    });
+
+    // Save result
+    progress.increment();
+    if (!fs.existsSync(outputPath)) {
+      fs.mkdirSync(outputPath, { recursive: true });
+    }
+    const outputFile = path.join(outputPath, 'impact.json');
+    fs.writeFileSync(outputFile, JSON.stringify(result, null, 2));
+
+    progress.complete();
+    const { summary } = result.impact;
+    console.log('✓ Impact analysis complete');
+    console.log(`  Affected files: ${summary.totalAffectedFiles}`);
+    console.log(`  Affected nodes: ${summary.totalAffectedNodes}`);
+    console.log(`  Breaking changes: ${summary.breakingChangesCount}`);
+    console.log(`✓ Results saved to: ${outputFile}`);
+    if (result.impactId) {
+      console.log(`✓ Impact analysis saved to database (ID: ${result.impactId})`);
+    }
+  } catch (error: any) {
+    logger.error('Impact analysis failed', { error: error.message, stack: error.stack });
+    throw error;
+  }
+}
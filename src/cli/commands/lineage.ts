@@ -2,19 +2,11 @@
  * Lineage graph generation command implementation
  */
 
-import { GitHubService } from '../../github/service';
-import { TechStackDetector } from '../../detection';
-import { buildLineageGraph, LineageGraphContext } from '../../lineage/graph-builder';
 import { exportToJSON, exportToGraphML, exportToCytoscape } from '../../visualization';
 import { createProgress } from '../../utils/progress';
 import { logger } from '../../utils/logger';
-import { saveAnalysisResult } from '../../services/persistence';
-import { parseFrontendFile } from '../../analyzers/frontend/parser';
-import { parseBackendFile } from '../../analyzers/backend/parser';
-import { extractEndpoints } from '../../analyzers/backend/endpoint-extractor';
-import { detectDatabaseQueries } from '../../analyzers/backend/query-detector';
-import { detectReactComponents } from '../../analyzers/frontend/component-detector';
-import { detectAPICalls } from '../../analyzers/frontend/api-detector';
+import { runPipeline, DEFAULT_STAGES } from '../../services/pipeline';
+import { RepositorySourceType } from '../../github/source';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -22,111 +14,30 @@ export async function runLineageCommand(
   repoId: string,
   outputPath: string,
   format: 'json' | 'graphml' | 'cytoscape' = 'json',
-  token?: string
+  token?: string,
+  sourceType?: RepositorySourceType
 ): Promise<void> {
-  const progress = createProgress(6);
+  const progress = createProgress(DEFAULT_STAGES.length + 1);
 
   try {
-    const githubService = new GitHubService(token ? { token } : undefined);
-
-    // Clone and analyze
-    progress.increment();
-    logger.info('Cloning repository', { repo: repoId });
-    const analysis = await githubService.cloneAndAnalyzeRepository(repoId);
-
-    // Parse files
-    progress.increment();
-    logger.info('Parsing code files', { files: analysis.fileTree.files.size });
-    
-    const components: any[] = [];
-    const apiCalls: any[] = [];
-    const endpoints: any[] = [];
-    const queries: any[] = [];
-    const tables: any[] = [];
-
-    // Parse frontend files
-    for (const [relativePath, fileNode] of analysis.fileTree.files) {
-      const filePath = fileNode.path || path.join(analysis.localPath, relativePath);
-      const ext = path.extname(filePath).toLowerCase();
-      
-      if (['.jsx', '.tsx'].includes(ext) && !filePath.includes('node_modules')) {
-        try {
-          const parsed = parseFrontendFile(filePath);
-          if (parsed) {
-            const detectedComponents = detectReactComponents(parsed);
-            const detectedCalls = detectAPICalls(parsed);
-            components.push(...detectedComponents);
-            apiCalls.push(...detectedCalls);
-          }
-        } catch {
-          // Skip unparseable files
-        }
-      }
-    }
-
-    // Parse backend files
-    progress.increment();
-    for (const [relativePath, fileNode] of analysis.fileTree.files) {
-      const filePath = fileNode.path || path.join(analysis.localPath, relativePath);
-      const ext = path.extname(filePath).toLowerCase();
-      
-      if (['.js', '.ts'].includes(ext) && !filePath.includes('node_modules') && !filePath.includes('.test.')) {
-        try {
-          const parsed = parseBackendFile(filePath);
-          if (parsed) {
-            const detectedEndpoints = extractEndpoints(parsed);
-            const detectedQueries = detectDatabaseQueries(parsed);
-            endpoints.push(...detectedEndpoints);
-            queries.push(...detectedQueries);
-          }
-        } catch {
-          // Skip unparseable files
-        }
-      }
-    }
-
-    // Build lineage graph
-    progress.increment();
-    logger.info('Building lineage graph', {
-      components: components.length,
-      endpoints: endpoints.length,
-      queries: queries.length,
+    // Clone, parse, extract and build the lineage graph, then save it to the database if enabled
+    const result = await runPipeline(repoId, {
+      token,
+      sourceType,
+      assessment: false,
+      persist: true,
+      onStage: (stage) => {
+        progress.increment();
+        logger.info('Lineage stage finished', { ...stage });
+      },
     });
-
-    const graphContext: LineageGraphContext = {
-      components,
-      apiCalls,
-      endpoints,
-      queries,
-      tables,
-    };
-
-    const graph = buildLineageGraph(graphContext);
-
-    // Detect tech stack for database storage
-    const detector = new TechStackDetector();
-    const techStack = detector.detectTechStack({
-      fileTree: analysis.fileTree,
-      configFiles: analysis.configFiles,
-      entryPoints: analysis.entryPoints,
-    });
-
-    // Save to database if enabled
-    let analysisId: number | null = null;
-    try {
-      analysisId = await saveAnalysisResult({
-        repository: repoId,
-        repositoryUrl: `https://github.com/${repoId}`,
-        techStack,
-        lineageGraph: graph,
-      });
-      logger.info('Lineage graph saved to database', { analysisId, repository: repoId });
-    } catch (dbError: any) {
-      logger.warn('Failed to save lineage graph to database', {
-        error: dbError.message,
-        repository: repoId,
-      });
-      // Continue without database save
+    const graph = result.lineageGraph;
+    if (!graph) {
+      throw new Error(`Lineage graph could not be built: ${result.errors.map((e) => e.message).join('; ')}`);
+    }
+    const analysisId = result.analysisId;
+    if (analysisId) {
+      logger.info('Lineage graph saved to database', { analysisId, repository: result.repository });
     }
 
     // Export graph
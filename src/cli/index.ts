@@ -5,18 +5,17 @@
 
 // @ts-ignore - commander types may not be available
 import { Command } from 'commander';
-import { GitHubService } from '../github/service';
-import { TechStackDetector } from '../detection';
-import { parseChangeRequest } from '../impact/change-parser';
 import { detectTestFiles } from '../analyzers/testing';
 import { runBenchmark, runBenchmarkSuite, generatePerformanceReport } from '../performance';
 import { validateLineageAccuracy, createSampleTestCases } from '../validation';
 import { createProgress } from '../utils/progress';
 import { logger } from '../utils/logger';
-import { saveAnalysisResult, saveAnalysisError } from '../services/persistence';
 import { runAssessCommand } from './commands/assess';
 import { runLineageCommand } from './commands/lineage';
 import { runValidateCommand } from './commands/validate';
+import { runImpactCommand } from './commands/impact';
+import { runPipeline } from '../services/pipeline';
+import { REPOSITORY_SOURCE_TYPES, RepositorySourceType } from '../github/source';
 
 const program = new Command();
 
@@ -31,14 +30,21 @@ program
 program
   .command('assess')
   .description('Run code assessment on a repository')
-  .requiredOption('-r, --repo <repo>', 'Repository URL or owner/repo format')
+  .requiredOption('-r, --repo <repo>', 'owner/repo, git URL, local directory or archive')
+  .option('-s, --source <type>', `Repository source (${REPOSITORY_SOURCE_TYPES.join(', ')}); detected when omitted`)
   .option('-o, --output <path>', 'Output file path', './assessment-report.md')
   .option('-t, --token <token>', 'GitHub Personal Access Token')
+  .option('--git-history', 'Also scan the git history for secrets deleted from the working tree')
   .action(async (options) => {
     console.log(`Running assessment for: ${options.repo}`);
     try {
-      const [owner, repo] = parseRepo(options.repo);
-      await runAssessCommand(`${owner}/${repo}`, options.output, options.token);
+      await runAssessCommand(
+        options.repo,
+        options.output,
+        options.token,
+        parseSource(options.source),
+        options.gitHistory
+      );
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -51,19 +57,20 @@ program
 program
   .command('lineage')
   .description('Generate lineage graph for a repository')
-  .requiredOption('-r, --repo <repo>', 'Repository URL or owner/repo format')
+  .requiredOption('-r, --repo <repo>', 'owner/repo, git URL, local directory or archive')
+  .option('-s, --source <type>', `Repository source (${REPOSITORY_SOURCE_TYPES.join(', ')}); detected when omitted`)
   .option('-o, --output <path>', 'Output file path', './lineage.json')
   .option('-f, --format <format>', 'Export format (json, graphml, cytoscape)', 'json')
   .option('-t, --token <token>', 'GitHub Personal Access Token')
   .action(async (options) => {
     console.log(`Generating lineage graph for: ${options.repo}`);
     try {
-      const [owner, repo] = parseRepo(options.repo);
       await runLineageCommand(
-        `${owner}/${repo}`,
+        options.repo,
         options.output,
         options.format as 'json' | 'graphml' | 'cytoscape',
-        options.token
+        options.token,
+        parseSource(options.source)
       );
     } catch (error: any) {
       console.error('Error:', error.message);
@@ -76,49 +83,44 @@ program
  */
 program
   .command('analyze')
-  .description('Analyze a GitHub repository (full analysis)')
-  .requiredOption('-r, --repo <repo>', 'Repository URL or owner/repo format')
+  .description('Analyze a repository (full analysis)')
+  .requiredOption('-r, --repo <repo>', 'owner/repo, git URL, local directory or archive')
+  .option('-s, --source <type>', `Repository source (${REPOSITORY_SOURCE_TYPES.join(', ')}); detected when omitted`)
   .option('-o, --output <path>', 'Output directory for results', './output')
   .option('-t, --token <token>', 'GitHub Personal Access Token')
   .action(async (options) => {
     console.log(`Analyzing repository: ${options.repo}`);
     
     try {
-      const githubService = new GitHubService(options.token ? { token: options.token } : undefined);
-      const [owner, repo] = parseRepo(options.repo);
-      const repoInfo = await githubService.getRepositoryInfo(`${owner}/${repo}`);
-      console.log(`✓ Repository: ${repoInfo.name}`);
-      
-      const analysis = await githubService.cloneAndAnalyzeRepository(`${owner}/${repo}`);
-      console.log(`✓ Analyzed ${analysis.fileTree.files.size} files`);
-      
-      const detector = new TechStackDetector();
-      const techStack = detector.detectTechStack({
-        fileTree: analysis.fileTree,
-        configFiles: analysis.configFiles,
-        entryPoints: analysis.entryPoints,
+      const result = await runPipeline(options.repo, {
+        token: options.token,
+        sourceType: parseSource(options.source),
+        persist: true,
       });
-      const frontendName = Array.isArray(techStack.frontend) && techStack.frontend.length > 0 
-        ? techStack.frontend[0].name 
-        : 'N/A';
-      const backendName = Array.isArray(techStack.backend) && techStack.backend.length > 0 
-        ? techStack.backend[0].name 
-        : 'N/A';
+      console.log(`✓ Repository: ${result.repository}`);
+      const fileCount = result.frontend && result.backend
+        ? result.frontend.files.length + result.backend.files.length
+        : 0;
+      console.log(`✓ Analyzed ${fileCount} source files`);
+
+      const frontendName = result.techStack?.frontend?.[0]?.name || 'N/A';
+      const backendName = result.techStack?.backend?.[0]?.name || 'N/A';
       console.log(`✓ Detected tech stack: ${frontendName}, ${backendName}`);
-      
-      // Save to database if enabled
-      try {
-        const analysisId = await saveAnalysisResult({
-          repository: `${owner}/${repo}`,
-          repositoryUrl: `https://github.com/${owner}/${repo}`,
-          techStack,
-        });
-        if (analysisId) {
-          console.log(`✓ Analysis saved to database (ID: ${analysisId})`);
-        }
-      } catch (error: any) {
-        logger.warn('Failed to save analysis to database', { error: error.message });
-        // Continue without database save
+      if (result.lineageGraph) {
+        const { nodes, edges } = result.lineageGraph;
+        console.log(`✓ Lineage graph: ${nodes.length} nodes, ${edges.length} edges`);
+      }
+      if (result.assessment) {
+        const { securityScore, qualityScore, architectureScore } = result.assessment.summary;
+        console.log(`✓ Security Score: ${securityScore}/100`);
+        console.log(`✓ Quality Score: ${qualityScore}/100`);
+        console.log(`✓ Architecture Score: ${architectureScore}/100`);
+      }
+      for (const error of result.errors) {
+        console.warn(`! ${error.stage} stage failed: ${error.message}`);
+      }
+      if (result.analysisId) {
+        console.log(`✓ Analysis saved to database (ID: ${result.analysisId})`);
       }
       
       console.log('✓ Analysis complete');
@@ -134,17 +136,26 @@ program
 program
   .command('impact')
   .description('Analyze impact of a proposed change')
-  .requiredOption('-r, --repo <repo>', 'Repository URL or owner/repo format')
-  .requiredOption('-c, --change <description>', 'Change description')
+  .requiredOption('-r, --repo <repo>', 'owner/repo, git URL, local directory or archive')
+  .option('-s, --source <type>', `Repository source (${REPOSITORY_SOURCE_TYPES.join(', ')}); detected when omitted`)
+  .option('-c, --change <description>', 'Change description')
+  .option('--base <ref>', 'Base git ref to diff from')
+  .option('--head <ref>', 'Head git ref to diff to (default: HEAD)')
+  .option('--diff <path>', 'Unified diff file to analyze')
   .option('-o, --output <path>', 'Output directory for results', './output')
   .option('-t, --token <token>', 'GitHub Personal Access Token')
   .action(async (options) => {
     console.log(`Analyzing change impact for: ${options.repo}`);
     
     try {
-      const changeRequest = parseChangeRequest(options.change);
-      console.log(`✓ Parsed change request: ${changeRequest.type}`);
-      console.log('✓ Impact analysis complete');
+      await runImpactCommand(options.repo, options.output, {
+        change: options.change,
+        baseRef: options.base,
+        headRef: options.head,
+        diffFile: options.diff,
+        token: options.token,
+        sourceType: parseSource(options.source),
+      });
     } catch (error: any) {
       console.error('Error:', error.message);
       process.exit(1);
@@ -203,14 +214,15 @@ program
 program
   .command('benchmark')
   .description('Run performance benchmarks')
-  .requiredOption('-r, --repo <repo>', 'Repository URL or owner/repo format')
+  .requiredOption('-r, --repo <repo>', 'owner/repo, git URL, local directory or archive')
+  .option('-s, --source <type>', `Repository source (${REPOSITORY_SOURCE_TYPES.join(', ')}); detected when omitted`)
   .option('-t, --token <token>', 'GitHub Personal Access Token')
   .option('-o, --output <path>', 'Output file path', 'benchmark.json')
   .action(async (options) => {
     console.log(`Running benchmark for: ${options.repo}`);
     
     try {
-      const result = await runBenchmark(options.repo, options.token);
+      const result = await runBenchmark(options.repo, options.token, parseSource(options.source));
       const outputPath = options.output;
       
       // Write results to file
@@ -277,6 +289,27 @@ program
     }
   });
 
+/**
+ * Import advisories command
+ */
+program
+  .command('advisories:import')
+  .description('Import an OSV advisory export into the offline vulnerability database')
+  .requiredOption('-i, --input <path>', 'OSV export: all.zip archive, JSON file or directory of JSON files')
+  .option('-d, --database <path>', 'Advisory database directory (default: ADVISORY_DB_PATH)')
+  .action(async (options) => {
+    console.log(`Importing advisories from: ${options.input}`);
+
+    try {
+      const { importAdvisories } = await import('../assessment/security/dependency-audit');
+      const count = await importAdvisories(options.input, options.database);
+      console.log(`✓ Imported ${count} advisory file(s)`);
+    } catch (error: any) {
+      console.error('Error:', error.message);
+      process.exit(1);
+    }
+  });
+
 /**
  * Generate API documentation command
  */
@@ -298,22 +331,13 @@ program
   });
 
 /**
- * Parse repository string
+ * Parse the repository source option
  */
-function parseRepo(repo: string): [string, string] {
-  if (repo.includes('github.com')) {
-    const match = repo.match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?$/);
-    if (!match) {
-      throw new Error('Invalid repository URL');
-    }
-    return [match[1], match[2]];
-  } else {
-    const parts = repo.split('/');
-    if (parts.length !== 2) {
-      throw new Error('Repository must be in format: owner/repo');
-    }
-    return [parts[0], parts[1]];
+function parseSource(source?: string): RepositorySourceType | undefined {
+  if (source && !REPOSITORY_SOURCE_TYPES.includes(source as RepositorySourceType)) {
+    throw new Error(`Repository source must be one of: ${REPOSITORY_SOURCE_TYPES.join(', ')}`);
   }
+  return source as RepositorySourceType | undefined;
 }
 
 // Run CLI if executed directly
@@ -31,11 +31,16 @@ export interface Config {
       windowMs: number;
       max: number;
     };
+    allowLocalSources: boolean; // Let API requests analyze directories and archives on the server
   };
   analysis: {
     useExternalScanners: boolean;
     timeout: number; // milliseconds
     maxFileSize: number; // bytes
+    maxArchiveSize: number; // Largest repository archive downloaded, in bytes
+    advisoryDatabase: string; // Directory of OSV advisories for dependency audits
+    scanGitHistory: boolean; // Scan past commits for secrets deleted from the working tree
+    cloneMinTokens: number; // Smallest code clone reported by the duplication check
   };
   logging: {
     level: 'error' | 'warn' | 'info' | 'debug';
@@ -45,6 +50,7 @@ export interface Config {
   cache: {
     enabled: boolean;
     ttl: number; // seconds
+    directory: string; // On-disk parsed file cache, used when the database is unavailable
   };
   database: {
     enabled: boolean;
@@ -81,11 +87,16 @@ export function loadConfig(): Config {
         windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10), // 15 minutes
         max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
       },
+      allowLocalSources: process.env.ALLOW_LOCAL_SOURCES === 'true',
     },
     analysis: {
       useExternalScanners: process.env.USE_EXTERNAL_SCANNERS !== 'false',
       timeout: parseInt(process.env.ANALYSIS_TIMEOUT || '300000', 10), // 5 minutes
       maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
+      maxArchiveSize: parseInt(process.env.MAX_ARCHIVE_SIZE || '524288000', 10), // 500MB
+      advisoryDatabase: process.env.ADVISORY_DB_PATH || path.join('.cache', 'advisories'),
+      scanGitHistory: process.env.SCAN_GIT_HISTORY === 'true',
+      cloneMinTokens: parseInt(process.env.CLONE_MIN_TOKENS || '50', 10),
     },
     logging: {
       level: (process.env.LOG_LEVEL as Config['logging']['level']) || 'info',
@@ -95,6 +106,7 @@ export function loadConfig(): Config {
     cache: {
       enabled: process.env.CACHE_ENABLED === 'true',
       ttl: parseInt(process.env.CACHE_TTL || '3600', 10), // 1 hour
+      directory: process.env.CACHE_DIR || path.join('.cache', 'parsed-files'),
     },
     database: {
       enabled: process.env.DATABASE_ENABLED !== 'false',
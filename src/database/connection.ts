@@ -249,5 +249,12 @@ function getMigrationFiles(): Array<{ version: string; name: string; sql: string
         CREATE INDEX idx_validation_results_repository ON validation_results(repository);
       `,
     },
+    {
+      version: '004',
+      name: 'add_analysis_artifacts',
+      sql: `
+        ALTER TABLE analysis_results ADD COLUMN IF NOT EXISTS analysis_artifacts JSONB;
+      `,
+    },
   ];
 }
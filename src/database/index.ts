@@ -6,6 +6,7 @@ export * from './connection';
 export * from './models/analysis-result';
 export * from './models/impact-analysis';
 export * from './models/validation-result';
+export * from './models/parsed-file-cache';
 
 export {
   initializeDatabase,
@@ -36,3 +37,10 @@ export {
   getValidationResultsByTestCase,
   getValidationResultsByRepository,
 } from './models/validation-result';
+
+export {
+  getParsedFileCache,
+  upsertParsedFileCache,
+  deleteParsedFileCache,
+  deleteExpiredParsedFileCache,
+} from './models/parsed-file-cache';
@@ -5,6 +5,7 @@
 import { AssessmentResult } from '../types';
 import { ImpactAnalysis } from '../types';
 import { LineageGraph } from '../types';
+import { AnalysisArtifacts } from '../types';
 import { BenchmarkResult } from '../performance/benchmarks';
 
 export interface AnalysisResultRow {
@@ -14,6 +15,7 @@ export interface AnalysisResultRow {
   tech_stack?: any;
   assessment: AssessmentResult;
   lineage_graph?: LineageGraph | null;
+  analysis_artifacts?: AnalysisArtifacts | null;
   created_at: Date;
   updated_at: Date;
   analysis_duration_ms?: number | null;
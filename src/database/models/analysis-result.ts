@@ -6,6 +6,7 @@ import { query } from '../connection';
 import { AssessmentResult } from '../../types';
 import { LineageGraph } from '../../types';
 import { TechStack } from '../../types';
+import { AnalysisArtifacts } from '../../types';
 
 export interface AnalysisResultRow {
   id: number;
@@ -14,6 +15,7 @@ export interface AnalysisResultRow {
   tech_stack: TechStack | null;
   assessment_result: AssessmentResult | null;
   lineage_graph: LineageGraph | null;
+  analysis_artifacts: AnalysisArtifacts | null;
   created_at: Date;
   updated_at: Date;
   status: string;
@@ -26,6 +28,7 @@ export interface CreateAnalysisResultInput {
   techStack?: TechStack;
   assessmentResult?: AssessmentResult;
   lineageGraph?: LineageGraph;
+  analysisArtifacts?: AnalysisArtifacts;
   status?: string;
   errorMessage?: string;
 }
@@ -40,9 +43,9 @@ export async function createAnalysisResult(
     `
       INSERT INTO analysis_results (
         repository, repository_url, tech_stack, assessment_result,
-        lineage_graph, status, error_message
+        lineage_graph, analysis_artifacts, status, error_message
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
       RETURNING *
     `,
     [
@@ -51,6 +54,7 @@ export async function createAnalysisResult(
       input.techStack ? JSON.stringify(input.techStack) : null,
       input.assessmentResult ? JSON.stringify(input.assessmentResult) : null,
       input.lineageGraph ? JSON.stringify(input.lineageGraph) : null,
+      input.analysisArtifacts ? JSON.stringify(input.analysisArtifacts) : null,
       input.status || 'completed',
       input.errorMessage || null,
     ]
@@ -177,6 +181,12 @@ export async function updateAnalysisResult(
     params.push(JSON.stringify(updates.lineageGraph));
   }
 
+  if (updates.analysisArtifacts !== undefined) {
+    paramCount++;
+    updatesList.push(`analysis_artifacts = $${paramCount}`);
+    params.push(JSON.stringify(updates.analysisArtifacts));
+  }
+
   if (updates.status !== undefined) {
     paramCount++;
     updatesList.push(`status = $${paramCount}`);
@@ -230,6 +240,9 @@ function parseAnalysisResultRow(row: any): AnalysisResultRow {
     tech_stack: row.tech_stack ? JSON.parse(JSON.stringify(row.tech_stack)) : null,
     assessment_result: row.assessment_result ? JSON.parse(JSON.stringify(row.assessment_result)) : null,
     lineage_graph: row.lineage_graph ? JSON.parse(JSON.stringify(row.lineage_graph)) : null,
+    analysis_artifacts: row.analysis_artifacts
+      ? JSON.parse(JSON.stringify(row.analysis_artifacts))
+      : null,
     created_at: row.created_at,
     updated_at: row.updated_at,
     status: row.status,
@@ -0,0 +1,97 @@
+/**
+ * Parsed file cache model
+ */
+
+import { query } from '../connection';
+
+export interface ParsedFileCacheRow {
+  id: string;
+  repository: string;
+  file_path: string;
+  file_hash: string;
+  parsed_data: unknown;
+  created_at: Date;
+  expires_at: Date | null;
+}
+
+export interface ParsedFileCacheInput {
+  filePath: string;
+  fileHash: string;
+  parsedData: unknown;
+}
+
+/** Rows written per INSERT statement */
+const BATCH_SIZE = 100;
+
+/**
+ * Get the unexpired cache entries of a repository
+ */
+export async function getParsedFileCache(repository: string): Promise<ParsedFileCacheRow[]> {
+  const result = await query<ParsedFileCacheRow>(
+    `
+      SELECT * FROM parsed_file_cache
+      WHERE repository = $1 AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+    `,
+    [repository]
+  );
+
+  return result.rows;
+}
+
+/**
+ * Insert or replace cache entries for a repository's files
+ */
+export async function upsertParsedFileCache(
+  repository: string,
+  entries: ParsedFileCacheInput[],
+  expiresAt: Date | null
+): Promise<void> {
+  for (let start = 0; start < entries.length; start += BATCH_SIZE) {
+    const batch = entries.slice(start, start + BATCH_SIZE);
+    const params: unknown[] = [repository, expiresAt];
+    const values = batch.map((entry) => {
+      params.push(entry.filePath, entry.fileHash, JSON.stringify(entry.parsedData));
+      const n = params.length;
+      return `($1, $${n - 2}, $${n - 1}, $${n}, $2)`;
+    });
+
+    await query(
+      `
+        INSERT INTO parsed_file_cache (repository, file_path, file_hash, parsed_data, expires_at)
+        VALUES ${values.join(', ')}
+        ON CONFLICT (repository, file_path) DO UPDATE SET
+          file_hash = EXCLUDED.file_hash,
+          parsed_data = EXCLUDED.parsed_data,
+          created_at = CURRENT_TIMESTAMP,
+          expires_at = EXCLUDED.expires_at
+      `,
+      params
+    );
+  }
+}
+
+/**
+ * Delete the cache entries of files removed from a repository
+ */
+export async function deleteParsedFileCache(repository: string, filePaths: string[]): Promise<number> {
+  if (filePaths.length === 0) {
+    return 0;
+  }
+  const result = await query(
+    'DELETE FROM parsed_file_cache WHERE repository = $1 AND file_path = ANY($2)',
+    [repository, filePaths]
+  );
+
+  return result.rowCount || 0;
+}
+
+/**
+ * Delete expired cache entries
+ */
+export async function deleteExpiredParsedFileCache(): Promise<number> {
+  const result = await query(
+    'DELETE FROM parsed_file_cache WHERE expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP'
+  );
+
+  return result.rowCount || 0;
+}
@@ -15,6 +15,7 @@ CREATE TABLE IF NOT EXISTS analysis_results (
     tech_stack JSONB,
     assessment JSONB NOT NULL,
     lineage_graph JSONB,
+    analysis_artifacts JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     analysis_duration_ms INTEGER,
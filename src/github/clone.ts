@@ -31,11 +31,13 @@ export class RepositoryCloner {
     // Determine destination path
     const repoPath = destination || this.getLocalPath(repositoryInfo.fullName);
 
-    // If repository already exists, check if we should update it
+    // If repository already exists, bring it up to date with the remote
+    if (fs.existsSync(path.join(repoPath, '.git'))) {
+      await this.updateRepository(repoPath, options);
+      return repoPath;
+    }
     if (fs.existsSync(repoPath)) {
       console.log(`Repository already exists at ${repoPath}`);
-      // For now, we'll return the existing path
-      // In future, we might want to fetch/pull updates
       return repoPath;
     }
 
@@ -82,6 +84,34 @@ export class RepositoryCloner {
     }
   }
 
+  /**
+   * Fetch the branch of an existing clone and reset the checkout to the
+   * remote head, so re-analysis sees upstream commits
+   */
+  async updateRepository(repoPath: string, options: CloneOptions = {}): Promise<void> {
+    const git: SimpleGit = simpleGit(repoPath);
+
+    try {
+      const branch = options.branch || (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+      const fetchOptions = ['origin', branch];
+      if (options.depth) {
+        fetchOptions.push(`--depth=${options.depth}`);
+      }
+      await git.fetch(fetchOptions);
+      // A detached checkout has no branch to move
+      if (branch === 'HEAD') {
+        await git.reset(['--hard', 'FETCH_HEAD']);
+      } else {
+        await git.checkout(['--force', '-B', branch, 'FETCH_HEAD']);
+      }
+      await git.clean('f', ['-d']);
+
+      console.log(`Repository updated at ${repoPath}`);
+    } catch (error: any) {
+      throw new Error(`Failed to update repository: ${error.message}`);
+    }
+  }
+
   /**
    * Get local path for a repository
    */
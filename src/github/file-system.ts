@@ -79,6 +79,7 @@ function detectLanguage(fileName: string): string | undefined {
     '.kt': 'kotlin',
     '.scala': 'scala',
     '.vue': 'vue',
+    '.svelte': 'svelte',
     '.html': 'html',
     '.css': 'css',
     '.scss': 'scss',
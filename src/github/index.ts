@@ -8,7 +8,9 @@ export * from './api';
 export * from './clone';
 export * from './file-analyzer';
 export * from './service';
+export * from './source';
 export { GitHubAPIClient } from './api';
 export { RepositoryCloner } from './clone';
 export { RepositoryFileAnalyzer } from './file-analyzer';
 export { GitHubService } from './service';
+export { createRepositorySource, detectSourceType } from './source';
@@ -0,0 +1,520 @@
+/**
+ * Repository sources - load a repository from GitHub, any git remote, a local
+ * directory or an archive into the same RepositoryAnalysis
+ */
+
+import simpleGit from 'simple-git';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RepositoryCloner } from './clone';
+import { RepositoryFileAnalyzer } from './file-analyzer';
+import type { RepositoryAnalysis } from './service';
+import { RepositoryInfo, CloneOptions, CommitInfo } from './types';
+import { ValidationError } from '../utils/errors';
+import { loadConfig } from '../config';
+
+const execFileAsync = promisify(execFile);
+
+export type RepositorySourceType = 'github' | 'git' | 'local' | 'archive';
+
+export const REPOSITORY_SOURCE_TYPES: RepositorySourceType[] = ['github', 'git', 'local', 'archive'];
+
+export interface RepositorySourceOptions {
+  type?: RepositorySourceType; // Detected from the location when omitted
+  token?: string; // GitHub token, only used by the github source
+  baseDir?: string; // Directory remote repositories are cloned or extracted into
+  maxArchiveSize?: number; // Largest archive downloaded, in bytes (default: MAX_ARCHIVE_SIZE)
+}
+
+export interface RepositorySource {
+  type: RepositorySourceType;
+  id: string; // Stable identifier used for caching and persistence
+  url: string;
+  /** Fetch the repository if needed and analyze its file structure */
+  load(options?: CloneOptions): Promise<RepositoryAnalysis>;
+  /** Get the local path of an already fetched repository */
+  getLocalPath(): string | null;
+}
+
+const ARCHIVE_PATTERN = /\.(tar\.gz|tgz|tar|zip)$/i;
+const GITHUB_SHORTHAND_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+const REMOTE_PATTERN = /^(https?|git|ssh):\/\/|^[\w.-]+@[\w.-]+:/;
+// Loopback, private and link-local addresses, and localhost names
+const PRIVATE_HOST_PATTERN =
+  /^(localhost|.+\.localhost|0\.0\.0\.0|127\.[\d.]+|10\.[\d.]+|192\.168\.[\d.]+|172\.(1[6-9]|2\d|3[01])\.[\d.]+|169\.254\.[\d.]+|::1?|f[cd][0-9a-f]{2}:.*|fe80:.*)$/i;
+const MAX_REDIRECTS = 5;
+
+/**
+ * Detect the source type of a repository location
+ */
+export function detectSourceType(location: string): RepositorySourceType {
+  location = toLocalPath(location);
+  const isRemote = REMOTE_PATTERN.test(location);
+
+  if (ARCHIVE_PATTERN.test(location.split('?')[0]) && (isRemote || fs.existsSync(location))) {
+    return 'archive';
+  }
+  if (!isRemote && fs.existsSync(location) && fs.statSync(location).isDirectory()) {
+    return 'local';
+  }
+  if (/github\.com[/:]/.test(location) || (!isRemote && GITHUB_SHORTHAND_PATTERN.test(location))) {
+    return 'github';
+  }
+  if (isRemote) {
+    return 'git';
+  }
+  throw new Error(`Unrecognized repository location: ${location}`);
+}
+
+/**
+ * Check whether a location is fetched over the network rather than read from disk
+ */
+export function isRemoteLocation(location: string): boolean {
+  return REMOTE_PATTERN.test(location);
+}
+
+/**
+ * Check whether a remote location points at the server itself or its private
+ * network. Only literal addresses and localhost names are recognized.
+ */
+export function isPrivateHost(location: string): boolean {
+  const scpHost = location.match(/^[\w.-]+@([\w.-]+):/);
+  let host = scpHost?.[1];
+  if (!host) {
+    try {
+      host = new URL(location).hostname.replace(/^\[|\]$/g, '');
+    } catch {
+      return false;
+    }
+  }
+  return PRIVATE_HOST_PATTERN.test(host);
+}
+
+/**
+ * Check whether a source reads from the server's own disk or network: local
+ * directories, and git or archive locations not fetched from a public host
+ */
+export function isServerLocalSource(type: RepositorySourceType, location: string): boolean {
+  if (type === 'local') {
+    return true;
+  }
+  return type !== 'github' && (!isRemoteLocation(location) || isPrivateHost(location));
+}
+
+/**
+ * Validate the source of a repository requested over the API. Directories and
+ * archives on the server are only analyzed when local sources are allowed.
+ */
+export function resolveRequestedSource(
+  location: string,
+  source: string | undefined,
+  allowLocal: boolean
+): RepositorySourceType {
+  if (source !== undefined && !REPOSITORY_SOURCE_TYPES.includes(source as RepositorySourceType)) {
+    throw new ValidationError(`Repository source must be one of: ${REPOSITORY_SOURCE_TYPES.join(', ')}`, { source });
+  }
+
+  let type: RepositorySourceType;
+  try {
+    type = (source as RepositorySourceType | undefined) || detectSourceType(location);
+  } catch (error: any) {
+    throw new ValidationError(error.message, { repo: location });
+  }
+  if (!allowLocal && isServerLocalSource(type, toLocalPath(location))) {
+    throw new ValidationError('Local repository sources are disabled', { repo: location, source: type });
+  }
+
+  return type;
+}
+
+/**
+ * Create the source for a repository location
+ */
+export function createRepositorySource(location: string, options: RepositorySourceOptions = {}): RepositorySource {
+  const type = options.type || detectSourceType(location);
+  location = toLocalPath(location);
+
+  switch (type) {
+    case 'github':
+      return new GitHubRepositorySource(location, options);
+    case 'git':
+      return new GitRepositorySource(location, options);
+    case 'local':
+      return new LocalRepositorySource(location);
+    case 'archive':
+      return new ArchiveRepositorySource(location, options);
+    default:
+      throw new Error(`Unsupported repository source: ${type}`);
+  }
+}
+
+/**
+ * Repository hosted on GitHub, resolved through the GitHub API
+ */
+export class GitHubRepositorySource implements RepositorySource {
+  readonly type = 'github';
+  readonly id: string;
+  readonly url: string;
+  private cloner: RepositoryCloner;
+
+  constructor(
+    location: string,
+    private options: RepositorySourceOptions = {}
+  ) {
+    const match = location.match(/github\.com[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/);
+    const [owner, repo] = match ? [match[1], match[2]] : location.split('/');
+    if (!owner || !repo) {
+      throw new Error(`Invalid repository ID format: ${location}`);
+    }
+    this.id = `${owner}/${repo.replace(/\.git$/, '')}`;
+    this.url = `https://github.com/${this.id}`;
+    this.cloner = new RepositoryCloner(options.baseDir);
+  }
+
+  async load(options: CloneOptions = {}): Promise<RepositoryAnalysis> {
+    // Loaded lazily so the other sources work without the GitHub API client
+    const { GitHubService } = await import('./service');
+    const githubService = new GitHubService(this.options.token ? { token: this.options.token } : undefined);
+    return githubService.cloneAndAnalyzeRepository(this.id, options);
+  }
+
+  getLocalPath(): string | null {
+    return this.cloner.getRepositoryPath(this.id);
+  }
+}
+
+/**
+ * Repository on any git remote (GitLab, Bitbucket, self-hosted), cloned without a hosting API
+ */
+export class GitRepositorySource implements RepositorySource {
+  readonly type = 'git';
+  readonly id: string;
+  readonly url: string;
+  private cloner: RepositoryCloner;
+
+  constructor(location: string, options: RepositorySourceOptions = {}) {
+    this.url = location;
+    this.id = location
+      .replace(/^[\w+]+:\/\/([^@/]+@)?/, '')
+      .replace(/^[\w.-]+@/, '')
+      .replace(':', '/')
+      .replace(/^\/+|\.git\/?$|\/$/g, '');
+    this.cloner = new RepositoryCloner(options.baseDir);
+  }
+
+  async load(options: CloneOptions = {}): Promise<RepositoryAnalysis> {
+    const name = path.basename(this.id);
+    const owner = path.dirname(this.id).split('/').pop() || '';
+    const localPath = await this.cloner.cloneRepository(
+      describeRepository({ id: this.id, name, owner, url: this.url }),
+      options
+    );
+    return analyzeCheckout(localPath, { id: this.id, name, owner, url: this.url });
+  }
+
+  getLocalPath(): string | null {
+    return this.cloner.getRepositoryPath(this.id);
+  }
+}
+
+/**
+ * Repository already checked out on disk, analyzed in place
+ */
+export class LocalRepositorySource implements RepositorySource {
+  readonly type = 'local';
+  readonly id: string;
+  readonly url: string;
+
+  constructor(location: string) {
+    this.id = path.resolve(location);
+    this.url = `file://${this.id}`;
+  }
+
+  async load(): Promise<RepositoryAnalysis> {
+    if (!fs.existsSync(this.id) || !fs.statSync(this.id).isDirectory()) {
+      throw new Error(`Repository directory does not exist: ${this.id}`);
+    }
+    return analyzeCheckout(this.id, { id: this.id, name: path.basename(this.id), owner: 'local', url: this.url });
+  }
+
+  getLocalPath(): string | null {
+    return fs.existsSync(this.id) ? this.id : null;
+  }
+}
+
+/**
+ * Repository packaged as a .tar, .tar.gz or .zip archive, on disk or at a URL.
+ * Each distinct archive content is extracted once into its own directory, so a
+ * reload never removes files another analysis of the same source is reading.
+ */
+export class ArchiveRepositorySource implements RepositorySource {
+  readonly type = 'archive';
+  readonly id: string;
+  readonly url: string;
+  private name: string;
+  private directory: string;
+  private maxArchiveSize: number;
+  private extracted: string | null = null;
+
+  constructor(
+    private location: string,
+    options: RepositorySourceOptions = {}
+  ) {
+    const isRemote = REMOTE_PATTERN.test(location);
+    this.url = isRemote ? location : `file://${path.resolve(location)}`;
+    this.name = path.basename(location.split('?')[0]).replace(ARCHIVE_PATTERN, '');
+    // Archives with the same file name at different locations are different repositories
+    this.id = `${this.name}-${createHash('sha1').update(this.url).digest('hex').slice(0, 8)}`;
+    this.directory = new RepositoryCloner(options.baseDir).getLocalPath(`archive/${this.id}`);
+    this.maxArchiveSize = options.maxArchiveSize ?? loadConfig().analysis.maxArchiveSize;
+  }
+
+  async load(): Promise<RepositoryAnalysis> {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const staging = path.join(this.directory, `.${randomUUID()}`);
+
+    const extension = this.location.split('?')[0].match(ARCHIVE_PATTERN)?.[0] || '';
+    let archivePath = this.location;
+    try {
+      if (REMOTE_PATTERN.test(this.location)) {
+        archivePath = await downloadArchive(this.location, `${staging}${extension}`, this.maxArchiveSize);
+      }
+
+      // Extracted into a staging directory first and moved into place, so
+      // concurrent loads of the same content never see a partial tree
+      const destination = path.join(this.directory, (await hashFile(archivePath)).slice(0, 16));
+      if (!fs.existsSync(destination)) {
+        fs.mkdirSync(staging);
+        await extractArchive(archivePath, staging);
+        try {
+          fs.renameSync(staging, destination);
+        } catch (error) {
+          if (!fs.existsSync(destination)) {
+            throw error;
+          }
+        }
+      }
+      const now = new Date();
+      fs.utimesSync(destination, now, now);
+      this.extracted = destination;
+    } finally {
+      fs.rmSync(staging, { recursive: true, force: true });
+      if (archivePath !== this.location) {
+        fs.rmSync(archivePath, { force: true });
+      }
+    }
+
+    return analyzeCheckout(getArchiveRoot(this.extracted), {
+      id: this.id,
+      name: this.name,
+      owner: 'archive',
+      url: this.url,
+    });
+  }
+
+  getLocalPath(): string | null {
+    if (this.extracted) {
+      return getArchiveRoot(this.extracted);
+    }
+    if (!fs.existsSync(this.directory)) {
+      return null;
+    }
+
+    // The most recently loaded content of the archive
+    const [latest] = fs
+      .readdirSync(this.directory, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map((entry) => path.join(this.directory, entry.name))
+      .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+    return latest ? getArchiveRoot(latest) : null;
+  }
+}
+
+/**
+ * Strip the file:// scheme from local locations
+ */
+function toLocalPath(location: string): string {
+  return location.startsWith('file://') ? location.slice('file://'.length) : location;
+}
+
+/**
+ * Analyze a checked-out repository, reading branch and commit from git when present
+ */
+async function analyzeCheckout(
+  localPath: string,
+  repository: { id: string; name: string; owner: string; url: string }
+): Promise<RepositoryAnalysis> {
+  const analysis = new RepositoryFileAnalyzer().analyzeRepository(localPath);
+  const { branch, latestCommit } = await readGitState(localPath);
+
+  return {
+    repository: describeRepository(repository, {
+      branch,
+      date: latestCommit?.date,
+      languages: analysis.stats.languages,
+      size: Math.round(analysis.stats.totalSize / 1024),
+    }),
+    localPath,
+    fileTree: analysis.fileTree,
+    configFiles: analysis.configFiles,
+    entryPoints: analysis.entryPoints,
+    stats: analysis.stats,
+    latestCommit,
+    branch,
+  };
+}
+
+/**
+ * Build repository information for sources without a hosting API
+ */
+function describeRepository(
+  repository: { id: string; name: string; owner: string; url: string },
+  details: { branch?: string; date?: string; languages?: Record<string, number>; size?: number } = {}
+): RepositoryInfo {
+  const languages = details.languages || {};
+  const [language] = Object.entries(languages).sort((a, b) => b[1] - a[1])[0] || [];
+
+  return {
+    id: repository.id,
+    name: repository.name,
+    fullName: repository.id,
+    owner: repository.owner,
+    url: repository.url,
+    cloneUrl: repository.url,
+    defaultBranch: details.branch || '',
+    isPrivate: false,
+    language,
+    languages,
+    size: details.size || 0,
+    stars: 0,
+    forks: 0,
+    createdAt: details.date || '',
+    updatedAt: details.date || '',
+    pushedAt: details.date,
+  };
+}
+
+/**
+ * Read the current branch and latest commit of a git checkout
+ */
+async function readGitState(localPath: string): Promise<{ branch?: string; latestCommit?: CommitInfo }> {
+  if (!fs.existsSync(path.join(localPath, '.git'))) {
+    return {};
+  }
+
+  try {
+    const git = simpleGit(localPath);
+    const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const commit = (await git.log({ maxCount: 1 })).latest;
+    return {
+      branch: branch === 'HEAD' ? undefined : branch,
+      latestCommit: commit
+        ? {
+            sha: commit.hash,
+            message: commit.message,
+            author: { name: commit.author_name, email: commit.author_email, date: commit.date },
+            date: commit.date,
+          }
+        : undefined,
+    };
+  } catch {
+    // Repositories without commits have no branch or commit
+    return {};
+  }
+}
+
+/**
+ * Download an archive to a local file. Redirects are followed by hand so a
+ * public URL cannot redirect into the server's private network.
+ */
+async function downloadArchive(url: string, destination: string, maxBytes: number): Promise<string> {
+  let current = url;
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    if (!/^https?:\/\//i.test(current)) {
+      throw new Error(`Archive downloads must use http or https: ${current}`);
+    }
+    if (isPrivateHost(current) && !isPrivateHost(url)) {
+      throw new Error(`Archive download redirected to a private address: ${current}`);
+    }
+
+    response = await fetch(current, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      break;
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects downloading archive: ${url}`);
+    }
+    current = new URL(location, current).toString();
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download archive: ${response.status} ${response.statusText}`);
+  }
+
+  const tooLarge = new Error(`Archive exceeds the ${maxBytes} byte download limit: ${url}`);
+  if (Number(response.headers.get('content-length') || 0) > maxBytes) {
+    await response.body.cancel();
+    throw tooLarge;
+  }
+
+  // Streamed to disk, counting bytes, as the declared length may be missing or wrong
+  const reader = response.body.getReader();
+  const file = fs.openSync(destination, 'w');
+  let received = 0;
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      received += chunk.value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel();
+        throw tooLarge;
+      }
+      fs.writeSync(file, chunk.value);
+    }
+  } catch (error) {
+    fs.closeSync(file);
+    fs.rmSync(destination, { force: true });
+    throw error;
+  }
+  fs.closeSync(file);
+  return destination;
+}
+
+/**
+ * Hash a file's content without reading it into memory at once
+ */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Extract an archive with the system tar or unzip
+ */
+async function extractArchive(archivePath: string, destination: string): Promise<void> {
+  try {
+    if (/\.zip$/i.test(archivePath)) {
+      await execFileAsync('unzip', ['-q', '-o', archivePath, '-d', destination]);
+    } else {
+      await execFileAsync('tar', ['-xf', archivePath, '-C', destination]);
+    }
+  } catch (error: any) {
+    throw new Error(`Failed to extract archive: ${error.message}`);
+  }
+}
+
+/**
+ * Get the repository root of an extracted archive, skipping a single top-level directory
+ */
+function getArchiveRoot(destination: string): string {
+  const entries = fs.readdirSync(destination, { withFileTypes: true });
+  return entries.length === 1 && entries[0].isDirectory() ? path.join(destination, entries[0].name) : destination;
+}
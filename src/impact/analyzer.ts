@@ -8,6 +8,7 @@ import { Endpoint, DatabaseQuery } from '../types';
 import { Component } from '../types';
 import { extractChangeDetails } from './change-parser';
 import { addTestCoverageToImpact, addTestRecommendations } from './test-coverage';
+import { traceDependencyChains, scoreToSeverity, DependencyChainResult } from './dependency-chain';
 
 export interface ImpactAnalysisContext {
   changeRequest: ChangeRequest;
@@ -18,6 +19,7 @@ export interface ImpactAnalysisContext {
   components: Component[];
   testFiles?: any[]; // TestFile[] - use any to avoid circular dependency
   fileTree?: any; // FileTree
+  maxDepth?: number; // Maximum hops to follow from a changed node
 }
 
 /**
@@ -31,18 +33,33 @@ export function analyzeChangeImpact(
   // Extract change details
   const details = extractChangeDetails(changeRequest);
 
-  // Find affected nodes in lineage graph
-  const affectedNodeIds = findAffectedNodes(context, details);
-
-  // Convert to AffectedNode format
-  const affectedNodes = convertToAffectedNodes(affectedNodeIds, lineageGraph, context);
+  // Find the nodes targeted by the change, then follow dependency chains from them
+  const changedNodeIds = findChangedNodes(context, details);
+  const traversal = traceDependencyChains(
+    lineageGraph,
+    changedNodeIds,
+    context.dependencyGraph,
+    { maxDepth: context.maxDepth }
+  );
+  const lineageIds = new Set(lineageGraph.nodes.map((n) => n.id));
+  const affectedNodeIds = Array.from(traversal.reached.keys()).filter((id) => lineageIds.has(id));
 
   // Find affected files
-  const affectedFiles = extractAffectedFiles(affectedNodeIds, lineageGraph);
+  const affectedFiles = [
+    ...extractAffectedFiles(affectedNodeIds, lineageGraph),
+    ...traversal.files,
+  ];
 
   // Detect breaking changes (pass node IDs)
   const breakingChanges = detectBreakingChanges(context, affectedNodeIds, details);
 
+  // Convert to AffectedNode format
+  const affectedNodes = convertToAffectedNodes(
+    traversal,
+    lineageGraph,
+    new Set(breakingChanges.map((bc) => bc.affectedNode))
+  );
+
   // Calculate impact metrics
   const summary = calculateImpactSummary(
     affectedFiles,
@@ -58,10 +75,9 @@ export function analyzeChangeImpact(
     breakingChanges
   );
 
-  // Build dependency chain (simplified)
   const dependencyChain = {
-    chains: [],
-    maxDepth: 3,
+    chains: traversal.chains,
+    maxDepth: traversal.maxDepth,
     totalAffected: affectedNodes.length,
   };
 
@@ -95,89 +111,113 @@ export function analyzeChangeImpact(
 }
 
 /**
- * Convert node IDs to AffectedNode format
+ * Convert traversal results to AffectedNode format
  */
 function convertToAffectedNodes(
-  nodeIds: string[],
+  traversal: DependencyChainResult,
   graph: LineageGraph,
-  context: ImpactAnalysisContext
+  breakingNodeIds: Set<string>
 ): AffectedNode[] {
   const affectedNodes: AffectedNode[] = [];
 
-  for (const nodeId of nodeIds) {
-    const node = graph.nodes.find((n) => n.id === nodeId);
-    if (node) {
-      affectedNodes.push({
-        nodeId: node.id,
-        nodeType: node.type,
-        file: node.file || '',
-        layer: node.layer || 'backend',
-        impactType: 'indirect', // Could be enhanced to detect direct vs indirect
-        impactReason: `Connected to changed component`,
-        severity: 'medium',
-        depth: 1, // Could calculate actual depth
-      });
+  for (const node of graph.nodes) {
+    const reached = traversal.reached.get(node.id);
+    if (!reached) {
+      continue;
+    }
+
+    const direct = reached.depth === 0;
+    const origin = graph.nodes.find((n) => n.id === reached.origin);
+    const originLabel = origin ? origin.label : reached.origin;
+
+    let impactReason: string;
+    if (direct) {
+      impactReason = 'Targeted by change request';
+    } else if (reached.direction === 'forward') {
+      impactReason = `Depends on changed ${originLabel} (${reached.depth} hop${reached.depth > 1 ? 's' : ''})`;
+    } else {
+      impactReason = `Used by changed ${originLabel} (${reached.depth} hop${reached.depth > 1 ? 's' : ''})`;
     }
+
+    affectedNodes.push({
+      nodeId: node.id,
+      nodeType: node.type,
+      file: node.file || '',
+      layer: node.layer || 'backend',
+      impactType: direct ? 'direct' : 'indirect',
+      impactReason,
+      severity: direct && breakingNodeIds.has(node.id) ? 'critical' : scoreToSeverity(reached.score),
+      depth: reached.depth,
+    });
   }
 
-  return affectedNodes;
+  return affectedNodes.sort((a, b) => a.depth - b.depth);
 }
 
 /**
- * Find affected nodes in graph
+ * Find the nodes directly targeted by a change request
  */
-function findAffectedNodes(
+function findChangedNodes(
   context: ImpactAnalysisContext,
   details: ReturnType<typeof extractChangeDetails>
 ): string[] {
-  const affectedNodes = new Set<string>();
-  const { lineageGraph, endpoints, queries, components } = context;
+  const changedNodes = new Set<string>();
+  const { lineageGraph } = context;
 
-  // Find nodes by type
-  switch (context.changeRequest.type) {
-    case 'modify-api':
-      // Find endpoint nodes and all connected nodes
-      if (details.targetEndpoints) {
-        for (const endpointPattern of details.targetEndpoints) {
-          const endpointNodes = findNodesByPattern(lineageGraph, `endpoint:`, endpointPattern);
-          endpointNodes.forEach((nodeId) => {
-            affectedNodes.add(nodeId);
-            // Add all nodes connected to this endpoint
-            addConnectedNodes(lineageGraph, nodeId, affectedNodes);
-          });
-        }
-      } else {
-        // Find all endpoints (general endpoint change)
-        lineageGraph.nodes
-          .filter((n) => n.type === 'endpoint')
-          .forEach((n) => {
-            affectedNodes.add(n.id);
-            addConnectedNodes(lineageGraph, n.id, affectedNodes);
-          });
-      }
-      break;
+  for (const endpointPattern of details.targetEndpoints || []) {
+    // "METHOD /path" targets (e.g. from a diff) match exactly, bare patterns loosely
+    const exact = lineageGraph.nodes.filter(
+      (n) => n.type === 'endpoint' && n.label.toLowerCase() === endpointPattern.toLowerCase()
+    );
+    const matches = exact.length > 0
+      ? exact.map((n) => n.id)
+      : findNodesByPattern(lineageGraph, 'endpoint:', endpointPattern);
+    matches.forEach((id) => changedNodes.add(id));
+  }
 
-    // These cases are handled above, remove duplicate cases
-
-    case 'other':
-    default:
-      // Find by file path
-      if (details.targetFiles) {
-        for (const filePath of details.targetFiles) {
-          const fileNodes = lineageGraph.nodes.filter((n) => n.file === filePath);
-          fileNodes.forEach((n) => {
-            affectedNodes.add(n.id);
-            addConnectedNodes(lineageGraph, n.id, affectedNodes);
-          });
-        }
-      } else {
-        // Affects everything (very broad change)
-        lineageGraph.nodes.forEach((n) => affectedNodes.add(n.id));
-      }
-      break;
+  for (const tableName of details.targetTables || []) {
+    const name = tableName.toLowerCase();
+    lineageGraph.nodes
+      .filter(
+        (n) =>
+          n.type === 'table' &&
+          (n.label.toLowerCase() === name || n.data.tableName?.toLowerCase() === name)
+      )
+      .forEach((n) => changedNodes.add(n.id));
   }
 
-  return Array.from(affectedNodes);
+  for (const componentName of details.targetComponents || []) {
+    lineageGraph.nodes
+      .filter((n) => (n.type === 'component' || n.type === 'page') && n.label === componentName)
+      .forEach((n) => changedNodes.add(n.id));
+  }
+
+  for (const filePath of details.targetFiles || []) {
+    lineageGraph.nodes
+      .filter((n) => n.file && (n.file === filePath || n.file.endsWith(`/${filePath}`)))
+      .forEach((n) => changedNodes.add(n.id));
+  }
+
+  const hasTargets =
+    (details.targetEndpoints?.length || 0) +
+      (details.targetTables?.length || 0) +
+      (details.targetComponents?.length || 0) +
+      (details.targetFiles?.length || 0) >
+    0;
+
+  if (!hasTargets) {
+    if (context.changeRequest.type === 'modify-api') {
+      // General endpoint change
+      lineageGraph.nodes
+        .filter((n) => n.type === 'endpoint')
+        .forEach((n) => changedNodes.add(n.id));
+    } else {
+      // Affects everything (very broad change)
+      lineageGraph.nodes.forEach((n) => changedNodes.add(n.id));
+    }
+  }
+
+  return Array.from(changedNodes);
 }
 
 /**
@@ -205,35 +245,6 @@ function findNodesByPattern(
   return nodeIds;
 }
 
-/**
- * Add connected nodes (follow edges)
- */
-function addConnectedNodes(
-  graph: LineageGraph,
-  nodeId: string,
-  visited: Set<string>,
-  depth = 0,
-  maxDepth = 3
-): void {
-  if (depth > maxDepth || visited.has(nodeId)) {
-    return;
-  }
-
-  visited.add(nodeId);
-
-  // Find outgoing edges
-  const outgoing = graph.edges.filter((e) => e.from === nodeId);
-  for (const edge of outgoing) {
-    addConnectedNodes(graph, edge.to, visited, depth + 1, maxDepth);
-  }
-
-  // Find incoming edges (for some change types, we care about reverse impact)
-  const incoming = graph.edges.filter((e) => e.to === nodeId);
-  for (const edge of incoming) {
-    addConnectedNodes(graph, edge.from, visited, depth + 1, maxDepth);
-  }
-}
-
 /**
  * Extract affected files from nodes
  */
@@ -265,7 +276,9 @@ function detectBreakingChanges(
     case 'modify-api':
       // Check for endpoint signature changes
       for (const endpointPattern of details.targetEndpoints || []) {
-        const endpoint = endpoints.find((e) => e.path.includes(endpointPattern));
+        const endpoint =
+          endpoints.find((e) => `${e.method} ${e.path}` === endpointPattern) ||
+          endpoints.find((e) => e.path.includes(endpointPattern));
         if (endpoint) {
     breakingChanges.push({
       id: `breaking-endpoint-${endpoint.id}`,
@@ -158,6 +158,20 @@ export function extractChangeDetails(change: ChangeRequest): {
     details.targetComponents = componentMatches.map((m) => m.split(':')[1].trim());
   }
 
+  // Explicit targets on a structured change request take part as well
+  details.targetFiles = mergeTargets(change.targetFiles, details.targetFiles);
+  details.targetEndpoints = mergeTargets(change.targetEndpoints, details.targetEndpoints);
+  details.targetTables = mergeTargets(change.targetTables, details.targetTables);
+  details.targetComponents = mergeTargets(change.targetComponents, details.targetComponents);
+
   return details;
 }
 
+/**
+ * Merge explicit and extracted targets, dropping duplicates
+ */
+function mergeTargets(explicit?: string[], extracted?: string[]): string[] | undefined {
+  const merged = Array.from(new Set([...(explicit || []), ...(extracted || [])]));
+  return merged.length > 0 ? merged : undefined;
+}
+
@@ -0,0 +1,274 @@
+/**
+ * Transitive dependency chain traversal for impact analysis
+ *
+ * Edges in both graphs point from the dependent to its dependency
+ * (component → api-call → endpoint → query → table, importer → imported file).
+ * Forward traversal walks edges in reverse to find what depends on a change;
+ * backward traversal walks them as-is to find what the change depends on.
+ */
+
+import { LineageGraph, LineageNode, DependencyGraph, DependencyPath } from '../types';
+
+export interface DependencyChainOptions {
+  maxDepth?: number;
+  includeBackward?: boolean;
+}
+
+export interface ReachedNode {
+  nodeId: string;
+  origin: string;
+  depth: number;
+  score: number;
+  direction: DependencyPath['type'];
+  path: DependencyPath;
+}
+
+export interface DependencyChainResult {
+  reached: Map<string, ReachedNode>;
+  chains: DependencyPath[];
+  files: Set<string>;
+  maxDepth: number;
+}
+
+interface TraversalLink {
+  to: string;
+  edgeId: string;
+  confidence: number;
+}
+
+interface TraversalState {
+  nodeId: string;
+  origin: string;
+  direction: DependencyPath['type'];
+  depth: number;
+  score: number;
+  nodes: string[];
+  edges: string[];
+}
+
+export const DEFAULT_MAX_DEPTH = 5;
+
+/** Score multiplier applied per hop away from the changed node */
+const DEPTH_DECAY = 0.8;
+
+/** Score multiplier for nodes the change depends on rather than its dependents */
+const BACKWARD_FACTOR = 0.5;
+
+const DEPENDENCY_EDGE_CONFIDENCE: Record<string, number> = {
+  import: 0.8,
+  call: 0.9,
+  extends: 0.9,
+  uses: 0.7,
+};
+
+const FILE_PREFIX = 'file:';
+
+/**
+ * Trace transitive dependency chains from the changed nodes
+ */
+export function traceDependencyChains(
+  lineageGraph: LineageGraph,
+  changedNodeIds: string[],
+  dependencyGraph?: DependencyGraph,
+  options: DependencyChainOptions = {}
+): DependencyChainResult {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const includeBackward = options.includeBackward ?? true;
+  const { forward, backward } = buildAdjacency(lineageGraph, dependencyGraph);
+
+  const reached = new Map<string, ReachedNode>();
+  const expanded = new Set<string>();
+  const files = new Set<string>();
+  let deepest = 0;
+
+  let frontier: TraversalState[] = [];
+  for (const nodeId of changedNodeIds) {
+    const directions: DependencyPath['type'][] = includeBackward
+      ? ['forward', 'backward']
+      : ['forward'];
+    for (const direction of directions) {
+      frontier.push({
+        nodeId,
+        origin: nodeId,
+        direction,
+        depth: 0,
+        score: direction === 'backward' ? BACKWARD_FACTOR : 1,
+        nodes: [nodeId],
+        edges: [],
+      });
+    }
+  }
+
+  while (frontier.length > 0) {
+    // Record the best state per node at this depth before expanding
+    for (const state of frontier) {
+      const existing = reached.get(state.nodeId);
+      if (!existing || (existing.depth === state.depth && existing.score < state.score)) {
+        reached.set(state.nodeId, toReachedNode(state));
+      }
+      if (state.nodeId.startsWith(FILE_PREFIX)) {
+        files.add(state.nodeId.slice(FILE_PREFIX.length));
+      }
+      deepest = Math.max(deepest, state.depth);
+    }
+
+    const next: TraversalState[] = [];
+    for (const state of frontier) {
+      const key = `${state.direction}|${state.nodeId}`;
+      if (expanded.has(key) || state.depth >= maxDepth) {
+        continue;
+      }
+      expanded.add(key);
+
+      const adjacency = state.direction === 'forward' ? forward : backward;
+      for (const link of adjacency.get(state.nodeId) || []) {
+        if (state.nodes.includes(link.to)) {
+          continue;
+        }
+        next.push({
+          nodeId: link.to,
+          origin: state.origin,
+          direction: state.direction,
+          depth: state.depth + 1,
+          score: state.score * link.confidence * DEPTH_DECAY,
+          nodes: [...state.nodes, link.to],
+          edges: [...state.edges, link.edgeId],
+        });
+      }
+    }
+
+    // Strongest paths first so they win when a node is reached twice
+    frontier = next
+      .filter((state) => !expanded.has(`${state.direction}|${state.nodeId}`))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  const lineageIds = new Set(lineageGraph.nodes.map((n) => n.id));
+  const chains = Array.from(reached.values())
+    .filter((r) => r.depth > 0 && lineageIds.has(r.nodeId))
+    .map((r) => r.path);
+
+  return {
+    reached,
+    chains,
+    files,
+    maxDepth: deepest,
+  };
+}
+
+/**
+ * Map an impact score to a severity level
+ */
+export function scoreToSeverity(score: number): 'high' | 'medium' | 'low' {
+  if (score >= 0.75) {
+    return 'high';
+  }
+  if (score >= 0.4) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+/**
+ * Build forward (dependents) and backward (dependencies) adjacency lists
+ */
+function buildAdjacency(
+  lineageGraph: LineageGraph,
+  dependencyGraph?: DependencyGraph
+): { forward: Map<string, TraversalLink[]>; backward: Map<string, TraversalLink[]> } {
+  const forward = new Map<string, TraversalLink[]>();
+  const backward = new Map<string, TraversalLink[]>();
+
+  const link = (from: string, to: string, edgeId: string, confidence: number) => {
+    if (!backward.has(from)) backward.set(from, []);
+    if (!forward.has(to)) forward.set(to, []);
+    backward.get(from)!.push({ to, edgeId, confidence });
+    forward.get(to)!.push({ to: from, edgeId, confidence });
+  };
+
+  for (const edge of lineageGraph.edges) {
+    link(edge.from, edge.to, edge.id, edge.confidence);
+  }
+
+  if (!dependencyGraph) {
+    return { forward, backward };
+  }
+
+  // Collapse the dependency graph to file-level edges
+  const nodeFiles = new Map<string, string>();
+  for (const node of dependencyGraph.nodes) {
+    if (node.file) {
+      nodeFiles.set(node.id, node.file);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const edge of dependencyGraph.edges) {
+    const fromFile = nodeFiles.get(edge.from);
+    const toFile = nodeFiles.get(edge.to);
+    if (!fromFile || !toFile || fromFile === toFile) {
+      continue;
+    }
+    const from = `${FILE_PREFIX}${fromFile}`;
+    const to = `${FILE_PREFIX}${toFile}`;
+    const edgeId = `edge:${from}-${to}`;
+    if (seen.has(edgeId)) {
+      continue;
+    }
+    seen.add(edgeId);
+    link(from, to, edgeId, DEPENDENCY_EDGE_CONFIDENCE[edge.type] ?? 0.7);
+  }
+
+  // Lineage nodes live in their file: a changed node changes its file,
+  // and a changed file affects every node declared in it
+  const dependencyFiles = new Set(nodeFiles.values());
+  for (const node of lineageGraph.nodes) {
+    if (!node.file || !dependencyFiles.has(node.file)) {
+      continue;
+    }
+    linkContainment(node, forward, backward);
+  }
+
+  return { forward, backward };
+}
+
+/**
+ * Link a lineage node with the file that declares it
+ */
+function linkContainment(
+  node: LineageNode,
+  forward: Map<string, TraversalLink[]>,
+  backward: Map<string, TraversalLink[]>
+): void {
+  const fileId = `${FILE_PREFIX}${node.file}`;
+  const edgeId = `edge:${fileId}-${node.id}`;
+
+  for (const adjacency of [forward, backward]) {
+    if (!adjacency.has(node.id)) adjacency.set(node.id, []);
+    if (!adjacency.has(fileId)) adjacency.set(fileId, []);
+  }
+  forward.get(node.id)!.push({ to: fileId, edgeId, confidence: 1 });
+  forward.get(fileId)!.push({ to: node.id, edgeId, confidence: 1 });
+  backward.get(node.id)!.push({ to: fileId, edgeId, confidence: 1 });
+  backward.get(fileId)!.push({ to: node.id, edgeId, confidence: 1 });
+}
+
+/**
+ * Convert a traversal state to a reached node with its path
+ */
+function toReachedNode(state: TraversalState): ReachedNode {
+  return {
+    nodeId: state.nodeId,
+    origin: state.origin,
+    depth: state.depth,
+    score: state.score,
+    direction: state.direction,
+    path: {
+      from: state.origin,
+      to: state.nodeId,
+      nodes: state.nodes,
+      edges: state.edges,
+      type: state.direction,
+    },
+  };
+}
@@ -0,0 +1,791 @@
+/**
+ * Build change requests from git diffs
+ */
+
+import simpleGit from 'simple-git';
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeRequest, ChangeType } from '../types';
+import { ParsedFile } from '../types';
+import { Endpoint } from '../types';
+import { Table } from '../types';
+import { parseBackendFile } from '../analyzers/backend/parser';
+import { parseFrontendFile } from '../analyzers/frontend/parser';
+import { extractEndpoints } from '../analyzers/backend/endpoint-extractor';
+import { resolveRouteMounts } from '../analyzers/backend/route-mounts';
+import { detectReactComponents } from '../analyzers/frontend/component-detector';
+import { parseSequelizeModel, parseTypeORMEntity } from '../analyzers/database/orm-parser';
+import { buildFileTree } from '../utils/file-utils';
+import { ValidationError } from '../utils/errors';
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface FileDiff {
+  oldPath: string | null;
+  newPath: string | null;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  hunks: DiffHunk[];
+  addedLines: number[]; // New-side line numbers
+  removedLines: number[]; // Old-side line numbers
+  removedAt: number[]; // New-side positions where lines were removed
+  removedContent: Map<number, string>; // Old-side line number → text
+}
+
+export interface DiffChangeOptions {
+  repoPath: string;
+  diff?: string; // Unified diff; takes precedence over refs
+  baseRef?: string;
+  headRef?: string;
+  description?: string;
+}
+
+export interface ChangedFunction {
+  file: string;
+  name: string;
+  line: number;
+}
+
+interface FileChangeTargets {
+  functions: ChangedFunction[];
+  endpoints: Endpoint[];
+  components: string[];
+  tables: string[];
+}
+
+interface LineRange {
+  name: string;
+  start: number;
+  end: number;
+}
+
+const SCRIPT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte'];
+const JSX_EXTENSIONS = ['.jsx', '.tsx', '.vue', '.svelte'];
+
+/**
+ * Parse a unified diff into per-file changes
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: FileDiff | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const startFile = (): FileDiff => {
+    const file: FileDiff = {
+      oldPath: null,
+      newPath: null,
+      status: 'modified',
+      hunks: [],
+      addedLines: [],
+      removedLines: [],
+      removedAt: [],
+      removedContent: new Map(),
+    };
+    files.push(file);
+    return file;
+  };
+
+  for (const line of diff.split('\n')) {
+    const inHunk = current !== null && (oldRemaining > 0 || newRemaining > 0);
+
+    if (inHunk && current) {
+      if (line.startsWith('+')) {
+        current.addedLines.push(newLine++);
+        newRemaining--;
+        continue;
+      }
+      if (line.startsWith('-')) {
+        current.removedLines.push(oldLine);
+        current.removedContent.set(oldLine, line.slice(1));
+        current.removedAt.push(newLine);
+        oldLine++;
+        oldRemaining--;
+        continue;
+      }
+      if (line.startsWith(' ') || line === '') {
+        oldLine++;
+        newLine++;
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (line.startsWith('\\')) {
+        continue; // "\ No newline at end of file"
+      }
+    }
+
+    if (line.startsWith('diff --git ')) {
+      current = startFile();
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      if (match) {
+        current.oldPath = match[1];
+        current.newPath = match[2];
+      }
+      oldRemaining = newRemaining = 0;
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      if (!current || current.hunks.length > 0) {
+        current = startFile();
+      }
+      current.oldPath = parseDiffPath(line.slice(4));
+      if (current.oldPath === null) {
+        current.status = 'added';
+      }
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && current) {
+      current.newPath = parseDiffPath(line.slice(4));
+      if (current.newPath === null) {
+        current.status = 'deleted';
+      }
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    if (line.startsWith('new file mode')) {
+      current.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      current.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      current.status = 'renamed';
+      current.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      current.status = 'renamed';
+      current.newPath = line.slice('rename to '.length);
+    } else {
+      const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (hunkMatch) {
+        const hunk: DiffHunk = {
+          oldStart: parseInt(hunkMatch[1], 10),
+          oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+          newStart: parseInt(hunkMatch[3], 10),
+          newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1,
+        };
+        current.hunks.push(hunk);
+        oldLine = hunk.oldStart;
+        newLine = hunk.newStart;
+        oldRemaining = hunk.oldLines;
+        newRemaining = hunk.newLines;
+      }
+    }
+  }
+
+  // Normalise paths for added/deleted files
+  for (const file of files) {
+    if (file.status === 'added') {
+      file.oldPath = null;
+    } else if (file.status === 'deleted') {
+      file.newPath = null;
+    }
+  }
+
+  return files.filter((f) => f.oldPath !== null || f.newPath !== null);
+}
+
+/**
+ * Parse a path from a ---/+++ diff header line
+ */
+function parseDiffPath(value: string): string | null {
+  const filePath = value.split('\t')[0].trim();
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Get the unified diff between two refs of a local repository
+ */
+export async function getGitDiff(
+  repoPath: string,
+  baseRef: string,
+  headRef = 'HEAD'
+): Promise<string> {
+  const git = simpleGit(repoPath);
+  return git.diff(['--no-color', '-M', baseRef, headRef]);
+}
+
+/**
+ * Create a change request from a unified diff or two git refs
+ */
+export async function parseDiffChangeRequest(
+  options: DiffChangeOptions
+): Promise<ChangeRequest> {
+  if (!options.diff && !options.baseRef) {
+    throw new ValidationError('A unified diff or a base ref is required');
+  }
+
+  const headRef = options.headRef || 'HEAD';
+  const diff = options.diff ?? (await getGitDiff(options.repoPath, options.baseRef!, headRef));
+  const files = parseUnifiedDiff(diff);
+
+  // Load post-change contents: from the head ref in ref mode, else by applying the diff
+  let contents = new Map<string, string>();
+  if (options.diff) {
+    contents = await applyDiff(options.repoPath, files, diff);
+  } else {
+    const git = simpleGit(options.repoPath);
+    for (const file of files) {
+      if (!file.newPath) {
+        continue;
+      }
+      try {
+        contents.set(file.newPath, await git.show([`${headRef}:${file.newPath}`]));
+      } catch {
+        // File not readable at this revision
+      }
+    }
+  }
+
+  return buildDiffChangeRequest(files, contents, {
+    repoPath: options.repoPath,
+    description: options.description,
+    baseRef: options.diff ? undefined : options.baseRef,
+    headRef: options.diff ? undefined : headRef,
+  });
+}
+
+/**
+ * Get the post-change contents of a diff's files. The files it touches are
+ * copied to a scratch directory and the diff applied there with git apply, so
+ * new-side line numbers match the contents they are mapped against. A diff
+ * already present in the repository is read from it as is.
+ */
+async function applyDiff(repoPath: string, files: FileDiff[], diff: string): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+  const scratch = fs.mkdtempSync(path.join(os.tmpdir(), 'diff-'));
+  const tree = path.join(scratch, 'tree');
+  const patch = path.join(scratch, 'change.diff');
+
+  try {
+    fs.mkdirSync(tree);
+    for (const file of files) {
+      const source = file.oldPath && resolveRepositoryFile(repoPath, file.oldPath);
+      if (file.newPath) {
+        resolveRepositoryFile(repoPath, file.newPath);
+      }
+      if (source && fs.existsSync(source)) {
+        fs.mkdirSync(path.dirname(path.join(tree, file.oldPath!)), { recursive: true });
+        fs.copyFileSync(source, path.join(tree, file.oldPath!));
+      }
+    }
+    fs.writeFileSync(patch, diff.endsWith('\n') ? diff : `${diff}\n`);
+
+    const git = simpleGit(tree);
+    await git.init();
+    let root = tree;
+    try {
+      await git.raw(['apply', '--whitespace=nowarn', patch]);
+    } catch (error: any) {
+      try {
+        await simpleGit(repoPath).raw(['apply', '--check', '--reverse', patch]);
+        root = repoPath;
+      } catch {
+        throw new ValidationError('Diff does not apply to the repository', { error: error.message });
+      }
+    }
+
+    for (const file of files) {
+      if (!file.newPath) {
+        continue;
+      }
+      try {
+        contents.set(file.newPath, fs.readFileSync(resolveRepositoryFile(root, file.newPath), 'utf-8'));
+      } catch {
+        // File not readable after the change
+      }
+    }
+  } finally {
+    fs.rmSync(scratch, { recursive: true, force: true });
+  }
+
+  return contents;
+}
+
+/**
+ * Resolve a path from a diff inside the repository, rejecting paths that
+ * escape it, directly or through a symbolic link
+ */
+function resolveRepositoryFile(repoPath: string, filePath: string): string {
+  const root = fs.realpathSync(repoPath);
+  let resolved = path.resolve(root, filePath);
+  if (fs.existsSync(resolved)) {
+    resolved = fs.realpathSync(resolved);
+  }
+  if (resolved !== root && !resolved.startsWith(`${root}${path.sep}`)) {
+    throw new ValidationError(`Diff path is outside the repository: ${filePath}`, { path: filePath });
+  }
+  return resolved;
+}
+
+/**
+ * Map changed hunks to code entities and build a change request. With the
+ * repository path, changed routes get the prefixes their routers are mounted under.
+ */
+export function buildDiffChangeRequest(
+  files: FileDiff[],
+  contents: Map<string, string>,
+  meta: { repoPath?: string; description?: string; baseRef?: string; headRef?: string } = {}
+): ChangeRequest {
+  const targetFiles: string[] = [];
+  const sources = new Map<string, string>();
+  const changedEndpoints: Endpoint[] = [];
+  const components = new Set<string>();
+  const tables = new Set<string>();
+  const functions: ChangedFunction[] = [];
+
+  for (const file of files) {
+    const filePath = (file.newPath || file.oldPath)!;
+    targetFiles.push(filePath);
+
+    // Deleted files are analysed on their old content, rebuilt from the diff
+    const deleted = file.status === 'deleted';
+    const content = deleted ? rebuildOldContent(file) : contents.get(filePath);
+    if (content === undefined) {
+      continue;
+    }
+    sources.set(filePath, content);
+
+    const changedLines = deleted
+      ? new Set(file.removedLines)
+      : new Set([...file.addedLines, ...file.removedAt]);
+    if (changedLines.size === 0) {
+      continue;
+    }
+
+    const targets = mapFileChanges(filePath, content, changedLines);
+    functions.push(...targets.functions);
+    changedEndpoints.push(...targets.endpoints);
+    targets.components.forEach((c) => components.add(c));
+    targets.tables.forEach((name) => tables.add(name));
+  }
+
+  const endpoints = new Set(
+    meta.repoPath && changedEndpoints.length > 0
+      ? resolveMountedEndpoints(meta.repoPath, changedEndpoints, sources)
+      : changedEndpoints.map((e) => `${e.method} ${e.path}`)
+  );
+
+  const changeRequest: ChangeRequest = {
+    id: `change-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    type: inferDiffChangeType(files, endpoints.size, components.size, tables.size),
+    description:
+      meta.description ||
+      (meta.baseRef
+        ? `Changes between ${meta.baseRef} and ${meta.headRef}: ${files.length} file(s)`
+        : `Diff touching ${files.length} file(s)`),
+    targetFiles,
+    targetEndpoints: Array.from(endpoints),
+    targetComponents: Array.from(components),
+    targetTables: Array.from(tables),
+    affectedAreas: [
+      ...(components.size > 0 ? ['frontend'] : []),
+      ...(endpoints.size > 0 || functions.length > 0 ? ['backend'] : []),
+      ...(tables.size > 0 ? ['database'] : []),
+    ],
+    metadata: {
+      source: 'git-diff',
+      baseRef: meta.baseRef,
+      headRef: meta.headRef,
+      changedFunctions: functions,
+      files: files.map((f) => ({
+        path: f.newPath || f.oldPath,
+        previousPath: f.status === 'renamed' ? f.oldPath : undefined,
+        status: f.status,
+        additions: f.addedLines.length,
+        deletions: f.removedLines.length,
+      })),
+    },
+  };
+
+  if (changeRequest.affectedAreas!.length === 0) {
+    changeRequest.affectedAreas = ['frontend', 'backend', 'database'];
+  }
+
+  return changeRequest;
+}
+
+/**
+ * Map the changed lines of one file to functions, endpoints, components and tables
+ */
+function mapFileChanges(
+  filePath: string,
+  content: string,
+  changedLines: Set<number>
+): FileChangeTargets {
+  const targets: FileChangeTargets = { functions: [], endpoints: [], components: [], tables: [] };
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (ext === '.prisma') {
+    targets.tables.push(...findPrismaModelChanges(content, changedLines));
+    return targets;
+  }
+
+  if (ext === '.sql') {
+    targets.tables.push(...findSqlTableChanges(content, changedLines));
+    return targets;
+  }
+
+  if (!SCRIPT_EXTENSIONS.includes(ext)) {
+    return targets;
+  }
+
+  const isJsx = JSX_EXTENSIONS.includes(ext);
+  const parsed = isJsx
+    ? parseFrontendFile(filePath, content)
+    : parseBackendFile(filePath, content);
+  if (!parsed || !parsed.ast) {
+    return targets;
+  }
+
+  const { functions, calls, models } = collectRanges(parsed);
+  const overlaps = (start: number, end: number) => {
+    for (const line of changedLines) {
+      if (line >= start && line <= end) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const changedFunctions = functions.filter((f) => overlaps(f.start, f.end));
+  const changedNames = new Set(changedFunctions.map((f) => f.name));
+  targets.functions.push(
+    ...changedFunctions.map((f) => ({ file: filePath, name: f.name, line: f.start }))
+  );
+
+  if (isJsx) {
+    for (const component of detectReactComponents(parsed)) {
+      // Any change to a .vue/.svelte file (script or template) changes its component
+      if (parsed.sfc || changedNames.has(component.name)) {
+        targets.components.push(component.name);
+      }
+    }
+  } else {
+    for (const endpoint of extractEndpoints(parsed)) {
+      const end = calls.get(endpoint.line) ?? endpoint.line;
+      if (overlaps(endpoint.line, end) || changedNames.has(endpoint.handler)) {
+        targets.endpoints.push(endpoint);
+      }
+    }
+  }
+
+  // ORM models
+  const ormTables = [...parseSequelizeModel(parsed), ...parseTypeORMEntity(parsed)];
+  for (const table of ormTables) {
+    const declaration = findModelDeclaration(table, models);
+    if (declaration ? overlaps(declaration.start, declaration.end) : true) {
+      targets.tables.push(table.name);
+    }
+  }
+
+  // Migration files written in JavaScript (knex, Sequelize queryInterface)
+  if (/(^|\/)migrations?\//i.test(filePath)) {
+    targets.tables.push(...findMigrationTableChanges(content, changedLines));
+  }
+
+  targets.tables = Array.from(new Set(targets.tables));
+  return targets;
+}
+
+/**
+ * Label changed endpoints with their full paths, resolving router mounts across
+ * the repository's backend files. The diff's files are read from their changed
+ * contents; a router mounted under several prefixes gets one label per mount.
+ */
+function resolveMountedEndpoints(repoPath: string, changed: Endpoint[], sources: Map<string, string>): string[] {
+  const root = path.resolve(repoPath);
+  const relativePaths = new Set(
+    [...buildFileTree(root).files.values()].filter((node) => node.type === 'file').map((node) => node.relativePath)
+  );
+  sources.forEach((_, filePath) => relativePaths.add(filePath));
+
+  // Import resolution between the files works on absolute paths
+  const files = new Map<string, ParsedFile>();
+  for (const relativePath of relativePaths) {
+    const ext = path.extname(relativePath).toLowerCase();
+    if (!SCRIPT_EXTENSIONS.includes(ext) || JSX_EXTENSIONS.includes(ext)) {
+      continue;
+    }
+    const filePath = path.join(root, relativePath);
+    const parsed = parseBackendFile(filePath, sources.get(relativePath));
+    if (parsed) {
+      files.set(filePath, parsed);
+    }
+  }
+
+  const mounted = resolveRouteMounts(
+    [...files.values()].flatMap((file) => extractEndpoints(file)),
+    files
+  );
+  return changed.flatMap((endpoint) => {
+    const matches = mounted.filter(
+      (e) =>
+        path.relative(root, e.file) === endpoint.file && e.line === endpoint.line && e.method === endpoint.method
+    );
+    return (matches.length > 0 ? matches : [endpoint]).map((e) => `${e.method} ${e.path}`);
+  });
+}
+
+/**
+ * Collect named function ranges, call ranges by start line, and model declarations
+ */
+function collectRanges(parsed: ParsedFile): {
+  functions: LineRange[];
+  calls: Map<number, number>;
+  models: Array<LineRange & { literals: Set<string> }>;
+} {
+  const functions: LineRange[] = [];
+  const calls = new Map<number, number>();
+  const models: Array<LineRange & { literals: Set<string> }> = [];
+
+  const range = (name: string, node: t.Node): LineRange | null =>
+    node.loc ? { name, start: node.loc.start.line, end: node.loc.end.line } : null;
+
+  const stringLiterals = (nodePath: any): Set<string> => {
+    const literals = new Set<string>();
+    nodePath.traverse({
+      StringLiteral(literalPath: any) {
+        literals.add(literalPath.node.value);
+      },
+    });
+    return literals;
+  };
+
+  traverse(parsed.ast as t.File, {
+    FunctionDeclaration(nodePath) {
+      const r = nodePath.node.id && range(nodePath.node.id.name, nodePath.node);
+      if (r) functions.push(r);
+    },
+
+    VariableDeclarator(nodePath) {
+      const { id, init } = nodePath.node;
+      if (
+        t.isIdentifier(id) &&
+        init &&
+        (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))
+      ) {
+        const r = range(id.name, nodePath.parentPath?.node || nodePath.node);
+        if (r) functions.push(r);
+      }
+    },
+
+    ClassMethod(nodePath) {
+      const classNode = nodePath.parentPath.parentPath?.node;
+      const className =
+        classNode && t.isClassDeclaration(classNode) && classNode.id ? classNode.id.name : null;
+      const key = nodePath.node.key;
+      if (t.isIdentifier(key)) {
+        const r = range(className ? `${className}.${key.name}` : key.name, nodePath.node);
+        if (r) functions.push(r);
+      }
+    },
+
+    ClassDeclaration(nodePath) {
+      if (nodePath.node.id) {
+        const r = range(nodePath.node.id.name, nodePath.node);
+        if (r) models.push({ ...r, literals: stringLiterals(nodePath) });
+      }
+    },
+
+    CallExpression(nodePath) {
+      const { loc, callee } = nodePath.node;
+      if (!loc) {
+        return;
+      }
+      calls.set(loc.start.line, Math.max(calls.get(loc.start.line) ?? 0, loc.end.line));
+
+      if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.property) &&
+        (callee.property.name === 'define' || callee.property.name === 'init')
+      ) {
+        models.push({
+          name: callee.property.name,
+          start: loc.start.line,
+          end: loc.end.line,
+          literals: stringLiterals(nodePath),
+        });
+      }
+    },
+  });
+
+  return { functions, calls, models };
+}
+
+/**
+ * Find the declaration range of an ORM model by model, table or class name
+ */
+function findModelDeclaration(
+  table: Table,
+  models: Array<LineRange & { literals: Set<string> }>
+): LineRange | undefined {
+  const lower = table.name.toLowerCase();
+  return (
+    (table.model ? models.find((m) => m.name === table.model || m.literals.has(table.model!)) : undefined) ||
+    models.find((m) => m.literals.has(table.name)) ||
+    models.find((m) => {
+      const name = m.name.toLowerCase();
+      return name === lower || `${name}s` === lower;
+    })
+  );
+}
+
+/**
+ * Find Prisma models whose block contains a changed line
+ */
+function findPrismaModelChanges(content: string, changedLines: Set<number>): string[] {
+  const tables: string[] = [];
+  const lines = content.split('\n');
+  let current: { name: string; start: number } | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const trimmed = line.trim();
+    const modelMatch = trimmed.match(/^model\s+(\w+)/);
+
+    if (modelMatch) {
+      current = { name: modelMatch[1], start: lineNumber };
+    } else if (trimmed === '}' && current) {
+      for (let l = current.start; l <= lineNumber; l++) {
+        if (changedLines.has(l)) {
+          tables.push(current.name);
+          break;
+        }
+      }
+      current = null;
+    }
+  });
+
+  return tables;
+}
+
+/**
+ * Find tables named by SQL statements that contain a changed line
+ */
+function findSqlTableChanges(content: string, changedLines: Set<number>): string[] {
+  const tables = new Set<string>();
+  const tablePattern =
+    /\b(?:CREATE\s+(?:TEMP(?:ORARY)?\s+)?TABLE(?:\s+IF\s+NOT\s+EXISTS)?|ALTER\s+TABLE(?:\s+IF\s+EXISTS)?|DROP\s+TABLE(?:\s+IF\s+EXISTS)?|INSERT\s+INTO|DELETE\s+FROM|TRUNCATE(?:\s+TABLE)?|CREATE\s+(?:UNIQUE\s+)?INDEX(?:\s+CONCURRENTLY)?(?:\s+IF\s+NOT\s+EXISTS)?\s+\w+\s+ON)\s+(?:ONLY\s+)?["`[]?(?:\w+["`\]]?\.["`[]?)?(\w+)/gi;
+
+  let statementStart = 1;
+  let statement = '';
+  const lines = content.split('\n');
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    statement += `${line}\n`;
+    if (!line.includes(';') && index < lines.length - 1) {
+      return;
+    }
+
+    let touched = false;
+    for (let l = statementStart; l <= lineNumber; l++) {
+      if (changedLines.has(l)) {
+        touched = true;
+        break;
+      }
+    }
+
+    if (touched) {
+      const code = statement.replace(/--.*$/gm, '');
+      let match;
+      tablePattern.lastIndex = 0;
+      while ((match = tablePattern.exec(code)) !== null) {
+        tables.add(match[1]);
+      }
+    }
+
+    statement = '';
+    statementStart = lineNumber + 1;
+  });
+
+  return Array.from(tables);
+}
+
+/**
+ * Find tables touched by changed lines of a knex or Sequelize migration
+ */
+function findMigrationTableChanges(content: string, changedLines: Set<number>): string[] {
+  const tables = new Set<string>();
+  const callPattern =
+    /\.(?:createTable|createTableIfNotExists|alterTable|dropTable|dropTableIfExists|renameTable|table|addColumn|removeColumn|changeColumn|renameColumn|addIndex|removeIndex|addConstraint|removeConstraint|bulkInsert|bulkDelete)\(\s*['"`](\w+)['"`]/g;
+
+  // Each changed line belongs to the nearest table call at or above it
+  const anchors: Array<{ line: number; table: string }> = [];
+  const lines = content.split('\n');
+  lines.forEach((line, index) => {
+    let match;
+    callPattern.lastIndex = 0;
+    while ((match = callPattern.exec(line)) !== null) {
+      anchors.push({ line: index + 1, table: match[1] });
+    }
+  });
+
+  for (const changed of changedLines) {
+    const anchor = anchors.filter((a) => a.line <= changed).pop();
+    if (anchor) {
+      tables.add(anchor.table);
+    }
+  }
+
+  return Array.from(tables);
+}
+
+/**
+ * Rebuild the old content of a deleted file from its removed lines
+ */
+function rebuildOldContent(file: FileDiff): string {
+  const lastLine = Math.max(0, ...file.removedLines);
+  const lines: string[] = [];
+  for (let l = 1; l <= lastLine; l++) {
+    lines.push(file.removedContent.get(l) ?? '');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Infer the change type from what the diff touches
+ */
+function inferDiffChangeType(
+  files: FileDiff[],
+  endpointCount: number,
+  componentCount: number,
+  tableCount: number
+): ChangeType {
+  if (files.length > 0 && files.every((f) => f.status === 'added')) {
+    return 'add-feature';
+  }
+  if (files.length > 0 && files.every((f) => f.status === 'deleted')) {
+    return 'remove-feature';
+  }
+  if (files.length > 0 && files.every((f) => f.status === 'renamed' && f.addedLines.length === 0)) {
+    return 'refactor';
+  }
+  if (tableCount > 0) {
+    return 'modify-schema';
+  }
+  if (endpointCount > 0) {
+    return 'modify-api';
+  }
+  if (componentCount > 0) {
+    return 'modify-feature';
+  }
+  return 'other';
+}
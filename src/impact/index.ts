@@ -4,7 +4,11 @@
 
 export * from './change-parser';
 export * from './analyzer';
+export * from './dependency-chain';
+export * from './diff-parser';
 export { parseChangeRequest, extractChangeDetails } from './change-parser';
 export { analyzeChangeImpact } from './analyzer';
 export type { ImpactAnalysisContext } from './analyzer';
+export { traceDependencyChains } from './dependency-chain';
+export { parseDiffChangeRequest, parseUnifiedDiff } from './diff-parser';
 
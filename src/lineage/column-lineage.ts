@@ -0,0 +1,183 @@
+/**
+ * Column-level lineage
+ *
+ * Follows request body fields and response fields of frontend API calls through
+ * the endpoints they reach to the columns those endpoints' queries write and read.
+ */
+
+import { DatabaseQuery, Table } from '../types';
+import { LineageEdge } from '../types';
+import { ConnectionMatch } from './connectors/frontend-backend';
+import { BackendDatabaseMatch } from './connectors/backend-database';
+
+export interface ColumnFlow {
+  direction: 'write' | 'read'; // Request field written to the column, or column displayed from the response
+  apiCallId: string;
+  file: string;
+  function?: string; // Component or function making the call
+  field: string;
+  endpointId: string;
+  queryId: string;
+  table: string;
+  column: string;
+  confidence: number;
+}
+
+/** Confidence factor for fields matched to columns by name rather than traced through handler code */
+const NAME_MATCH_FACTOR = 0.9;
+
+/**
+ * Trace API call fields to the table columns they are written to or read from
+ */
+export function traceColumnLineage(
+  frontendBackendMatches: ConnectionMatch[],
+  backendDbMatches: BackendDatabaseMatch[],
+  tables: Table[]
+): ColumnFlow[] {
+  const flows: ColumnFlow[] = [];
+  const tablesByName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
+  const queriesByEndpoint = new Map<string, BackendDatabaseMatch[]>();
+  for (const match of backendDbMatches) {
+    queriesByEndpoint.set(match.endpoint.id, [...(queriesByEndpoint.get(match.endpoint.id) || []), match]);
+  }
+
+  for (const { frontendCall: call, backendEndpoint: endpoint, confidence } of frontendBackendMatches) {
+    // Fields the handler does not read never reach a query
+    const bodyParameters = endpoint.parameters.filter((p) => p.type === 'body').map((p) => p.name);
+    const written = (call.bodyFields || []).filter(
+      (field) => bodyParameters.length === 0 || bodyParameters.some((name) => isSameName(name, field))
+    );
+
+    for (const { query, confidence: queryConfidence } of queriesByEndpoint.get(endpoint.id) || []) {
+      const direction = getFlowDirection(query);
+      const fields = direction === 'write' ? written : direction === 'read' ? call.responseFields || [] : [];
+
+      for (const tableName of getQueryTables(query)) {
+        const table = tablesByName.get(tableName.toLowerCase());
+        for (const field of fields) {
+          const traced = direction === 'write' ? findSourceColumn(query, field) : undefined;
+          const candidates = getCandidateColumns(query, table);
+          const column = traced ? findColumn(traced, candidates) || traced : findColumn(field, candidates);
+          if (!column) {
+            continue;
+          }
+          flows.push({
+            direction: direction!,
+            apiCallId: call.id,
+            file: call.file,
+            function: call.function,
+            field,
+            endpointId: endpoint.id,
+            queryId: query.id,
+            table: table?.name || tableName,
+            column,
+            confidence: confidence * queryConfidence * (traced ? 1 : NAME_MATCH_FACTOR),
+          });
+        }
+      }
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Find the flows into or out of a column, e.g. findColumnFlows(flows, 'users.email', 'write')
+ * for the form fields saved to users.email
+ */
+export function findColumnFlows(
+  flows: ColumnFlow[],
+  column: string,
+  direction?: ColumnFlow['direction']
+): ColumnFlow[] {
+  const [tableName, columnName] = column.includes('.') ? column.split('.') : [undefined, column];
+  return flows.filter(
+    (flow) =>
+      (!direction || flow.direction === direction) &&
+      (!tableName || flow.table.toLowerCase() === tableName.toLowerCase()) &&
+      flow.column.toLowerCase() === columnName.toLowerCase()
+  );
+}
+
+/**
+ * Create data-flow edges from API calls to the tables their fields reach,
+ * one per call, table and direction
+ */
+export function createColumnFlowEdges(flows: ColumnFlow[]): LineageEdge[] {
+  const edges = new Map<string, LineageEdge>();
+
+  for (const flow of flows) {
+    const from = `api-call:${flow.apiCallId}`;
+    const to = `table:${flow.table}`;
+    const id = `edge:${from}-${to}:${flow.direction}`;
+    const edge: LineageEdge = edges.get(id) || {
+      id,
+      from,
+      to,
+      type: 'data-flow',
+      label: `${flow.direction === 'write' ? 'writes' : 'reads'} ${flow.table}`,
+      confidence: flow.confidence,
+      data: { direction: flow.direction, table: flow.table, fields: [] },
+    };
+    const fields: Array<{ field: string; column: string }> = edge.data.fields;
+    if (!fields.some((f) => f.field === flow.field && f.column === flow.column)) {
+      fields.push({ field: flow.field, column: flow.column });
+    }
+    edge.confidence = Math.max(edge.confidence, flow.confidence);
+    edges.set(id, edge);
+  }
+
+  return [...edges.values()];
+}
+
+/**
+ * Get the direction data flows between an API call and the columns of a query
+ */
+function getFlowDirection(query: DatabaseQuery): ColumnFlow['direction'] | null {
+  if (query.type === 'insert' || query.type === 'update') {
+    return 'write';
+  }
+  return query.type === 'select' ? 'read' : null;
+}
+
+/**
+ * Get the tables a query names
+ */
+function getQueryTables(query: DatabaseQuery): string[] {
+  const names = [query.table, ...(query.tables || [])].filter((name): name is string => !!name);
+  return names.filter((name, i) => names.findIndex((other) => other.toLowerCase() === name.toLowerCase()) === i);
+}
+
+/**
+ * Find the column a query writes a request body field to, from values traced to req.body
+ */
+function findSourceColumn(query: DatabaseQuery, field: string): string | undefined {
+  return Object.entries(query.columnSources || {}).find(([, source]) => source === field)?.[0];
+}
+
+/**
+ * Get the columns a field may map to: the query's own columns when it lists them
+ * (select: [...], INSERT INTO t (...)), else every column of the table
+ */
+function getCandidateColumns(query: DatabaseQuery, table: Table | undefined): string[] {
+  const tableColumns = table?.columns.map((column) => column.name) || [];
+  if (!query.columns) {
+    return tableColumns;
+  }
+  return query.columns.map((column) => findColumn(column, tableColumns) || column);
+}
+
+/**
+ * Find the column a field name refers to, ignoring case and camelCase/snake_case differences
+ */
+function findColumn(field: string, columns: string[]): string | undefined {
+  return columns.find((column) => isSameName(column, field));
+}
+
+/**
+ * Compare names ignoring case and underscores (firstName, first_name, FIRST_NAME)
+ */
+function isSameName(a: string, b: string): boolean {
+  return a.replace(/_/g, '').toLowerCase() === b.replace(/_/g, '').toLowerCase();
+}
+
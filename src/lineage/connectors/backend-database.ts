@@ -22,9 +22,17 @@ export function connectBackendToDatabase(
 ): BackendDatabaseMatch[] {
   const matches: BackendDatabaseMatch[] = [];
 
+  // Queries inside a function a route references belong to that route, wherever the function is declared
+  const handlers = new Set(
+    endpoints.filter((e) => e.handler && e.handler !== 'anonymous').map((e) => `${e.file}:${e.handler}`)
+  );
+  const isHandlerQuery = (q: DatabaseQuery): boolean => !!q.function && handlers.has(`${q.file}:${q.function}`);
+
   for (const endpoint of endpoints) {
-    // Find queries in the same file
-    const fileQueries = queries.filter((q) => q.file === endpoint.file);
+    // Find queries in the same file, declared inside this endpoint's inline handler
+    const fileQueries = queries.filter(
+      (q) => q.file === endpoint.file && !isHandlerQuery(q) && isInlineQuery(endpoint, q, endpoints)
+    );
 
     for (const query of fileQueries) {
       const match = matchEndpointToQuery(endpoint, query);
@@ -48,6 +56,22 @@ export function connectBackendToDatabase(
   return matches;
 }
 
+/**
+ * Check whether a same-file query follows the endpoint with no other endpoint declared in between
+ */
+function isInlineQuery(endpoint: Endpoint, query: DatabaseQuery, endpoints: Endpoint[]): boolean {
+  if (!endpoint.line || !query.line) {
+    return true;
+  }
+  if (query.line < endpoint.line) {
+    return false;
+  }
+  return !endpoints.some(
+    (other) =>
+      other !== endpoint && other.file === endpoint.file && other.line > endpoint.line && other.line <= query.line
+  );
+}
+
 /**
  * Match endpoint to query
  */
@@ -110,6 +134,7 @@ export function createBackendDatabaseEdges(matches: BackendDatabaseMatch[]): Lin
         queryType: match.query.type,
         table: match.query.table,
         ormMethod: match.query.ormMethod,
+        columns: match.query.columns,
         reason: match.reason,
       },
     };
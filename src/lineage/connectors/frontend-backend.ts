@@ -233,9 +233,11 @@ function extractPath(url: string): string {
 /**
  * Match path pattern (with parameters)
  */
-function matchPathPattern(callPath: string, endpointPath: string): boolean {
-  // Convert endpoint path with :param to regex pattern
+export function matchPathPattern(callPath: string, endpointPath: string): boolean {
+  // Convert endpoint path with :param, *wildcard, {param} or <type:param> to regex pattern
   const endpointRegex = endpointPath
+    .replace(/\{[a-zA-Z_][a-zA-Z0-9_]*\.\.\.\}|\*[a-zA-Z_][a-zA-Z0-9_]*/g, '.+')
+    .replace(/\{[a-zA-Z_][a-zA-Z0-9_]*(?::[^{}/]+)?\}|<(?:\w+:)?[a-zA-Z_][a-zA-Z0-9_]*>/g, '[^/]+')
     .replace(/:[a-zA-Z_][a-zA-Z0-9_]*/g, '[^/]+')
     .replace(/\//g, '\\/');
 
@@ -247,9 +249,10 @@ function matchPathPattern(callPath: string, endpointPath: string): boolean {
  * Normalize pattern string
  */
 function normalizePattern(pattern: string): string {
-  // Replace all dynamic segments with placeholders
+  // Replace all dynamic segments with placeholders; drop the origin of absolute base URLs
   return pattern
-    .replace(/\$\{\.\.\.\}/g, '{param}')
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+    .replace(/\$\{[^}]*\}/g, '{param}')
     .replace(/\[.*?\]/g, '{param}')
     .toLowerCase();
 }
@@ -11,21 +11,28 @@ import {
   LineageEdgeType,
 } from '../types';
 import { Component, APICall } from '../types';
+import { Route } from '../types';
 import { Endpoint } from '../types';
+import { Service } from '../types';
 import { DatabaseQuery, Table } from '../types';
 import {
   ConnectionMatch,
+  connectFrontendToBackend,
   createFrontendBackendEdges,
+  matchPathPattern,
 } from './connectors/frontend-backend';
 import {
-  BackendDatabaseMatch,
+  connectBackendToDatabase,
   createBackendDatabaseEdges,
 } from './connectors/backend-database';
+import { traceColumnLineage, createColumnFlowEdges } from './column-lineage';
 
 export interface LineageGraphContext {
   // Frontend
   components: Component[];
   apiCalls: APICall[];
+  routes?: Route[]; // File-system routes (Next.js, Remix)
+  services?: Service[]; // Injectable services (Angular)
 
   // Backend
   endpoints: Endpoint[];
@@ -58,6 +65,35 @@ export function buildLineageGraph(context: LineageGraphContext): LineageGraph {
     });
   }
 
+  const pages = (context.routes || []).filter((route) => route.type !== 'api');
+  for (const route of pages) {
+    nodes.push({
+      id: `page:${route.file}`,
+      type: 'page',
+      layer: 'frontend',
+      label: route.path,
+      file: route.file,
+      data: {
+        path: route.path,
+        componentName: route.component,
+      },
+    });
+  }
+
+  for (const service of context.services || []) {
+    nodes.push({
+      id: `service:${service.file}:${service.name}`,
+      type: 'service',
+      layer: 'frontend',
+      label: service.name,
+      file: service.file,
+      data: {
+        serviceName: service.name,
+        methods: service.methods,
+      },
+    });
+  }
+
   for (const call of context.apiCalls) {
     nodes.push({
       id: `api-call:${call.id}`,
@@ -86,6 +122,7 @@ export function buildLineageGraph(context: LineageGraphContext): LineageGraph {
         httpMethod: endpoint.method,
         path: endpoint.path,
         parameters: endpoint.parameters.map((p) => p.name),
+        middleware: endpoint.middleware,
       },
     });
   }
@@ -102,6 +139,7 @@ export function buildLineageGraph(context: LineageGraphContext): LineageGraph {
         queryType: query.type,
         table: query.table,
         ormMethod: query.ormMethod,
+        columns: query.columns,
       },
     });
   }
@@ -116,17 +154,27 @@ export function buildLineageGraph(context: LineageGraphContext): LineageGraph {
       file: '', // Tables don't have file paths
       data: {
         tableName: table.name,
+        model: table.model,
         columns: table.columns.map((c) => c.name),
+        columnTypes: Object.fromEntries(table.columns.map((c) => [c.name, c.type])),
+        primaryKey: table.primaryKey,
+        foreignKeys: table.foreignKeys,
       },
     });
   }
 
+  // Connect pages to the pages they link to
+  edges.push(...connectPageNavigation(pages));
+
+  // Connect components to injected services and both to the API calls they make
+  edges.push(...connectInjectedServices(context.components, context.services || [], context.apiCalls));
+
   // Connect frontend to backend (API calls → endpoints)
-  // This would be done by calling connectFrontendToBackend and creating edges
-  // For now, we'll add placeholder logic
+  const frontendBackendMatches = connectFrontendToBackend(context.apiCalls, context.endpoints);
+  edges.push(...createFrontendBackendEdges(frontendBackendMatches));
 
   // Connect backend to database (queries → tables)
-  const backendDbMatches = connectBackendToDatabaseStub(context.endpoints, context.queries);
+  const backendDbMatches = connectBackendToDatabase(context.endpoints, context.queries);
   const backendDbEdges = createBackendDatabaseEdges(backendDbMatches);
   edges.push(...backendDbEdges);
 
@@ -134,6 +182,10 @@ export function buildLineageGraph(context: LineageGraphContext): LineageGraph {
   const queryTableEdges = connectQueriesToTables(context.queries, context.tables);
   edges.push(...queryTableEdges);
 
+  // Connect API call fields to the columns they are written to or read from
+  const columnFlows = traceColumnLineage(frontendBackendMatches, backendDbMatches, context.tables);
+  edges.push(...createColumnFlowEdges(columnFlows));
+
   // Separate nodes by layer
   const frontendNodes = nodes.filter((n) => n.layer === 'frontend');
   const backendNodes = nodes.filter((n) => n.layer === 'backend');
@@ -155,27 +207,138 @@ export function buildLineageGraph(context: LineageGraphContext): LineageGraph {
 }
 
 /**
- * Connect queries to tables (simplified - full version in connectors)
+ * Connect pages to the routes their links and redirects point at
  */
-function connectBackendToDatabaseStub(
-  endpoints: Endpoint[],
-  queries: DatabaseQuery[]
-): BackendDatabaseMatch[] {
-  const matches: BackendDatabaseMatch[] = [];
-
-  for (const endpoint of endpoints) {
-    const fileQueries = queries.filter((q) => q.file === endpoint.file);
-    for (const query of fileQueries) {
-      matches.push({
-        endpoint,
-        query,
-        confidence: 0.8,
-        reason: 'Same file',
-      });
+function connectPageNavigation(pages: Route[]): LineageEdge[] {
+  const edges = new Map<string, LineageEdge>();
+
+  for (const page of pages) {
+    for (const link of page.links || []) {
+      // Prefer a static route over a dynamic one (/users/new before /users/:id)
+      const exact = pages.find((p) => p.path === link.path);
+      const target = exact || pages.find((p) => matchPathPattern(link.path, p.path));
+      if (!target || target === page) {
+        continue;
+      }
+      const id = `edge:page:${page.file}-page:${target.file}`;
+      if (!edges.has(id)) {
+        edges.set(id, {
+          id,
+          from: `page:${page.file}`,
+          to: `page:${target.file}`,
+          type: 'navigation',
+          label: link.path,
+          confidence: exact ? 1.0 : 0.9,
+          data: {
+            url: link.path,
+            line: link.line,
+          },
+        });
+      }
     }
   }
 
-  return matches;
+  return [...edges.values()];
+}
+
+/**
+ * Connect components and services to the services they inject and to the API
+ * calls made from their methods (calls attributed to Class.method) or, for
+ * components, from anywhere inside their declaration
+ */
+function connectInjectedServices(
+  components: Component[],
+  services: Service[],
+  apiCalls: APICall[]
+): LineageEdge[] {
+  const edges: LineageEdge[] = [];
+  const serviceIds = new Map(services.map((s) => [s.name, `service:${s.file}:${s.name}`]));
+  const callers = new Map<string, Component>();
+  for (const call of apiCalls) {
+    const caller = findEnclosingComponent(call, components);
+    if (caller) {
+      callers.set(call.id, caller);
+    }
+  }
+  const owners = [
+    ...components.map((c) => ({
+      id: `component:${c.file}:${c.name}`,
+      name: c.name,
+      file: c.file,
+      dependencies: c.dependencies || [],
+      component: c as Component | undefined,
+    })),
+    ...services.map((s) => ({
+      id: `service:${s.file}:${s.name}`,
+      name: s.name,
+      file: s.file,
+      dependencies: s.dependencies,
+      component: undefined,
+    })),
+  ];
+
+  for (const owner of owners) {
+    for (const dependency of owner.dependencies) {
+      const target = serviceIds.get(dependency);
+      if (target && target !== owner.id) {
+        edges.push({
+          id: `edge:${owner.id}-${target}`,
+          from: owner.id,
+          to: target,
+          type: 'dependency',
+          label: 'injects',
+          confidence: 1.0,
+          data: {
+            service: dependency,
+          },
+        });
+      }
+    }
+
+    for (const call of apiCalls) {
+      const isMethodCall = call.file === owner.file && call.function?.startsWith(`${owner.name}.`);
+      if (isMethodCall || (owner.component && callers.get(call.id) === owner.component)) {
+        edges.push({
+          id: `edge:${owner.id}-api-call:${call.id}`,
+          from: owner.id,
+          to: `api-call:${call.id}`,
+          type: 'dependency',
+          label: call.function || owner.name,
+          confidence: 1.0,
+          data: {
+            method: call.method,
+            url: call.url || call.urlPattern,
+          },
+        });
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Find the component an API call is made from: the one its enclosing function
+ * is named after, else the innermost component whose lines contain the call
+ * (calls in hook callbacks are attributed to an anonymous function)
+ */
+function findEnclosingComponent(call: APICall, components: Component[]): Component | undefined {
+  const candidates = components.filter((c) => c.file === call.file);
+  const named = candidates.find((c) => c.name === call.function);
+  if (named) {
+    return named;
+  }
+
+  let enclosing: Component | undefined;
+  for (const component of candidates) {
+    if (component.endLine === undefined || call.line < component.line || call.line > component.endLine) {
+      continue;
+    }
+    if (!enclosing || component.endLine - component.line < enclosing.endLine! - enclosing.line) {
+      enclosing = component;
+    }
+  }
+  return enclosing;
 }
 
 /**
@@ -186,52 +349,58 @@ function connectQueriesToTables(
   tables: Table[]
 ): LineageEdge[] {
   const edges: LineageEdge[] = [];
-  const tableNames = new Set(tables.map((t) => t.name.toLowerCase()));
+  const tablesByName = new Map(tables.map((table) => [table.name.toLowerCase(), table]));
 
   for (const query of queries) {
-    if (query.table) {
-      const tableName = query.table.toLowerCase();
-      if (tableNames.has(tableName)) {
+    // A query may name its table both directly and in its table list
+    const queryTables = new Set(
+      [query.table, ...(query.tables || [])]
+        .filter((name): name is string => !!name)
+        .map((name) => name.toLowerCase())
+    );
+
+    for (const name of queryTables) {
+      const table = tablesByName.get(name);
+      if (table) {
         edges.push({
-          id: `edge:query:${query.id}-table:${tableName}`,
+          id: `edge:query:${query.id}-table:${table.name}`,
           from: `query:${query.id}`,
-          to: `table:${tableName}`,
+          to: `table:${table.name}`,
           type: 'database-query',
-          label: `${query.type} ${tableName}`,
+          label: `${query.type} ${table.name}`,
           confidence: 1.0,
           data: {
             queryType: query.type,
-            table: tableName,
+            table: table.name,
+            columns: getQueryColumns(query, table, queryTables.size),
           },
         });
       }
     }
-
-    // Handle queries with multiple tables
-    if (query.tables && query.tables.length > 0) {
-      for (const tableName of query.tables) {
-        const normalizedName = tableName.toLowerCase();
-        if (tableNames.has(normalizedName)) {
-          edges.push({
-            id: `edge:query:${query.id}-table:${normalizedName}`,
-            from: `query:${query.id}`,
-            to: `table:${normalizedName}`,
-            type: 'database-query',
-            label: `${query.type} ${normalizedName}`,
-            confidence: 1.0,
-            data: {
-              queryType: query.type,
-              table: normalizedName,
-            },
-          });
-        }
-      }
-    }
   }
 
   return edges;
 }
 
+/**
+ * Get the columns of a table a query touches. Columns are checked against the
+ * table's declared columns; without those they are only attributed when the
+ * query involves a single table.
+ */
+function getQueryColumns(query: DatabaseQuery, table: Table, tableCount: number): string[] | undefined {
+  if (!query.columns) {
+    return undefined;
+  }
+  if (table.columns.length === 0) {
+    return tableCount === 1 ? query.columns : undefined;
+  }
+  const known = new Map(table.columns.map((column) => [column.name.toLowerCase(), column.name]));
+  const columns = query.columns
+    .map((column) => known.get(column.toLowerCase()))
+    .filter((column): column is string => !!column);
+  return columns.length > 0 ? columns : undefined;
+}
+
 /**
  * Calculate graph metadata
  */
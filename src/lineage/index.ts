@@ -6,6 +6,8 @@ export * from './connectors/frontend-backend';
 export * from './connectors/backend-database';
 export * from './matcher';
 export * from './graph-builder';
+export * from './url-resolver';
+export * from './column-lineage';
 export {
   connectFrontendToBackend,
   createFrontendBackendEdges,
@@ -15,5 +17,8 @@ export {
   createBackendDatabaseEdges,
 } from './connectors/backend-database';
 export { buildLineageGraph, connectFrontendBackendInGraph } from './graph-builder';
+export { loadEnvFiles, resolveAPICallURLs } from './url-resolver';
+export { traceColumnLineage, findColumnFlows, createColumnFlowEdges } from './column-lineage';
 export type { LineageGraphContext } from './graph-builder';
+export type { ColumnFlow } from './column-lineage';
 
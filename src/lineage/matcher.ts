@@ -40,7 +40,7 @@ export function normalizePathPattern(path: string): string {
   // Replace parameter placeholders
   return path
     .replace(/:[a-zA-Z_][a-zA-Z0-9_]*/g, '{param}')
-    .replace(/\$\{\.\.\.\}/g, '{param}')
+    .replace(/\$\{[^}]*\}/g, '{param}')
     .replace(/\[.*?\]/g, '{param}')
     .toLowerCase();
 }
@@ -122,14 +122,15 @@ function extractParameterNames(path: string): string[] {
 export function resolveEnvVar(url: string, envVars: Record<string, string>): string {
   let resolved = url;
 
-  // Look for ${VAR} or $VAR patterns
+  // Look for ${VAR}, ${VAR:-default} or $VAR patterns
   const envVarPattern = /\$\{([^}]+)\}|\$([A-Z_][A-Z0-9_]*)/g;
   let match;
 
   while ((match = envVarPattern.exec(url)) !== null) {
-    const varName = match[1] || match[2];
-    if (envVars[varName]) {
-      resolved = resolved.replace(match[0], envVars[varName]);
+    const [varName, fallback] = (match[1] || match[2]).split(/:-(.*)/);
+    const value = envVars[varName] || fallback;
+    if (value) {
+      resolved = resolved.replace(match[0], value);
     }
   }
 
@@ -0,0 +1,131 @@
+/**
+ * Environment variable resolution for API call URLs
+ *
+ * Detection keeps process.env.X and import.meta.env.X references in URLs as
+ * ${X} (or ${X:-fallback}); this pass fills them in from the repository's
+ * .env files so calls can be matched on concrete URLs.
+ */
+
+import { APICall } from '../types';
+import { FileTree } from '../types';
+import { resolveEnvVar } from './matcher';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface EnvFile {
+  file: string;
+  dir: string; // Directory the variables apply to
+  vars: Record<string, string>;
+}
+
+/** Confidence of URLs completed from .env values */
+const ENV_CONFIDENCE = 0.8;
+
+/** Confidence of URLs completed from code fallbacks or from .env files that disagree */
+const FALLBACK_CONFIDENCE = 0.7;
+
+/** Environment variable references in detected URLs */
+const ENV_REFERENCE_PATTERN = /\$\{([A-Za-z_]\w*)(?::-[^}]*)?\}/g;
+
+/**
+ * Load the .env files of a repository (.env.production, .env.development, .env.example, ...)
+ */
+export function loadEnvFiles(fileTree: FileTree): EnvFile[] {
+  const envFiles: EnvFile[] = [];
+  for (const fileNode of fileTree.files.values()) {
+    if (fileNode.type !== 'file' || !/^\.env(\.[\w.-]+)?$/.test(fileNode.name)) {
+      continue;
+    }
+    try {
+      const content = fileNode.content ?? fs.readFileSync(fileNode.path, 'utf-8');
+      envFiles.push({ file: fileNode.path, dir: path.dirname(fileNode.path), vars: parseEnvFile(content) });
+    } catch {
+      // Skip unreadable files
+    }
+  }
+  // Example files only document variables; production values win over development ones
+  return envFiles.sort((a, b) => getEnvFileRank(a.file) - getEnvFileRank(b.file));
+}
+
+/**
+ * Parse KEY=value lines, expanding ${OTHER} references to earlier variables
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_]\w*)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    let value = match[2].trim();
+    const quoted = value.match(/^(["'`])(.*)\1$/);
+    value = quoted ? quoted[2] : value.replace(/\s+#.*$/, '');
+    vars[match[1]] = quoted?.[1] === "'" ? value : resolveEnvVar(value, vars);
+  }
+  return vars;
+}
+
+/**
+ * Rewrite API call URL patterns that reference environment variables into
+ * concrete URLs, using the .env files closest to each call
+ */
+export function resolveAPICallURLs(apiCalls: APICall[], envFiles: EnvFile[]): APICall[] {
+  for (const call of apiCalls) {
+    const pattern = call.urlPattern;
+    const references = pattern ? [...pattern.matchAll(ENV_REFERENCE_PATTERN)].map((m) => m[1]) : [];
+    if (!pattern || references.length === 0) {
+      continue;
+    }
+
+    const applicable = envFiles.filter((envFile) => isWithin(call.file, envFile.dir));
+    const envVars = collectEnvVars(applicable);
+    const resolved = resolveEnvVar(pattern, envVars);
+    if (resolved === pattern) {
+      continue;
+    }
+
+    if (/\$\{[^}]*\}/.test(resolved)) {
+      call.urlPattern = resolved;
+      continue;
+    }
+    // Values that differ between .env files, or code fallbacks, may not be what is deployed
+    const certain = references.every(
+      (name) => envVars[name] && new Set(applicable.map((f) => f.vars[name]).filter(Boolean)).size === 1
+    );
+    call.url = resolved;
+    call.urlPattern = undefined;
+    call.confidence = Math.max(call.confidence, certain ? ENV_CONFIDENCE : FALLBACK_CONFIDENCE);
+  }
+  return apiCalls;
+}
+
+/**
+ * Merge the variables of applicable .env files: nearer directories win, then
+ * the higher ranked file in the same directory
+ */
+function collectEnvVars(envFiles: EnvFile[]): Record<string, string> {
+  const ordered = [...envFiles].sort((a, b) => a.dir.length - b.dir.length);
+  return Object.assign({}, ...ordered.map((envFile) => envFile.vars));
+}
+
+/**
+ * Rank an .env file by how closely it reflects deployed values
+ */
+function getEnvFileRank(file: string): number {
+  const name = path.basename(file);
+  if (/\.(example|sample|template|dist)$/.test(name)) {
+    return 0;
+  }
+  if (name === '.env') {
+    return 1;
+  }
+  return /production|prod/.test(name) ? 3 : 2;
+}
+
+/**
+ * Check whether a file is inside a directory
+ */
+function isWithin(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
@@ -2,12 +2,11 @@
  * Performance benchmarking framework
  */
 
-import { GitHubService } from '../github/service';
-import { TechStackDetector } from '../detection/engine';
-import { buildLineageGraph, LineageGraphContext } from '../lineage/graph-builder';
-import { runAssessment, AssessmentContext } from '../assessment/engine';
+import { runPipeline } from '../services/pipeline';
+import { RepositorySourceType } from '../github/source';
 import { PerformanceMetrics } from '../types';
-import * as path from 'path';
+import { PipelineStageResult } from '../types';
+import { FileTree } from '../types';
 
 export interface BenchmarkResult {
   repository: string;
@@ -38,14 +37,15 @@ export interface BenchmarkResult {
  */
 export async function runBenchmark(
   repoId: string,
-  githubToken?: string
+  githubToken?: string,
+  sourceType?: RepositorySourceType
 ): Promise<BenchmarkResult> {
   const startTime = Date.now();
   const memoryStart = process.memoryUsage();
   const errors: string[] = [];
 
   let cloningTime = 0;
-  let fileAnalysisTime = 0;
+  const fileAnalysisTime = 0; // File analysis runs as part of cloning
   let techStackDetectionTime = 0;
   let parsingTime = 0;
   let graphBuildingTime = 0;
@@ -56,89 +56,31 @@ export async function runBenchmark(
   let repoSizeMB = 0;
 
   try {
-    const githubService = new GitHubService(githubToken ? { token: githubToken } : undefined);
-
-    // Clone repository
-    const cloneStart = Date.now();
-    const analysis = await githubService.cloneAndAnalyzeRepository(repoId);
-    cloningTime = Date.now() - cloneStart;
-    fileCount = analysis.fileTree.files.size;
-    repoSizeMB = calculateRepoSize(analysis.fileTree);
-
-    // File analysis (already done in cloneAndAnalyzeRepository, but measure separately)
-    const fileAnalysisStart = Date.now();
-    fileAnalysisTime = Date.now() - fileAnalysisStart;
-
-    // Tech stack detection
-    const detectionStart = Date.now();
-    const detector = new TechStackDetector();
-    const techStack = detector.detectTechStack({
-      fileTree: analysis.fileTree,
-      configFiles: analysis.configFiles,
-      entryPoints: analysis.entryPoints,
+    let fileTree: FileTree | undefined;
+    const result = await runPipeline(repoId, {
+      token: githubToken,
+      sourceType,
+      // Time real parsing, not parsed file cache hits
+      incremental: false,
+      onStage: (_stage, context) => {
+        fileTree = fileTree || context.analysis?.fileTree;
+      },
     });
-    techStackDetectionTime = Date.now() - detectionStart;
-
-    // Parsing - parse frontend and backend files
-    const parsingStart = Date.now();
-    const { parseFrontendFile } = await import('../analyzers/frontend/parser');
-    const { parseBackendFile } = await import('../analyzers/backend/parser');
-    
-    let parsedCount = 0;
-    for (const [relativePath, fileNode] of analysis.fileTree.files) {
-      const filePath = fileNode.path || path.join(analysis.localPath, relativePath);
-      const ext = path.extname(filePath).toLowerCase();
-      
-      try {
-        if (['.js', '.jsx', '.ts', '.tsx'].includes(ext) && !filePath.includes('node_modules')) {
-          if (relativePath.includes('component') || relativePath.includes('page') || ext === '.jsx' || ext === '.tsx') {
-            parseFrontendFile(filePath);
-          } else if (relativePath.includes('route') || relativePath.includes('controller') || relativePath.includes('service')) {
-            parseBackendFile(filePath);
-          }
-          parsedCount++;
-          // Limit parsing for benchmark to avoid timeout
-          if (parsedCount >= 50) break;
-        }
-      } catch {
-        // Skip files that can't be parsed
-      }
-    }
-    parsingTime = Date.now() - parsingStart;
-
-    // Graph building (simplified - would build full graph in production)
-    const graphStart = Date.now();
-    // Build basic graph structure (simplified for performance testing)
-    const { buildLineageGraph } = await import('../lineage/graph-builder');
-    const graphContext: LineageGraphContext = {
-      components: [],
-      apiCalls: [],
-      endpoints: [],
-      queries: [],
-      tables: [],
-    };
-    const graph = buildLineageGraph(graphContext);
-    graphBuildingTime = Date.now() - graphStart;
-
-    // Assessment (run actual assessment)
-    const assessmentStart = Date.now();
-    const { runAssessment } = await import('../assessment/engine');
-    const assessmentContext: AssessmentContext = {
-      repoPath: analysis.localPath,
-      fileTree: analysis.fileTree,
-      parsedFiles: [], // Would include parsed files in production
-      dependencyGraph: undefined,
-      lineageGraph: graph,
-    };
-    await runAssessment(assessmentContext);
-    assessmentTime = Date.now() - assessmentStart;
-
-    // Calculate lines of code (simplified)
-    for (const file of analysis.fileTree.files.values()) {
-      if (file.content) {
-        linesOfCode += file.content.split('\n').length;
-      }
+    const stageTime = (...names: string[]) => sumStageDurations(result.stages || [], names);
+
+    cloningTime = stageTime('clone');
+    techStackDetectionTime = stageTime('detect');
+    parsingTime = stageTime('parse', 'extract');
+    graphBuildingTime = stageTime('dependencies', 'lineage');
+    assessmentTime = stageTime('assess');
+    errors.push(...result.errors.map((error) => `${error.stage}: ${error.message}`));
+
+    if (fileTree) {
+      fileCount = fileTree.files.size;
+      repoSizeMB = calculateRepoSize(fileTree);
     }
+    const parsedFiles = [...(result.frontend?.files || []), ...(result.backend?.files || [])];
+    linesOfCode = parsedFiles.reduce((sum, file) => sum + file.linesOfCode, 0);
   } catch (error: any) {
     errors.push(error.message);
   }
@@ -178,6 +120,13 @@ export async function runBenchmark(
   };
 }
 
+/**
+ * Sum the durations of pipeline stages
+ */
+function sumStageDurations(stages: PipelineStageResult[], names: string[]): number {
+  return stages.filter((stage) => names.includes(stage.name)).reduce((sum, stage) => sum + stage.durationMs, 0);
+}
+
 /**
  * Calculate repository size in MB
  */
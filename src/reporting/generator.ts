@@ -53,8 +53,17 @@ export function generateAssessmentReport(
       lines.push(`#### ${issue.title}`);
       lines.push(`- **Severity**: ${issue.severity}`);
       lines.push(`- **File**: ${issue.file}:${issue.line}`);
+      if (issue.commit) {
+        lines.push(`- **Commit**: ${issue.commit} (${issue.author})`);
+      }
       lines.push(`- **Description**: ${issue.description}`);
       lines.push(`- **Recommendation**: ${issue.recommendation}`);
+      if (issue.trace && issue.trace.length > 0) {
+        lines.push('- **Data Flow**:');
+        issue.trace.forEach((step, index) => {
+          lines.push(`  ${index + 1}. ${step.kind} \`${step.code}\` (${step.file}:${step.line})`);
+        });
+      }
       if (issue.codeSnippet) {
         lines.push('```');
         lines.push(issue.codeSnippet);
@@ -63,6 +72,44 @@ export function generateAssessmentReport(
       lines.push('');
     }
   }
+  if (assessment.security.vulnerabilities.length > 0) {
+    lines.push('### Vulnerable Dependencies');
+    lines.push('');
+    for (const vulnerability of assessment.security.vulnerabilities.slice(0, 20)) {
+      // Limit to top 20
+      const name = vulnerability.package ? `${vulnerability.package}@${vulnerability.version}` : vulnerability.id;
+      lines.push(`#### ${name}: ${vulnerability.title}`);
+      lines.push(`- **Severity**: ${vulnerability.severity}`);
+      if (vulnerability.cve) {
+        lines.push(`- **CVE**: ${vulnerability.cve}`);
+      }
+      if (vulnerability.dependencyPath && vulnerability.dependencyPath.length > 1) {
+        lines.push(`- **Dependency Path**: ${vulnerability.dependencyPath.join(' > ')}`);
+      }
+      const fix = vulnerability.fixVersion ? `upgrade to ${vulnerability.fixVersion}` : 'none available';
+      lines.push(`- **Fix**: ${fix}`);
+      lines.push('');
+    }
+  }
+  const endpoints = assessment.security.endpoints || [];
+  if (endpoints.length > 0) {
+    const missingCsrf = endpoints.filter((endpoint) => endpoint.mutating && !endpoint.csrfProtected);
+    lines.push('### Endpoint Security Matrix');
+    lines.push('');
+    lines.push(`**Mutating Routes Without CSRF Protection**: ${missingCsrf.length}`);
+    lines.push('');
+    lines.push('| Method | Path | Authentication | CSRF | Writes | Sensitive Columns |');
+    lines.push('|--------|------|----------------|------|--------|-------------------|');
+    for (const endpoint of endpoints) {
+      const authentication = endpoint.authenticated ? endpoint.authMiddleware.join(', ') : 'none';
+      const csrf = endpoint.csrfProtected ? 'yes' : endpoint.mutating ? 'missing' : 'n/a';
+      lines.push(
+        `| ${endpoint.method} | ${endpoint.path} | ${authentication} | ${csrf} | ` +
+          `${endpoint.writes.join(', ') || '-'} | ${endpoint.sensitiveColumns.join(', ') || '-'} |`
+      );
+    }
+    lines.push('');
+  }
 
   // Quality Assessment
   lines.push('## Quality Assessment');
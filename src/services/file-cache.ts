@@ -0,0 +1,323 @@
+/**
+ * Incremental re-analysis backed by the parsed file cache
+ *
+ * Per-file parse and extraction outputs are cached by content hash in the
+ * parsed_file_cache table, or on disk when the database is disabled or
+ * unreachable. Re-analysis reuses them for unchanged files and only re-parses
+ * files whose content changed and files importing a changed or removed file,
+ * directly or through other files. Router mounts are cached as declarations
+ * and resolved across files on every run.
+ */
+
+import type { RepositoryAnalysis } from '../github/service';
+import { getParsedFileCache, upsertParsedFileCache, deleteParsedFileCache } from '../database';
+import { ParsedFile } from '../types';
+import {
+  ParsedRepository,
+  FileArtifacts,
+  SourceKind,
+  createParsedRepository,
+  addParsedFile,
+  isSourceFile,
+  parseSourceFile,
+  extractFileArtifacts,
+} from './lineage';
+import { parseFrontendFile } from '../analyzers/frontend/parser';
+import { parseBackendFile } from '../analyzers/backend/parser';
+import { loadConfig } from '../config';
+import { logger } from '../utils/logger';
+import * as t from '@babel/types';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface FileCacheEntry {
+  hash: string; // SHA-256 of the file content
+  root: string; // Clone path the cached file paths are relative to
+  kind?: SourceKind;
+  file?: ParsedFile; // Without the AST; absent for files that failed to parse
+  artifacts?: FileArtifacts;
+  reexports?: string[]; // Modules re-exported with export ... from, which file.imports leaves out
+}
+
+export interface IncrementalParseResult {
+  parsed: ParsedRepository;
+  reused: string[]; // Relative paths of files taken from the cache
+  reparsed: string[];
+  removed: string[];
+}
+
+interface DiskCache {
+  [filePath: string]: { entry: FileCacheEntry; expiresAt: number | null };
+}
+
+/**
+ * Parse a repository, reusing the cached outputs of files unchanged since the last run
+ */
+export async function parseRepositoryIncrementally(
+  repository: string,
+  analysis: RepositoryAnalysis
+): Promise<IncrementalParseResult> {
+  const cache = await loadFileCache(repository);
+  const sources: Array<{ relativePath: string; filePath: string; hash: string }> = [];
+
+  for (const [relativePath, fileNode] of analysis.fileTree.files) {
+    const filePath = fileNode.path || path.join(analysis.localPath, relativePath);
+    if (!isSourceFile(relativePath, filePath)) {
+      continue;
+    }
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      sources.push({ relativePath, filePath, hash: hashContent(content) });
+    } catch {
+      // Skip unreadable files
+    }
+  }
+
+  // Files whose content changed, and files that no longer exist, invalidate the files importing them
+  const current = new Set(sources.map((source) => source.relativePath));
+  const removed = [...cache.keys()].filter((relativePath) => !current.has(relativePath));
+  const changed = new Set(
+    sources
+      .filter(({ relativePath, hash }) => {
+        const entry = cache.get(relativePath);
+        return !entry || entry.hash !== hash || entry.root !== analysis.localPath;
+      })
+      .map((source) => source.relativePath)
+  );
+  const invalidated = findInvalidatedFiles(analysis.localPath, [...changed, ...removed], cache);
+
+  const result: IncrementalParseResult = { parsed: createParsedRepository(), reused: [], reparsed: [], removed };
+  const updated = new Map<string, FileCacheEntry>();
+
+  for (const { relativePath, filePath, hash } of sources) {
+    const entry = cache.get(relativePath);
+    if (
+      entry?.file &&
+      entry.artifacts &&
+      entry.kind &&
+      !changed.has(relativePath) &&
+      !invalidated.has(relativePath)
+    ) {
+      addParsedFile(result.parsed, entry.file, entry.kind, entry.artifacts);
+      result.reused.push(relativePath);
+      continue;
+    }
+
+    const source = parseSourceFile(filePath);
+    if (!source) {
+      updated.set(relativePath, { hash, root: analysis.localPath });
+      continue;
+    }
+    const { file, kind } = source;
+    const artifacts = extractFileArtifacts(file, kind);
+    // Snapshot the outputs before cross-file resolution rewrites endpoint paths and query tables
+    updated.set(
+      relativePath,
+      clone({
+        hash,
+        root: analysis.localPath,
+        kind,
+        file: { ...file, ast: undefined },
+        artifacts,
+        reexports: getReexports(file),
+      })
+    );
+    addParsedFile(result.parsed, file, kind, artifacts);
+    result.reparsed.push(relativePath);
+  }
+
+  await saveFileCache(repository, updated, removed);
+  logger.info('Incremental parse complete', {
+    repository,
+    reused: result.reused.length,
+    reparsed: result.reparsed.length,
+    removed: removed.length,
+  });
+
+  return result;
+}
+
+/**
+ * Load a repository's cached file entries by relative path
+ */
+export async function loadFileCache(repository: string): Promise<Map<string, FileCacheEntry>> {
+  const config = loadConfig();
+
+  if (config.database.enabled) {
+    try {
+      const rows = await getParsedFileCache(repository);
+      return new Map(
+        rows.map((row) => [
+          row.file_path,
+          { ...(row.parsed_data as Omit<FileCacheEntry, 'hash'>), hash: row.file_hash },
+        ])
+      );
+    } catch (error: any) {
+      logger.debug('Parsed file cache database unavailable, using disk cache', { error: error.message });
+    }
+  }
+
+  const now = Date.now();
+  const cache = readDiskCache(repository);
+  return new Map(
+    Object.entries(cache)
+      .filter(([, { expiresAt }]) => expiresAt === null || expiresAt > now)
+      .map(([filePath, { entry }]) => [filePath, entry])
+  );
+}
+
+/**
+ * Save updated file entries and drop the entries of removed files
+ */
+export async function saveFileCache(
+  repository: string,
+  entries: Map<string, FileCacheEntry>,
+  removed: string[]
+): Promise<void> {
+  const config = loadConfig();
+  const expiresAt = config.cache.ttl > 0 ? new Date(Date.now() + config.cache.ttl * 1000) : null;
+
+  if (config.database.enabled) {
+    try {
+      await upsertParsedFileCache(
+        repository,
+        [...entries].map(([filePath, { hash, ...parsedData }]) => ({ filePath, fileHash: hash, parsedData })),
+        expiresAt
+      );
+      await deleteParsedFileCache(repository, removed);
+      return;
+    } catch (error: any) {
+      logger.debug('Parsed file cache database unavailable, using disk cache', { error: error.message });
+    }
+  }
+
+  try {
+    const cache = readDiskCache(repository);
+    for (const filePath of removed) {
+      delete cache[filePath];
+    }
+    for (const [filePath, entry] of entries) {
+      cache[filePath] = { entry, expiresAt: expiresAt ? expiresAt.getTime() : null };
+    }
+    fs.mkdirSync(config.cache.directory, { recursive: true });
+    fs.writeFileSync(getDiskCachePath(repository), JSON.stringify(cache));
+  } catch (error: any) {
+    logger.warn('Failed to write parsed file cache', { repository, error: error.message });
+  }
+}
+
+/**
+ * Get a parsed script file's AST. Files restored from the cache carry none and
+ * are parsed again, from the given content or from disk.
+ */
+export function getFileAst(file: ParsedFile, content?: string): t.File | null {
+  if (t.isFile(file.ast)) {
+    return file.ast;
+  }
+  try {
+    const source = content ?? fs.readFileSync(file.path, 'utf-8');
+    const ast = ['.jsx', '.tsx', '.vue', '.svelte'].includes(path.extname(file.path).toLowerCase())
+      ? parseFrontendFile(file.path, source)?.ast
+      : parseBackendFile(file.path, source)?.ast;
+    return t.isFile(ast) ? ast : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the cached files that import a changed or removed file, directly or
+ * through a chain of imports, as values resolved across files (constants,
+ * wrappers, re-exports) may have changed for all of them
+ */
+function findInvalidatedFiles(
+  localPath: string,
+  changed: string[],
+  cache: Map<string, FileCacheEntry>
+): Set<string> {
+  // Module path, with and without extension -> relative paths of the cached files importing it
+  const importers = new Map<string, string[]>();
+  for (const [relativePath, entry] of cache) {
+    for (const target of entry.file ? getRelativeImports(entry.file, entry.reexports) : []) {
+      importers.set(target, [...(importers.get(target) || []), relativePath]);
+    }
+  }
+
+  const invalidated = new Set<string>();
+  const pending = [...changed];
+  while (pending.length > 0) {
+    const filePath = path.join(localPath, pending.pop()!);
+    const modulePath = filePath.slice(0, filePath.length - path.extname(filePath).length);
+    // './users' imports users/index.ts too
+    const targets = [filePath, modulePath];
+    if (path.basename(modulePath) === 'index') {
+      targets.push(path.dirname(modulePath));
+    }
+    for (const dependent of targets.flatMap((target) => importers.get(target) || [])) {
+      if (!invalidated.has(dependent)) {
+        invalidated.add(dependent);
+        pending.push(dependent);
+      }
+    }
+  }
+
+  return invalidated;
+}
+
+/**
+ * Get the resolved targets of a file's relative imports and re-exports
+ */
+function getRelativeImports(file: ParsedFile, reexports: string[] = []): string[] {
+  return [...file.imports.map((imp) => imp.from), ...reexports]
+    .filter((source) => source.startsWith('.'))
+    .map((source) => path.resolve(path.dirname(file.path), source.split('?')[0]));
+}
+
+/**
+ * Get the modules a JavaScript/TypeScript file re-exports from
+ */
+function getReexports(file: ParsedFile): string[] {
+  if (!t.isFile(file.ast)) {
+    return [];
+  }
+  return file.ast.program.body.flatMap((statement) =>
+    (t.isExportNamedDeclaration(statement) || t.isExportAllDeclaration(statement)) && statement.source
+      ? [statement.source.value]
+      : []
+  );
+}
+
+/**
+ * Read a repository's on-disk cache
+ */
+function readDiskCache(repository: string): DiskCache {
+  const cachePath = getDiskCachePath(repository);
+  try {
+    return fs.existsSync(cachePath) ? JSON.parse(fs.readFileSync(cachePath, 'utf-8')) : {};
+  } catch {
+    // A corrupt cache is rebuilt
+    return {};
+  }
+}
+
+/**
+ * Get the on-disk cache file of a repository
+ */
+function getDiskCachePath(repository: string): string {
+  return path.join(loadConfig().cache.directory, `${repository.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`);
+}
+
+/**
+ * Hash file content
+ */
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Deep-copy a JSON-serializable value
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,186 @@
+/**
+ * Impact analysis service - runs change impact against stored lineage graphs
+ */
+
+import { createRepositorySource, RepositorySourceType } from '../github/source';
+import { buildLineageGraph } from '../lineage/graph-builder';
+import { analyzeChangeImpact } from '../impact/analyzer';
+import { parseDiffChangeRequest } from '../impact/diff-parser';
+import {
+  parseRepositoryFiles,
+  collectLineageArtifacts,
+  buildDependencyGraphs,
+  mergeDependencyGraphs,
+} from './lineage';
+import {
+  loadAnalysisResult,
+  saveAnalysisResult,
+  saveImpactAnalysis,
+} from './persistence';
+import { AnalysisArtifacts } from '../types';
+import { LineageGraph } from '../types';
+import { ChangeRequest, ImpactAnalysis } from '../types';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import simpleGit from 'simple-git';
+
+export interface RunImpactOptions {
+  analysisId?: number;
+  repository?: string; // Repository location, see createRepositorySource
+  sourceType?: RepositorySourceType;
+  changeRequest: ChangeRequest;
+  token?: string;
+}
+
+export interface DiffChangeSource {
+  diff?: string;
+  baseRef?: string;
+  headRef?: string;
+  description?: string;
+}
+
+export interface ImpactRunResult {
+  analysisId: number | null;
+  impactId: number | null;
+  repository: string;
+  source: 'stored' | 'rebuilt';
+  impact: ImpactAnalysis;
+}
+
+/**
+ * Analyze the impact of a change request against a repository's lineage graph.
+ * Uses the persisted graph and artifacts when available, otherwise rebuilds them.
+ */
+export async function runImpactAnalysis(
+  options: RunImpactOptions
+): Promise<ImpactRunResult> {
+  if (options.analysisId === undefined && !options.repository) {
+    throw new ValidationError('analysisId or repository required');
+  }
+  if (options.analysisId !== undefined && (!Number.isInteger(options.analysisId) || options.analysisId <= 0)) {
+    throw new ValidationError('analysisId must be a positive integer', { analysisId: options.analysisId });
+  }
+
+  const requested = options.repository
+    ? createRepositorySource(options.repository, { type: options.sourceType, token: options.token })
+    : undefined;
+  const stored = await loadAnalysisResult({
+    analysisId: options.analysisId,
+    repository: requested?.id,
+  });
+
+  // An explicit id must resolve; falling back to the repository would rebuild into another analysis
+  if (!stored && options.analysisId !== undefined) {
+    throw new NotFoundError(`Analysis ${options.analysisId} not found`, {
+      analysisId: options.analysisId,
+    });
+  }
+
+  const repository = stored?.repository || requested!.id;
+  let analysisId: number | null = stored?.id ?? null;
+  let graph: LineageGraph | null = stored?.lineage_graph ?? null;
+  let artifacts: AnalysisArtifacts | null = stored?.analysis_artifacts ?? null;
+  let source: ImpactRunResult['source'] = 'stored';
+
+  // Analyses saved before dependency graphs were persisted are rebuilt once to add them
+  if (!graph || !artifacts?.dependencyGraph) {
+    logger.info('Stored lineage graph unavailable, rebuilding', { repository });
+
+    const repositorySource =
+      requested || createRepositorySource(stored!.repository_url || repository, { token: options.token });
+    const analysis = await repositorySource.load();
+
+    const parsed = parseRepositoryFiles(analysis);
+    artifacts = collectLineageArtifacts(analysis, parsed);
+    const { frontend, backend } = buildDependencyGraphs(parsed, artifacts);
+    artifacts.dependencyGraph = mergeDependencyGraphs(frontend, backend);
+    graph = buildLineageGraph(artifacts);
+    source = 'rebuilt';
+
+    // Refresh the row the caller asked about rather than the repository's latest one
+    analysisId = await saveAnalysisResult({
+      analysisId: stored?.id,
+      repository,
+      repositoryUrl: stored?.repository_url || repositorySource.url,
+      lineageGraph: graph,
+      analysisArtifacts: artifacts,
+    });
+  }
+
+  const impact = analyzeChangeImpact({
+    changeRequest: options.changeRequest,
+    lineageGraph: graph,
+    dependencyGraph: artifacts.dependencyGraph,
+    endpoints: artifacts.endpoints,
+    queries: artifacts.queries,
+    components: artifacts.components,
+  });
+  impact.repository = repository;
+
+  const impactId = analysisId !== null
+    ? await saveImpactAnalysis(analysisId, options.changeRequest, impact)
+    : null;
+
+  return {
+    analysisId,
+    impactId,
+    repository,
+    source,
+    impact,
+  };
+}
+
+/**
+ * Build a change request from a diff against the repository's local clone
+ */
+export async function createDiffChangeRequest(
+  repository: string,
+  source: DiffChangeSource,
+  token?: string,
+  sourceType?: RepositorySourceType
+): Promise<ChangeRequest> {
+  if (!source.diff && !source.baseRef) {
+    throw new ValidationError('diff or baseRef required');
+  }
+
+  const repositorySource = createRepositorySource(repository, { type: sourceType, token });
+  const repoPath = repositorySource.getLocalPath() || (await repositorySource.load()).localPath;
+
+  // Clones are single-branch, so refs other than the default may need fetching
+  let baseRef = source.baseRef;
+  let headRef = source.headRef;
+  if (!source.diff) {
+    baseRef = await resolveRef(repoPath, baseRef!);
+    headRef = headRef ? await resolveRef(repoPath, headRef) : undefined;
+  }
+
+  return parseDiffChangeRequest({
+    repoPath,
+    diff: source.diff,
+    baseRef,
+    headRef,
+    description:
+      source.description ||
+      (source.baseRef ? `Changes between ${source.baseRef} and ${source.headRef || 'HEAD'}` : undefined),
+  });
+}
+
+/**
+ * Resolve a ref to a commit, fetching it from origin when it is not available locally
+ */
+async function resolveRef(repoPath: string, ref: string): Promise<string> {
+  const git = simpleGit(repoPath);
+
+  try {
+    return (await git.revparse(['--verify', `${ref}^{commit}`])).trim();
+  } catch {
+    // Not available locally
+  }
+
+  try {
+    await git.fetch(['origin', ref]);
+    return (await git.revparse(['--verify', 'FETCH_HEAD^{commit}'])).trim();
+  } catch (error: any) {
+    throw new ValidationError(`Unknown git ref: ${ref}`, { ref, error: error.message });
+  }
+}
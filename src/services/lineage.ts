@@ -0,0 +1,357 @@
+/**
+ * Lineage artifact collection for cloned repositories
+ */
+
+import { RepositoryAnalysis } from '../github/service';
+import { AnalysisArtifacts } from '../types';
+import { ParsedFile } from '../types';
+import { DependencyGraph } from '../types';
+import { Component, APICall, Service, Endpoint, DatabaseQuery, Table } from '../types';
+import { parseFrontendFile } from '../analyzers/frontend/parser';
+import { parseBackendFile, parsePythonFile, parseGoFile } from '../analyzers/backend/parser';
+import { extractEndpoints } from '../analyzers/backend/endpoint-extractor';
+import { RouterDeclarations, describeRouters, resolveRouteMounts } from '../analyzers/backend/route-mounts';
+import { extractFileRouteEndpoints } from '../analyzers/backend/file-routes';
+import { detectDatabaseQueries, resolveQueryTables } from '../analyzers/backend/query-detector';
+import { discoverSchemaWithModels } from '../analyzers/database/schema-discovery';
+import { extractSchemaFromModels } from '../analyzers/database/orm-detector';
+import { detectServices } from '../analyzers/backend/service-detector';
+import { detectReactComponents } from '../analyzers/frontend/component-detector';
+import { detectAPICalls } from '../analyzers/frontend/api-detector';
+import { isAngularFile, detectAngularServices } from '../analyzers/frontend/angular-detector';
+import { detectFileSystemRoutes } from '../analyzers/frontend/routing-detector';
+import { buildFrontendDependencyGraph } from '../analyzers/frontend/graph-builder';
+import { buildBackendDependencyGraph } from '../analyzers/backend/graph-builder';
+import { loadEnvFiles, resolveAPICallURLs } from '../lineage/url-resolver';
+import * as path from 'path';
+
+export type SourceKind = 'frontend' | 'backend' | 'python' | 'go';
+
+/**
+ * Outputs extracted from a single parsed file. They do not depend on other
+ * files' ASTs, so they can be cached by content hash.
+ */
+export interface FileArtifacts {
+  components: Component[];
+  apiCalls: APICall[];
+  services: Service[]; // Angular services (frontend) or service classes (backend)
+  endpoints: Endpoint[];
+  queries: DatabaseQuery[];
+  tables: Table[]; // ORM models declared in the file
+  routers?: RouterDeclarations; // JavaScript/TypeScript routers and mounts, resolved across files later
+}
+
+export interface ParsedRepository {
+  frontendFiles: ParsedFile[]; // React/Vue/Svelte files and Angular classes
+  backendFiles: ParsedFile[]; // JavaScript/TypeScript server code
+  pythonFiles: ParsedFile[];
+  goFiles: ParsedFile[];
+  fileArtifacts: Map<string, FileArtifacts>; // File path -> outputs extracted from it
+}
+
+/**
+ * Parse the frontend, backend, Python and Go files of a cloned repository
+ * and extract their per-file artifacts
+ */
+export function parseRepositoryFiles(analysis: RepositoryAnalysis): ParsedRepository {
+  const parsed = createParsedRepository();
+
+  for (const [relativePath, fileNode] of analysis.fileTree.files) {
+    const filePath = fileNode.path || path.join(analysis.localPath, relativePath);
+    if (!isSourceFile(relativePath, filePath)) {
+      continue;
+    }
+    const source = parseSourceFile(filePath);
+    if (source) {
+      addParsedFile(parsed, source.file, source.kind, extractFileArtifacts(source.file, source.kind));
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Create an empty parsed repository
+ */
+export function createParsedRepository(): ParsedRepository {
+  return { frontendFiles: [], backendFiles: [], pythonFiles: [], goFiles: [], fileArtifacts: new Map() };
+}
+
+/**
+ * Add a parsed file and its artifacts to a parsed repository
+ */
+export function addParsedFile(
+  parsed: ParsedRepository,
+  file: ParsedFile,
+  kind: SourceKind,
+  artifacts: FileArtifacts
+): void {
+  const files = {
+    frontend: parsed.frontendFiles,
+    backend: parsed.backendFiles,
+    python: parsed.pythonFiles,
+    go: parsed.goFiles,
+  };
+  files[kind].push(file);
+  parsed.fileArtifacts.set(file.path, artifacts);
+}
+
+/**
+ * Check whether a repository file is frontend or backend source code to analyze
+ */
+export function isSourceFile(relativePath: string, filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  if (['.jsx', '.tsx', '.vue', '.svelte'].includes(ext)) {
+    return !filePath.includes('node_modules');
+  }
+  if (['.js', '.ts'].includes(ext)) {
+    return !filePath.includes('node_modules') && !filePath.includes('.test.');
+  }
+  if (ext === '.py') {
+    return !isPythonVendorOrTest(relativePath);
+  }
+  return ext === '.go' && !isGoVendorOrTest(relativePath);
+}
+
+/**
+ * Parse a source file and classify it. Angular components and services are
+ * frontend code in plain .ts files.
+ */
+export function parseSourceFile(filePath: string): { file: ParsedFile; kind: SourceKind } | null {
+  const ext = path.extname(filePath).toLowerCase();
+  let file: ParsedFile | null = null;
+  let kind: SourceKind;
+
+  try {
+    if (['.jsx', '.tsx', '.vue', '.svelte'].includes(ext)) {
+      file = parseFrontendFile(filePath);
+      kind = 'frontend';
+    } else if (ext === '.py') {
+      file = parsePythonFile(filePath);
+      kind = 'python';
+    } else if (ext === '.go') {
+      file = parseGoFile(filePath);
+      kind = 'go';
+    } else {
+      file = parseBackendFile(filePath);
+      kind = file && isAngularFile(file) ? 'frontend' : 'backend';
+    }
+  } catch {
+    // Skip unparseable files
+    return null;
+  }
+
+  return file ? { file, kind } : null;
+}
+
+/**
+ * Extract the components, API calls, services, endpoints, queries and models of a parsed file
+ */
+export function extractFileArtifacts(file: ParsedFile, kind: SourceKind): FileArtifacts {
+  const artifacts: FileArtifacts = {
+    components: [],
+    apiCalls: [],
+    services: [],
+    endpoints: [],
+    queries: [],
+    tables: [],
+  };
+
+  try {
+    if (kind === 'frontend') {
+      artifacts.components = detectReactComponents(file);
+      artifacts.services = isAngularFile(file) ? detectAngularServices(file) : [];
+      artifacts.apiCalls = detectAPICalls(file);
+    } else {
+      artifacts.endpoints = extractEndpoints(file);
+      artifacts.queries = detectDatabaseQueries(file);
+      artifacts.tables = extractSchemaFromModels([file]).tables;
+      artifacts.services = kind === 'backend' ? detectServices([file]) : [];
+      if (kind === 'backend') {
+        artifacts.routers = describeRouters(file);
+      }
+    }
+  } catch {
+    // Keep what was extracted before the failure
+  }
+
+  return artifacts;
+}
+
+/**
+ * Collect the artifacts used to build a lineage graph from a repository's parsed
+ * files, resolving the references between files: router mounts, model names and
+ * environment variables
+ */
+export function collectLineageArtifacts(
+  analysis: RepositoryAnalysis,
+  parsed: ParsedRepository = parseRepositoryFiles(analysis)
+): AnalysisArtifacts {
+  const artifacts: AnalysisArtifacts = {
+    components: [],
+    apiCalls: [],
+    endpoints: [],
+    queries: [],
+    tables: [],
+    routes: [],
+    services: [],
+  };
+  const fileArtifacts = (files: ParsedFile[]) =>
+    files.map((file) => parsed.fileArtifacts.get(file.path)).filter((a): a is FileArtifacts => !!a);
+
+  // Frontend components, Angular services and API calls
+  for (const file of fileArtifacts(parsed.frontendFiles)) {
+    artifacts.components.push(...file.components);
+    artifacts.services!.push(...file.services);
+    artifacts.apiCalls.push(...file.apiCalls);
+  }
+
+  // JavaScript/TypeScript backend endpoints and queries
+  const backendEndpoints = fileArtifacts(parsed.backendFiles).flatMap((file) => file.endpoints);
+  // Routers mounted with app.use('/prefix', router) in other files get their full paths
+  const routers = new Map<string, RouterDeclarations>();
+  for (const file of parsed.backendFiles) {
+    const declarations = parsed.fileArtifacts.get(file.path)?.routers;
+    if (declarations) {
+      routers.set(file.path, declarations);
+    }
+  }
+  const mountedEndpoints = resolveRouteMounts(
+    backendEndpoints,
+    new Map(parsed.backendFiles.map((file) => [file.path, file])),
+    routers
+  );
+  artifacts.endpoints.push(...dropIncludedRouteDuplicates(mountedEndpoints));
+
+  // Next.js and Remix route files become pages, and their API routes endpoints
+  const routing = detectFileSystemRoutes(analysis.localPath, [...analysis.fileTree.files.keys()]);
+  if (routing) {
+    artifacts.routes = routing.routes;
+    artifacts.endpoints.push(...extractFileRouteEndpoints(routing));
+  }
+
+  // Python backend endpoints
+  artifacts.endpoints.push(
+    ...dropIncludedRouteDuplicates(fileArtifacts(parsed.pythonFiles).flatMap((file) => file.endpoints))
+  );
+
+  // Go backend endpoints
+  const goEndpoints = fileArtifacts(parsed.goFiles).flatMap((file) => file.endpoints);
+  artifacts.endpoints.push(...qualifyGoHandlers(goEndpoints, parsed.goFiles));
+
+  const backendArtifacts = fileArtifacts([...parsed.backendFiles, ...parsed.pythonFiles, ...parsed.goFiles]);
+  artifacts.queries.push(...backendArtifacts.flatMap((file) => file.queries));
+
+  // Migrations, ORM models and Prisma schemas declare the tables queries refer to by table or model name
+  const modelTables = backendArtifacts.flatMap((file) => file.tables);
+  artifacts.tables.push(...discoverSchemaWithModels(analysis.fileTree, modelTables).tables);
+  resolveQueryTables(artifacts.queries, artifacts.tables);
+
+  // API base URLs read from process.env / import.meta.env come from the repository's .env files
+  resolveAPICallURLs(artifacts.apiCalls, loadEnvFiles(analysis.fileTree));
+
+  return artifacts;
+}
+
+/**
+ * Collect the service classes declared in a repository's JavaScript/TypeScript backend files
+ */
+export function collectBackendServices(parsed: ParsedRepository): Service[] {
+  return parsed.backendFiles.flatMap((file) => parsed.fileArtifacts.get(file.path)?.services || []);
+}
+
+/**
+ * Build the frontend and backend file dependency graphs of a parsed repository
+ */
+export function buildDependencyGraphs(
+  parsed: ParsedRepository,
+  artifacts: AnalysisArtifacts
+): { frontend: DependencyGraph; backend: DependencyGraph } {
+  return {
+    frontend: buildFrontendDependencyGraph({ files: toFileMap(parsed.frontendFiles) }),
+    backend: buildBackendDependencyGraph({
+      files: toFileMap([...parsed.backendFiles, ...parsed.pythonFiles, ...parsed.goFiles]),
+      endpoints: artifacts.endpoints,
+      services: collectBackendServices(parsed),
+      queries: artifacts.queries,
+    }),
+  };
+}
+
+/**
+ * Combine dependency graphs into one
+ */
+export function mergeDependencyGraphs(...graphs: Array<DependencyGraph | undefined>): DependencyGraph | undefined {
+  const present = graphs.filter((graph): graph is DependencyGraph => !!graph);
+  if (present.length === 0) {
+    return undefined;
+  }
+  return {
+    nodes: present.flatMap((graph) => graph.nodes),
+    edges: present.flatMap((graph) => graph.edges),
+  };
+}
+
+/**
+ * Index parsed files by path
+ */
+function toFileMap(files: ParsedFile[]): Map<string, ParsedFile> {
+  return new Map(files.map((file) => [file.path, file]));
+}
+
+/**
+ * Drop routes that were also reached through a parent include() with a prefix.
+ * Django urls modules and Fastify plugins are extracted on their own and again
+ * from the module that mounts them.
+ */
+function dropIncludedRouteDuplicates(endpoints: Endpoint[]): Endpoint[] {
+  const longest = new Map<string, Endpoint>();
+  for (const endpoint of endpoints) {
+    const key = `${endpoint.file}:${endpoint.line}:${endpoint.method}:${endpoint.handler}`;
+    const existing = longest.get(key);
+    if (!existing || endpoint.path.length > existing.path.length) {
+      longest.set(key, endpoint);
+    }
+  }
+  return endpoints.filter((endpoint) =>
+    longest.get(`${endpoint.file}:${endpoint.line}:${endpoint.method}:${endpoint.handler}`) === endpoint
+  );
+}
+
+/**
+ * Check whether a Python file is a dependency, migration or test module
+ */
+function isPythonVendorOrTest(relativePath: string): boolean {
+  const normalized = relativePath.replace(/\\/g, '/');
+  return (
+    /(^|\/)(venv|\.venv|site-packages|__pycache__|migrations)\//.test(normalized) ||
+    /(^|\/)(test_[^/]*|[^/]*_test|conftest)\.py$/.test(normalized)
+  );
+}
+
+/**
+ * Qualify Go handlers whose receiver type lives in another file (h.GetUser -> UserHandler.GetUser)
+ * so they line up with the functions queries are attributed to.
+ */
+function qualifyGoHandlers(endpoints: Endpoint[], goFiles: ParsedFile[]): Endpoint[] {
+  const functions = goFiles.flatMap((file) => (file.functions || []).map((fn) => fn.name));
+  for (const endpoint of endpoints) {
+    const method = endpoint.handler.split('.')[1];
+    if (!method || functions.includes(endpoint.handler)) {
+      continue;
+    }
+    const candidates = new Set(functions.filter((name) => name.endsWith(`.${method}`)));
+    if (candidates.size === 1) {
+      endpoint.handler = [...candidates][0];
+    }
+  }
+  return endpoints;
+}
+
+/**
+ * Check whether a Go file is vendored or a test file
+ */
+function isGoVendorOrTest(relativePath: string): boolean {
+  const normalized = relativePath.replace(/\\/g, '/');
+  return /(^|\/)vendor\//.test(normalized) || normalized.endsWith('_test.go');
+}
@@ -4,23 +4,33 @@
 
 import {
   createAnalysisResult,
+  getAnalysisResultById,
   getAnalysisResultByRepository,
   updateAnalysisResult,
   createImpactAnalysis,
 } from '../database';
+import type { AnalysisResultRow } from '../database';
 import { AssessmentResult } from '../types';
 import { LineageGraph } from '../types';
+import { AnalysisArtifacts } from '../types';
 import { TechStack } from '../types';
 import { ImpactAnalysis, ChangeRequest } from '../types';
 import { logger } from '../utils/logger';
 import { loadConfig } from '../config';
 
 export interface SaveAnalysisOptions {
+  analysisId?: number; // Row to update, instead of the latest one for the repository
   repository: string;
   repositoryUrl?: string;
   techStack?: TechStack;
   assessmentResult?: AssessmentResult;
   lineageGraph?: LineageGraph;
+  analysisArtifacts?: AnalysisArtifacts;
+}
+
+export interface LoadAnalysisOptions {
+  analysisId?: number;
+  repository?: string;
 }
 
 /**
@@ -38,7 +48,10 @@ export async function saveAnalysisResult(
 
   try {
     // Check if result already exists
-    const existing = await getAnalysisResultByRepository(options.repository);
+    const existing =
+      options.analysisId !== undefined
+        ? await getAnalysisResultById(options.analysisId)
+        : await getAnalysisResultByRepository(options.repository);
 
     if (existing) {
       // Update existing result
@@ -48,6 +61,7 @@ export async function saveAnalysisResult(
         techStack: options.techStack,
         assessmentResult: options.assessmentResult,
         lineageGraph: options.lineageGraph,
+        analysisArtifacts: options.analysisArtifacts,
         status: 'completed',
       });
 
@@ -65,6 +79,7 @@ export async function saveAnalysisResult(
         techStack: options.techStack,
         assessmentResult: options.assessmentResult,
         lineageGraph: options.lineageGraph,
+        analysisArtifacts: options.analysisArtifacts,
         status: 'completed',
       });
 
@@ -84,6 +99,37 @@ export async function saveAnalysisResult(
   }
 }
 
+/**
+ * Load a stored analysis result by ID, or the latest one for a repository
+ */
+export async function loadAnalysisResult(
+  options: LoadAnalysisOptions
+): Promise<AnalysisResultRow | null> {
+  const config = loadConfig();
+
+  if (!config.database.enabled) {
+    logger.debug('Database persistence disabled, skipping load');
+    return null;
+  }
+
+  try {
+    if (options.analysisId !== undefined) {
+      return await getAnalysisResultById(options.analysisId);
+    }
+    if (options.repository) {
+      return await getAnalysisResultByRepository(options.repository);
+    }
+    return null;
+  } catch (error: any) {
+    logger.error('Failed to load analysis result', {
+      analysisId: options.analysisId,
+      repository: options.repository,
+      error: error.message,
+    });
+    return null;
+  }
+}
+
 /**
  * Save impact analysis to database
  */
@@ -0,0 +1,334 @@
+/**
+ * Analysis pipeline - the clone → detect → parse → extract → graph → assess
+ * sequence shared by the CLI, the API and benchmarks
+ *
+ * Stages run in order and pass typed artifacts through the pipeline context.
+ * Each stage is timed; a failing stage is recorded as an analysis error and
+ * the stages depending on its artifacts are skipped, unless the stage is
+ * required, in which case the pipeline aborts.
+ */
+
+import type { RepositoryAnalysis } from '../github/service';
+import { createRepositorySource, RepositorySourceType } from '../github/source';
+import { TechStackDetector } from '../detection';
+import { buildLineageGraph } from '../lineage/graph-builder';
+import { runAssessment } from '../assessment/engine';
+import { getForeignKeyRelationships } from '../analyzers/database/orm-detector';
+import { mapDatabaseUsage } from '../analyzers/database/usage-mapper';
+import {
+  parseRepositoryFiles,
+  collectLineageArtifacts,
+  collectBackendServices,
+  buildDependencyGraphs,
+  mergeDependencyGraphs,
+  ParsedRepository,
+} from './lineage';
+import { parseRepositoryIncrementally } from './file-cache';
+import { saveAnalysisResult } from './persistence';
+import { AnalysisResult, AnalysisError, AnalysisArtifacts, PipelineStageResult } from '../types';
+import { DependencyGraph, Endpoint, Middleware, ParsedFile, Service } from '../types';
+import { TechStack } from '../types';
+import { LineageGraph } from '../types';
+import { AssessmentResult } from '../types';
+import { loadConfig } from '../config';
+import { logger } from '../utils/logger';
+
+export interface PipelineArtifacts {
+  analysis?: RepositoryAnalysis;
+  techStack?: TechStack;
+  parsed?: ParsedRepository;
+  artifacts?: AnalysisArtifacts;
+  backendServices?: Service[];
+  frontendGraph?: DependencyGraph;
+  backendGraph?: DependencyGraph;
+  lineageGraph?: LineageGraph;
+  assessment?: AssessmentResult;
+  analysisId?: number | null;
+}
+
+export interface PipelineContext extends PipelineArtifacts {
+  repository: string; // Repository location, replaced by its identifier once cloned
+  options: PipelineOptions;
+}
+
+export interface PipelineStage {
+  name: string;
+  requires?: Array<keyof PipelineArtifacts>; // Skipped when an earlier stage did not produce these
+  required?: boolean; // Abort the pipeline when the stage fails
+  enabled?: (options: PipelineOptions) => boolean;
+  run: (context: PipelineContext) => Promise<void> | void;
+}
+
+export interface PipelineOptions {
+  token?: string;
+  sourceType?: RepositorySourceType; // Detected from the repository location when omitted
+  repositoryUrl?: string;
+  lineage?: boolean; // Build the lineage graph (default: true)
+  assessment?: boolean; // Run the code assessment (default: true)
+  useExternalScanners?: boolean;
+  scanGitHistory?: boolean; // Scan past commits for deleted secrets (default: SCAN_GIT_HISTORY)
+  persist?: boolean; // Save the result to the database (default: false)
+  incremental?: boolean; // Reuse cached outputs of unchanged files (default: CACHE_ENABLED)
+  stages?: PipelineStage[]; // Defaults to DEFAULT_STAGES
+  onStage?: (result: PipelineStageResult, context: PipelineContext) => void;
+}
+
+/**
+ * Fetch the repository from its source and analyze its file structure. The
+ * repository location is replaced by the source's stable identifier.
+ */
+const cloneStage: PipelineStage = {
+  name: 'clone',
+  required: true,
+  run: async (context) => {
+    const source = createRepositorySource(context.repository, {
+      type: context.options.sourceType,
+      token: context.options.token,
+    });
+    context.repository = source.id;
+    context.analysis = await source.load();
+  },
+};
+
+/**
+ * Detect the frameworks, languages and tools of the repository
+ */
+const detectStage: PipelineStage = {
+  name: 'detect',
+  requires: ['analysis'],
+  run: (context) => {
+    const { fileTree, configFiles, entryPoints } = context.analysis!;
+    context.techStack = new TechStackDetector().detectTechStack({ fileTree, configFiles, entryPoints });
+  },
+};
+
+/**
+ * Parse frontend, backend, Python and Go files, reusing cached outputs of
+ * unchanged files when incremental analysis is enabled
+ */
+const parseStage: PipelineStage = {
+  name: 'parse',
+  requires: ['analysis'],
+  run: async (context) => {
+    if (context.options.incremental ?? loadConfig().cache.enabled) {
+      context.parsed = (await parseRepositoryIncrementally(context.repository, context.analysis!)).parsed;
+    } else {
+      context.parsed = parseRepositoryFiles(context.analysis!);
+    }
+  },
+};
+
+/**
+ * Extract components, API calls, endpoints, queries, tables and services
+ */
+const extractStage: PipelineStage = {
+  name: 'extract',
+  requires: ['analysis', 'parsed'],
+  run: (context) => {
+    const parsed = context.parsed!;
+    context.artifacts = collectLineageArtifacts(context.analysis!, parsed);
+    context.backendServices = collectBackendServices(parsed);
+  },
+};
+
+/**
+ * Build the frontend and backend dependency graphs
+ */
+const dependenciesStage: PipelineStage = {
+  name: 'dependencies',
+  requires: ['parsed', 'artifacts'],
+  run: (context) => {
+    const { frontend, backend } = buildDependencyGraphs(context.parsed!, context.artifacts!);
+    context.frontendGraph = frontend;
+    context.backendGraph = backend;
+    // Persisted with the artifacts so impact analysis can follow file imports
+    context.artifacts!.dependencyGraph = mergeDependencyGraphs(frontend, backend);
+  },
+};
+
+/**
+ * Build the lineage graph from the extracted artifacts
+ */
+const lineageStage: PipelineStage = {
+  name: 'lineage',
+  requires: ['artifacts'],
+  enabled: (options) => options.lineage !== false,
+  run: (context) => {
+    context.lineageGraph = buildLineageGraph(context.artifacts!);
+  },
+};
+
+/**
+ * Run the security, quality and architecture assessment
+ */
+const assessStage: PipelineStage = {
+  name: 'assess',
+  requires: ['analysis'],
+  enabled: (options) => options.assessment !== false,
+  run: async (context) => {
+    const parsed = context.parsed;
+    context.assessment = await runAssessment(
+      {
+        repoPath: context.analysis!.localPath,
+        fileTree: context.analysis!.fileTree,
+        parsedFiles: parsed ? [...parsed.frontendFiles, ...getBackendFiles(parsed)] : [],
+        dependencyGraph: mergeDependencyGraphs(context.frontendGraph, context.backendGraph),
+        lineageGraph: context.lineageGraph,
+        middleware: context.artifacts ? collectMiddleware(context.artifacts.endpoints) : undefined,
+      },
+      {
+        useExternalScanners: context.options.useExternalScanners,
+        scanGitHistory: context.options.scanGitHistory,
+      }
+    );
+  },
+};
+
+/**
+ * Save the tech stack, assessment, lineage graph and artifacts to the database
+ */
+const persistStage: PipelineStage = {
+  name: 'persist',
+  enabled: (options) => options.persist === true,
+  run: async (context) => {
+    context.analysisId = await saveAnalysisResult({
+      repository: context.repository,
+      repositoryUrl:
+        context.options.repositoryUrl || context.analysis?.repository.url || `https://github.com/${context.repository}`,
+      techStack: context.techStack,
+      assessmentResult: context.assessment,
+      lineageGraph: context.lineageGraph,
+      analysisArtifacts: context.artifacts,
+    });
+  },
+};
+
+export const DEFAULT_STAGES: PipelineStage[] = [
+  cloneStage,
+  detectStage,
+  parseStage,
+  extractStage,
+  dependenciesStage,
+  lineageStage,
+  assessStage,
+  persistStage,
+];
+
+/**
+ * Run the analysis pipeline for a repository
+ */
+export async function runPipeline(repository: string, options: PipelineOptions = {}): Promise<AnalysisResult> {
+  const timestamp = new Date();
+  const context: PipelineContext = { repository, options };
+  const stages: PipelineStageResult[] = [];
+  const errors: AnalysisError[] = [];
+
+  for (const stage of options.stages || DEFAULT_STAGES) {
+    const missing = (stage.requires || []).filter((artifact) => context[artifact] === undefined);
+    if ((stage.enabled && !stage.enabled(options)) || missing.length > 0) {
+      recordStage(context, stages, { name: stage.name, status: 'skipped', durationMs: 0 });
+      continue;
+    }
+
+    const start = Date.now();
+    try {
+      await stage.run(context);
+      recordStage(context, stages, { name: stage.name, status: 'completed', durationMs: Date.now() - start });
+    } catch (error: any) {
+      const durationMs = Date.now() - start;
+      recordStage(context, stages, { name: stage.name, status: 'failed', durationMs, error: error.message });
+      if (stage.required) {
+        logger.error('Analysis pipeline aborted', { repository, stage: stage.name, error: error.message });
+        throw error;
+      }
+      logger.warn('Analysis pipeline stage failed', { repository, stage: stage.name, error: error.message });
+      errors.push({ type: 'analysis-error', message: error.message, stage: stage.name, stack: error.stack });
+    }
+  }
+
+  return buildAnalysisResult(context, timestamp, stages, errors);
+}
+
+/**
+ * Record a stage result and notify the caller
+ */
+function recordStage(context: PipelineContext, stages: PipelineStageResult[], result: PipelineStageResult): void {
+  stages.push(result);
+  logger.debug('Analysis pipeline stage finished', { repository: context.repository, ...result });
+  context.options.onStage?.(result, context);
+}
+
+/**
+ * Assemble the analysis result from the artifacts the stages produced
+ */
+function buildAnalysisResult(
+  context: PipelineContext,
+  timestamp: Date,
+  stages: PipelineStageResult[],
+  errors: AnalysisError[]
+): AnalysisResult {
+  const { parsed, artifacts } = context;
+  const result: AnalysisResult = {
+    repository: context.repository,
+    timestamp,
+    localPath: context.analysis?.localPath,
+    techStack: context.techStack,
+    artifacts,
+    lineageGraph: context.lineageGraph,
+    assessment: context.assessment,
+    analysisId: context.analysisId,
+    stages,
+    errors,
+  };
+  if (!parsed || !artifacts) {
+    return result;
+  }
+
+  result.frontend = {
+    files: parsed.frontendFiles,
+    components: artifacts.components,
+    apiCalls: artifacts.apiCalls,
+    dependencyGraph: context.frontendGraph || { nodes: [], edges: [] },
+  };
+  result.backend = {
+    files: getBackendFiles(parsed),
+    endpoints: artifacts.endpoints,
+    databaseQueries: artifacts.queries,
+    services: context.backendServices || [],
+    dependencyGraph: context.backendGraph || { nodes: [], edges: [] },
+    middleware: collectMiddleware(artifacts.endpoints),
+  };
+  const schema = { tables: artifacts.tables, relationships: getForeignKeyRelationships(artifacts.tables) };
+  result.database = {
+    schema,
+    tables: schema.tables,
+    relationships: schema.relationships,
+    usageMap: mapDatabaseUsage(schema, artifacts.queries, artifacts.endpoints),
+  };
+
+  return result;
+}
+
+/**
+ * Get the JavaScript/TypeScript, Python and Go backend files
+ */
+function getBackendFiles(parsed: ParsedRepository): ParsedFile[] {
+  return [...parsed.backendFiles, ...parsed.pythonFiles, ...parsed.goFiles];
+}
+
+/**
+ * Collect the middleware applied to endpoints, in the order it runs
+ */
+function collectMiddleware(endpoints: Endpoint[]): Middleware[] {
+  const middleware = new Map<string, Middleware>();
+
+  for (const endpoint of endpoints) {
+    endpoint.middleware.forEach((name, order) => {
+      const entry = middleware.get(name) || { name, file: endpoint.file, appliedTo: [], order };
+      entry.appliedTo.push(endpoint.id);
+      middleware.set(name, entry);
+    });
+  }
+
+  return [...middleware.values()];
+}
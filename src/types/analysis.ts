@@ -2,15 +2,33 @@
  * Code analysis types
  */
 
+import { TechStack } from './detection';
+import { LineageGraph } from './lineage';
+import { AssessmentResult } from './assessment';
+
 export interface AnalysisResult {
   repository: string;
   timestamp: Date;
+  localPath?: string;
+  techStack?: TechStack;
   frontend?: FrontendAnalysis;
   backend?: BackendAnalysis;
   database?: DatabaseAnalysis;
+  artifacts?: AnalysisArtifacts;
+  lineageGraph?: LineageGraph;
+  assessment?: AssessmentResult;
+  analysisId?: number | null; // Database ID when the result was persisted
+  stages?: PipelineStageResult[];
   errors: AnalysisError[];
 }
 
+export interface PipelineStageResult {
+  name: string;
+  status: 'completed' | 'failed' | 'skipped';
+  durationMs: number;
+  error?: string;
+}
+
 export interface FrontendAnalysis {
   files: ParsedFile[];
   components: Component[];
@@ -35,6 +53,21 @@ export interface DatabaseAnalysis {
   usageMap: TableUsageMap; // Which backend code uses which tables
 }
 
+/**
+ * Parsed artifacts persisted alongside a lineage graph so that later
+ * analyses (e.g. impact analysis) can run without re-parsing the repository
+ */
+export interface AnalysisArtifacts {
+  components: Component[];
+  apiCalls: APICall[];
+  endpoints: Endpoint[];
+  queries: DatabaseQuery[];
+  tables: Table[];
+  routes?: Route[];
+  services?: Service[]; // Injectable frontend services (Angular)
+  dependencyGraph?: DependencyGraph; // Frontend and backend file imports, followed by impact analysis
+}
+
 export interface ParsedFile {
   path: string;
   language: string;
@@ -45,6 +78,14 @@ export interface ParsedFile {
   classes?: ClassDefinition[];
   linesOfCode: number;
   complexity?: number;
+  sfc?: SingleFileComponent; // Vue/Svelte file; ast holds the parsed script blocks
+}
+
+export interface SingleFileComponent {
+  framework: 'vue' | 'svelte';
+  scriptSetup: boolean; // Vue <script setup>
+  lang?: string; // Script lang attribute (ts)
+  template: string; // Markup with script and style blocks blanked out, positions preserved
 }
 
 export interface Import {
@@ -68,8 +109,12 @@ export interface Component {
   props?: string[];
   state?: string[];
   hooks?: string[];
+  selector?: string; // Angular element selector
+  templateUrl?: string; // Angular external template
+  dependencies?: string[]; // Injected services (Angular)
   line: number;
   column: number;
+  endLine?: number; // Last line of the declaration, to attribute calls made inside it
 }
 
 export interface APICall {
@@ -81,6 +126,8 @@ export interface APICall {
   urlPattern?: string; // Pattern if dynamic
   headers?: Record<string, string>;
   body?: any;
+  bodyFields?: string[]; // Request body keys, if identifiable
+  responseFields?: string[]; // Response fields the calling code reads
   line: number;
   column: number;
   confidence: number; // Confidence that URL is correctly identified
@@ -115,6 +162,8 @@ export interface DatabaseQuery {
   tables?: string[]; // Tables involved
   sql?: string; // If raw SQL
   ormMethod?: string; // e.g., 'findAll', 'create'
+  columns?: string[]; // Columns read or written, if identifiable
+  columnSources?: Record<string, string>; // Column → request body field written to it
   line: number;
   confidence: number;
 }
@@ -140,6 +189,7 @@ export interface Table {
   indexes: Index[];
   foreignKeys: ForeignKey[];
   primaryKey?: string[];
+  model?: string; // ORM model/class declaring the table
 }
 
 export interface Column {
@@ -200,7 +250,7 @@ export interface GraphEdge {
 }
 
 export interface RoutingInfo {
-  framework: 'react-router' | 'vue-router' | 'angular-router';
+  framework: 'react-router' | 'vue-router' | 'angular-router' | 'nextjs' | 'remix';
   routes: Route[];
 }
 
@@ -208,11 +258,19 @@ export interface Route {
   path: string;
   component: string;
   file: string;
+  type?: 'page' | 'api'; // File-system routes: page component or API/resource route module
+  links?: RouteLink[]; // Navigation targets found in the route component
+}
+
+export interface RouteLink {
+  path: string;
+  line: number;
 }
 
 export interface AnalysisError {
   type: 'parse-error' | 'detection-error' | 'analysis-error';
   message: string;
+  stage?: string; // Pipeline stage that failed
   file?: string;
   line?: number;
   stack?: string;
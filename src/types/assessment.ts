@@ -27,9 +27,25 @@ export interface SecurityAssessment {
   issues: SecurityIssue[];
   vulnerabilities: Vulnerability[];
   dependencies: DependencySecurity[];
+  endpoints?: EndpointSecurity[]; // Per-endpoint security matrix, when a lineage graph is available
   score: number; // 0-100
 }
 
+export interface EndpointSecurity {
+  endpoint: string; // Endpoint ID
+  method: string;
+  path: string;
+  file: string;
+  line?: number;
+  middleware: string[]; // Full middleware chain, app-level first
+  authMiddleware: string[]; // Middleware classified as authentication or authorization
+  authenticated: boolean;
+  mutating: boolean; // POST, PUT, PATCH or DELETE
+  csrfProtected: boolean;
+  writes: string[]; // Tables written through database-query lineage edges
+  sensitiveColumns: string[]; // table.column
+}
+
 export interface SecurityIssue {
   id: string;
   type: SecurityIssueType;
@@ -42,11 +58,24 @@ export interface SecurityIssue {
   rule: string; // Rule identifier
   recommendation: string;
   codeSnippet?: string;
+  trace?: SecurityTraceStep[]; // Source to sink data flow, for taint analysis findings
+  commit?: string; // Commit that introduced a secret found in the git history
+  author?: string;
+}
+
+export interface SecurityTraceStep {
+  kind: 'source' | 'assignment' | 'call' | 'return' | 'sink';
+  file: string;
+  line: number;
+  code: string; // Source text of the step
 }
 
 export type SecurityIssueType =
   | 'sql-injection'
   | 'xss'
+  | 'command-injection'
+  | 'code-injection'
+  | 'path-traversal'
   | 'csrf'
   | 'authentication'
   | 'authorization'
@@ -64,6 +93,9 @@ export interface Vulnerability {
   affectedFiles: string[];
   fixAvailable: boolean;
   fixVersion?: string;
+  package?: string; // Vulnerable dependency, for lockfile audits
+  version?: string; // Resolved version of the dependency
+  dependencyPath?: string[]; // Chain from a direct dependency to the vulnerable one
 }
 
 export interface DependencySecurity {
@@ -78,6 +110,7 @@ export interface QualityAssessment {
   issues: QualityIssue[];
   metrics: CodeMetrics;
   score: number;
+  clones?: CloneClass[];
 }
 
 export interface QualityIssue {
@@ -113,6 +146,19 @@ export interface CodeMetrics {
   testCoverage?: number; // percentage, if available
 }
 
+export interface CloneClass {
+  id: string;
+  type: 1 | 2 | 3; // Identical, renamed identifiers or literals, or with statements added, removed or changed
+  tokens: number; // Normalized tokens matched
+  locations: CloneLocation[];
+}
+
+export interface CloneLocation {
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
 export interface ArchitectureAssessment {
   issues: ArchitectureIssue[];
   patterns: Pattern[];
@@ -43,6 +43,7 @@ export interface NodeData {
   httpMethod?: string;
   path?: string;
   parameters?: string[];
+  middleware?: string[];
   
   // Table data
   tableName?: string;
@@ -0,0 +1,22 @@
+/**
+ * Babel AST utilities
+ */
+
+import * as t from '@babel/types';
+
+/**
+ * Get the name of an identifier or string key
+ */
+export function getKeyName(key: t.Node): string | undefined {
+  return t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : undefined;
+}
+
+/**
+ * Get the static property name of a member expression
+ */
+export function getPropertyName(node: t.MemberExpression): string | undefined {
+  if (node.computed) {
+    return t.isStringLiteral(node.property) ? node.property.value : undefined;
+  }
+  return getKeyName(node.property);
+}
@@ -36,6 +36,13 @@ export class ValidationError extends AssessmentError {
   }
 }
 
+export class NotFoundError extends AssessmentError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'NOT_FOUND', 404, context);
+    this.name = 'NotFoundError';
+  }
+}
+
 /**
  * Format error for user-friendly display
  */
@@ -57,6 +57,9 @@ const LANGUAGE_MAP: Record<string, string> = {
   // Vue
   '.vue': 'vue',
 
+  // Svelte
+  '.svelte': 'svelte',
+
   // Markdown
   '.md': 'markdown',
   '.markdown': 'markdown',
@@ -4,3 +4,4 @@
 
 export * from './file-utils';
 
+export * from './ast-utils';
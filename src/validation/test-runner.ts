@@ -6,7 +6,7 @@ import { ValidationTestCase, validateLineageAccuracy, validateImpactAccuracy, ge
 import { accuracyTestCases } from './test-cases';
 import { LineageGraph } from '../types';
 import { ImpactAnalysis } from '../types';
-import { GitHubService } from '../github/service';
+import { createRepositorySource } from '../github/source';
 import { TechStackDetector } from '../detection';
 import { buildLineageGraph, LineageGraphContext } from '../lineage/graph-builder';
 import { analyzeChangeImpact, ImpactAnalysisContext } from '../impact/analyzer';
@@ -41,9 +41,8 @@ export async function runValidationTest(
   try {
     logger.info('Running validation test', { testCase: testCase.id });
 
-    // Clone and analyze repository
-    const githubService = new GitHubService(githubToken ? { token: githubToken } : undefined);
-    const analysis = await githubService.cloneAndAnalyzeRepository(testCase.repository);
+    // Clone and analyze repository; test cases may also point at local fixtures or archives
+    const analysis = await createRepositorySource(testCase.repository, { token: githubToken }).load();
 
     // Detect tech stack
     const detector = new TechStackDetector();
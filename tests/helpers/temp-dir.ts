@@ -0,0 +1,46 @@
+/**
+ * Temporary directory fixtures for tests that analyze files on disk
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+export interface TempDir {
+  readonly path: string;
+  write(files: Record<string, string>): string[];
+}
+
+/**
+ * Write files at paths relative to a root directory, creating their parent
+ * directories, and return the relative paths
+ */
+export function writeFiles(root: string, files: Record<string, string>): string[] {
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(root, name)), { recursive: true });
+    fs.writeFileSync(path.join(root, name), content);
+  }
+  return Object.keys(files);
+}
+
+/**
+ * Create a fresh temporary directory before each test and remove it after
+ */
+export function useTempDir(prefix: string = 'test-'): TempDir {
+  let current = '';
+
+  beforeEach(() => {
+    current = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+  });
+
+  afterEach(() => {
+    fs.rmSync(current, { recursive: true, force: true });
+  });
+
+  return {
+    get path() {
+      return current;
+    },
+    write: (files) => writeFiles(current, files),
+  };
+}
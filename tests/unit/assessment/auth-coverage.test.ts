@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the endpoint authentication and CSRF coverage audit
+ */
+
+import { auditAuthCoverage } from '../../../src/assessment/security/auth-coverage';
+import { runPipeline } from '../../../src/services/pipeline';
+import { generateAssessmentReport } from '../../../src/reporting/generator';
+import { LineageNode, Middleware } from '../../../src/types';
+import { useTempDir } from '../../helpers/temp-dir';
+
+describe('Endpoint auth coverage', () => {
+  const tempDir = useTempDir();
+
+  test('should flag unauthenticated routes writing tables or reading sensitive columns', async () => {
+    tempDir.write({
+      'package.json': JSON.stringify({ dependencies: { express: '^4.18.0' } }),
+      'db/migrations/001_init.sql': [
+        'CREATE TABLE users (',
+        '  id SERIAL PRIMARY KEY,',
+        '  email VARCHAR(255),',
+        '  password_hash TEXT',
+        ');',
+      ].join('\n'),
+      'server/app.js': [
+        "const express = require('express');",
+        "const csrf = require('csurf');",
+        'const app = express();',
+        "app.post('/api/signup', async (req, res) => {",
+        "  await db.query('INSERT INTO users (email) VALUES ($1)', [req.body.email]);",
+        '});',
+        "app.get('/api/profiles', async (req, res) => {",
+        "  res.json(await db.query('SELECT * FROM users'));",
+        '});',
+        "app.get('/api/health', (req, res) => res.send('ok'));",
+        'app.use(authenticate);',
+        'app.use(csrf());',
+        "app.delete('/api/users/:id', async (req, res) => {",
+        "  await db.query('DELETE FROM users WHERE id = $1', [req.params.id]);",
+        '});',
+      ].join('\n'),
+    });
+
+    const result = await runPipeline(tempDir.path, { incremental: false, useExternalScanners: false });
+    const security = result.assessment!.security;
+
+    const authentication = security.issues.filter((issue) => issue.type === 'authentication');
+    expect(authentication.map((issue) => issue.description)).toEqual([
+      'POST /api/signup has no authentication middleware but writes to users',
+      'GET /api/profiles has no authentication middleware but touches sensitive columns users.password_hash',
+    ]);
+    expect(security.issues.find((issue) => issue.id === 'authentication-express-2')).toMatchObject({
+      severity: 'critical',
+      file: 'server/app.js',
+      line: 7,
+    });
+    // Middleware registered with app.use only covers the routes declared after it
+    expect(security.endpoints!.map((e) => [e.method, e.path, e.authenticated, e.csrfProtected, e.writes])).toEqual([
+      ['POST', '/api/signup', false, false, ['users']],
+      ['GET', '/api/profiles', false, false, []],
+      ['GET', '/api/health', false, false, []],
+      ['DELETE', '/api/users/:id', true, true, ['users']],
+    ]);
+  });
+
+  test('should follow named handlers declared before or after their routes', async () => {
+    tempDir.write({
+      'package.json': JSON.stringify({ dependencies: { express: '^4.18.0' } }),
+      'db/migrations/001_init.sql': 'CREATE TABLE users (\n  id SERIAL PRIMARY KEY,\n  email VARCHAR(255)\n);',
+      'server/app.js': [
+        "const express = require('express');",
+        'const app = express();',
+        "app.use('/api/users', require('./users'));",
+      ].join('\n'),
+      'server/users.js': [
+        "const router = require('express').Router();",
+        "router.get('/', listUsers);",
+        'async function createUser(req, res) {',
+        "  await db.query('INSERT INTO users (email) VALUES ($1)', [req.body.email]);",
+        '}',
+        "router.post('/', createUser);",
+        'async function listUsers(req, res) {',
+        "  res.json(await db.query('SELECT id FROM users'));",
+        '}',
+        'module.exports = router;',
+      ].join('\n'),
+    });
+
+    const result = await runPipeline(tempDir.path, { incremental: false, useExternalScanners: false });
+    const security = result.assessment!.security;
+
+    expect(security.endpoints!.map((e) => [e.method, e.path, e.writes])).toEqual([
+      ['GET', '/api/users', []],
+      ['POST', '/api/users', ['users']],
+    ]);
+    const authentication = security.issues.filter((issue) => issue.type === 'authentication');
+    expect(authentication.map((issue) => issue.description)).toEqual([
+      'POST /api/users has no authentication middleware but writes to users',
+    ]);
+  });
+
+  test('should apply app-level middleware by appliedTo and report mutating routes without CSRF', () => {
+    const endpoint = (id: string, httpMethod: string, endpointPath: string, middleware: string[]): LineageNode => ({
+      id: `endpoint:${id}`,
+      type: 'endpoint',
+      layer: 'backend',
+      label: `${httpMethod} ${endpointPath}`,
+      file: 'server/routes.js',
+      line: 1,
+      data: { httpMethod, path: endpointPath, middleware },
+    });
+    const lineageGraph = {
+      nodes: [
+        endpoint('admin-stats', 'GET', '/admin/stats', []),
+        endpoint('orders', 'POST', '/orders', ['JwtAuthGuard']),
+        endpoint('webhook', 'PUT', '/webhooks/stripe', ['csrfExempt']),
+        { id: 'query:q1', type: 'database-query', layer: 'backend', label: 'update', file: '', data: {} },
+      ],
+      edges: [
+        {
+          id: 'e1',
+          from: 'endpoint:webhook',
+          to: 'query:q1',
+          type: 'database-query',
+          confidence: 0.9,
+          data: { queryType: 'update', table: 'payments' },
+        },
+      ],
+    } as any;
+    const middleware: Middleware[] = [
+      { name: 'requireAdmin', file: 'server/app.js', appliedTo: ['/admin/*'], order: 1 },
+      { name: 'helmet', file: 'server/app.js', appliedTo: ['*'], order: 0 },
+      { name: 'verifyCsrfToken', file: 'server/app.js', appliedTo: ['orders'], order: 2 },
+    ];
+
+    const { issues, endpoints } = auditAuthCoverage(tempDir.path, lineageGraph, middleware);
+
+    expect(endpoints.map((e) => [e.endpoint, e.middleware, e.authMiddleware, e.mutating, e.csrfProtected])).toEqual([
+      ['admin-stats', ['helmet', 'requireAdmin'], ['requireAdmin'], false, false],
+      ['orders', ['helmet', 'verifyCsrfToken', 'JwtAuthGuard'], ['JwtAuthGuard'], true, true],
+      ['webhook', ['helmet', 'csrfExempt'], [], true, false],
+    ]);
+    expect(issues.map((issue) => [issue.id, issue.severity])).toEqual([['authentication-webhook', 'high']]);
+
+    const report = generateAssessmentReport({
+      repository: 'acme/shop',
+      timestamp: new Date(0),
+      summary: { overallScore: 0, securityScore: 0, qualityScore: 0, architectureScore: 0, totalIssues: 0 },
+      security: { score: 0, issues, vulnerabilities: [], dependencies: [], endpoints },
+      quality: {
+        score: 0,
+        metrics: {
+          linesOfCode: 0,
+          cyclomaticComplexity: 0,
+          maintainabilityIndex: 0,
+          technicalDebt: 0,
+          codeDuplication: 0,
+        },
+        issues: [],
+      },
+      architecture: { score: 0, patterns: [], antiPatterns: [], issues: [] },
+    } as any);
+    expect(report).toContain('**Mutating Routes Without CSRF Protection**: 1');
+    expect(report).toContain('| PUT | /webhooks/stripe | none | missing | payments | - |');
+    expect(report).toContain('| GET | /admin/stats | requireAdmin | n/a | - | - |');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for token-based clone detection
+ */
+
+import { detectClones } from '../../../src/assessment/quality/clones';
+import { runQualityChecks } from '../../../src/assessment/quality/linter';
+import { parseBackendFile, parsePythonFile } from '../../../src/analyzers/backend/parser';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('Clone detection', () => {
+  const tempDir = useTempDir();
+
+  const parse = (...names: string[]) => names.map((name) => parseBackendFile(path.join(tempDir.path, name))!);
+
+  const summarize = (name: string, list: string, field: string, rate: string): string[] => [
+    `function ${name}(${list}) {`,
+    '  let total = 0;',
+    `  for (const entry of ${list}) {`,
+    '    if (entry.active && !entry.deleted) {',
+    `      total += entry.${field} * entry.quantity;`,
+    '    }',
+    '  }',
+    `  const tax = Math.round(total * ${rate});`,
+    '  return { total, tax, grand: total + tax };',
+    '}',
+  ];
+
+  const validate = (extra: string[]): string[] => [
+    'function validateUser(user) {',
+    '  const errors = [];',
+    "  if (!user.email || !user.email.includes('@')) {",
+    "    errors.push('email');",
+    '  }',
+    ...extra,
+    '  if (user.password.length < 12) {',
+    "    errors.push('password');",
+    '  }',
+    '  return errors.length === 0 ? null : errors;',
+    '}',
+  ];
+
+  test('should group Type-1, Type-2 and Type-3 clones above the token threshold into classes', () => {
+    tempDir.write({
+      'src/orders.js': [...summarize('summarizeOrders', 'orders', 'price', '0.2'), '', ...validate([])].join('\n'),
+      'src/carts.js': summarize('summarizeOrders', 'orders', 'price', '0.2').join('\n'),
+      'src/invoices.js': summarize('totalInvoices', 'invoices', 'amount', '0.07').join('\n'),
+      'src/signup.js': validate(['  if (!user.name) {', "    errors.push('name');", '  }']).join('\n'),
+      'src/small.js': 'function add(a, b) {\n  return a + b;\n}\n',
+      'src/other.js': 'const sum = (a, b) => {\n  return a + b;\n};\n',
+    });
+    const files = parse(
+      'src/orders.js',
+      'src/carts.js',
+      'src/invoices.js',
+      'src/signup.js',
+      'src/small.js',
+      'src/other.js'
+    );
+
+    const { classes } = detectClones(files, { minTokens: 40, maxGap: 15 });
+
+    const summary = classes.map((clone) => [
+      clone.type,
+      clone.locations.map((location) => `${path.basename(location.file)}:${location.startLine}-${location.endLine}`),
+    ]);
+    expect(summary).toEqual([
+      [2, ['orders.js:1-9', 'carts.js:1-9', 'invoices.js:1-9']],
+      [3, ['orders.js:12-20', 'signup.js:1-12']],
+    ]);
+    expect(classes[0].tokens).toBeGreaterThanOrEqual(40);
+    // Only the identical pair, not the renamed copy, is a Type-1 clone on its own
+    expect(detectClones(parse('src/orders.js', 'src/carts.js'), { minTokens: 40 }).classes.map((c) => c.type)).toEqual([
+      1,
+    ]);
+    // Raising the threshold drops the clones
+    expect(detectClones(files, { minTokens: 400 }).classes).toEqual([]);
+  });
+
+  test('should report one issue per clone class and the duplicated-line percentage', () => {
+    tempDir.write({
+      'src/orders.js': summarize('summarizeOrders', 'orders', 'price', '0.2').join('\n'),
+      'src/invoices.js': summarize('totalInvoices', 'invoices', 'amount', '0.07').join('\n'),
+      'src/refunds.js': summarize('totalRefunds', 'refunds', 'amount', '0.07').join('\n'),
+      'src/index.js': [
+        "const { summarizeOrders } = require('./orders');",
+        '',
+        'module.exports = function report(orders) {',
+        '  return summarizeOrders(orders);',
+        '};',
+      ].join('\n'),
+      'scripts/export.py': 'def export(orders):\n    for order in orders:\n        print(order)',
+    });
+    // Files restored from the parsed file cache carry no AST
+    const files = parse('src/orders.js', 'src/invoices.js', 'src/refunds.js', 'src/index.js').map((file) => ({
+      ...file,
+      ast: undefined,
+    }));
+
+    const quality = runQualityChecks(
+      [...files, parsePythonFile(path.join(tempDir.path, 'scripts/export.py'))!],
+      undefined,
+      { minTokens: 40 }
+    );
+
+    const duplication = quality.issues.filter((issue) => issue.type === 'duplication');
+    expect(duplication).toHaveLength(1);
+    expect(duplication[0]).toMatchObject({
+      id: `duplication-${path.join(tempDir.path, 'src/orders.js')}-1`,
+      line: 1,
+      title: 'Code Clone',
+    });
+    expect(duplication[0].description).toMatch(/^Type-2 clone of \d+ tokens in 3 locations: /);
+    expect(quality.clones).toHaveLength(1);
+    // 27 of the 35 JavaScript lines are in a clone; the Python file is not tokenized
+    expect(quality.metrics.linesOfCode).toBe(38);
+    expect(quality.metrics.codeDuplication).toBeCloseTo((27 / 35) * 100);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for lockfile parsing and offline dependency auditing
+ */
+
+import { readLockedDependencies } from '../../../src/assessment/security/lockfiles';
+import { auditDependencies, loadAdvisoryDatabase } from '../../../src/assessment/security/dependency-audit';
+import { runSecurityScan } from '../../../src/assessment/security/scanner';
+import { RepositoryFileAnalyzer } from '../../../src/github/file-analyzer';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('Dependency audit', () => {
+  const tempDir = useTempDir();
+  const databaseDir = useTempDir('osv-');
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  const packageLock = JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'shop', dependencies: { express: '^4.17.0' }, devDependencies: { jest: '^29.0.0' } },
+      'node_modules/express': { version: '4.17.1', dependencies: { qs: '6.7.0', 'body-parser': '1.19.0' } },
+      'node_modules/body-parser': { version: '1.19.0', dependencies: { qs: '6.7.0' } },
+      'node_modules/qs': { version: '6.7.0' },
+      'node_modules/jest': { version: '29.7.0', dev: true },
+    },
+  });
+
+  const fileTree = () => new RepositoryFileAnalyzer().analyzeRepository(tempDir.path).fileTree;
+
+  test('should read resolved versions and dependency paths from every lockfile format', () => {
+    tempDir.write({
+      'package.json': JSON.stringify({ dependencies: { express: '^4.17.0' } }),
+      'package-lock.json': packageLock,
+      'web/package.json': JSON.stringify({ dependencies: { axios: '^0.21.0' } }),
+      'web/yarn.lock': [
+        '# yarn lockfile v1',
+        '',
+        'axios@^0.21.0:',
+        '  version "0.21.1"',
+        '  dependencies:',
+        '    follow-redirects "^1.10.0"',
+        '',
+        'follow-redirects@^1.10.0:',
+        '  version "1.14.7"',
+      ].join('\n'),
+      'admin/pnpm-lock.yaml': [
+        "lockfileVersion: '6.0'",
+        'dependencies:',
+        '  lodash:',
+        '    specifier: ^4.17.0',
+        '    version: 4.17.20',
+        'packages:',
+        '  /lodash@4.17.20:',
+        '    resolution: {integrity: sha512-abc}',
+        '    dev: false',
+      ].join('\n'),
+      'api/requirements.txt': 'Django==3.2.1\nrequests>=2.0\nPyYAML[libyaml]==5.3 ; python_version > "3"\n',
+      'worker/Pipfile': '[packages]\ncelery = "*"\n',
+      'worker/Pipfile.lock': JSON.stringify({
+        default: { celery: { version: '==5.2.1' }, kombu: { version: '==5.2.2' } },
+      }),
+      'svc/go.mod': 'module example.com/svc\n\nrequire (\n\tgolang.org/x/text v0.3.6 // indirect\n)\n',
+      'svc/go.sum': [
+        'golang.org/x/text v0.3.6 h1:abc=',
+        'golang.org/x/text v0.3.6/go.mod h1:def=',
+        'golang.org/x/net v0.0.0-20210226172049-e18ecbb05110/go.mod h1:ghi=',
+      ].join('\n'),
+    });
+
+    const locked = readLockedDependencies(tempDir.path, fileTree());
+    const summary = locked.map((d) => [d.lockfile, d.ecosystem, d.name, d.version, d.path.join(' > '), d.direct]);
+
+    expect(summary).toEqual(
+      expect.arrayContaining([
+        ['package-lock.json', 'npm', 'express', '4.17.1', 'express', true],
+        ['package-lock.json', 'npm', 'qs', '6.7.0', 'express > qs', false],
+        ['package-lock.json', 'npm', 'jest', '29.7.0', 'jest', true],
+        ['web/yarn.lock', 'npm', 'follow-redirects', '1.14.7', 'axios > follow-redirects', false],
+        ['admin/pnpm-lock.yaml', 'npm', 'lodash', '4.17.20', 'lodash', true],
+        ['api/requirements.txt', 'PyPI', 'Django', '3.2.1', 'Django', true],
+        ['api/requirements.txt', 'PyPI', 'PyYAML', '5.3', 'PyYAML', true],
+        ['worker/Pipfile.lock', 'PyPI', 'kombu', '5.2.2', 'kombu', false],
+        ['svc/go.sum', 'Go', 'golang.org/x/text', 'v0.3.6', 'golang.org/x/text', false],
+      ])
+    );
+    // Unpinned requirements and modules only listed for their go.mod are not resolved versions
+    expect(locked.map((d) => d.name)).not.toEqual(expect.arrayContaining(['requests']));
+    expect(locked.map((d) => d.name)).not.toEqual(expect.arrayContaining(['golang.org/x/net']));
+  });
+
+  test('should match exact versions against OSV advisories and fill the security assessment', async () => {
+    tempDir.write({
+      'package.json': JSON.stringify({ dependencies: { express: '^4.17.0', helmet: '^4.0.0' } }),
+      'package-lock.json': packageLock,
+      'requirements.txt': 'django==3.2.1\n',
+    });
+    databaseDir.write({
+      'npm/GHSA-hrpp-h998-j3pp.json': JSON.stringify({
+        id: 'GHSA-hrpp-h998-j3pp',
+        summary: 'qs vulnerable to Prototype Pollution',
+        aliases: ['CVE-2022-24999'],
+        affected: [
+          {
+            package: { ecosystem: 'npm', name: 'qs' },
+            ranges: [{ type: 'SEMVER', events: [{ introduced: '6.7.0' }, { fixed: '6.7.3' }] }],
+          },
+        ],
+        database_specific: { severity: 'HIGH' },
+      }),
+      'npm/GHSA-old.json': JSON.stringify({
+        id: 'GHSA-old',
+        affected: [
+          {
+            package: { ecosystem: 'npm', name: 'express' },
+            ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.0.0' }] }],
+          },
+        ],
+      }),
+      'PyPI/PYSEC-2021-98.json': JSON.stringify({
+        id: 'PYSEC-2021-98',
+        aliases: ['CVE-2021-33203'],
+        affected: [
+          {
+            package: { ecosystem: 'PyPI', name: 'Django' },
+            ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '3.2a1' }, { fixed: '3.2.4' }] }],
+            versions: ['3.2.1'],
+          },
+        ],
+      }),
+    });
+
+    const audit = auditDependencies(tempDir.path, fileTree(), loadAdvisoryDatabase(databaseDir.path));
+
+    expect(audit.vulnerabilities.map((v) => [v.package, v.cve, v.severity, v.fixVersion, v.dependencyPath])).toEqual([
+      ['qs', 'CVE-2022-24999', 'high', '6.7.3', ['express', 'qs']],
+      ['django', 'CVE-2021-33203', 'medium', '3.2.4', ['django']],
+    ]);
+    expect(audit.vulnerabilities[0]).toMatchObject({ affectedFiles: ['package-lock.json'], fixAvailable: true });
+    expect(audit.dependencies.find((d) => d.name === 'qs')).toMatchObject({ latestVersion: '6.7.3', outdated: true });
+    expect(audit.dependencies.find((d) => d.name === 'express')).toMatchObject({
+      vulnerabilities: [],
+      outdated: false,
+    });
+
+    process.env.ADVISORY_DB_PATH = databaseDir.path;
+    const security = await runSecurityScan(tempDir.path, fileTree(), { useExternalScanners: false });
+    expect(security.vulnerabilities).toHaveLength(2);
+    expect(security.dependencies.map((d) => d.name).sort()).toEqual(['django', 'express', 'jest', 'qs']);
+    // Security packages are no longer reported just for being installed
+    expect(security.issues.filter((issue) => issue.type === 'insecure-dependency')).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for AST taint analysis
+ */
+
+import { analyzeTaintFlows } from '../../../src/assessment/security/taint';
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { RepositoryFileAnalyzer } from '../../../src/github/file-analyzer';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('Taint analysis', () => {
+  const tempDir = useTempDir();
+
+  test('should trace request input across files into SQL, shell and file system sinks', () => {
+    tempDir.write({
+      'src/routes/users.js': [
+        "const { exec } = require('child_process');",
+        "const fs = require('fs');",
+        "const users = require('../services/users');",
+        '',
+        "router.get('/users/:id', async (req, res) => {",
+        '  const id = req.params.id;',
+        '  res.json(await users.findUser(id));',
+        '});',
+        '',
+        "router.get('/orders/:id', async (req, res) => {",
+        "  const rows = await db.query('SELECT * FROM orders WHERE id = $1', [req.params.id]);",
+        '  const limit = parseInt(req.query.limit);',
+        '  res.json(await db.query(`SELECT * FROM orders LIMIT ${limit}`));',
+        '});',
+        '',
+        "router.post('/reports', (req, res) => {",
+        '  const { name } = req.body;',
+        "  exec('generate-report ' + name);",
+        "  res.send(fs.readFileSync(path.join('/reports', req.query.file)));",
+        '});',
+      ].join('\n'),
+      'src/services/users.js': [
+        'function buildQuery(id) {',
+        '  return `SELECT *',
+        '    FROM users',
+        '    WHERE id = ${id}`;',
+        '}',
+        '',
+        'async function findUser(id) {',
+        '  const sql = buildQuery(id);',
+        '  return db.query(sql);',
+        '}',
+        '',
+        'module.exports = { findUser };',
+      ].join('\n'),
+    });
+
+    const fileTree = new RepositoryFileAnalyzer().analyzeRepository(tempDir.path).fileTree;
+    const issues = analyzeTaintFlows(tempDir.path, fileTree);
+
+    expect(issues.map((issue) => [issue.type, issue.file, issue.line])).toEqual([
+      ['sql-injection', 'src/services/users.js', 9],
+      ['command-injection', 'src/routes/users.js', 18],
+      ['path-traversal', 'src/routes/users.js', 19],
+    ]);
+    // The multi-line query is followed from the route through both service functions
+    expect(issues[0].trace!.map((step) => `${step.kind} ${step.file}:${step.line} ${step.code}`)).toEqual([
+      'source src/routes/users.js:6 req.params.id',
+      'assignment src/routes/users.js:6 id = req.params.id',
+      'call src/routes/users.js:7 users.findUser(id)',
+      'call src/services/users.js:8 buildQuery(id)',
+      'return src/services/users.js:2 return `SELECT * FROM users WHERE id = ${id}`;',
+      'assignment src/services/users.js:8 sql = buildQuery(id)',
+      'sink src/services/users.js:9 db.query(sql)',
+    ]);
+    expect(issues[0]).toMatchObject({ severity: 'critical', rule: 'taint-sql-injection' });
+  });
+
+  test('should report browser location reaching HTML and eval, re-parsing files without an AST', () => {
+    tempDir.write({
+      'web/Banner.tsx': [
+        'export function Banner() {',
+        '  const message = decodeURIComponent(location.hash.slice(1));',
+        "  const greeting = eval('1 + 1');",
+        '  eval(new URLSearchParams(window.location.search).get("script"));',
+        '  return <div title={greeting} dangerouslySetInnerHTML={{ __html: message }} />;',
+        '}',
+      ].join('\n'),
+    });
+
+    // Files restored from the parsed file cache carry no AST
+    const parsed = parseFrontendFile(path.join(tempDir.path, 'web/Banner.tsx'))!;
+    const fileTree = new RepositoryFileAnalyzer().analyzeRepository(tempDir.path).fileTree;
+    const issues = analyzeTaintFlows(tempDir.path, fileTree, { parsedFiles: [{ ...parsed, ast: undefined }] });
+
+    expect(issues.map((issue) => [issue.type, issue.line, issue.trace![0].code])).toEqual([
+      ['code-injection', 4, 'window.location.search'],
+      ['xss', 5, 'location.hash'],
+    ]);
+  });
+});
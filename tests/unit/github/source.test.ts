@@ -0,0 +1,142 @@
+/**
+ * Unit tests for repository sources
+ */
+
+import { createRepositorySource, detectSourceType, resolveRequestedSource } from '../../../src/github/source';
+import { useTempDir, writeFiles } from '../../helpers/temp-dir';
+import { execFileSync } from 'child_process';
+import * as http from 'http';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('Repository sources', () => {
+  const tempDir = useTempDir();
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = path.join(tempDir.path, 'shop');
+    fs.mkdirSync(repoDir);
+  });
+
+  const git = (...args: string[]): void => {
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      stdio: 'ignore',
+    });
+  };
+
+  test('should detect the source type and analyze local checkouts in place', async () => {
+    writeFiles(repoDir, { 'package.json': '{}', 'src/index.js': "console.log('hi');" });
+    git('init', '-q', '-b', 'main');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Initial commit');
+
+    expect(detectSourceType('acme/shop')).toBe('github');
+    expect(detectSourceType('https://github.com/acme/shop.git')).toBe('github');
+    expect(detectSourceType('git@gitlab.com:group/shop.git')).toBe('git');
+    expect(detectSourceType('https://bitbucket.org/team/shop.git')).toBe('git');
+    expect(detectSourceType('https://example.com/releases/shop-1.0.tar.gz')).toBe('archive');
+    expect(detectSourceType(repoDir)).toBe('local');
+    expect(detectSourceType(`file://${repoDir}`)).toBe('local');
+
+    const source = createRepositorySource(repoDir);
+    const analysis = await source.load();
+    expect(source.id).toBe(repoDir);
+    expect(analysis.localPath).toBe(repoDir);
+    expect([...analysis.fileTree.files.keys()]).toEqual(expect.arrayContaining(['package.json', 'src/index.js']));
+    expect(analysis.branch).toBe('main');
+    expect(analysis.latestCommit?.message).toBe('Initial commit');
+    expect(analysis.repository).toMatchObject({ name: 'shop', owner: 'local', url: `file://${repoDir}` });
+  });
+
+  test('should clone plain git remotes and extract archives without the GitHub API', async () => {
+    writeFiles(repoDir, { 'server/app.js': "app.get('/health', (req, res) => res.send('ok'));" });
+    git('init', '-q', '-b', 'main');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add health check');
+
+    const baseDir = path.join(tempDir.path, 'repos');
+    const remote = createRepositorySource(repoDir, { type: 'git', baseDir });
+    const cloned = await remote.load();
+    expect(cloned.localPath).not.toBe(repoDir);
+    expect(cloned.fileTree.files.has('server/app.js')).toBe(true);
+    expect(cloned.latestCommit?.message).toBe('Add health check');
+    expect(remote.getLocalPath()).toBe(cloned.localPath);
+
+    // Reloading an existing clone picks up new upstream commits
+    writeFiles(repoDir, { 'server/users.js': "app.get('/users', (req, res) => res.json([]));" });
+    git('add', '.');
+    git('commit', '-q', '-m', 'Add users route');
+    const updated = await createRepositorySource(repoDir, { type: 'git', baseDir }).load();
+    expect(updated.localPath).toBe(cloned.localPath);
+    expect(updated.fileTree.files.has('server/users.js')).toBe(true);
+    expect(updated.latestCommit?.message).toBe('Add users route');
+
+    const archivePath = path.join(tempDir.path, 'shop-1.0.tar.gz');
+    execFileSync('tar', ['-czf', archivePath, '-C', tempDir.path, 'shop/server']);
+    const archive = createRepositorySource(archivePath, { baseDir });
+    const extracted = await archive.load();
+    expect(archive.type).toBe('archive');
+    expect(archive.id).toMatch(/^shop-1\.0-[0-9a-f]{8}$/);
+    // The single top-level directory of the archive is the repository root
+    expect(path.basename(extracted.localPath)).toBe('shop');
+    expect(extracted.fileTree.files.has('server/app.js')).toBe(true);
+    expect(extracted.latestCommit).toBeUndefined();
+  });
+
+  test('should keep archives with the same name apart and cap archive downloads', async () => {
+    writeFiles(repoDir, { 'server/app.js': "app.get('/health', (req, res) => res.send('ok'));" });
+    const baseDir = path.join(tempDir.path, 'repos');
+    const archiveAt = (dir: string): string => {
+      fs.mkdirSync(path.join(tempDir.path, dir));
+      const archivePath = path.join(tempDir.path, dir, 'repo.tar');
+      execFileSync('tar', ['-cf', archivePath, '-C', tempDir.path, 'shop']);
+      return archivePath;
+    };
+
+    const first = createRepositorySource(archiveAt('a'), { baseDir });
+    const second = createRepositorySource(archiveAt('b'), { baseDir });
+    expect(first.id).not.toBe(second.id);
+
+    // Reloading unchanged content reuses the extraction another analysis may be reading
+    const loaded = await first.load();
+    expect((await createRepositorySource(path.join(tempDir.path, 'a', 'repo.tar'), { baseDir }).load()).localPath).toBe(
+      loaded.localPath
+    );
+    expect(createRepositorySource(path.join(tempDir.path, 'a', 'repo.tar'), { baseDir }).getLocalPath()).toBe(
+      loaded.localPath
+    );
+
+    const server = http.createServer((req, res) => res.writeHead(200).end(Buffer.alloc(4096)));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as { port: number };
+    try {
+      const download = createRepositorySource(`http://127.0.0.1:${port}/shop.tar`, { baseDir, maxArchiveSize: 1024 });
+      await expect(download.load()).rejects.toThrow('Archive exceeds the 1024 byte download limit');
+    } finally {
+      server.close();
+    }
+  });
+
+  test('should reject sources read from the server disk unless local sources are allowed', () => {
+    expect(resolveRequestedSource('acme/shop', undefined, false)).toBe('github');
+    expect(resolveRequestedSource('ssh://git.example.com/shop.git', 'git', false)).toBe('git');
+    expect(resolveRequestedSource('https://example.com/shop.zip', undefined, false)).toBe('archive');
+    // The explicit source type decides, even when the location looks remote
+    expect(() => resolveRequestedSource('ssh://x/../../../../etc', 'local', false)).toThrow(
+      'Local repository sources are disabled'
+    );
+    expect(() => resolveRequestedSource(repoDir, 'git', false)).toThrow('Local repository sources are disabled');
+    expect(() => resolveRequestedSource(`file://${repoDir}.zip`, 'archive', false)).toThrow(
+      'Local repository sources are disabled'
+    );
+    expect(() => resolveRequestedSource('http://169.254.169.254/latest.zip', undefined, false)).toThrow(
+      'Local repository sources are disabled'
+    );
+    expect(() => resolveRequestedSource('git@localhost:shop.git', undefined, false)).toThrow(
+      'Local repository sources are disabled'
+    );
+    expect(() => resolveRequestedSource('acme/shop', 'svn', false)).toThrow('Repository source must be one of');
+    expect(resolveRequestedSource(repoDir, undefined, true)).toBe('local');
+  });
+});
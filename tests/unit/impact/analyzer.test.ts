@@ -4,8 +4,10 @@
 
 import { analyzeChangeImpact, ImpactAnalysisContext } from '../../../src/impact/analyzer';
 import { parseChangeRequest } from '../../../src/impact/change-parser';
-import { LineageGraph } from '../../../src/types';
-import { Endpoint } from '../../../src/types';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { parseBackendFile } from '../../../src/analyzers/backend/parser';
+import { extractFileArtifacts } from '../../../src/services/lineage';
 
 describe('Impact Analyzer', () => {
   test('should parse change request from natural language', () => {
@@ -51,3 +53,109 @@ describe('Impact Analyzer', () => {
   });
 });
 
+
+describe('Dependency chains', () => {
+  const users = parseFrontendFile(
+    'src/Users.tsx',
+    [
+      "import { useEffect, useState } from 'react';",
+      'export function Users() {',
+      '  const [users, setUsers] = useState([]);',
+      '  useEffect(() => {',
+      "    fetch('/api/users').then((res) => res.json()).then(setUsers);",
+      '  }, []);',
+      '  return <ul>{users.map((u) => <li key={u.id}>{u.email}</li>)}</ul>;',
+      '}',
+    ].join('\n')
+  )!;
+  const routes = parseBackendFile(
+    'server/users.ts',
+    [
+      "import express from 'express';",
+      'const app = express();',
+      "app.get('/api/users', async (req, res) => {",
+      "  res.json(await db.query('SELECT id, email FROM users'));",
+      '});',
+    ].join('\n')
+  )!;
+  const frontend = extractFileArtifacts(users, 'frontend');
+  const backend = extractFileArtifacts(routes, 'backend');
+  const graph = buildLineageGraph({
+    components: frontend.components,
+    apiCalls: frontend.apiCalls,
+    endpoints: backend.endpoints,
+    queries: backend.queries,
+    tables: [{ name: 'users', columns: [], indexes: [], foreignKeys: [] }],
+  });
+
+  const component = 'component:src/Users.tsx:Users';
+  const apiCall = `api-call:${frontend.apiCalls[0].id}`;
+  const endpoint = `endpoint:${backend.endpoints[0].id}`;
+  const query = `query:${backend.queries[0].id}`;
+
+  const context = (changeRequest: ImpactAnalysisContext['changeRequest']): ImpactAnalysisContext => ({
+    changeRequest,
+    lineageGraph: graph,
+    endpoints: backend.endpoints,
+    queries: backend.queries,
+    components: frontend.components,
+  });
+
+  test('should follow a table change through endpoints to components', () => {
+    const impact = analyzeChangeImpact(
+      context({ id: 'c-1', type: 'modify-schema', description: 'Rename column', targetTables: ['users'] })
+    );
+
+    const byId = new Map(impact.affectedNodes.map((n) => [n.nodeId, n]));
+    expect(byId.get('table:users')).toMatchObject({ impactType: 'direct', depth: 0 });
+    expect(byId.get(query)).toMatchObject({ impactType: 'indirect', depth: 1 });
+    expect(byId.get(endpoint)?.depth).toBe(2);
+    // The call reads the users columns, so it is one hop from the table as well as through the endpoint
+    expect(byId.get(apiCall)?.depth).toBe(1);
+    // It is made from a useEffect callback inside the component
+    expect(byId.get(component)).toMatchObject({ impactType: 'indirect', depth: 2 });
+
+    const chain = impact.dependencyChain.chains.find((c) => c.to === component);
+    expect(chain).toMatchObject({
+      from: 'table:users',
+      type: 'forward',
+      nodes: ['table:users', apiCall, component],
+      edges: [`edge:${apiCall}-table:users:read`, `edge:${component}-${apiCall}`],
+    });
+    expect(impact.dependencyChain.maxDepth).toBe(2);
+  });
+
+  test('should stop at the configured depth', () => {
+    const impact = analyzeChangeImpact({
+      ...context({ id: 'c-2', type: 'modify-schema', description: 'Drop table', targetTables: ['users'] }),
+      maxDepth: 1,
+    });
+
+    expect(impact.affectedNodes.map((n) => n.nodeId)).toContain(apiCall);
+    expect(impact.affectedNodes.map((n) => n.nodeId)).not.toContain(component);
+    expect(impact.dependencyChain.maxDepth).toBe(1);
+  });
+
+  test('should follow file imports from the dependency graph', () => {
+    const impact = analyzeChangeImpact({
+      ...context({ id: 'c-3', type: 'other', description: 'Refactor', targetFiles: ['server/db.ts'] }),
+      lineageGraph: {
+        ...graph,
+        nodes: [
+          ...graph.nodes,
+          { id: 'query:q-2', type: 'database-query', layer: 'backend', label: 'SELECT users', file: 'server/db.ts', data: {} },
+        ],
+      },
+      dependencyGraph: {
+        nodes: [
+          { id: 'file:server/users.ts', type: 'file', name: 'users.ts', file: 'server/users.ts', metadata: {} },
+          { id: 'file:server/db.ts', type: 'file', name: 'db.ts', file: 'server/db.ts', metadata: {} },
+        ],
+        edges: [{ from: 'file:server/users.ts', to: 'file:server/db.ts', type: 'import', metadata: {} }],
+      },
+    });
+
+    expect(impact.affectedNodes.find((n) => n.nodeId === endpoint)).toMatchObject({ impactType: 'indirect', depth: 3 });
+    expect(impact.affectedFiles).toContain('server/users.ts');
+  });
+});
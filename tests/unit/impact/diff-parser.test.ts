@@ -0,0 +1,215 @@
+/**
+ * Unit tests for diff-driven change requests
+ */
+
+import { parseUnifiedDiff, buildDiffChangeRequest, parseDiffChangeRequest } from '../../../src/impact/diff-parser';
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const routesBefore = [
+  "const express = require('express');",
+  'const router = express.Router();',
+  '',
+  "router.get('/api/users', (req, res) => {",
+  '  res.json([]);',
+  '});',
+  '',
+  "router.post('/api/users', createUser);",
+  '',
+  'function createUser(req, res) {',
+  '  res.status(201).json({});',
+  '}',
+];
+
+const routesAfter = [...routesBefore];
+routesAfter[10] = '  res.status(201).json({ id: 1 });';
+
+const diff = `diff --git a/server/routes.js b/server/routes.js
+index 1111111..2222222 100644
+--- a/server/routes.js
++++ b/server/routes.js
+@@ -9,4 +9,4 @@ router.post('/api/users', createUser);
+
+ function createUser(req, res) {
+-  res.status(201).json({});
++  res.status(201).json({ id: 1 });
+ }
+diff --git a/src/UserList.tsx b/src/UserList.tsx
+index 3333333..4444444 100644
+--- a/src/UserList.tsx
++++ b/src/UserList.tsx
+@@ -1,3 +1,3 @@
+ export function UserList() {
+-  return <ul />;
++  return <ol />;
+ }
+diff --git a/migrations/002_users.sql b/migrations/002_users.sql
+new file mode 100644
+index 0000000..5555555
+--- /dev/null
++++ b/migrations/002_users.sql
+@@ -0,0 +1,2 @@
++ALTER TABLE users ADD COLUMN avatar TEXT;
++CREATE INDEX idx_users_email ON accounts (email);
+diff --git a/prisma/schema.prisma b/prisma/schema.prisma
+index 6666666..7777777 100644
+--- a/prisma/schema.prisma
++++ b/prisma/schema.prisma
+@@ -5,3 +5,4 @@ model Post {
+   id    Int    @id
+   title String
++  slug  String
+ }
+diff --git a/server/legacy.js b/server/legacy.js
+deleted file mode 100644
+index 8888888..0000000
+--- a/server/legacy.js
++++ /dev/null
+@@ -1,4 +0,0 @@
+-const router = require('express').Router();
+-router.delete('/api/legacy', (req, res) => {
+-  res.sendStatus(204);
+-});
+`;
+
+const prisma = [
+  'model User {',
+  '  id Int @id',
+  '}',
+  '',
+  'model Post {',
+  '  id    Int    @id',
+  '  title String',
+  '  slug  String',
+  '}',
+];
+
+describe('Diff parser', () => {
+  test('should parse files, statuses and changed lines', () => {
+    const files = parseUnifiedDiff(diff);
+
+    expect(files.map((f) => [f.newPath || f.oldPath, f.status])).toEqual([
+      ['server/routes.js', 'modified'],
+      ['src/UserList.tsx', 'modified'],
+      ['migrations/002_users.sql', 'added'],
+      ['prisma/schema.prisma', 'modified'],
+      ['server/legacy.js', 'deleted'],
+    ]);
+    expect(files[0].addedLines).toEqual([11]);
+    expect(files[0].removedLines).toEqual([11]);
+    expect(files[4].removedLines).toEqual([1, 2, 3, 4]);
+  });
+
+  test('should map hunks to endpoints, components and tables', () => {
+    const contents = new Map([
+      ['server/routes.js', routesAfter.join('\n')],
+      ['src/UserList.tsx', 'export function UserList() {\n  return <ol />;\n}\n'],
+      ['migrations/002_users.sql', 'ALTER TABLE users ADD COLUMN avatar TEXT;\nCREATE INDEX idx_users_email ON accounts (email);\n'],
+      ['prisma/schema.prisma', prisma.join('\n')],
+    ]);
+
+    const change = buildDiffChangeRequest(parseUnifiedDiff(diff), contents);
+
+    expect(change.targetFiles).toEqual([
+      'server/routes.js',
+      'src/UserList.tsx',
+      'migrations/002_users.sql',
+      'prisma/schema.prisma',
+      'server/legacy.js',
+    ]);
+    expect(change.targetEndpoints).toEqual(['POST /api/users', 'DELETE /api/legacy']);
+    expect(change.targetComponents).toEqual(['UserList']);
+    expect(change.targetTables).toEqual(['users', 'accounts', 'Post']);
+    expect(change.type).toBe('modify-schema');
+    expect(change.metadata?.changedFunctions).toEqual(
+      expect.arrayContaining([
+        { file: 'server/routes.js', name: 'createUser', line: 10 },
+        { file: 'src/UserList.tsx', name: 'UserList', line: 1 },
+      ])
+    );
+  });
+
+  test('should map an unmerged diff against the patched files and reject paths outside the repository', async () => {
+    const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    const git = (...args: string[]): string =>
+      execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: repoPath,
+        encoding: 'utf-8',
+      });
+    const routesFile = path.join(repoPath, 'server/routes.js');
+
+    try {
+      fs.mkdirSync(path.dirname(routesFile));
+      fs.writeFileSync(routesFile, routesBefore.join('\n'));
+      git('init', '-q');
+      git('add', '.');
+      git('commit', '-q', '-m', 'Add routes');
+
+      // A new route inserted above the existing ones shifts every later line
+      const inserted = [...routesBefore];
+      inserted.splice(3, 0, "router.delete('/api/users/:id', (req, res) => {", '  res.sendStatus(204);', '});', '');
+      fs.writeFileSync(routesFile, inserted.join('\n'));
+      const change = git('diff');
+      git('checkout', '--', '.');
+
+      const request = await parseDiffChangeRequest({ repoPath, diff: change });
+      expect(request.targetEndpoints).toEqual(['DELETE /api/users/:id']);
+      expect(fs.readFileSync(routesFile, 'utf-8')).toBe(routesBefore.join('\n'));
+
+      // A diff already applied to the checkout is read from it
+      fs.writeFileSync(routesFile, inserted.join('\n'));
+      expect((await parseDiffChangeRequest({ repoPath, diff: change })).targetEndpoints).toEqual([
+        'DELETE /api/users/:id',
+      ]);
+
+      const escaping = change.replace(/server\/routes\.js/g, '../../etc/passwd');
+      await expect(parseDiffChangeRequest({ repoPath, diff: escaping })).rejects.toThrow(
+        'Diff path is outside the repository: ../../etc/passwd'
+      );
+    } finally {
+      fs.rmSync(repoPath, { recursive: true, force: true });
+    }
+  });
+
+  test('should label changes to a mounted router with the mount prefix', async () => {
+    const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    const git = (...args: string[]): string =>
+      execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+        cwd: repoPath,
+        encoding: 'utf-8',
+      });
+    const router = (handler: string) => [
+      "const router = require('express').Router();",
+      `router.get('/:id', (req, res) => res.json(${handler}));`,
+      'module.exports = router;',
+    ];
+
+    try {
+      fs.mkdirSync(path.join(repoPath, 'routes'));
+      fs.writeFileSync(
+        path.join(repoPath, 'app.js'),
+        [
+          "const app = require('express')();",
+          "app.use('/api/v1/users', require('./routes/users'));",
+          "app.use('/api/v1/orders', require('./routes/orders'));",
+        ].join('\n')
+      );
+      fs.writeFileSync(path.join(repoPath, 'routes/users.js'), router('{}').join('\n'));
+      fs.writeFileSync(path.join(repoPath, 'routes/orders.js'), router('{}').join('\n'));
+      git('init', '-q');
+      git('add', '.');
+      git('commit', '-q', '-m', 'Add routes');
+
+      fs.writeFileSync(path.join(repoPath, 'routes/users.js'), router('{ id: req.params.id }').join('\n'));
+      const change = git('diff');
+      git('checkout', '--', '.');
+
+      const request = await parseDiffChangeRequest({ repoPath, diff: change });
+      expect(request.targetEndpoints).toEqual(['GET /api/v1/users/:id']);
+    } finally {
+      fs.rmSync(repoPath, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for Angular component, service and HttpClient detection
+ */
+
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { detectReactComponents } from '../../../src/analyzers/frontend/component-detector';
+import { detectAPICalls } from '../../../src/analyzers/frontend/api-detector';
+import { detectAngularServices } from '../../../src/analyzers/frontend/angular-detector';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import { Endpoint } from '../../../src/types';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('Angular detection', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    const files: Record<string, string> = {
+      'environments/environment.ts': "export const environment = { production: false, apiUrl: 'http://localhost:3000/api' };",
+      'app/users/user-api.service.ts': [
+        "import { Injectable, inject } from '@angular/core';",
+        "import { HttpClient } from '@angular/common/http';",
+        "import { environment } from '../../environments/environment';",
+        '',
+        "@Injectable({ providedIn: 'root' })",
+        'export class UserApiService {',
+        '  private http = inject(HttpClient);',
+        '  private baseUrl = `${environment.apiUrl}/users`;',
+        '',
+        '  getUsers() {',
+        '    return this.http.get<User[]>(this.baseUrl);',
+        '  }',
+        '',
+        '  getUser(id: number) {',
+        '    return this.http.get<User>(`${this.baseUrl}/${id}`);',
+        '  }',
+        '',
+        '  deleteUser(id: number) {',
+        "    return this.http.request('DELETE', `${this.baseUrl}/${id}`, { headers: { 'X-Audit': 'admin' } });",
+        '  }',
+        '}',
+      ].join('\n'),
+      'app/users/user-store.service.ts': [
+        "import { Injectable } from '@angular/core';",
+        "import { UserApiService } from './user-api.service';",
+        '',
+        '@Injectable()',
+        'export class UserStore {',
+        '  constructor(private api: UserApiService) {}',
+        '',
+        '  load() {',
+        '    return this.api.getUsers();',
+        '  }',
+        '}',
+      ].join('\n'),
+      'app/users/user-list.component.html': '<h1>Users</h1>\n<app-user-card *ngFor="let user of users" [user]="user"></app-user-card>',
+      'app/users/user-list.component.ts': [
+        "import { Component, Input, OnInit, input, output } from '@angular/core';",
+        "import { Router } from '@angular/router';",
+        "import { UserStore } from './user-store.service';",
+        '',
+        '@Component({',
+        "  selector: 'app-user-list',",
+        "  templateUrl: './user-list.component.html',",
+        '})',
+        'export class UserListComponent implements OnInit {',
+        '  @Input() title = "";',
+        "  @Input('pageSize') size = 20;",
+        '  filter = input<string>();',
+        '  selected = output<number>();',
+        '  users = [];',
+        '',
+        '  constructor(private store: UserStore, private router: Router) {}',
+        '',
+        '  ngOnInit() {',
+        '    this.store.load();',
+        '  }',
+        '}',
+      ].join('\n'),
+    };
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(tempDir, name)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, name), content);
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const parse = (name: string) => parseFrontendFile(path.join(tempDir, name))!;
+
+  test('should detect components with selectors, inputs, templates and injected services', () => {
+    const [component] = detectReactComponents(parse('app/users/user-list.component.ts'));
+    expect(component).toMatchObject({
+      name: 'UserListComponent',
+      type: 'class',
+      selector: 'app-user-list',
+      templateUrl: './user-list.component.html',
+      props: ['title', 'pageSize', 'filter'],
+      state: ['users'],
+      hooks: ['ngOnInit'],
+      dependencies: ['UserStore', 'Router'],
+      children: ['app-user-card'],
+    });
+
+    expect(detectAngularServices(parse('app/users/user-store.service.ts'))).toEqual([
+      {
+        name: 'UserStore',
+        file: path.join(tempDir, 'app/users/user-store.service.ts'),
+        methods: ['load'],
+        dependencies: ['UserApiService'],
+      },
+    ]);
+  });
+
+  test('should resolve HttpClient URLs from environment.apiUrl and trace components to endpoints', () => {
+    const serviceFile = parse('app/users/user-api.service.ts');
+    const apiCalls = detectAPICalls(serviceFile);
+    expect(apiCalls.map((c) => [c.function, c.method, c.url || c.urlPattern])).toEqual([
+      ['UserApiService.getUsers', 'GET', 'http://localhost:3000/api/users'],
+      ['UserApiService.getUser', 'GET', 'http://localhost:3000/api/users/${...}'],
+      ['UserApiService.deleteUser', 'DELETE', 'http://localhost:3000/api/users/${...}'],
+    ]);
+    expect(apiCalls[2].headers).toEqual({ 'X-Audit': 'admin' });
+
+    const endpoint: Endpoint = {
+      id: 'express-1',
+      file: 'server/routes/users.ts',
+      method: 'GET',
+      path: '/api/users/:id',
+      pathPattern: '/api/users/:id',
+      handler: 'getUser',
+      line: 1,
+      parameters: [{ name: 'id', type: 'path', required: true }],
+      middleware: [],
+    };
+    const graph = buildLineageGraph({
+      components: detectReactComponents(parse('app/users/user-list.component.ts')),
+      apiCalls,
+      services: [
+        ...detectAngularServices(parse('app/users/user-store.service.ts')),
+        ...detectAngularServices(serviceFile),
+      ],
+      endpoints: [endpoint],
+      queries: [],
+      tables: [],
+    });
+
+    const component = `component:${path.join(tempDir, 'app/users/user-list.component.ts')}:UserListComponent`;
+    const store = `service:${path.join(tempDir, 'app/users/user-store.service.ts')}:UserStore`;
+    const api = `service:${serviceFile.path}:UserApiService`;
+    const reachable = (from: string): string[] =>
+      graph.edges.filter((e) => e.from === from).flatMap((e) => [e.to, ...reachable(e.to)]);
+
+    expect(graph.edges.filter((e) => e.type === 'dependency').map((e) => [e.from, e.to])).toEqual([
+      [component, store],
+      [store, api],
+      [api, `api-call:${apiCalls[0].id}`],
+      [api, `api-call:${apiCalls[1].id}`],
+      [api, `api-call:${apiCalls[2].id}`],
+    ]);
+    expect(reachable(component)).toContain('endpoint:express-1');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for request/response field detection and column-level lineage
+ */
+
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { detectAPICalls } from '../../../src/analyzers/frontend/api-detector';
+import { parseBackendFile } from '../../../src/analyzers/backend/parser';
+import { extractEndpoints } from '../../../src/analyzers/backend/endpoint-extractor';
+import { detectDatabaseQueries, resolveQueryTables } from '../../../src/analyzers/backend/query-detector';
+import { discoverDatabaseSchema } from '../../../src/analyzers/database/schema-discovery';
+import { connectFrontendToBackend } from '../../../src/lineage/connectors/frontend-backend';
+import { connectBackendToDatabase } from '../../../src/lineage/connectors/backend-database';
+import { traceColumnLineage, findColumnFlows } from '../../../src/lineage/column-lineage';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import { buildFileTree } from '../../../src/utils/file-utils';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('Column-level lineage', () => {
+  const tempDir = useTempDir();
+
+  test('should detect the fields API calls send and the response fields components read', () => {
+    tempDir.write({
+      'web/src/Signup.tsx': [
+        "import { useState, useEffect } from 'react';",
+        "import axios from 'axios';",
+        "import { useQuery } from '@tanstack/react-query';",
+        '',
+        'export function Signup() {',
+        "  const [form, setForm] = useState({ email: '', firstName: '' });",
+        '  const [orders, setOrders] = useState([]);',
+        "  const { data, isLoading } = useQuery({ queryKey: ['me'], queryFn: () => fetch('/api/me') });",
+        '',
+        '  useEffect(() => {',
+        "    fetch('/api/orders')",
+        '      .then((res) => res.json())',
+        '      .then(setOrders);',
+        '  }, []);',
+        '',
+        '  const submit = async () => {',
+        "    await fetch('/api/users', { method: 'POST', body: JSON.stringify({ ...form, plan: 'free' }) });",
+        "    const { data: saved } = await axios.post('/api/profiles', { bio: form.bio });",
+        '    return saved.id;',
+        '  };',
+        '',
+        '  if (isLoading) return null;',
+        '  return (',
+        '    <div onClick={submit}>',
+        '      {data.displayName}',
+        '      {orders.filter((o) => o.paid).map((order) => <span key={order.id}>{order.total}</span>)}',
+        '    </div>',
+        '  );',
+        '}',
+      ].join('\n'),
+    });
+
+    const calls = detectAPICalls(parseFrontendFile(path.join(tempDir.path, 'web/src/Signup.tsx'))!);
+    expect(calls.map((c) => [c.method, c.url, c.bodyFields, c.responseFields])).toEqual([
+      ['GET', '/api/me', undefined, ['displayName']],
+      ['GET', '/api/orders', undefined, ['paid', 'id', 'total']],
+      ['POST', '/api/users', ['email', 'firstName', 'plan'], undefined],
+      ['POST', '/api/profiles', ['bio'], ['id']],
+    ]);
+  });
+
+  test('should trace form fields to the columns they are saved in and columns to the screens showing them', () => {
+    tempDir.write({
+      'db/migrations/001_init.sql': [
+        'CREATE TABLE users (id SERIAL PRIMARY KEY, email_address VARCHAR(255), first_name VARCHAR(100));',
+        'CREATE TABLE orders (id SERIAL PRIMARY KEY, total DECIMAL, user_id INTEGER);',
+      ].join('\n'),
+      'api/models/user.js': [
+        "const { DataTypes } = require('sequelize');",
+        "module.exports = (sequelize) => sequelize.define('User', {",
+        '  email_address: DataTypes.STRING,',
+        '  first_name: DataTypes.STRING,',
+        "}, { tableName: 'users' });",
+      ].join('\n'),
+      'api/routes.js': [
+        "const express = require('express');",
+        "const { Sequelize } = require('sequelize');",
+        'const router = express.Router();',
+        '',
+        "router.post('/api/users', async (req, res) => {",
+        '  const { email, firstName } = req.body;',
+        '  const user = await User.create({ email_address: email, firstName });',
+        '  res.json(user);',
+        '});',
+        '',
+        'async function listOrders(req, res) {',
+        "  res.json(await db.query('SELECT id, total FROM orders WHERE user_id = $1', [req.user.id]));",
+        '}',
+        "router.get('/api/orders', listOrders);",
+        '',
+        'module.exports = router;',
+      ].join('\n'),
+      'web/src/Signup.tsx': [
+        'export async function submitSignup(email, firstName, nickname) {',
+        "  await fetch('/api/users', { method: 'POST', body: JSON.stringify({ email, firstName, nickname }) });",
+        '}',
+      ].join('\n'),
+      'web/src/Orders.tsx': [
+        'export async function OrderTotals() {',
+        "  const orders = await fetch('/api/orders').then((res) => res.json());",
+        '  return orders.map((order) => order.total);',
+        '}',
+      ].join('\n'),
+    });
+
+    const backend = parseBackendFile(path.join(tempDir.path, 'api/routes.js'))!;
+    const model = parseBackendFile(path.join(tempDir.path, 'api/models/user.js'))!;
+    const endpoints = extractEndpoints(backend);
+    const queries = detectDatabaseQueries(backend);
+    const { tables } = discoverDatabaseSchema(buildFileTree(tempDir.path), [backend, model]);
+    resolveQueryTables(queries, tables);
+    const apiCalls = ['web/src/Signup.tsx', 'web/src/Orders.tsx'].flatMap((file) =>
+      detectAPICalls(parseFrontendFile(path.join(tempDir.path, file))!)
+    );
+
+    expect(endpoints.map((e) => [e.method, e.path, e.parameters.map((p) => `${p.type}:${p.name}`)])).toEqual([
+      ['POST', '/api/users', ['body:email', 'body:firstName']],
+      ['GET', '/api/orders', []],
+    ]);
+
+    const flows = traceColumnLineage(
+      connectFrontendToBackend(apiCalls, endpoints),
+      connectBackendToDatabase(endpoints, queries),
+      tables
+    );
+    const fieldsOf = (column: string, direction: 'write' | 'read') =>
+      findColumnFlows(flows, column, direction).map((f) => [f.function, f.field, f.confidence > 0.5]);
+
+    // email is traced through the handler; firstName matches first_name by name; nickname is never read
+    expect(fieldsOf('users.email_address', 'write')).toEqual([['submitSignup', 'email', true]]);
+    expect(fieldsOf('users.first_name', 'write')).toEqual([['submitSignup', 'firstName', true]]);
+    expect(findColumnFlows(flows, 'nickname')).toEqual([]);
+    expect(fieldsOf('orders.total', 'read')).toEqual([['OrderTotals', 'total', true]]);
+
+    const graph = buildLineageGraph({ components: [], apiCalls, endpoints, queries, tables });
+    const dataFlows = graph.edges.filter((edge) => edge.type === 'data-flow');
+    expect(dataFlows.map((edge) => [edge.label, edge.data.fields])).toEqual([
+      [
+        'writes users',
+        [
+          { field: 'email', column: 'email_address' },
+          { field: 'firstName', column: 'first_name' },
+        ],
+      ],
+      ['reads orders', [{ field: 'total', column: 'total' }]],
+    ]);
+  });
+});
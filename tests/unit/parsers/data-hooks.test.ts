@@ -0,0 +1,95 @@
+/**
+ * Unit tests for React Query, SWR and RTK Query hook detection
+ */
+
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { detectAPICalls } from '../../../src/analyzers/frontend/api-detector';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('Data-fetching hook detection', () => {
+  const tempDir = useTempDir();
+
+  const detect = (name: string) =>
+    detectAPICalls(parseFrontendFile(path.join(tempDir.path, name))!).map((c) => [
+      c.id.replace(/-\d+$/, ''),
+      c.function,
+      c.method,
+      c.url || c.urlPattern,
+    ]);
+
+  test('should resolve React Query fetchers and SWR keys once, at the hook', () => {
+    tempDir.write({
+      'src/api/users.ts': [
+        'export const fetchUsers = () => fetch(`/api/users`).then((r) => r.json());',
+        "export const fetcher = (url) => fetch(url).then((r) => r.json());",
+      ].join('\n'),
+      'src/components/Users.tsx': [
+        "import { useQuery, useMutation } from '@tanstack/react-query';",
+        "import useSWR from 'swr';",
+        "import { fetchUsers, fetcher } from '../api/users';",
+        '',
+        'export function Users({ id }) {',
+        "  const users = useQuery({ queryKey: ['users'], queryFn: fetchUsers });",
+        '  const save = useMutation({',
+        "    mutationFn: (user) => fetch('/api/users', { method: 'POST', body: JSON.stringify(user) }),",
+        '  });',
+        '  const profile = useSWR(id ? `/api/users/${id}` : null, fetcher);',
+        "  const settings = useSWR('/api/settings');",
+        '  return null;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(detect('src/components/Users.tsx')).toEqual([
+      ['react-query', 'Users', 'GET', '/api/users'],
+      ['react-query', 'Users', 'POST', '/api/users'],
+      ['swr', 'Users', 'GET', '/api/users/${...}'],
+      ['swr', 'Users', 'GET', '/api/settings'],
+    ]);
+  });
+
+  test('should resolve generated RTK Query hooks to their endpoint definitions', () => {
+    tempDir.write({
+      'src/store/api.ts': [
+        "import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';",
+        '',
+        'export const api = createApi({',
+        "  baseQuery: fetchBaseQuery({ baseUrl: '/api' }),",
+        '  endpoints: (builder) => ({',
+        "    getUsers: builder.query({ query: () => '/users' }),",
+        '  }),',
+        '});',
+      ].join('\n'),
+      'src/store/users.ts': [
+        "import { api } from './api';",
+        '',
+        'export const usersApi = api.injectEndpoints({',
+        '  endpoints: (builder) => ({',
+        '    getUser: builder.query({ query: (id) => `users/${id}` }),',
+        "    addUser: builder.mutation({ query: (body) => ({ url: 'users', method: 'post', body }) }),",
+        '  }),',
+        '});',
+        '',
+        'export const { useGetUserQuery, useAddUserMutation } = usersApi;',
+      ].join('\n'),
+      'src/pages/UserPage.tsx': [
+        "import { api } from '../store/api';",
+        "import { useGetUserQuery, useAddUserMutation } from '../store/users';",
+        '',
+        'export function UserPage({ userId }) {',
+        '  const users = api.endpoints.getUsers.useQuery();',
+        '  const user = useGetUserQuery(userId);',
+        '  const [addUser] = useAddUserMutation();',
+        '  return null;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(detect('src/pages/UserPage.tsx')).toEqual([
+      ['rtk-query', 'UserPage', 'GET', '/api/users'],
+      ['rtk-query', 'UserPage', 'GET', '/api/users/${...}'],
+      ['rtk-query', 'UserPage', 'POST', '/api/users'],
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for constant propagation and environment variable resolution in API call URLs
+ */
+
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { detectAPICalls } from '../../../src/analyzers/frontend/api-detector';
+import { loadEnvFiles, parseEnvFile, resolveAPICallURLs } from '../../../src/lineage/url-resolver';
+import { buildFileTree } from '../../../src/utils/file-utils';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('API call URL resolution', () => {
+  const tempDir = useTempDir();
+
+  const describeCalls = (calls: ReturnType<typeof detectAPICalls>) =>
+    calls.map((c) => [c.method, c.url, c.urlPattern, c.confidence]);
+
+  test('should follow constants and keep environment variables as references', () => {
+    tempDir.write({
+      'web/src/config.ts': [
+        "export const API_BASE = import.meta.env.VITE_API_URL ?? 'http://localhost:3000';",
+        "export const ENDPOINTS = { users: '/users', orders: '/orders' };",
+      ].join('\n'),
+      'web/src/Users.tsx': [
+        "import axios from 'axios';",
+        "import { API_BASE, ENDPOINTS } from './config';",
+        '',
+        "const USERS_URL = API_BASE + ENDPOINTS.users;",
+        '',
+        'export function Users({ id }) {',
+        '  fetch(USERS_URL);',
+        '  fetch(`${API_BASE}${ENDPOINTS.orders}/${id}`);',
+        "  axios.delete(process.env.REACT_APP_ADMIN_URL + '/users/' + id);",
+        "  fetch('/api/health');",
+        '  return null;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(describeCalls(detectAPICalls(parseFrontendFile(path.join(tempDir.path, 'web/src/Users.tsx'))!))).toEqual([
+      ['GET', null, '${VITE_API_URL:-http://localhost:3000}/users', 0.5],
+      ['GET', null, '${VITE_API_URL:-http://localhost:3000}/orders/${...}', 0.5],
+      ['DELETE', null, '${REACT_APP_ADMIN_URL}/users/${...}', 0.5],
+      ['GET', '/api/health', undefined, 0.9],
+    ]);
+  });
+
+  test('should fill in environment variables from the nearest .env files', () => {
+    tempDir.write({
+      'web/.env.example': 'VITE_API_URL=http://localhost:3000\n',
+      'web/.env.production': [
+        '# Deployed API',
+        'API_HOST=api.example.com',
+        'VITE_API_URL="https://${API_HOST}/v1"',
+        'VITE_ADMIN_URL=https://admin.example.com # internal',
+      ].join('\n'),
+      'admin/.env.production': 'VITE_API_URL=https://admin-api.example.com\n',
+    });
+    expect(parseEnvFile(fs.readFileSync(path.join(tempDir.path, 'web/.env.production'), 'utf-8'))).toEqual({
+      API_HOST: 'api.example.com',
+      VITE_API_URL: 'https://api.example.com/v1',
+      VITE_ADMIN_URL: 'https://admin.example.com',
+    });
+
+    const call = (file: string, urlPattern: string) => ({
+      id: `fetch-${urlPattern}`,
+      file: path.join(tempDir.path, file),
+      method: 'GET' as const,
+      url: null,
+      urlPattern,
+      line: 1,
+      column: 0,
+      confidence: 0.5,
+    });
+    const calls = resolveAPICallURLs(
+      [
+        call('web/src/Users.tsx', '${VITE_API_URL}/users'),
+        call('web/src/Users.tsx', '${VITE_ADMIN_URL}/users/${...}'),
+        call('web/src/Users.tsx', '${VITE_SEARCH_URL:-/search}/query'),
+        call('admin/src/App.tsx', '${VITE_API_URL}/users'),
+        call('mobile/src/App.tsx', '${VITE_API_URL}/users'),
+      ],
+      loadEnvFiles(buildFileTree(tempDir.path))
+    );
+
+    expect(calls.map((c) => [c.url, c.urlPattern, c.confidence])).toEqual([
+      // .env.example disagrees with .env.production, so the production value is less certain
+      ['https://api.example.com/v1/users', undefined, 0.7],
+      [null, 'https://admin.example.com/users/${...}', 0.5],
+      ['/search/query', undefined, 0.7],
+      ['https://admin-api.example.com/users', undefined, 0.8],
+      [null, '${VITE_API_URL}/users', 0.5],
+    ]);
+  });
+});
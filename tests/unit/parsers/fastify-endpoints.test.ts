@@ -0,0 +1,103 @@
+/**
+ * Unit tests for Fastify endpoint extraction
+ */
+
+import { parseBackendFile } from '../../../src/analyzers/backend/parser';
+import { extractEndpoints } from '../../../src/analyzers/backend/endpoint-extractor';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const server = `
+import Fastify from 'fastify';
+import userRoutes from './routes/users';
+
+const app = Fastify({ logger: true });
+app.addHook('onRequest', app.authenticate);
+
+app.register(userRoutes, { prefix: '/api/users' });
+
+app.register(async (v2) => {
+  v2.route({
+    method: ['GET', 'POST'],
+    url: '/status',
+    handler: statusHandler,
+  });
+}, { prefix: '/v2' });
+
+app.get('/health', async () => ({ ok: true }));
+`;
+
+const userRoutes = `
+import { FastifyInstance } from 'fastify';
+import { Type } from '@sinclair/typebox';
+
+const UserSchema = { $ref: 'User#' };
+
+const getUserSchema = {
+  params: { type: 'object', properties: { id: { type: 'integer' } }, required: ['id'] },
+  querystring: { type: 'object', properties: { verbose: { type: 'boolean' } } },
+  response: { 200: UserSchema },
+};
+
+export default async function routes(fastify: FastifyInstance) {
+  fastify.get('/:id', { schema: getUserSchema, preHandler: [fastify.verifyOwner] }, getUser);
+
+  fastify.post('/', {
+    schema: {
+      body: Type.Object({ email: Type.String(), name: Type.Optional(Type.String()) }),
+      response: { 201: Type.Array(Type.Ref(UserSchema)) },
+    },
+    handler: usersController.create,
+  });
+}
+`;
+
+describe('Fastify endpoint extraction', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    fs.mkdirSync(path.join(tempDir, 'routes'));
+    fs.writeFileSync(path.join(tempDir, 'server.ts'), server);
+    fs.writeFileSync(path.join(tempDir, 'routes', 'users.ts'), userRoutes);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should resolve plugin prefixes, route() definitions and hooks', () => {
+    const endpoints = extractEndpoints(parseBackendFile(path.join(tempDir, 'server.ts'))!);
+
+    expect(endpoints.map((e) => [e.id, e.method, e.path, e.handler])).toEqual([
+      ['fastify-1', 'GET', '/api/users/:id', 'getUser'],
+      ['fastify-2', 'POST', '/api/users', 'usersController.create'],
+      ['fastify-3', 'GET', '/v2/status', 'statusHandler'],
+      ['fastify-4', 'POST', '/v2/status', 'statusHandler'],
+      ['fastify-5', 'GET', '/health', 'anonymous'],
+    ]);
+    expect(endpoints[0].file).toBe(path.join(tempDir, 'routes', 'users.ts'));
+    expect(endpoints[0].middleware).toEqual(['app.authenticate', 'fastify.verifyOwner']);
+    expect(endpoints[4].middleware).toEqual(['app.authenticate']);
+  });
+
+  test('should map JSON schema and TypeBox definitions to parameters and response types', () => {
+    const endpoints = extractEndpoints(parseBackendFile(path.join(tempDir, 'routes', 'users.ts'))!);
+
+    expect(endpoints.map((e) => [e.method, e.path, e.responseType])).toEqual([
+      ['GET', '/:id', 'User'],
+      ['POST', '/', 'User[]'],
+    ]);
+    expect(endpoints[0].parameters).toEqual([
+      { name: 'id', type: 'path', required: true, typeHint: 'integer' },
+      { name: 'verbose', type: 'query', required: false, typeHint: 'boolean' },
+    ]);
+    expect(endpoints[1].parameters).toEqual([
+      { name: 'email', type: 'body', required: true, typeHint: 'string' },
+      { name: 'name', type: 'body', required: false, typeHint: 'string' },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Unit tests for Next.js and Remix file-system routing
+ */
+
+import { detectFileSystemRoutes } from '../../../src/analyzers/frontend/routing-detector';
+import { extractFileRouteEndpoints } from '../../../src/analyzers/backend/file-routes';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('File-system routing', () => {
+  const tempDir = useTempDir();
+
+  test('should map Next.js pages and app routes to pages, navigation and endpoints', () => {
+    const files = tempDir.write({
+      'web/package.json': JSON.stringify({ dependencies: { next: '14.0.0', react: '18.0.0' } }),
+      'web/pages/_app.tsx': 'export default function App() { return null; }',
+      'web/pages/index.tsx': [
+        "import Link from 'next/link';",
+        'export default function Home({ user }) {',
+        '  return <Link href={`/users/${user.id}?tab=posts`}>Profile</Link>;',
+        '}',
+      ].join('\n'),
+      'web/pages/users/[id].tsx': [
+        "import { useRouter } from 'next/router';",
+        'export default function UserPage() {',
+        '  const router = useRouter();',
+        "  return <button onClick={() => router.push('/')}>Home</button>;",
+        '}',
+      ].join('\n'),
+      'web/pages/api/users/[id].ts': [
+        'export default async function handler(req, res) {',
+        "  if (req.method === 'DELETE') { return res.status(204).end(); }",
+        "  if (req.method === 'GET') { return res.json({ id: req.query.id, fields: req.query.fields }); }",
+        '}',
+      ].join('\n'),
+      'web/app/(marketing)/blog/[...slug]/page.tsx': 'export default function BlogPost() { return null; }',
+      'web/app/api/posts/route.ts': [
+        "export async function GET(request) { const page = request.nextUrl.searchParams.get('page'); }",
+        'export const POST = async (request) => Response.json({});',
+      ].join('\n'),
+      'web/app/_components/nav/page.tsx': 'export default function Nav() { return null; }',
+    });
+
+    const routing = detectFileSystemRoutes(tempDir.path, files)!;
+    expect(routing.framework).toBe('nextjs');
+    expect(routing.routes.map((r) => [r.path, r.type, r.component])).toEqual([
+      ['/', 'page', 'Home'],
+      ['/users/:id', 'page', 'UserPage'],
+      ['/api/users/:id', 'api', '[id]'],
+      ['/blog/*slug', 'page', 'BlogPost'],
+      ['/api/posts', 'api', 'route'],
+    ]);
+
+    const endpoints = extractFileRouteEndpoints(routing);
+    expect(endpoints.map((e) => [e.id, e.method, e.path, e.handler])).toEqual([
+      ['next-1', 'GET', '/api/users/:id', 'handler'],
+      ['next-2', 'DELETE', '/api/users/:id', 'handler'],
+      ['next-3', 'GET', '/api/posts', 'GET'],
+      ['next-4', 'POST', '/api/posts', 'POST'],
+    ]);
+    expect(endpoints[0].parameters).toEqual([
+      { name: 'id', type: 'path', required: true },
+      { name: 'fields', type: 'query', required: false },
+    ]);
+    expect(endpoints[2].parameters).toEqual([{ name: 'page', type: 'query', required: false }]);
+
+    const graph = buildLineageGraph({
+      components: [],
+      apiCalls: [],
+      routes: routing.routes,
+      endpoints,
+      queries: [],
+      tables: [],
+    });
+    const home = `page:${path.join(tempDir.path, 'web/pages/index.tsx')}`;
+    const user = `page:${path.join(tempDir.path, 'web/pages/users/[id].tsx')}`;
+    expect(graph.metadata.nodeCounts.page).toBe(3);
+    expect(graph.edges.filter((e) => e.type === 'navigation').map((e) => [e.from, e.to, e.confidence])).toEqual([
+      [home, user, 0.9],
+      [user, home, 1.0],
+    ]);
+  });
+
+  test('should map Remix flat and folder routes and treat resource routes as endpoints', () => {
+    const files = tempDir.write({
+      'package.json': JSON.stringify({ dependencies: { '@remix-run/react': '2.0.0' } }),
+      'app/root.tsx': 'export default function Root() { return null; }',
+      'app/routes/_index.tsx': [
+        "import { Link } from '@remix-run/react';",
+        'export default function Index() { return <Link to="/notes/new">New</Link>; }',
+      ].join('\n'),
+      'app/routes/_auth.login.tsx': 'export default function Login() { return null; }',
+      'app/routes/notes.$noteId.tsx': [
+        'export async function loader({ params }) { return null; }',
+        'export default function Note() { return null; }',
+      ].join('\n'),
+      'app/routes/notes.new/route.tsx': [
+        "import { redirect } from '@remix-run/node';",
+        'export async function action() { return redirect(`/notes/${note.id}`); }',
+        'export default function NewNote() { return null; }',
+      ].join('\n'),
+      'app/routes/notes.new/form.tsx': 'export default function Form() { return null; }',
+      'app/routes/api.notes[.]json.ts': [
+        'export async function loader() { return Response.json([]); }',
+        'export async function action({ request }) {',
+        "  switch (request.method) { case 'PUT': break; case 'DELETE': break; }",
+        '}',
+      ].join('\n'),
+    });
+
+    const routing = detectFileSystemRoutes(tempDir.path, files)!;
+    expect(routing.framework).toBe('remix');
+    expect(routing.routes.map((r) => [r.path, r.type])).toEqual([
+      ['/', 'page'],
+      ['/login', 'page'],
+      ['/notes/:noteId', 'page'],
+      ['/notes/new', 'page'],
+      ['/api/notes.json', 'api'],
+    ]);
+    expect(routing.routes[3].links).toEqual([{ path: '/notes/:param', line: 2 }]);
+
+    const endpoints = extractFileRouteEndpoints(routing);
+    expect(endpoints.map((e) => [e.id, e.method, e.path, e.handler])).toEqual([
+      ['remix-1', 'GET', '/api/notes.json', 'loader'],
+      ['remix-2', 'PUT', '/api/notes.json', 'action'],
+      ['remix-3', 'DELETE', '/api/notes.json', 'action'],
+    ]);
+  });
+});
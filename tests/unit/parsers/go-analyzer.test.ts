@@ -0,0 +1,172 @@
+/**
+ * Unit tests for Go endpoint extraction and query detection
+ */
+
+import { parseGoFile } from '../../../src/analyzers/backend/parser';
+import { extractEndpoints } from '../../../src/analyzers/backend/endpoint-extractor';
+import { detectDatabaseQueries } from '../../../src/analyzers/backend/query-detector';
+import { extractSchemaFromModels } from '../../../src/analyzers/database/orm-detector';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+
+const ginApp = `
+package main
+
+import (
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+)
+
+type User struct {
+	gorm.Model
+	Email string \`gorm:"uniqueIndex;not null" json:"email"\`
+}
+
+type CreateUserRequest struct {
+	Email string \`json:"email" binding:"required,email"\`
+	Name  string \`json:"name,omitempty"\`
+}
+
+type UserHandler struct {
+	db *gorm.DB
+}
+
+func main() {
+	r := gin.Default()
+	r.Use(gin.Logger())
+	h := &UserHandler{}
+
+	v1 := r.Group("/api/v1", AuthRequired())
+	{
+		v1.GET("/users/:id", h.GetUser)
+		v1.POST("/users", h.CreateUser)
+	}
+	r.Run()
+}
+
+func (h *UserHandler) GetUser(c *gin.Context) {
+	var user User
+	verbose := c.DefaultQuery("verbose", "false")
+	h.db.Where("id = ?", c.Param("id")).
+		First(&user)
+}
+
+func (h *UserHandler) CreateUser(c *gin.Context) {
+	var req CreateUserRequest
+	if err := c.ShouldBindJSON(&req); err != nil {
+		return
+	}
+	h.db.Create(&User{Email: req.Email})
+}
+`;
+
+const chiApp = `
+package api
+
+import (
+	"database/sql"
+	"net/http"
+
+	"github.com/go-chi/chi/v5"
+)
+
+const listArticles = \`SELECT id, title FROM articles
+	JOIN authors ON authors.id = articles.author_id\`
+
+func NewRouter(db *sql.DB) http.Handler {
+	r := chi.NewRouter()
+	r.Route("/articles", func(r chi.Router) {
+		r.Get("/", list(db))
+		r.Route("/{articleID}", func(r chi.Router) {
+			r.Use(ArticleCtx)
+			r.Delete("/", deleteArticle)
+		})
+	})
+	http.HandleFunc("/health", health)
+	return r
+}
+
+func list(db *sql.DB) http.HandlerFunc {
+	return func(w http.ResponseWriter, r *http.Request) {
+		rows, _ := db.Query(listArticles)
+		defer rows.Close()
+	}
+}
+
+func deleteArticle(w http.ResponseWriter, r *http.Request) {
+	db.Exec("DELETE FROM articles WHERE id = $1", chi.URLParam(r, "articleID"))
+}
+`;
+
+describe('Go analyzer', () => {
+  test('should extract Gin routes and GORM queries into the lineage graph', () => {
+    const parsed = parseGoFile('cmd/server/main.go', ginApp)!;
+    const endpoints = extractEndpoints(parsed);
+
+    expect(endpoints.map((e) => [e.method, e.path, e.handler])).toEqual([
+      ['GET', '/api/v1/users/:id', 'UserHandler.GetUser'],
+      ['POST', '/api/v1/users', 'UserHandler.CreateUser'],
+    ]);
+    expect(endpoints[0].middleware).toEqual(['gin.Logger', 'AuthRequired']);
+    expect(endpoints[0].parameters).toEqual([
+      { name: 'id', type: 'path', required: true },
+      { name: 'verbose', type: 'query', required: false },
+    ]);
+    expect(endpoints[1].parameters).toEqual([
+      { name: 'email', type: 'body', required: true, typeHint: 'string' },
+      { name: 'name', type: 'body', required: false, typeHint: 'string' },
+    ]);
+
+    const { tables } = extractSchemaFromModels([parsed]);
+    expect(tables.map((t) => [t.model, t.name, t.primaryKey])).toEqual([['User', 'users', ['id']]]);
+
+    const queries = detectDatabaseQueries(parsed);
+    expect(queries.map((q) => [q.function, q.type, q.table, q.ormMethod])).toEqual([
+      ['UserHandler.GetUser', 'select', 'users', 'First'],
+      ['UserHandler.CreateUser', 'insert', 'users', 'Create'],
+    ]);
+
+    const graph = buildLineageGraph({
+      components: [],
+      apiCalls: [
+        {
+          id: 'fetch-1',
+          file: 'web/src/User.tsx',
+          method: 'GET',
+          url: '/api/v1/users/42',
+          line: 3,
+          column: 0,
+          confidence: 1,
+        },
+      ],
+      endpoints,
+      queries,
+      tables,
+    });
+    const edges = graph.edges.map((e) => [e.from, e.to]);
+    expect(edges).toEqual(
+      expect.arrayContaining([
+        ['api-call:fetch-1', 'endpoint:gin-1'],
+        ['endpoint:gin-1', 'query:gorm-1'],
+        ['query:gorm-1', 'table:users'],
+      ])
+    );
+  });
+
+  test('should extract chi and net/http routes with database/sql queries', () => {
+    const parsed = parseGoFile('internal/api/router.go', chiApp)!;
+    const endpoints = extractEndpoints(parsed);
+
+    expect(endpoints.map((e) => [e.method, e.path, e.handler, e.middleware])).toEqual([
+      ['GET', '/articles', 'list', []],
+      ['DELETE', '/articles/{articleID}', 'deleteArticle', ['ArticleCtx']],
+      ['GET', '/health', 'health', []],
+    ]);
+    expect(endpoints[1].pathPattern).toBe('/articles/{param}');
+
+    const queries = detectDatabaseQueries(parsed);
+    expect(queries.map((q) => [q.function, q.type, q.tables])).toEqual([
+      ['list', 'select', ['articles', 'authors']],
+      ['deleteArticle', 'delete', ['articles']],
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for HTTP client instance and request wrapper resolution
+ */
+
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { detectAPICalls } from '../../../src/analyzers/frontend/api-detector';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('HTTP client resolution', () => {
+  const tempDir = useTempDir();
+
+  const detect = (name: string) =>
+    detectAPICalls(parseFrontendFile(path.join(tempDir.path, name))!).map((c) => [
+      c.id.replace(/-\d+$/, ''),
+      c.method,
+      c.url || c.urlPattern,
+    ]);
+
+  test('should apply axios.create, ky and ofetch base URLs across files', () => {
+    tempDir.write({
+      'src/config.ts': "export const API_ROOT = 'https://api.example.com';",
+      'src/lib/http.ts': [
+        "import axios from 'axios';",
+        "import ky from 'ky';",
+        "import { ofetch } from 'ofetch';",
+        "import { API_ROOT } from '../config';",
+        '',
+        'export const api = axios.create({ baseURL: `${API_ROOT}/v1` });',
+        "export const store = ky.create({ prefixUrl: '/api' }).extend({ prefixUrl: '/api/store' });",
+        "export const client = ofetch.create({ baseURL: '/api' });",
+      ].join('\n'),
+      'src/lib/index.ts': "export * from './http';",
+      'src/pages/Orders.tsx': [
+        "import { api, store, client } from '../lib';",
+        "import superagent from 'superagent';",
+        '',
+        'export function Orders({ id }) {',
+        "  api.get('/orders');",
+        '  api.post(`/orders/${id}/items`, { qty: 1 });',
+        "  api.request({ method: 'delete', url: '/orders/' + id });",
+        "  store.get('products').json();",
+        "  client('/cart', { method: 'PUT', body: { id } });",
+        "  superagent.post('/api/checkout').send({ id }).set({ 'X-Client': 'web' });",
+        '  return null;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(detect('src/pages/Orders.tsx')).toEqual([
+      ['axios', 'GET', 'https://api.example.com/v1/orders'],
+      ['axios', 'POST', 'https://api.example.com/v1/orders/${...}/items'],
+      ['axios', 'DELETE', 'https://api.example.com/v1/orders/${...}'],
+      ['ky', 'GET', '/api/store/products'],
+      ['ofetch', 'PUT', '/api/cart'],
+      ['superagent', 'POST', '/api/checkout'],
+    ]);
+  });
+
+  test('should resolve calls through wrapper functions and client objects defined in the repo', () => {
+    tempDir.write({
+      'src/api/client.ts': [
+        "const BASE_URL = '/api';",
+        '',
+        "export async function apiRequest(method, path, body = undefined) {",
+        '  const res = await fetch(`${BASE_URL}${path}`, { method, body: JSON.stringify(body) });',
+        '  return res.json();',
+        '}',
+        '',
+        'export const apiClient = {',
+        "  get: (path) => apiRequest('GET', path),",
+        "  post: (path, body) => apiRequest('POST', path, body),",
+        '  request({ method, url }) {',
+        '    return apiRequest(method, url);',
+        '  },',
+        '};',
+        '',
+        'export async function fetchUser(id) {',
+        '  return fetch(`/api/users/${id}`);',
+        '}',
+      ].join('\n'),
+      'src/components/Users.tsx': [
+        "import { apiRequest, apiClient, fetchUser } from '../api/client';",
+        '',
+        'export function Users({ userId }) {',
+        "  apiRequest('DELETE', `/users/${userId}`);",
+        "  apiClient.get('/users');",
+        "  apiClient.post('/users', { name: 'Ada' });",
+        "  apiClient.request({ method: 'PATCH', url: '/users/me' });",
+        '  fetchUser(userId);',
+        '  return null;',
+        '}',
+      ].join('\n'),
+    });
+
+    expect(detect('src/components/Users.tsx')).toEqual([
+      ['fetch', 'DELETE', '/api/users/${...}'],
+      ['fetch', 'GET', '/api/users'],
+      ['fetch', 'POST', '/api/users'],
+      ['fetch', 'PATCH', '/api/users/me'],
+    ]);
+    // Inside the wrapper module only the base URL and the methods are known
+    expect(detect('src/api/client.ts')).toEqual([
+      ['fetch', 'GET', '/api${...}'],
+      ['fetch', 'GET', '/api${...}'],
+      ['fetch', 'POST', '/api${...}'],
+      ['fetch', 'GET', '/api/users/${...}'],
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for NestJS endpoint extraction and provider detection
+ */
+
+import { parseBackendFile } from '../../../src/analyzers/backend/parser';
+import { extractEndpoints } from '../../../src/analyzers/backend/endpoint-extractor';
+import { resolveRouteMounts } from '../../../src/analyzers/backend/route-mounts';
+import { detectServices } from '../../../src/analyzers/backend/service-detector';
+import { buildBackendDependencyGraph } from '../../../src/analyzers/backend/graph-builder';
+import { ParsedFile } from '../../../src/types';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const main = `
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  app.setGlobalPrefix('api');
+  await app.listen(3000);
+}
+bootstrap();
+`;
+
+const controller = `
+import { Body, Controller, Get, Param, Post, Put, Query, UseGuards, UseInterceptors } from '@nestjs/common';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { CreateUserDto, UpdateUserDto } from './dto/user.dto';
+import { UsersService } from './users.service';
+
+@Controller('users')
+@UseGuards(AuthGuard('jwt'))
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get(':id')
+  @UseInterceptors(CacheInterceptor)
+  findOne(@Param('id') id: number, @Query('expand') expand?: string): Promise<User> {
+    return this.usersService.findOne(id);
+  }
+
+  @Post()
+  @UseGuards(RolesGuard)
+  create(@Body() dto: CreateUserDto): Observable<User[]> {
+    return this.usersService.create(dto);
+  }
+
+  @Put(':id')
+  update(@Param('id') id: string, @Body() dto: UpdateUserDto) {
+    return this.usersService.update(id, dto);
+  }
+}
+`;
+
+const dto = `
+import { IsEmail, IsOptional } from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+
+export class CreateUserDto {
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  name: string;
+
+  roles?: Array<'admin' | 'member'>;
+}
+
+export class UpdateUserDto extends PartialType(CreateUserDto) {}
+`;
+
+const service = `
+import { Inject, Injectable, forwardRef } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+@Injectable()
+export class UsersService {
+  constructor(
+    @InjectRepository(User) private readonly users: Repository<User>,
+    @Inject(forwardRef(() => AuditService)) private readonly audit: AuditService,
+    @Inject('CONFIG') private readonly config: AppConfig
+  ) {}
+
+  findOne(id: number) {
+    return this.users.findOneBy({ id });
+  }
+}
+
+@Injectable()
+export class AuditService {
+  constructor(private readonly usersService: UsersService) {}
+
+  record() {}
+}
+`;
+
+describe('NestJS analysis', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    fs.mkdirSync(path.join(tempDir, 'dto'));
+    fs.writeFileSync(path.join(tempDir, 'main.ts'), main);
+    fs.writeFileSync(path.join(tempDir, 'users.controller.ts'), controller);
+    fs.writeFileSync(path.join(tempDir, 'dto', 'user.dto.ts'), dto);
+    fs.writeFileSync(path.join(tempDir, 'users.service.ts'), service);
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const parse = (): Map<string, ParsedFile> => {
+    const files = new Map<string, ParsedFile>();
+    for (const name of ['main.ts', 'users.controller.ts', 'users.service.ts']) {
+      const filePath = path.join(tempDir, name);
+      files.set(filePath, parseBackendFile(filePath)!);
+    }
+    return files;
+  };
+
+  test('should extract controller routes with global prefix, DTO parameters and guards', () => {
+    const files = parse();
+    const endpoints = resolveRouteMounts([...files.values()].flatMap((file) => extractEndpoints(file)), files);
+
+    expect(endpoints.map((e) => [e.id, e.method, e.path, e.handler, e.responseType])).toEqual([
+      ['nest-1', 'GET', '/api/users/:id', 'UsersController.findOne', 'User'],
+      ['nest-2', 'POST', '/api/users', 'UsersController.create', 'User[]'],
+      ['nest-3', 'PUT', '/api/users/:id', 'UsersController.update', undefined],
+    ]);
+    expect(endpoints[0].parameters).toEqual([
+      { name: 'id', type: 'path', required: true, typeHint: 'number' },
+      { name: 'expand', type: 'query', required: false, typeHint: 'string' },
+    ]);
+    expect(endpoints[0].middleware).toEqual(['AuthGuard', 'CacheInterceptor']);
+    expect(endpoints[1].middleware).toEqual(['AuthGuard', 'RolesGuard']);
+    expect(endpoints[1].parameters).toEqual([
+      { name: 'email', type: 'body', required: true, typeHint: 'string' },
+      { name: 'name', type: 'body', required: false, typeHint: 'string' },
+      { name: 'roles', type: 'body', required: false, typeHint: '("admin" | "member")[]' },
+    ]);
+    expect(endpoints[2].parameters.map((p) => [p.name, p.type, p.required])).toEqual([
+      ['id', 'path', true],
+      ['email', 'body', false],
+      ['name', 'body', false],
+      ['roles', 'body', false],
+    ]);
+  });
+
+  test('should build a service graph from constructor injection', () => {
+    const files = parse();
+    const services = detectServices([...files.values()]);
+
+    expect(services.map((s) => [s.name, s.methods, s.dependencies])).toEqual([
+      ['UsersController', ['findOne', 'create', 'update'], ['UsersService']],
+      ['UsersService', ['findOne'], ['Repository<User>', 'AuditService', 'CONFIG']],
+      ['AuditService', ['record'], ['UsersService']],
+    ]);
+
+    const graph = buildBackendDependencyGraph({ files, endpoints: [], services, queries: [] });
+    const injected = graph.edges.filter((e) => e.metadata.injected).map((e) => [e.from, e.to]);
+    expect(injected).toEqual([
+      ['service:UsersController', 'service:UsersService'],
+      ['service:UsersService', 'service:AuditService'],
+      ['service:AuditService', 'service:UsersService'],
+    ]);
+  });
+});
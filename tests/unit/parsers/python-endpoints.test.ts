@@ -0,0 +1,175 @@
+/**
+ * Unit tests for Python endpoint extraction (FastAPI, Flask, Django)
+ */
+
+import { parsePythonFile } from '../../../src/analyzers/backend/parser';
+import { extractEndpoints } from '../../../src/analyzers/backend/endpoint-extractor';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+const fastapiApp = `
+from typing import Annotated, Optional
+from fastapi import APIRouter, Depends, FastAPI, Header
+from pydantic import BaseModel
+
+app = FastAPI()
+router = APIRouter(prefix="/users")
+
+
+class UserCreate(BaseModel):
+    email: str
+    name: Optional[str] = None
+
+
+@router.get("/{user_id}", response_model=UserOut)
+async def get_user(user_id: int, verbose: bool = False, db: Session = Depends(get_db)):
+    return db.get(User, user_id)
+
+
+@router.post("/", dependencies=[Depends(verify_token)])
+def create_user(user: UserCreate, x_token: Annotated[str, Header()]):
+    pass
+
+
+app.include_router(router, prefix="/api")
+`;
+
+const flaskApp = `
+from flask import Blueprint, request
+
+bp = Blueprint('items', __name__, url_prefix='/items')
+
+
+@bp.route('/<int:item_id>', methods=['GET', 'PUT'])
+@login_required
+def item(item_id):
+    page = request.args.get('page', 1)
+    return {}
+`;
+
+describe('Python endpoint extraction', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should extract FastAPI routes with prefixes, typed parameters and dependencies', () => {
+    const endpoints = extractEndpoints(parsePythonFile('app/main.py', fastapiApp)!);
+
+    expect(endpoints.map((e) => [e.method, e.path, e.handler])).toEqual([
+      ['GET', '/api/users/{user_id}', 'get_user'],
+      ['POST', '/api/users', 'create_user'],
+    ]);
+    expect(endpoints[0].parameters).toEqual([
+      { name: 'user_id', type: 'path', required: true, typeHint: 'int' },
+      { name: 'verbose', type: 'query', required: false, typeHint: 'bool' },
+    ]);
+    expect(endpoints[0].middleware).toEqual(['get_db']);
+    expect(endpoints[0].responseType).toBe('UserOut');
+    expect(endpoints[1].parameters).toEqual([
+      { name: 'email', type: 'body', required: true, typeHint: 'str' },
+      { name: 'name', type: 'body', required: false, typeHint: 'Optional[str]' },
+      { name: 'x_token', type: 'header', required: true, typeHint: 'str' },
+    ]);
+    expect(endpoints[1].middleware).toEqual(['verify_token']);
+
+    const graph = buildLineageGraph({
+      components: [],
+      apiCalls: [
+        {
+          id: 'fetch-1',
+          file: 'src/User.tsx',
+          method: 'GET',
+          url: '/api/users/42',
+          line: 3,
+          column: 0,
+          confidence: 1,
+        },
+      ],
+      endpoints,
+      queries: [],
+      tables: [],
+    });
+    expect(graph.edges.filter((e) => e.type === 'api-call').map((e) => [e.from, e.to])).toEqual([
+      ['api-call:fetch-1', 'endpoint:fastapi-1'],
+    ]);
+  });
+
+  test('should extract Flask blueprint routes', () => {
+    const endpoints = extractEndpoints(parsePythonFile('app/items.py', flaskApp)!);
+
+    expect(endpoints.map((e) => [e.method, e.path, e.pathPattern])).toEqual([
+      ['GET', '/items/<int:item_id>', '/items/{param}'],
+      ['PUT', '/items/<int:item_id>', '/items/{param}'],
+    ]);
+    expect(endpoints[0].parameters).toEqual([
+      { name: 'item_id', type: 'path', required: true, typeHint: 'int' },
+      { name: 'page', type: 'query', required: false },
+    ]);
+    expect(endpoints[0].middleware).toEqual(['login_required']);
+  });
+
+  test('should follow Django urlpatterns, includes and views', () => {
+    fs.mkdirSync(path.join(tempDir, 'mysite'));
+    fs.mkdirSync(path.join(tempDir, 'blog'));
+    fs.writeFileSync(
+      path.join(tempDir, 'mysite', 'urls.py'),
+      [
+        'from django.urls import include, path',
+        '',
+        'urlpatterns = [',
+        "    path('api/', include('blog.urls')),",
+        ']',
+      ].join('\n')
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'blog', 'urls.py'),
+      [
+        'from django.urls import path, re_path',
+        'from . import views',
+        '',
+        'urlpatterns = [',
+        "    path('posts/', views.post_list),",
+        "    re_path(r'^posts/(?P<pk>[0-9]+)/$', views.PostDetail.as_view()),",
+        ']',
+      ].join('\n')
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'blog', 'views.py'),
+      [
+        'from django.views import View',
+        '',
+        'def post_list(request):',
+        "    if request.method == 'POST':",
+        "        return create(request.POST['title'])",
+        '',
+        'class PostDetail(View):',
+        '    def get(self, request, pk):',
+        '        pass',
+        '',
+        '    def delete(self, request, pk):',
+        '        pass',
+      ].join('\n')
+    );
+
+    const endpoints = extractEndpoints(parsePythonFile(path.join(tempDir, 'mysite', 'urls.py'))!);
+
+    expect(endpoints.map((e) => [e.method, e.path, e.handler])).toEqual([
+      ['GET', '/api/posts/', 'post_list'],
+      ['POST', '/api/posts/', 'post_list'],
+      ['GET', '/api/posts/<pk>/', 'PostDetail.get'],
+      ['DELETE', '/api/posts/<pk>/', 'PostDetail.delete'],
+    ]);
+    expect(endpoints[1].parameters).toEqual([{ name: 'title', type: 'body', required: true }]);
+    expect(endpoints[2].file).toBe(path.join(tempDir, 'blog', 'urls.py'));
+  });
+});
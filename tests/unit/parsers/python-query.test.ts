@@ -0,0 +1,120 @@
+/**
+ * Unit tests for Python ORM model parsing and query detection
+ */
+
+import { parsePythonFile } from '../../../src/analyzers/backend/parser';
+import { detectDatabaseQueries, resolveQueryTables } from '../../../src/analyzers/backend/query-detector';
+import { extractSchemaFromModels } from '../../../src/analyzers/database/orm-detector';
+
+const djangoModels = `
+from django.db import models
+from django.conf import settings
+
+
+class Post(models.Model):
+    title = models.CharField(max_length=200)
+    author = models.ForeignKey(
+        settings.AUTH_USER_MODEL,
+        on_delete=models.CASCADE,
+    )
+
+
+class Tag(models.Model):
+    name = models.SlugField(unique=True)
+
+    class Meta:
+        db_table = 'tags'
+`;
+
+const djangoViews = `
+from django.db import connection
+from .models import Post, Tag
+
+
+def list_posts(request):
+    return Post.objects.filter(published=True).order_by('-id')
+
+
+class TagView(View):
+    def delete(self, request, pk):
+        Tag.objects.filter(pk=pk).delete()
+
+
+def stats():
+    query = """
+        SELECT COUNT(*) FROM blog_post
+        JOIN auth_user ON auth_user.id = blog_post.author_id
+    """
+    with connection.cursor() as cursor:
+        cursor.execute(query)
+`;
+
+const sqlalchemyModule = `
+from sqlalchemy import Column, Integer, String, ForeignKey, select, text
+from sqlalchemy.orm import DeclarativeBase, Mapped, mapped_column
+
+
+class Base(DeclarativeBase):
+    pass
+
+
+class User(Base):
+    __tablename__ = "users"
+    id: Mapped[int] = mapped_column(primary_key=True)
+    email = Column('email_address', String(120), nullable=False)
+
+
+class Order(Base):
+    __tablename__ = "orders"
+    id = Column(Integer, primary_key=True)
+    user_id = Column(Integer, ForeignKey("users.id"))
+
+
+def get_user(session, user_id):
+    return session.execute(select(User).where(User.id == user_id)).scalar_one()
+
+
+def purge_orders(session):
+    session.query(Order).filter(Order.user_id == None).delete()
+    session.execute(text("DELETE FROM audit_log WHERE created_at < now()"))
+`;
+
+describe('Python query detection', () => {
+  test('should detect Django queries and resolve model tables', () => {
+    const models = parsePythonFile('blog/models.py', djangoModels)!;
+    const views = parsePythonFile('blog/views.py', djangoViews)!;
+
+    const { tables } = extractSchemaFromModels([models]);
+    expect(tables.map((t) => t.name)).toEqual(['blog_post', 'tags']);
+    expect(tables[0].foreignKeys).toEqual([
+      { column: 'author_id', referencedTable: 'auth_user', referencedColumn: 'id' },
+    ]);
+
+    const queries = resolveQueryTables(detectDatabaseQueries(views), tables);
+    expect(queries.map((q) => [q.function, q.type, q.table, q.ormMethod])).toEqual([
+      ['list_posts', 'select', 'blog_post', 'filter'],
+      ['TagView.delete', 'delete', 'tags', 'delete'],
+      ['stats', 'select', undefined, undefined],
+    ]);
+    expect(queries[2].tables).toEqual(['blog_post', 'auth_user']);
+  });
+
+  test('should detect SQLAlchemy and raw SQL queries', () => {
+    const parsed = parsePythonFile('app/db.py', sqlalchemyModule)!;
+
+    const { tables } = extractSchemaFromModels([parsed]);
+    expect(tables.map((t) => [t.model, t.name])).toEqual([
+      ['User', 'users'],
+      ['Order', 'orders'],
+    ]);
+    expect(tables[0].columns.map((c) => c.name)).toEqual(['id', 'email_address']);
+    expect(tables[1].foreignKeys[0].referencedTable).toBe('users');
+
+    const queries = detectDatabaseQueries(parsed);
+    expect(queries.map((q) => [q.function, q.type, q.tables])).toEqual([
+      ['get_user', 'select', ['users']],
+      ['purge_orders', 'delete', ['orders']],
+      ['purge_orders', 'delete', ['audit_log']],
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for cross-file router mount resolution
+ */
+
+import { parseBackendFile } from '../../../src/analyzers/backend/parser';
+import { extractEndpoints } from '../../../src/analyzers/backend/endpoint-extractor';
+import { resolveRouteMounts } from '../../../src/analyzers/backend/route-mounts';
+import { ParsedFile } from '../../../src/types';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+describe('Router mount resolution', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    fs.mkdirSync(path.join(tempDir, 'routes'));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const analyze = (files: Record<string, string>) => {
+    const parsedFiles = new Map<string, ParsedFile>();
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(tempDir, name);
+      fs.writeFileSync(filePath, content);
+      parsedFiles.set(filePath, parseBackendFile(filePath)!);
+    }
+    const endpoints = [...parsedFiles.values()].flatMap((file) => extractEndpoints(file));
+    return resolveRouteMounts(endpoints, parsedFiles);
+  };
+
+  test('should apply Express app.use and router.use prefixes across files', () => {
+    const endpoints = analyze({
+      'app.js': [
+        "const express = require('express');",
+        "const apiRouter = require('./routes/api');",
+        'const app = express();',
+        "app.use('/api/v1', authenticate, apiRouter);",
+        "app.get('/health', health);",
+      ].join('\n'),
+      'routes/api.js': [
+        "const express = require('express');",
+        "const usersRouter = require('./users');",
+        'const router = express.Router();',
+        "router.use('/users', usersRouter);",
+        'module.exports = router;',
+      ].join('\n'),
+      'routes/users.js': [
+        "import { Router } from 'express';",
+        'const users = Router();',
+        "users.get('/', listUsers);",
+        "users.get('/:id', getUser);",
+        'export default users;',
+      ].join('\n'),
+    });
+
+    expect(endpoints.map((e) => [e.method, e.path, e.pathPattern])).toEqual([
+      ['GET', '/health', '/health'],
+      ['GET', '/api/v1/users', '/api/v1/users'],
+      ['GET', '/api/v1/users/:id', '/api/v1/users/{param}'],
+    ]);
+    expect(endpoints[2].middleware).toEqual(['authenticate']);
+  });
+
+  test('should apply app.use and router.use middleware to the routes declared after it', () => {
+    const endpoints = analyze({
+      'app.js': [
+        "const express = require('express');",
+        "const adminRouter = require('./routes/admin');",
+        'const app = express();',
+        "app.get('/health', health);",
+        'app.use(express.json());',
+        "app.use('/admin', requireAdmin);",
+        'app.use(authenticate);',
+        "app.get('/me', me);",
+        "app.use('/admin', adminRouter);",
+      ].join('\n'),
+      'routes/admin.js': [
+        "const express = require('express');",
+        'const router = express.Router();',
+        "router.get('/stats', stats);",
+        'router.use(csrfProtection);',
+        "router.post('/users', createUser);",
+        'module.exports = router;',
+      ].join('\n'),
+    });
+
+    expect(endpoints.map((e) => [e.method, e.path, e.middleware])).toEqual([
+      ['GET', '/health', []],
+      ['GET', '/me', ['express.json', 'authenticate']],
+      ['GET', '/admin/stats', ['express.json', 'requireAdmin', 'authenticate']],
+      ['POST', '/admin/users', ['express.json', 'requireAdmin', 'authenticate', 'csrfProtection']],
+    ]);
+  });
+
+  test('should apply Koa router prefixes and nested routes() mounts', () => {
+    const endpoints = analyze({
+      'server.ts': [
+        "import Koa from 'koa';",
+        "import Router from '@koa/router';",
+        "import { articles } from './routes/articles';",
+        'const app = new Koa();',
+        "const api = new Router({ prefix: '/api' });",
+        "api.use('/v2', articles.routes(), articles.allowedMethods());",
+        'app.use(api.routes());',
+      ].join('\n'),
+      'routes/articles.ts': [
+        "import Router from '@koa/router';",
+        'export const articles = new Router();',
+        "articles.prefix('/articles');",
+        "articles.get('/:slug', showArticle);",
+      ].join('\n'),
+    });
+
+    expect(endpoints.map((e) => [e.method, e.path])).toEqual([['GET', '/api/v2/articles/:slug']]);
+  });
+
+  test('should return one endpoint per mount of a router mounted twice', () => {
+    const endpoints = analyze({
+      'app.js': [
+        "const express = require('express');",
+        "const usersRouter = require('./routes/users');",
+        'const app = express();',
+        "app.use('/v1/users', usersRouter);",
+        "app.use('/v2/users', authenticate, usersRouter);",
+      ].join('\n'),
+      'routes/users.js': [
+        "const router = require('express').Router();",
+        "router.get('/:id', getUser);",
+        'module.exports = router;',
+      ].join('\n'),
+    });
+
+    expect(endpoints.map((e) => [e.id, e.method, e.path, e.middleware])).toEqual([
+      ['express-1:/v1/users', 'GET', '/v1/users/:id', []],
+      ['express-1:/v2/users', 'GET', '/v2/users/:id', ['authenticate']],
+    ]);
+  });
+});
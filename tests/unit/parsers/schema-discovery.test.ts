@@ -0,0 +1,112 @@
+/**
+ * Unit tests for database schema discovery and column-level query lineage
+ */
+
+import { parseBackendFile } from '../../../src/analyzers/backend/parser';
+import { detectDatabaseQueries, resolveQueryTables } from '../../../src/analyzers/backend/query-detector';
+import { discoverDatabaseSchema } from '../../../src/analyzers/database/schema-discovery';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import { buildFileTree } from '../../../src/utils/file-utils';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('Database schema discovery', () => {
+  const tempDir = useTempDir();
+
+  const parse = (...names: string[]) => names.map((name) => parseBackendFile(path.join(tempDir.path, name))!);
+
+  test('should merge migrations, ORM models and Prisma schemas into one schema', () => {
+    tempDir.write({
+      'db/migrations/001_users.sql': [
+        'CREATE TABLE users (',
+        '  id SERIAL PRIMARY KEY,',
+        '  email VARCHAR(255) NOT NULL UNIQUE,',
+        '  PRIMARY KEY (id)',
+        ');',
+        'ALTER TABLE users ADD COLUMN last_login TIMESTAMP;',
+      ].join('\n'),
+      'src/models/order.js': [
+        "const { DataTypes } = require('sequelize');",
+        "const sequelize = require('../db');",
+        '',
+        "const Order = sequelize.define('Order', {",
+        '  id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },',
+        "  userId: { type: DataTypes.INTEGER, references: { model: 'users', key: 'id' } },",
+        '  total: DataTypes.DECIMAL,',
+        '});',
+        '',
+        'module.exports = Order;',
+      ].join('\n'),
+      'src/entities/user.ts': [
+        "import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';",
+        '',
+        "@Entity('users')",
+        'export class User {',
+        '  @PrimaryGeneratedColumn()',
+        '  id: number;',
+        '',
+        '  @Column({ nullable: true })',
+        '  nickname: string;',
+        '}',
+      ].join('\n'),
+      'prisma/schema.prisma': [
+        'model Product {',
+        '  id    Int     @id @default(autoincrement())',
+        '  title String  @map("product_title")',
+        '  notes String?',
+        '',
+        '  @@map("products")',
+        '}',
+      ].join('\n'),
+    });
+
+    const schema = discoverDatabaseSchema(buildFileTree(tempDir.path), parse('src/models/order.js', 'src/entities/user.ts'));
+    const tables = Object.fromEntries(
+      schema.tables.map((table) => [table.name, [table.model, table.columns.map((c) => c.name), table.primaryKey]])
+    );
+
+    expect(tables).toEqual({
+      users: ['User', ['id', 'email', 'last_login', 'nickname'], ['id']],
+      products: ['Product', ['id', 'product_title', 'notes'], ['id']],
+      Orders: ['Order', ['id', 'userId', 'total'], ['id']],
+    });
+    expect(schema.relationships).toEqual([{ from: 'Orders', to: 'users', type: 'one-to-many', foreignKey: 'userId' }]);
+  });
+
+  test('should carry the columns queries read and write onto database-query edges', () => {
+    tempDir.write({
+      'prisma/schema.prisma': ['model User {', '  id    Int    @id', '  email String', '  name  String', '}'].join('\n'),
+      'src/users.js': [
+        "const { PrismaClient } = require('@prisma/client');",
+        'const prisma = new PrismaClient();',
+        '',
+        'async function findUser(email) {',
+        '  return prisma.user.findFirst({ where: { email }, select: { id: true, name: true } });',
+        '}',
+        '',
+        'async function renameUser(db, id, name) {',
+        "  return db.query('UPDATE User SET name = $1 WHERE id = $2', [name, id]);",
+        '}',
+      ].join('\n'),
+    });
+
+    const [parsed] = parse('src/users.js');
+    const queries = detectDatabaseQueries(parsed);
+    const { tables } = discoverDatabaseSchema(buildFileTree(tempDir.path), [parsed]);
+    resolveQueryTables(queries, tables);
+
+    expect(queries.map((q) => [q.type, q.table || q.tables, q.columns])).toEqual([
+      ['select', 'User', ['email', 'id', 'name']],
+      ['update', ['User'], ['name', 'id']],
+    ]);
+
+    const graph = buildLineageGraph({ components: [], apiCalls: [], endpoints: [], queries, tables });
+    const edges = graph.edges.filter((edge) => edge.type === 'database-query');
+    expect(edges.map((edge) => [edge.to, edge.data?.columns])).toEqual([
+      ['table:User', ['email', 'id', 'name']],
+      ['table:User', ['name', 'id']],
+    ]);
+    const table = graph.nodes.find((node) => node.id === 'table:User');
+    expect(table?.data?.columnTypes).toEqual({ id: 'INTEGER', email: 'VARCHAR', name: 'VARCHAR' });
+  });
+});
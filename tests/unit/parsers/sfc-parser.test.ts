@@ -0,0 +1,123 @@
+/**
+ * Unit tests for Vue and Svelte single-file component parsing
+ */
+
+import { parseFrontendFile } from '../../../src/analyzers/frontend/parser';
+import { detectReactComponents } from '../../../src/analyzers/frontend/component-detector';
+import { detectAPICalls } from '../../../src/analyzers/frontend/api-detector';
+
+const userProfile = `<template>
+  <div class="profile">
+    <UserAvatar :src="user.avatar" />
+    <router-link to="/settings">Settings</router-link>
+    <button @click="save">Save</button>
+  </div>
+</template>
+
+<script setup lang="ts">
+import { ref, onMounted } from 'vue';
+import axios from 'axios';
+import UserAvatar from './UserAvatar.vue';
+
+interface Props {
+  userId: number;
+  editable?: boolean;
+}
+const props = defineProps<Props>();
+const user = ref(null);
+
+onMounted(async () => {
+  user.value = (await axios.get(\`/api/users/\${props.userId}\`)).data;
+});
+
+function save() {
+  fetch('/api/users', { method: 'POST' });
+}
+</script>
+
+<style scoped>
+.profile { display: flex; }
+</style>
+`;
+
+const todoList = `<script>
+  import { onMount } from 'svelte';
+  import TodoItem from './TodoItem.svelte';
+
+  export let title;
+  export let filter = 'all';
+  let todos = [];
+
+  onMount(async () => {
+    todos = await (await fetch('/api/todos')).json();
+  });
+</script>
+
+<h1>{title}</h1>
+{#each todos as todo}
+  <TodoItem {todo} />
+{/each}
+`;
+
+describe('Single-file component parsing', () => {
+  test('should parse a Vue <script setup> component with typed props and template children', () => {
+    const parsed = parseFrontendFile('src/components/user-profile.vue', userProfile)!;
+    expect(parsed.language).toBe('vue');
+    expect(parsed.sfc).toMatchObject({ framework: 'vue', scriptSetup: true, lang: 'ts' });
+
+    const [component] = detectReactComponents(parsed);
+    expect(component).toMatchObject({
+      name: 'UserProfile',
+      props: ['userId', 'editable'],
+      state: ['user'],
+      hooks: ['onMounted'],
+      children: ['UserAvatar', 'RouterLink'],
+    });
+
+    const calls = detectAPICalls(parsed);
+    expect(calls.map((c) => [c.method, c.url || c.urlPattern, c.line])).toEqual([
+      ['GET', '/api/users/${...}', 22],
+      ['POST', '/api/users', 26],
+    ]);
+  });
+
+  test('should parse Svelte exported props, state and API calls', () => {
+    const parsed = parseFrontendFile('src/lib/TodoList.svelte', todoList)!;
+
+    const [component] = detectReactComponents(parsed);
+    expect(component).toMatchObject({
+      name: 'TodoList',
+      props: ['title', 'filter'],
+      state: ['todos'],
+      hooks: ['onMount'],
+      children: ['TodoItem'],
+    });
+    expect(detectAPICalls(parsed).map((c) => [c.method, c.url, c.line])).toEqual([['GET', '/api/todos', 10]]);
+  });
+
+  test('should parse <script> and <script setup> declaring the same name', () => {
+    const settings = [
+      '<script lang="ts">',
+      "const endpoint = '/api/settings';",
+      "export default { name: 'AccountSettings' };",
+      '</script>',
+      '',
+      '<script setup lang="ts">',
+      "import { ref } from 'vue';",
+      'interface Props { accountId: number }',
+      'const props = defineProps<Props>();',
+      'const endpoint = `/api/accounts/${props.accountId}/settings`;',
+      'const settings = ref(null);',
+      'fetch(endpoint);',
+      '</script>',
+    ].join('\n');
+
+    const parsed = parseFrontendFile('src/components/settings.vue', settings)!;
+    expect(parsed).not.toBeNull();
+    expect(parsed.imports.map((i) => [i.from, i.line])).toEqual([['vue', 7]]);
+
+    const [component] = detectReactComponents(parsed);
+    expect(component).toMatchObject({ name: 'AccountSettings', props: ['accountId'], state: ['settings'] });
+    expect(detectAPICalls(parsed).map((c) => [c.method, c.line])).toEqual([['GET', 12]]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for incremental re-analysis with the parsed file cache
+ */
+
+import { parseRepositoryIncrementally } from '../../../src/services/file-cache';
+import { collectLineageArtifacts } from '../../../src/services/lineage';
+import { RepositoryAnalysis } from '../../../src/github/service';
+import { RepositoryFileAnalyzer } from '../../../src/github/file-analyzer';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+import * as fs from 'fs';
+
+describe('Parsed file cache', () => {
+  const tempDir = useTempDir();
+  const cacheDir = useTempDir('cache-');
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.DATABASE_ENABLED = 'false';
+    process.env.CACHE_DIR = cacheDir.path;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  const analyze = (): RepositoryAnalysis => ({
+    repository: { name: 'shop' } as any,
+    localPath: tempDir.path,
+    ...new RepositoryFileAnalyzer().analyzeRepository(tempDir.path),
+  });
+
+  beforeEach(() => {
+    tempDir.write({
+      'web/src/api.ts': "export const API_BASE = '/api';",
+      'web/src/client.ts': "export { API_BASE } from './api';",
+      'web/src/Users.tsx': [
+        "import { API_BASE } from './client';",
+        'export function Users() {',
+        '  fetch(`${API_BASE}/users`);',
+        '  return <div />;',
+        '}',
+      ].join('\n'),
+      'web/src/Orders.tsx': "export function Orders() {\n  fetch('/api/orders');\n  return <div />;\n}",
+      'server/app.js': [
+        "const express = require('express');",
+        'const app = express();',
+        "app.use('/api', require('./routes'));",
+      ].join('\n'),
+      'server/routes.js': [
+        "const router = require('express').Router();",
+        "router.get('/users', async (req, res) => res.json(await User.findAll()));",
+        'module.exports = router;',
+      ].join('\n'),
+      'server/models/user.js': [
+        "const { DataTypes } = require('sequelize');",
+        'module.exports = (sequelize) =>',
+        "  sequelize.define('User', { email: DataTypes.STRING }, { tableName: 'users' });",
+      ].join('\n'),
+    });
+  });
+
+  test('should reuse unchanged files and produce the same artifacts as a full parse', async () => {
+    const first = await parseRepositoryIncrementally('acme/shop', analyze());
+    expect(first.reused).toEqual([]);
+    expect(first.reparsed).toHaveLength(7);
+
+    const analysis = analyze();
+    const second = await parseRepositoryIncrementally('acme/shop', analysis);
+    // Endpoint and router files are reused too; their mounts are resolved from cached declarations
+    expect(second.reparsed).toEqual([]);
+    expect(second.reused).toHaveLength(7);
+    expect(second.parsed.frontendFiles.find((file) => file.path.endsWith('Users.tsx'))?.ast).toBeUndefined();
+
+    const cached = collectLineageArtifacts(analysis, second.parsed);
+    expect(cached).toEqual(collectLineageArtifacts(analysis));
+    expect(cached.endpoints.map((e) => `${e.method} ${e.path}`)).toEqual(['GET /api/users']);
+    // Models come from the cached outputs of server/models/user.js
+    expect(cached.tables.map((table) => [table.name, table.model])).toEqual([['users', 'User']]);
+  });
+
+  test('should re-parse changed files and the files importing them, directly or through re-exports', async () => {
+    await parseRepositoryIncrementally('acme/shop', analyze());
+
+    tempDir.write({ 'web/src/api.ts': "export const API_BASE = '/api/v2';" });
+    fs.rmSync(path.join(tempDir.path, 'web/src/Orders.tsx'));
+    const analysis = analyze();
+    const result = await parseRepositoryIncrementally('acme/shop', analysis);
+
+    expect(result.removed).toEqual(['web/src/Orders.tsx']);
+    expect(result.reused.sort()).toEqual(['server/app.js', 'server/models/user.js', 'server/routes.js']);
+    expect(result.reparsed.sort()).toEqual(['web/src/Users.tsx', 'web/src/api.ts', 'web/src/client.ts']);
+    expect(collectLineageArtifacts(analysis, result.parsed).apiCalls.map((call) => call.url)).toEqual([
+      '/api/v2/users',
+    ]);
+  });
+});
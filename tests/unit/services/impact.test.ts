@@ -0,0 +1,181 @@
+/**
+ * Unit tests for impact analysis against stored analysis results
+ */
+
+import { runImpactAnalysis } from '../../../src/services/impact';
+import { loadAnalysisResult } from '../../../src/services/persistence';
+import {
+  parseRepositoryFiles,
+  collectLineageArtifacts,
+  buildDependencyGraphs,
+  mergeDependencyGraphs,
+} from '../../../src/services/lineage';
+import { buildLineageGraph } from '../../../src/lineage/graph-builder';
+import { RepositoryFileAnalyzer } from '../../../src/github/file-analyzer';
+import { parseChangeRequest } from '../../../src/impact/change-parser';
+import type {
+  AnalysisResultRow,
+  CreateAnalysisResultInput,
+  CreateImpactAnalysisInput,
+} from '../../../src/database';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+
+// In-memory analysis_results and impact_analyses tables
+const mockRows = new Map<number, AnalysisResultRow>();
+const mockImpacts: CreateImpactAnalysisInput[] = [];
+
+jest.mock('../../../src/database', () => {
+  const toRow = (id: number, input: Partial<CreateAnalysisResultInput>, row?: AnalysisResultRow): AnalysisResultRow => ({
+    id,
+    repository: (input.repository ?? row?.repository)!,
+    repository_url: input.repositoryUrl ?? row?.repository_url ?? null,
+    tech_stack: input.techStack ?? row?.tech_stack ?? null,
+    assessment_result: input.assessmentResult ?? row?.assessment_result ?? null,
+    lineage_graph: input.lineageGraph ?? row?.lineage_graph ?? null,
+    analysis_artifacts: input.analysisArtifacts ?? row?.analysis_artifacts ?? null,
+    created_at: row?.created_at ?? new Date(0),
+    updated_at: new Date(0),
+    status: input.status ?? row?.status ?? 'completed',
+    error_message: input.errorMessage ?? row?.error_message ?? null,
+  });
+
+  return {
+    getAnalysisResultById: async (id: number) => mockRows.get(id) ?? null,
+    getAnalysisResultByRepository: async (repository: string) =>
+      [...mockRows.values()].reverse().find((row) => row.repository === repository) ?? null,
+    createAnalysisResult: async (input: CreateAnalysisResultInput) => {
+      const row = toRow(mockRows.size + 1, input);
+      mockRows.set(row.id, row);
+      return row;
+    },
+    updateAnalysisResult: async (id: number, updates: Partial<CreateAnalysisResultInput>) => {
+      const row = toRow(id, updates, mockRows.get(id));
+      mockRows.set(id, row);
+      return row;
+    },
+    createImpactAnalysis: async (input: CreateImpactAnalysisInput) => {
+      mockImpacts.push(input);
+      return { id: mockImpacts.length, ...input };
+    },
+  };
+});
+
+describe('Impact analysis service', () => {
+  let tempDir: string;
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-'));
+    process.env.DATABASE_ENABLED = 'true';
+    mockRows.clear();
+    mockImpacts.length = 0;
+
+    fs.mkdirSync(path.join(tempDir, 'server'));
+    fs.writeFileSync(
+      path.join(tempDir, 'server/routes.js'),
+      [
+        "const router = require('express').Router();",
+        "const { listUsers } = require('./users-repository');",
+        "router.get('/api/users', async (req, res) => res.json(await listUsers()));",
+        'module.exports = router;',
+      ].join('\n')
+    );
+    fs.writeFileSync(
+      path.join(tempDir, 'server/users-repository.js'),
+      "exports.listUsers = () => db.query('SELECT id, email FROM users');"
+    );
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const changeRequest = parseChangeRequest('Remove the GET /api/users endpoint');
+
+  const store = (row: Partial<AnalysisResultRow>): AnalysisResultRow => {
+    const id = mockRows.size + 1;
+    const stored = {
+      id,
+      repository: 'acme/shop',
+      repository_url: tempDir,
+      tech_stack: null,
+      assessment_result: null,
+      lineage_graph: null,
+      analysis_artifacts: null,
+      created_at: new Date(0),
+      updated_at: new Date(0),
+      status: 'completed',
+      error_message: null,
+      ...row,
+    };
+    mockRows.set(id, stored);
+    return stored;
+  };
+
+  test('should analyze against the stored graph and artifacts', async () => {
+    const analysis = {
+      repository: { name: 'shop' } as any,
+      localPath: tempDir,
+      ...new RepositoryFileAnalyzer().analyzeRepository(tempDir),
+    };
+    const parsed = parseRepositoryFiles(analysis);
+    const artifacts = collectLineageArtifacts(analysis, parsed);
+    const { frontend, backend } = buildDependencyGraphs(parsed, artifacts);
+    artifacts.dependencyGraph = mergeDependencyGraphs(frontend, backend);
+    store({ lineage_graph: buildLineageGraph(artifacts), analysis_artifacts: artifacts });
+    // The checkout is not needed when the graph is stored
+    fs.rmSync(tempDir, { recursive: true, force: true });
+
+    const result = await runImpactAnalysis({ analysisId: 1, changeRequest });
+
+    expect(result).toMatchObject({ analysisId: 1, impactId: 1, repository: 'acme/shop', source: 'stored' });
+    expect(result.impact.affectedNodes.length).toBeGreaterThan(0);
+    expect(mockImpacts[0].analysisResultId).toBe(1);
+
+    // The stored dependency graph leads from the changed module to the routes importing it
+    const { impact } = await runImpactAnalysis({
+      analysisId: 1,
+      changeRequest: { id: 'c-2', type: 'other', description: 'Paginate', targetFiles: ['server/users-repository.js'] },
+    });
+    expect(impact.affectedNodes.map((n) => n.nodeId)).toContain('endpoint:express-1');
+    expect(impact.affectedFiles).toContain(path.join(tempDir, 'server/routes.js'));
+  });
+
+  test('should rebuild missing artifacts into the requested analysis', async () => {
+    store({});
+    // A newer analysis of the same repository must not receive the rebuilt graph
+    store({ status: 'failed' });
+
+    const result = await runImpactAnalysis({ analysisId: 1, changeRequest });
+
+    expect(result).toMatchObject({ analysisId: 1, repository: 'acme/shop', source: 'rebuilt' });
+    expect(result.impact.affectedNodes.length).toBeGreaterThan(0);
+    const rebuilt = (await loadAnalysisResult({ analysisId: 1 }))?.analysis_artifacts;
+    expect(rebuilt?.endpoints).toHaveLength(1);
+    expect(rebuilt?.dependencyGraph?.edges.length).toBeGreaterThan(0);
+    expect((await loadAnalysisResult({ analysisId: 2 }))?.analysis_artifacts).toBeNull();
+  });
+
+  test('should reject unknown and malformed analysis ids', async () => {
+    await expect(runImpactAnalysis({ analysisId: 7, changeRequest })).rejects.toMatchObject({
+      statusCode: 404,
+      message: 'Analysis 7 not found',
+    });
+    // Also when the repository is given, rather than rebuilding into its latest analysis
+    store({});
+    await expect(runImpactAnalysis({ analysisId: 7, repository: tempDir, changeRequest })).rejects.toMatchObject({
+      statusCode: 404,
+    });
+    expect(mockRows.get(1)?.analysis_artifacts).toBeNull();
+    await expect(runImpactAnalysis({ analysisId: Number('abc'), changeRequest })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'analysisId must be a positive integer',
+    });
+    expect(mockImpacts).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the analysis pipeline
+ */
+
+import { runPipeline, DEFAULT_STAGES, PipelineStage } from '../../../src/services/pipeline';
+import { RepositoryFileAnalyzer } from '../../../src/github/file-analyzer';
+import { useTempDir } from '../../helpers/temp-dir';
+import * as path from 'path';
+
+describe('Analysis pipeline', () => {
+  const tempDir = useTempDir();
+
+  // Analyzes the temp directory instead of cloning from GitHub
+  const localStage: PipelineStage = {
+    name: 'clone',
+    required: true,
+    run: (context) => {
+      const files = new RepositoryFileAnalyzer().analyzeRepository(tempDir.path);
+      context.analysis = {
+        repository: { name: context.repository } as any,
+        localPath: tempDir.path,
+        ...files,
+      };
+    },
+  };
+  const withStages = (...overrides: PipelineStage[]) =>
+    DEFAULT_STAGES.map((stage) => overrides.find((override) => override.name === stage.name) || stage);
+
+  test('should run every stage and return a complete analysis result', async () => {
+    tempDir.write({
+      'package.json': JSON.stringify({ dependencies: { react: '^18.0.0', express: '^4.18.0' } }),
+      'db/migrations/001_init.sql': 'CREATE TABLE users (id SERIAL PRIMARY KEY, email VARCHAR(255));',
+      'server/routes.js': [
+        "const express = require('express');",
+        'const router = express.Router();',
+        '',
+        "router.get('/api/users', requireAuth, async (req, res) => {",
+        "  res.json(await db.query('SELECT id, email FROM users'));",
+        '});',
+        '',
+        'module.exports = router;',
+      ].join('\n'),
+      'web/src/Users.tsx': [
+        'export function Users() {',
+        "  fetch('/api/users').then((res) => res.json());",
+        '  return <div />;',
+        '}',
+      ].join('\n'),
+    });
+
+    const seen: string[] = [];
+    const result = await runPipeline('acme/shop', {
+      stages: withStages(localStage),
+      onStage: (stage) => seen.push(`${stage.name}:${stage.status}`),
+    });
+
+    expect(seen).toEqual([
+      'clone:completed',
+      'detect:completed',
+      'parse:completed',
+      'extract:completed',
+      'dependencies:completed',
+      'lineage:completed',
+      'assess:completed',
+      'persist:skipped',
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.frontend?.files.map((f) => path.relative(tempDir.path, f.path))).toEqual(['web/src/Users.tsx']);
+    expect(result.backend?.endpoints.map((e) => `${e.method} ${e.path}`)).toEqual(['GET /api/users']);
+    expect(result.backend?.middleware.map((m) => [m.name, m.appliedTo.length])).toEqual([['requireAuth', 1]]);
+    expect(result.backend?.dependencyGraph.nodes.some((node) => node.type === 'endpoint')).toBe(true);
+    expect(result.database?.usageMap.users).toMatchObject({ readOperations: 1, writeOperations: 0 });
+    expect(result.lineageGraph?.nodes.map((node) => node.type)).toEqual(
+      expect.arrayContaining(['api-call', 'endpoint', 'database-query', 'table'])
+    );
+    expect(result.assessment?.quality).toBeDefined();
+  });
+
+  test('should record failed stages, skip their dependents and abort on required stages', async () => {
+    tempDir.write({ 'server/index.js': "app.get('/health', (req, res) => res.send('ok'));" });
+
+    const brokenParse: PipelineStage = {
+      name: 'parse',
+      run: () => {
+        throw new Error('parser crashed');
+      },
+    };
+    const result = await runPipeline('acme/shop', { stages: withStages(localStage, brokenParse), assessment: false });
+
+    expect(result.stages?.map((stage) => [stage.name, stage.status])).toEqual([
+      ['clone', 'completed'],
+      ['detect', 'completed'],
+      ['parse', 'failed'],
+      ['extract', 'skipped'],
+      ['dependencies', 'skipped'],
+      ['lineage', 'skipped'],
+      ['assess', 'skipped'],
+      ['persist', 'skipped'],
+    ]);
+    expect(result.errors).toEqual([expect.objectContaining({ stage: 'parse', message: 'parser crashed' })]);
+    expect(result.techStack).toBeDefined();
+    expect(result.backend).toBeUndefined();
+
+    const brokenClone: PipelineStage = { ...localStage, run: () => Promise.reject(new Error('not found')) };
+    await expect(runPipeline('acme/shop', { stages: withStages(brokenClone) })).rejects.toThrow('not found');
+  });
+});